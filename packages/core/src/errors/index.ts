@@ -10,11 +10,15 @@ export type {
   ExecutionErrorOptions,
   ConfigurationErrorOptions,
   FileErrorOptions,
+  BudgetLimit,
+  ContextLimit,
 } from './types.js';
 
 export {
   AgtlantisError,
   ExecutionError,
+  BudgetExceededError,
+  ContextOverflowError,
   ConfigurationError,
   FileError,
 } from './types.js';
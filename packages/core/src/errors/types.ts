@@ -1,3 +1,4 @@
+import type { SessionSummary } from '../session/types.js';
 import { wrapAsError } from './utils.js';
 
 export enum ExecutionErrorCode {
@@ -5,6 +6,9 @@ export enum ExecutionErrorCode {
   STREAM_ERROR = 'STREAM_ERROR',
   RESULT_EXTRACTION_ERROR = 'RESULT_EXTRACTION_ERROR',
   CANCELLED = 'CANCELLED',
+  TIMEOUT = 'TIMEOUT',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
+  CONTEXT_OVERFLOW = 'CONTEXT_OVERFLOW',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
 }
 
@@ -83,7 +87,7 @@ export class AgtlantisError<TCode extends AgtlantisErrorCode = AgtlantisErrorCod
 }
 
 /**
- * Error thrown during agent execution (streaming failures, result extraction, cancellation).
+ * Error thrown during agent execution (streaming failures, result extraction, cancellation, timeouts).
  */
 export class ExecutionError extends AgtlantisError<ExecutionErrorCode> {
   constructor(message: string, options: ExecutionErrorOptions = {}) {
@@ -107,6 +111,73 @@ export class ExecutionError extends AgtlantisError<ExecutionErrorCode> {
   }
 }
 
+/** Budget limit that a {@link BudgetExceededError} reports as exceeded */
+export type BudgetLimit = 'maxCostUSD' | 'maxTokens' | 'maxLLMCalls';
+
+/**
+ * Error thrown when an LLM call is refused because it would exceed the session budget.
+ * Carries the session summary at the time the call was refused.
+ */
+export class BudgetExceededError extends ExecutionError {
+  readonly limit: BudgetLimit;
+  readonly summary: SessionSummary;
+
+  constructor(
+    message: string,
+    options: { limit: BudgetLimit; summary: SessionSummary; context?: Record<string, unknown> }
+  ) {
+    super(message, {
+      code: ExecutionErrorCode.BUDGET_EXCEEDED,
+      context: { limit: options.limit, ...options.context },
+    });
+    this.name = 'BudgetExceededError';
+    this.limit = options.limit;
+    this.summary = options.summary;
+  }
+}
+
+/** Model limit that a {@link ContextOverflowError} reports as exceeded */
+export type ContextLimit = 'contextWindow' | 'maxOutputTokens';
+
+/**
+ * Error thrown when a request would not fit the model's context window or output limit.
+ * Raised before the request is sent, from the session's estimate of its tokens.
+ */
+export class ContextOverflowError extends ExecutionError {
+  readonly limit: ContextLimit;
+  readonly model: string;
+  /** Estimated input plus reserved output tokens, or the requested output tokens */
+  readonly requestedTokens: number;
+  readonly maxTokens: number;
+
+  constructor(
+    message: string,
+    options: {
+      limit: ContextLimit;
+      model: string;
+      requestedTokens: number;
+      maxTokens: number;
+      context?: Record<string, unknown>;
+    }
+  ) {
+    super(message, {
+      code: ExecutionErrorCode.CONTEXT_OVERFLOW,
+      context: {
+        limit: options.limit,
+        model: options.model,
+        requestedTokens: options.requestedTokens,
+        maxTokens: options.maxTokens,
+        ...options.context,
+      },
+    });
+    this.name = 'ContextOverflowError';
+    this.limit = options.limit;
+    this.model = options.model;
+    this.requestedTokens = options.requestedTokens;
+    this.maxTokens = options.maxTokens;
+  }
+}
+
 /**
  * Error thrown when configuration is invalid or missing (API keys, model names).
  */
@@ -3,6 +3,7 @@ export type {
   ExecutionOptions,
   SimpleExecution,
   StreamingExecution,
+  StreamOptions,
   SessionStreamGeneratorFn,
   // Result types (Breaking Change)
   ExecutionStatus,
@@ -19,6 +20,8 @@ export type {
   CompletionEvent,
   ErrorEvent,
   ExtractResult,
+  // Tool approval
+  ApprovalRequiredEvent,
 } from './types.js';
 
 export { StreamingExecutionHost } from './streaming-host.js';
@@ -29,3 +32,5 @@ export { getDuration, combineSignals } from './utils.js';
 export { isAbortError, normalizeError, determineResultStatus, createHookRunner, type HookRunner } from './shared.js';
 
 export { mapExecution, mapExecutionResult, type ReplaceResult } from './mapping.js';
+
+export { toReadableStream, toSSEResponse, type SSEResponseOptions } from './web-stream.js';
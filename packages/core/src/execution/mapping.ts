@@ -7,6 +7,7 @@ import type {
     CompletionEvent,
     ErrorEvent,
     ExtractResult,
+    StreamOptions,
 } from './types.js';
 import { normalizeError } from './shared.js';
 
@@ -71,13 +72,15 @@ function mapStreamingExecution<TEvent extends { type: string }, UEvent extends {
     fn: (event: TEvent) => UEvent | Promise<UEvent>,
 ): StreamingExecution<UEvent> {
     return {
-        stream(): AsyncIterable<SessionEvent<UEvent | ErrorEvent>> {
-            const original = execution.stream();
+        stream(options?: StreamOptions<UEvent>): AsyncIterable<SessionEvent<UEvent | ErrorEvent>> {
+            // Events map one to one, so indexes carry over; types are filtered after mapping
+            const original = execution.stream({ fromIndex: options?.fromIndex });
+            const types = options?.types as readonly string[] | undefined;
             return {
                 [Symbol.asyncIterator](): AsyncIterator<SessionEvent<UEvent | ErrorEvent>> {
                     const iter = original[Symbol.asyncIterator]();
-                    return {
-                        async next() {
+                    const iterator = {
+                        async next(): Promise<IteratorResult<SessionEvent<UEvent | ErrorEvent>>> {
                             const { value, done } = await iter.next();
                             if (done) return { value: undefined, done: true };
 
@@ -103,6 +106,15 @@ function mapStreamingExecution<TEvent extends { type: string }, UEvent extends {
                             }
                         },
                     };
+                    return {
+                        async next() {
+                            let result = await iterator.next();
+                            while (!result.done && types && !types.includes(result.value.type)) {
+                                result = await iterator.next();
+                            }
+                            return result;
+                        },
+                    };
                 },
             };
         },
@@ -145,6 +157,8 @@ function mapStreamingExecution<TEvent extends { type: string }, UEvent extends {
             }
         },
 
+        approve: (toolCallId) => execution.approve(toolCallId),
+        reject: (toolCallId, reason) => execution.reject(toolCallId, reason),
         cancel: () => execution.cancel(),
         cleanup: () => execution.cleanup(),
         [Symbol.asyncDispose]: () => execution[Symbol.asyncDispose](),
@@ -162,8 +176,9 @@ function mapStreamingExecutionResult<TEvent extends { type: string }, U>(
     type OutEvent = ReplaceResult<TEvent, U>;
 
     return {
-        stream(): AsyncIterable<SessionEvent<OutEvent | ErrorEvent>> {
-            const original = execution.stream();
+        stream(options?: StreamOptions<OutEvent>): AsyncIterable<SessionEvent<OutEvent | ErrorEvent>> {
+            // Event types are unchanged, so the options apply to the original stream as they are
+            const original = execution.stream(options as StreamOptions<TEvent> | undefined);
             return {
                 [Symbol.asyncIterator](): AsyncIterator<SessionEvent<OutEvent | ErrorEvent>> {
                     const iter = original[Symbol.asyncIterator]();
@@ -230,6 +245,8 @@ function mapStreamingExecutionResult<TEvent extends { type: string }, U>(
             }
         },
 
+        approve: (toolCallId) => execution.approve(toolCallId),
+        reject: (toolCallId, reason) => execution.reject(toolCallId, reason),
         cancel: () => execution.cancel(),
         cleanup: () => execution.cleanup(),
         [Symbol.asyncDispose]: () => execution[Symbol.asyncDispose](),
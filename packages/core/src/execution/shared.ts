@@ -1,3 +1,9 @@
+import {
+  ConfigurationError,
+  ConfigurationErrorCode,
+  ExecutionError,
+  ExecutionErrorCode,
+} from '../errors/index.js';
 import type { ExecutionStatus } from './types.js';
 
 /**
@@ -125,3 +131,67 @@ export function createHookRunner(runHooks: () => Promise<void>): HookRunner {
     hasRun: () => ran,
   };
 }
+
+/**
+ * Execution-level timeout state used by execution hosts.
+ */
+export type ExecutionTimeout = {
+  /**
+   * Rejects with the timeout error when the timeout fires; never settles otherwise.
+   * Hosts race the user's code against it, so code that ignores the abort signal
+   * cannot keep the execution alive.
+   */
+  readonly expired: Promise<never>;
+  /** The timeout error, once the timeout has fired */
+  readonly error: ExecutionError | undefined;
+  /** Stops the timer */
+  clear: () => void;
+};
+
+/**
+ * Starts the execution timeout. When it fires, the controller is aborted with an
+ * ExecutionError (code TIMEOUT) as reason, so in-flight LLM calls are cancelled.
+ *
+ * @param timeoutMs - Timeout in milliseconds, or undefined for no timeout
+ * @param controller - The execution's internal AbortController
+ * @throws ConfigurationError if timeoutMs is not a positive number
+ */
+export function startExecutionTimeout(
+  timeoutMs: number | undefined,
+  controller: AbortController
+): ExecutionTimeout {
+  if (timeoutMs === undefined) {
+    return { expired: new Promise<never>(() => {}), error: undefined, clear: () => {} };
+  }
+
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new ConfigurationError('timeoutMs must be a positive number', {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      context: { timeoutMs },
+    });
+  }
+
+  let error: ExecutionError | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      error = new ExecutionError(`Execution timed out after ${timeoutMs}ms`, {
+        code: ExecutionErrorCode.TIMEOUT,
+        context: { timeoutMs },
+      });
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  // The host may not be awaiting it when the timer fires
+  expired.catch(() => {});
+
+  return {
+    expired,
+    get error() {
+      return error;
+    },
+    clear: () => clearTimeout(timer),
+  };
+}
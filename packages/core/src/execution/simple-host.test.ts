@@ -205,7 +205,7 @@ describe('SimpleExecutionHost', () => {
       expect(logger.onExecutionDone).not.toHaveBeenCalled();
     });
 
-    it('should NOT call onExecutionError for AbortError', async () => {
+    it('should call onExecutionCancel instead of onExecutionError for AbortError', async () => {
       const logger = createMockLogger();
       const fn = vi.fn().mockImplementation(async (session: SimpleSession) => {
         await new Promise((resolve, reject) => {
@@ -238,6 +238,13 @@ describe('SimpleExecutionHost', () => {
       expect(logger.onExecutionStart).toHaveBeenCalledTimes(1);
       expect(logger.onExecutionError).not.toHaveBeenCalled();
       expect(logger.onExecutionDone).not.toHaveBeenCalled();
+      expect(logger.onExecutionCancel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'execution_cancel',
+          duration: expect.any(Number),
+          summary: expect.any(SessionSummary),
+        })
+      );
     });
 
     it('should include duration in onExecutionDone event', async () => {
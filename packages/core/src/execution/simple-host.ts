@@ -2,7 +2,13 @@ import { SessionSummary } from '../session/types.js';
 import type { SimpleSession } from '../session/simple-session.js';
 import type { SimpleExecution, SimpleResult } from './types.js';
 import { combineSignals } from './utils.js';
-import { isAbortError, normalizeError, createHookRunner } from './shared.js';
+import {
+  isAbortError,
+  normalizeError,
+  createHookRunner,
+  startExecutionTimeout,
+  type ExecutionTimeout,
+} from './shared.js';
 
 /**
  * Internal result structure for tracking execution outcome.
@@ -22,6 +28,8 @@ type InternalResult<T> =
  * - If userSignal is provided, it's combined with internal AbortController
  * - Both cancel() and userSignal abort will trigger cancellation
  * - The combined signal is passed to SimpleSession for AI SDK calls
+ * - If timeoutMs is provided, the internal controller is aborted when it elapses
+ *   and the result is `failed` with an ExecutionError (code TIMEOUT)
  *
  * @example
  * ```typescript
@@ -40,6 +48,7 @@ type InternalResult<T> =
 export class SimpleExecutionHost<TResult> implements SimpleExecution<TResult> {
   private readonly abortController = new AbortController();
   private readonly effectiveSignal: AbortSignal;
+  private readonly timeout: ExecutionTimeout;
   private readonly consumerPromise: Promise<InternalResult<TResult>>;
   private cachedSession?: SimpleSession;
   private readonly startTime = Date.now();
@@ -48,8 +57,11 @@ export class SimpleExecutionHost<TResult> implements SimpleExecution<TResult> {
   constructor(
     createSession: (signal?: AbortSignal) => SimpleSession,
     fn: (session: SimpleSession) => Promise<TResult>,
-    userSignal?: AbortSignal
+    userSignal?: AbortSignal,
+    timeoutMs?: number
   ) {
+    this.timeout = startExecutionTimeout(timeoutMs, this.abortController);
+
     // Combine user signal with internal controller for dual cancellation support
     this.effectiveSignal = userSignal
       ? combineSignals(userSignal, this.abortController.signal)
@@ -71,7 +83,8 @@ export class SimpleExecutionHost<TResult> implements SimpleExecution<TResult> {
     session.notifyExecutionStart();
 
     try {
-      const result = await fn(session);
+      const result = await Promise.race([fn(session), this.timeout.expired]);
+      this.timeout.clear();
 
       // Notify execution done
       await session.notifyExecutionDone(result, this.startTime);
@@ -82,11 +95,16 @@ export class SimpleExecutionHost<TResult> implements SimpleExecution<TResult> {
         summary: await session.getSummary(),
       };
     } catch (error) {
-      const errorObj = normalizeError(error);
-      const isCancellation = isAbortError(error, this.abortController.signal);
-
-      // Notify execution error (AbortError excluded - treated as normal cancellation)
-      if (!isCancellation) {
+      this.timeout.clear();
+      // A timeout aborts the controller too, but is reported as a failure
+      const timeoutError = this.timeout.error;
+      const errorObj = timeoutError ?? normalizeError(error);
+      const isCancellation = !timeoutError && isAbortError(error, this.abortController.signal);
+
+      // AbortError is reported as a cancellation rather than an error
+      if (isCancellation) {
+        await session.notifyExecutionCancel(this.startTime);
+      } else {
         await session.notifyExecutionError(errorObj, this.startTime);
       }
 
@@ -108,6 +126,7 @@ export class SimpleExecutionHost<TResult> implements SimpleExecution<TResult> {
    */
   cancel(): void {
     this.cancelRequested = true;
+    this.timeout.clear();
     this.abortController.abort();
   }
 
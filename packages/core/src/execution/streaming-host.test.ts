@@ -16,6 +16,7 @@ import {
   collectStreamAsync,
   createNeverEndingGenerator,
 } from './testing/fixtures.js';
+import { createMockLogger } from './testing/vitest-assertions.js';
 
 vi.mock('ai', () => ({
   generateText: vi.fn(),
@@ -192,6 +193,50 @@ describe('StreamingExecutionHost', () => {
       expect(events2).toHaveLength(3);
       expect(events1.map((e) => e.type)).toEqual(events2.map((e) => e.type));
     });
+
+    it('should start from fromIndex and filter by types', async () => {
+      const generator: SessionStreamGeneratorFn<TestEvent> = async function* (
+        session
+      ) {
+        yield session.emit({ type: 'a' });
+        yield session.emit({ type: 'b' });
+        yield session.emit({ type: 'a', message: 'again' });
+        return session.done('result');
+      };
+
+      const execution = new StreamingExecutionHost(createStreamingSessionFactory(), generator);
+      await execution.result();
+
+      const fromSecond = await collectEvents(execution.stream({ fromIndex: 1 }));
+      const onlyA = await collectEvents(execution.stream({ types: ['a'] }));
+      const past = await collectEvents(execution.stream({ fromIndex: 10 }));
+
+      expect(fromSecond.map((e) => e.type)).toEqual(['b', 'a', 'complete']);
+      expect(onlyA).toMatchObject([{ type: 'a' }, { type: 'a', message: 'again' }]);
+      expect(past).toEqual([]);
+    });
+
+    it('should let a late subscriber resume from an offset while running', async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const generator: SessionStreamGeneratorFn<TestEvent> = async function* (
+        session
+      ) {
+        yield session.emit({ type: 'a' });
+        yield session.emit({ type: 'b' });
+        await gate;
+        yield session.emit({ type: 'c' });
+        return session.done('result');
+      };
+
+      const execution = new StreamingExecutionHost(createStreamingSessionFactory(), generator);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const late = collectEvents(execution.stream({ fromIndex: 2 }));
+      release();
+
+      expect((await late).map((e) => e.type)).toEqual(['c', 'complete']);
+    });
   });
 
   describe('result()', () => {
@@ -373,6 +418,28 @@ describe('StreamingExecutionHost', () => {
       expect(result.events.some((e) => e.type === 'error')).toBe(false);
     });
 
+    it('should notify onExecutionCancel instead of onExecutionError', async () => {
+      const logger = createMockLogger();
+      const generator: SessionStreamGeneratorFn<TestEvent> = async function* (
+        session
+      ) {
+        yield session.emit({ type: 'progress' });
+        throw new DOMException('Aborted', 'AbortError');
+      };
+
+      const execution = new StreamingExecutionHost(
+        createStreamingSessionFactory({ logger }),
+        generator
+      );
+      await execution.result();
+
+      expect(logger.onExecutionCancel).toHaveBeenCalledTimes(1);
+      expect(logger.onExecutionCancel).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'execution_cancel', duration: expect.any(Number) })
+      );
+      expect(logger.onExecutionError).not.toHaveBeenCalled();
+    });
+
     it('should distinguish AbortError from other errors', async () => {
       const generator: SessionStreamGeneratorFn<TestEvent> = async function* (
         session
@@ -1,9 +1,26 @@
+import { ExecutionError, ExecutionErrorCode } from '../errors/index.js';
+import type { CheckpointStore } from '../session/checkpoint.js';
 import { SessionSummary } from '../session/types.js';
 import type { StreamingSession } from '../session/streaming-session.js';
-import type { ErrorEvent, ExtractResult, SessionEvent, SessionStreamGeneratorFn, StreamingExecution, StreamingResult } from './types.js';
+import type {
+    ErrorEvent,
+    ExtractResult,
+    SessionEvent,
+    SessionStreamGeneratorFn,
+    StreamingExecution,
+    StreamingResult,
+    StreamOptions,
+} from './types.js';
 import { ERRORS } from './constants.js';
 import { combineSignals, Deferred } from './utils.js';
-import { isAbortError, normalizeError, createHookRunner, type HookRunner } from './shared.js';
+import {
+    isAbortError,
+    normalizeError,
+    createHookRunner,
+    startExecutionTimeout,
+    type ExecutionTimeout,
+    type HookRunner,
+} from './shared.js';
 
 /**
  * Internal result structure for tracking streaming execution outcome.
@@ -12,6 +29,16 @@ type InternalStreamingResult<T> =
     | { success: true; result: T; summary: SessionSummary }
     | { success: false; error: Error; aborted: boolean; summary: SessionSummary };
 
+/**
+ * Where a checkpointed execution saves its progress.
+ */
+export interface StreamingCheckpointOptions {
+    store: CheckpointStore;
+    id: string;
+    /** Continue from the checkpoint saved under `id` instead of starting over */
+    resume?: boolean;
+}
+
 /**
  * Streaming execution host that uses StreamingSession.
  * Starts execution eagerly on construction - events are buffered automatically.
@@ -54,13 +81,18 @@ export class StreamingExecutionHost<
 > implements StreamingExecution<TEvent> {
     private readonly abortController = new AbortController();
     private readonly effectiveSignal: AbortSignal;
+    private readonly timeout: ExecutionTimeout;
     private readonly consumerPromise: Promise<InternalStreamingResult<ExtractResult<TEvent>>>;
     private readonly eventBuffer: SessionEvent<TEvent>[] = [];
     private readonly subscribers = new Set<(event: SessionEvent<TEvent>) => void>();
     private completed = false;
+    private readonly completion = new Deferred<void>();
     private cleaned = false;
     private hookRunner: HookRunner | null = null;
     private cancelRequested = false;
+    private session: StreamingSession<TEvent> | null = null;
+    /** Checkpoint saves run one at a time, in order */
+    private checkpointWrites: Promise<void> = Promise.resolve();
 
     private extractedOutcome:
         | { type: 'result'; value: ExtractResult<TEvent> }
@@ -71,8 +103,12 @@ export class StreamingExecutionHost<
     constructor(
         private readonly createSession: (signal?: AbortSignal) => StreamingSession<TEvent>,
         private readonly generator: SessionStreamGeneratorFn<TEvent>,
-        userSignal?: AbortSignal
+        userSignal?: AbortSignal,
+        timeoutMs?: number,
+        private readonly checkpoint?: StreamingCheckpointOptions
     ) {
+        this.timeout = startExecutionTimeout(timeoutMs, this.abortController);
+
         // Combine user signal with internal controller for dual cancellation support
         this.effectiveSignal = userSignal
             ? combineSignals(userSignal, this.abortController.signal)
@@ -117,14 +153,77 @@ export class StreamingExecutionHost<
         this.subscribers.forEach(fn => fn(event));
     }
 
+    private isTerminal(event: SessionEvent<TEvent>): boolean {
+        return event.type === 'complete' || event.type === 'error';
+    }
+
+    /**
+     * Loads the checkpoint to resume (if any), replays its events and hands its summary
+     * and step state to the session, which saves later checkpoint() calls through this host.
+     */
+    private async attachCheckpoint(session: StreamingSession<TEvent>): Promise<void> {
+        const { store, id, resume } = this.checkpoint!;
+        const handler = () => this.saveCheckpoint(session);
+        if (!resume) {
+            session.attachCheckpoint(handler);
+            return;
+        }
+
+        const saved = await store.load(id);
+        if (!saved) {
+            throw new ExecutionError(`No checkpoint found for execution '${id}'`, {
+                code: ExecutionErrorCode.EXECUTION_ERROR,
+                context: { checkpointId: id },
+            });
+        }
+        session.attachCheckpoint(handler, {
+            summary: SessionSummary.fromJSON(saved.summary),
+            steps: saved.steps,
+        });
+        for (const event of saved.events as SessionEvent<TEvent>[]) {
+            this.eventBuffer.push(event);
+            this.notifySubscribers(event);
+        }
+    }
+
+    /** Saves the events, summary and step state so far */
+    private saveCheckpoint(session: StreamingSession<TEvent>): Promise<void> {
+        const { store, id } = this.checkpoint!;
+        const write = this.checkpointWrites.then(async () => {
+            const summary = await session.getSummary();
+            await store.save(id, {
+                events: this.eventBuffer.filter((event) => !this.isTerminal(event)),
+                summary: summary.toJSON(),
+                steps: session.getCheckpointSteps(),
+                savedAt: Date.now(),
+            });
+        });
+        this.checkpointWrites = write.catch(() => {});
+        return write;
+    }
+
     private async startConsuming(): Promise<InternalStreamingResult<ExtractResult<TEvent>>> {
         // Pass the effective signal to session for AI SDK cancellation
         const session = this.createSession(this.effectiveSignal);
+        this.session = session;
+        // Events emitted while the generator awaits an LLM call (tool approval requests)
+        session.setEventSink((event) => {
+            this.eventBuffer.push(event);
+            this.notifySubscribers(event);
+            if (this.checkpoint) {
+                // A failed save is retried by the save after the generator's next event
+                this.saveCheckpoint(session).catch(() => {});
+            }
+        });
         this.hookRunner = createHookRunner(() => session.runOnDoneHooks());
         const gen = this.generator(session);
 
         try {
-            let next = await gen.next();
+            if (this.checkpoint) {
+                await this.attachCheckpoint(session);
+            }
+
+            let next = await Promise.race([gen.next(), this.timeout.expired]);
 
             while (!next.done) {
                 // Buffer and notify
@@ -132,40 +231,62 @@ export class StreamingExecutionHost<
                 this.notifySubscribers(next.value);
 
                 // Auto-abort after terminal events to prevent further AI calls
-                const isTerminal = next.value.type === 'complete' || next.value.type === 'error';
-                if (isTerminal) {
+                if (this.isTerminal(next.value)) {
                     this.extractResultAndMetadata(next.value);
+                    this.timeout.clear();
                     this.abortController.abort();
                     break;
                 }
 
+                if (this.checkpoint) {
+                    await this.saveCheckpoint(session);
+                }
+
                 if (this.abortController.signal.aborted) {
+                    if (this.timeout.error) {
+                        throw this.timeout.error;
+                    }
                     break;
                 }
 
-                next = await gen.next();
+                next = await Promise.race([gen.next(), this.timeout.expired]);
             }
 
             // Handle return value from generator
             if (next.done && next.value !== undefined) {
-                const finalEvent = await Promise.resolve(next.value);
+                const finalEvent = await Promise.race([Promise.resolve(next.value), this.timeout.expired]);
                 this.eventBuffer.push(finalEvent);
                 this.notifySubscribers(finalEvent);
                 this.extractResultAndMetadata(finalEvent);
 
                 // Auto-abort after terminal event from return statement
-                const isTerminal = finalEvent.type === 'complete' || finalEvent.type === 'error';
-                if (isTerminal) {
+                if (this.isTerminal(finalEvent)) {
+                    this.timeout.clear();
                     this.abortController.abort();
                 }
             }
 
-            return this.buildResult(session);
+            if (this.checkpoint && this.extractedOutcome?.type === 'result') {
+                await this.checkpointWrites;
+                // A finished execution is not resumed; a checkpoint that fails to delete is only
+                // left behind, which must not fail the execution
+                await this.checkpoint.store.delete(this.checkpoint.id).catch(() => {});
+            }
+
+            const result = await this.buildResult(session);
+            if (!result.success && result.aborted) {
+                await session.notifyExecutionCancel();
+            }
+            return result;
         } catch (error) {
-            const errorObj = normalizeError(error);
+            this.timeout.clear();
+            // A timeout aborts the controller too, but is reported as a failure
+            const timeoutError = this.timeout.error;
+            const errorObj = timeoutError ?? normalizeError(error);
 
             // AbortError is treated as normal cancellation
-            if (isAbortError(error, this.abortController.signal)) {
+            if (!timeoutError && isAbortError(error, this.abortController.signal)) {
+                await session.notifyExecutionCancel();
                 return {
                     success: false,
                     aborted: true,
@@ -185,13 +306,21 @@ export class StreamingExecutionHost<
 
             return this.buildResult(session);
         } finally {
+            this.timeout.clear();
             this.completed = true;
+            // Wake stream() consumers waiting for an event that will never come
+            this.completion.resolve();
             // Note: Don't clear subscribers here - each stream() consumer
             // cleans up its own subscriber in its finally block to avoid orphaning
 
             await this.hookRunner?.ensureRun();
 
-            await gen.return(undefined);
+            if (this.timeout.error) {
+                // The generator may still be stuck in an await; don't wait for it
+                gen.return(undefined).catch(() => {});
+            } else {
+                await gen.return(undefined);
+            }
         }
     }
 
@@ -229,35 +358,26 @@ export class StreamingExecutionHost<
      * Get the event stream.
      * Returns buffered events first, then real-time events.
      * Can be called multiple times - replays buffer each time.
+     * Events are read from the buffer by index, so every consumer sees the same numbering.
      */
-    async *stream(): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
-        // 1. Yield buffered events first
-        let index = 0;
-        while (index < this.eventBuffer.length) {
-            yield this.eventBuffer[index++];
-        }
+    async *stream(options: StreamOptions<TEvent> = {}): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        const { fromIndex = 0, types } = options;
+        let index = Math.max(0, fromIndex);
 
-        // 2. If completed, we're done
-        if (this.completed) {
-            return;
-        }
-
-        // 3. Subscribe for real-time events using Deferred for clean async coordination
-        const queue: SessionEvent<TEvent>[] = [];
+        // Subscribers only wake consumers up; events are always read from the buffer
         let pending = new Deferred<void>();
-
-        const subscriber = (event: SessionEvent<TEvent>) => {
-            queue.push(event);
-            pending.resolve();
-        };
+        const subscriber = () => pending.resolve();
         this.subscribers.add(subscriber);
 
         try {
-            while (!this.completed || queue.length > 0) {
-                if (queue.length > 0) {
-                    yield queue.shift()!;
-                } else if (!this.completed) {
-                    await pending.promise;
+            while (index < this.eventBuffer.length || !this.completed) {
+                if (index < this.eventBuffer.length) {
+                    const event = this.eventBuffer[index++];
+                    if (!types || (types as readonly string[]).includes(event.type)) {
+                        yield event;
+                    }
+                } else {
+                    await Promise.race([pending.promise, this.completion.promise]);
                     pending = new Deferred<void>(); // Reset for next wait
                 }
             }
@@ -266,8 +386,17 @@ export class StreamingExecutionHost<
         }
     }
 
+    approve(toolCallId: string): boolean {
+        return this.session?.approveToolCall(toolCallId) ?? false;
+    }
+
+    reject(toolCallId: string, reason?: string): boolean {
+        return this.session?.rejectToolCall(toolCallId, reason) ?? false;
+    }
+
     cancel(): void {
         this.cancelRequested = true;
+        this.timeout.clear();
         this.abortController.abort();
     }
 
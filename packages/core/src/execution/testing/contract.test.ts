@@ -7,6 +7,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createAbortScenario, createAlreadyAbortedSignal } from './helpers.js';
 import { allHostConfigs, type ExecutionHostTestConfig } from './host-configs.js';
+import { ConfigurationError, ExecutionError, ExecutionErrorCode } from '../../errors/index.js';
 
 vi.mock('ai', () => ({
   generateText: vi.fn(),
@@ -229,7 +230,66 @@ export function createExecutionHostContractTests(
     // result() idempotency tests
     // ========================================================================
 
-    describe('result() idempotency', () => {
+    describe('timeoutMs', () => {
+      it('should fail with a TIMEOUT ExecutionError when the workload hangs', async () => {
+        const factory = config.createSessionFactory();
+        const execution = config.createHost(factory, config.createHangingWorkload(), undefined, 20);
+
+        const result = await execution.result();
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toBeInstanceOf(ExecutionError);
+        expect((result.error as ExecutionError).code).toBe(ExecutionErrorCode.TIMEOUT);
+        expect((result.error as ExecutionError).message).toBe('Execution timed out after 20ms');
+      });
+
+      it('should abort the session signal with the timeout error', async () => {
+        const { factory, getPassedSignal } = config.createSessionFactorySpy();
+        const execution = config.createHost(factory, config.createHangingWorkload(), undefined, 20);
+
+        await execution.result();
+
+        expect(getPassedSignal()?.aborted).toBe(true);
+        expect(getPassedSignal()?.reason).toMatchObject({ code: ExecutionErrorCode.TIMEOUT });
+      });
+
+      it('should not affect executions that finish in time', async () => {
+        const factory = config.createSessionFactory();
+        const execution = config.createHost(
+          factory,
+          config.createSuccessWorkload('result'),
+          undefined,
+          1000
+        );
+
+        const result = await execution.result();
+
+        expect(result.status).toBe('succeeded');
+      });
+
+      it('should report canceled when cancel() happens before the timeout', async () => {
+        const abortScenario = createAbortScenario();
+        const workload = config.createCancelableWorkload(abortScenario);
+        const factory = config.createSessionFactory();
+        const execution = config.createHost(factory, workload, abortScenario.signal, 1000);
+
+        abortScenario.abort();
+        execution.cancel();
+
+        const result = await execution.result();
+        expect(result.status).toBe('canceled');
+      });
+
+      it.each([0, -1, Number.NaN])('should reject timeoutMs %s', (timeoutMs) => {
+        const factory = config.createSessionFactory();
+
+        expect(() =>
+          config.createHost(factory, config.createSuccessWorkload('result'), undefined, timeoutMs)
+        ).toThrow(ConfigurationError);
+      });
+    });
+
+        describe('result() idempotency', () => {
       it('should return deeply equal results on multiple calls', async () => {
         const workload = config.createSuccessWorkload('result');
         const factory = config.createSessionFactory();
@@ -113,6 +113,7 @@ export function createMockLogger(options: CreateMockLoggerOptions = {}): Logger
     onExecutionEmit: mockFn(),
     onExecutionDone: mockFn(),
     onExecutionError: mockFn(),
+    onExecutionCancel: mockFn(),
   };
 }
 
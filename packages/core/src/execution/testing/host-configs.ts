@@ -46,11 +46,12 @@ export interface ExecutionHostTestConfig<TResult = string> {
   /** Name of the host for test descriptions */
   name: 'SimpleExecutionHost' | 'StreamingExecutionHost';
 
-  /** Create a host with given factory, workload, and optional signal */
+  /** Create a host with given factory, workload, and optional signal and timeout */
   createHost: (
     factory: SimpleSessionFactory | StreamingSessionFactory,
     workload: SimpleWorkload | StreamingWorkload,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    timeoutMs?: number
   ) => ExecutionHost<TResult>;
 
   /** Create a session factory with optional logger */
@@ -74,6 +75,9 @@ export interface ExecutionHostTestConfig<TResult = string> {
     onCancel?: () => void
   ) => SimpleWorkload | StreamingWorkload;
 
+  /** Create a workload that never settles and ignores the abort signal */
+  createHangingWorkload: () => SimpleWorkload | StreamingWorkload;
+
   /** Create a workload that registers onDone hooks */
   createHookWorkload: (
     hook: () => void,
@@ -88,11 +92,12 @@ export interface ExecutionHostTestConfig<TResult = string> {
 export const simpleHostConfig: ExecutionHostTestConfig<string> = {
   name: 'SimpleExecutionHost',
 
-  createHost(factory, workload, signal?) {
+  createHost(factory, workload, signal?, timeoutMs?) {
     return new SimpleExecutionHost(
       factory as SimpleSessionFactory,
       workload as SimpleWorkload,
-      signal
+      signal,
+      timeoutMs
     );
   },
 
@@ -150,6 +155,10 @@ export const simpleHostConfig: ExecutionHostTestConfig<string> = {
     };
   },
 
+  createHangingWorkload() {
+    return () => new Promise<never>(() => {});
+  },
+
   createHookWorkload(hook: () => void, options?: { shouldFail?: boolean }) {
     return async (session: SimpleSession) => {
       session.onDone(hook);
@@ -168,11 +177,12 @@ export const simpleHostConfig: ExecutionHostTestConfig<string> = {
 export const streamingHostConfig: ExecutionHostTestConfig<string> = {
   name: 'StreamingExecutionHost',
 
-  createHost(factory, workload, signal?) {
+  createHost(factory, workload, signal?, timeoutMs?) {
     return new StreamingExecutionHost(
       factory as StreamingSessionFactory,
       workload as StreamingWorkload,
-      signal
+      signal,
+      timeoutMs
     );
   },
 
@@ -237,6 +247,14 @@ export const streamingHostConfig: ExecutionHostTestConfig<string> = {
     };
   },
 
+  createHangingWorkload() {
+    return async function* (session: StreamingSession<TestEvent>) {
+      yield session.emit({ type: 'start' });
+      await new Promise<never>(() => {});
+      return session.done('should-not-reach');
+    };
+  },
+
   createHookWorkload(hook: () => void, options?: { shouldFail?: boolean }) {
     return async function* (session: StreamingSession<TestEvent>) {
       session.onDone(hook);
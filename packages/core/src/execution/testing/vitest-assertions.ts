@@ -18,6 +18,7 @@ export type MockLogger = Logger & {
   onExecutionEmit: ReturnType<typeof vi.fn>;
   onExecutionDone: ReturnType<typeof vi.fn>;
   onExecutionError: ReturnType<typeof vi.fn>;
+  onExecutionCancel: ReturnType<typeof vi.fn>;
 };
 
 // ============================================================================
@@ -168,6 +169,7 @@ export function createVitestMockLogger(): MockLogger {
     onExecutionEmit: vi.fn(),
     onExecutionDone: vi.fn(),
     onExecutionError: vi.fn(),
+    onExecutionCancel: vi.fn(),
   } as MockLogger;
 }
 
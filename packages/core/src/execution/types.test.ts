@@ -131,6 +131,8 @@ describe('Agent Types', () => {
                     summary: mockSummary,
                     events,
                 } satisfies StreamingResult<SessionEvent<TestStreamEvent | ErrorEvent>, string>),
+                approve: () => false,
+                reject: () => false,
                 cancel: () => {},
                 cleanup: async () => {},
                 [Symbol.asyncDispose]: async () => {},
@@ -174,6 +176,8 @@ describe('Agent Types', () => {
                     summary: mockSummary,
                     events,
                 }),
+                approve: () => false,
+                reject: () => false,
                 cancel: () => {},
                 cleanup: async () => {},
                 [Symbol.asyncDispose]: async () => {},
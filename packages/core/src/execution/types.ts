@@ -3,7 +3,13 @@
  * Provides abstractions for streaming and non-streaming agent execution.
  */
 import type { EventMetrics } from '../observability/index.js';
-import type { SessionSummary, StreamingSession } from '../session/index.js';
+import type {
+    Budget,
+    ConversationMemory,
+    CostAttribution,
+    SessionSummary,
+    StreamingSession,
+} from '../session/index.js';
 
 // ============================================================================
 // Type Helpers
@@ -145,6 +151,33 @@ export type ErrorEvent = {
     data?: unknown;
 };
 
+/**
+ * Event emitted when a tool with `requiresApproval` in the tool policy is called.
+ * The tool waits until `execution.approve()` or `execution.reject()` is called with its
+ * `toolCallId`. Add it to your event union to handle it in stream().
+ *
+ * @example
+ * ```typescript
+ * type MyEvent = ApprovalRequiredEvent | CompletionEvent<string>;
+ *
+ * for await (const event of execution.stream()) {
+ *   if (event.type === 'approval_required') {
+ *     const ok = await askUser(`Run ${event.toolName}?`, event.args);
+ *     ok ? execution.approve(event.toolCallId) : execution.reject(event.toolCallId, 'Declined');
+ *   }
+ * }
+ * ```
+ */
+export type ApprovalRequiredEvent = {
+    type: 'approval_required';
+    toolName: string;
+    toolCallId: string;
+    /** Arguments the model called the tool with, not redacted */
+    args: unknown;
+    /** When the request times out (ms since epoch), if the tool policy sets `approvalTimeout` */
+    expiresAt?: number;
+};
+
 /**
  * Extract the result type from an event union containing CompletionEvent<T>.
  * Returns `never` if no CompletionEvent member exists (making session.done() uncallable).
@@ -186,6 +219,91 @@ export interface ExecutionOptions {
      * ```
      */
     signal?: AbortSignal;
+
+    /**
+     * Maximum execution time in milliseconds.
+     * When exceeded, the execution is aborted and its result is `failed` with an
+     * `ExecutionError` whose code is `TIMEOUT` (unlike `cancel()`, which yields `canceled`).
+     *
+     * @example
+     * ```typescript
+     * const execution = provider.simpleExecution(fn, { timeoutMs: 30_000 });
+     * const result = await execution.result();
+     *
+     * if (result.status === 'failed' && result.error instanceof ExecutionError &&
+     *     result.error.code === ExecutionErrorCode.TIMEOUT) {
+     *   // took longer than 30s
+     * }
+     * ```
+     */
+    timeoutMs?: number;
+
+    /**
+     * Budget for this execution, overriding the provider's `withBudget()` limits
+     * one by one. Calls over budget throw `BudgetExceededError`.
+     *
+     * @example
+     * ```typescript
+     * const execution = provider
+     *   .withBudget({ maxCostUSD: 1 })
+     *   .simpleExecution(fn, { budget: { maxLLMCalls: 5 } }); // $1 and 5 calls
+     * ```
+     */
+    budget?: Budget;
+    /**
+     * Conversation the execution's LLM calls continue. Its messages are sent before each
+     * call's own, and each call's input and response messages are appended to it.
+     *
+     * @example
+     * ```typescript
+     * const memory = new WindowedConversationMemory({ store, conversationId: chatId });
+     * const execution = provider.simpleExecution(
+     *   (session) => session.generateText({ prompt: userMessage }),
+     *   { memory }
+     * );
+     * ```
+     */
+    memory?: ConversationMemory;
+    /**
+     * Tags stamped onto every `LLMCallRecord` and `AdditionalCost` of the execution,
+     * for reporting costs per feature, customer, agent, etc. (see `CostLedger`).
+     *
+     * @example
+     * ```typescript
+     * const execution = provider.simpleExecution(fn, {
+     *   attribution: { feature: 'search', customer: 'acme', agent: 'planner' },
+     * });
+     * ```
+     */
+    attribution?: CostAttribution;
+    /**
+     * Checkpoints a streaming execution under this ID: its events, summary and step state
+     * (`session.checkpoint()`) are saved to the provider's checkpoint store after every event,
+     * so `provider.resumeStreamingExecution(checkpointId, generator)` can continue it.
+     * The checkpoint is deleted once the execution succeeds. Ignored by simple executions.
+     *
+     * @example
+     * ```typescript
+     * const execution = provider
+     *   .withCheckpointStore(new FileCheckpointStore({ directory: '.checkpoints' }))
+     *   .streamingExecution(generator, { checkpointId: `report-${reportId}` });
+     * ```
+     */
+    checkpointId?: string;
+    /**
+     * `executionId` of the execution this one runs as a child of, whose summary will
+     * include this one's (see `session.recordChildSummary()`). Set on the execution's
+     * logger events so that loggers summing summaries, like `CostLedger`, skip it.
+     *
+     * @example
+     * ```typescript
+     * const child = await provider
+     *   .simpleExecution(step, { parentExecutionId: session.executionId })
+     *   .result();
+     * session.recordChildSummary(child.summary);
+     * ```
+     */
+    parentExecutionId?: string;
 }
 
 // ============================================================================
@@ -384,6 +502,18 @@ export interface SimpleExecution<TResult> extends Execution<TResult> {
     result(): Promise<SimpleResult<TResult>>;
 }
 
+/**
+ * Options for StreamingExecution.stream().
+ * Events are numbered from 0 in the order they were emitted; the numbers are stable
+ * across stream() calls, so they can serve as event IDs (see `toSSEResponse()`).
+ */
+export interface StreamOptions<TEvent extends { type: string }> {
+    /** Number of the first event to yield; earlier events are skipped. @default 0 */
+    fromIndex?: number;
+    /** Only yield events of these types */
+    types?: ReadonlyArray<(TEvent | ErrorEvent)['type']>;
+}
+
 /**
  * Represents a streaming execution that emits events as they occur.
  * TEvent is the user's pure domain event type (without metrics).
@@ -399,6 +529,8 @@ export interface StreamingExecution<TEvent extends { type: string }> extends Exe
      *
      * Can be called multiple times - each call replays buffered events.
      * After execution completes, replays all events from buffer.
+     * Pass `fromIndex` to start from a given event (e.g. after a reconnect) and `types`
+     * to receive only some event types.
      *
      * @example
      * ```typescript
@@ -412,9 +544,12 @@ export interface StreamingExecution<TEvent extends { type: string }> extends Exe
      *   // event is SessionEvent<MyEvent | ErrorEvent>
      *   console.log(`[${event.metrics.elapsedMs}ms] ${event.type}`);
      * }
+     *
+     * // Late subscriber: progress events from the 11th event on
+     * for await (const event of execution.stream({ fromIndex: 10, types: ['progress'] })) { ... }
      * ```
      */
-    stream(): AsyncIterable<SessionEvent<TEvent | ErrorEvent>>;
+    stream(options?: StreamOptions<TEvent>): AsyncIterable<SessionEvent<TEvent | ErrorEvent>>;
 
     /**
      * Get the execution result with status, summary, and all events.
@@ -434,6 +569,19 @@ export interface StreamingExecution<TEvent extends { type: string }> extends Exe
      * ```
      */
     result(): Promise<StreamingResult<SessionEvent<TEvent | ErrorEvent>, ExtractResult<TEvent>>>;
+
+    /**
+     * Approve a tool execution announced by an {@link ApprovalRequiredEvent}.
+     * @returns false if no execution with this ID is waiting for approval
+     */
+    approve(toolCallId: string): boolean;
+
+    /**
+     * Reject a tool execution announced by an {@link ApprovalRequiredEvent}.
+     * The tool does not run; the model is told the call was rejected, with the reason.
+     * @returns false if no execution with this ID is waiting for approval
+     */
+    reject(toolCallId: string, reason?: string): boolean;
 }
 
 /**
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+
+import type { CompletionEvent } from './types.js';
+import { createTestExecution, createTestErrorExecution } from '../testing/test-execution.js';
+import { toReadableStream, toSSEResponse } from './web-stream.js';
+
+type ProgressEvent = { type: 'progress'; step: number };
+type LogEvent = { type: 'log'; message: string };
+type TestEvent = ProgressEvent | LogEvent | CompletionEvent<string>;
+
+const EVENTS: Array<ProgressEvent | LogEvent> = [
+    { type: 'progress', step: 1 },
+    { type: 'log', message: 'first line\nsecond line' },
+    { type: 'progress', step: 2 },
+];
+
+function parseSSE(text: string) {
+    return text
+        .split('\n\n')
+        .filter(Boolean)
+        .map((message) => {
+            const fields = message.split('\n').map((line) => line.split(/: (.*)/s));
+            const field = (name: string) =>
+                fields.filter(([key]) => key === name).map(([, v]) => v);
+            return { id: field('id')[0], event: field('event')[0], data: field('data').join('\n') };
+        });
+}
+
+describe('toReadableStream', () => {
+    it('should read events through a web ReadableStream', async () => {
+        const stream = toReadableStream(createTestExecution<TestEvent>('done', EVENTS), {
+            types: ['progress'],
+        });
+
+        const events = [];
+        for await (const event of stream) {
+            events.push(event);
+        }
+
+        expect(events).toMatchObject([
+            { type: 'progress', step: 1 },
+            { type: 'progress', step: 2 },
+        ]);
+    });
+});
+
+describe('toSSEResponse', () => {
+    it('should send every event with its index as id', async () => {
+        const response = toSSEResponse(createTestExecution<TestEvent>('done', EVENTS));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+        expect(response.headers.get('Cache-Control')).toBe('no-cache');
+
+        const text = await response.text();
+        const messages = parseSSE(text);
+
+        expect(messages.map((m) => [m.id, m.event])).toEqual([
+            ['0', 'progress'],
+            ['1', 'log'],
+            ['2', 'progress'],
+            ['3', 'complete'],
+        ]);
+        expect(text).toContain('data: {"type":"log","message":"first line\\nsecond line"');
+        expect(JSON.parse(messages[3].data)).toMatchObject({ type: 'complete', data: 'done' });
+    });
+
+    it('should resume after lastEventId and keep ids when filtering types', async () => {
+        const execution = createTestExecution<TestEvent>('done', EVENTS);
+
+        const resumed = parseSSE(await toSSEResponse(execution, { lastEventId: '0' }).text());
+        const filtered = parseSSE(
+            await toSSEResponse(execution, { types: ['progress', 'complete'] }).text()
+        );
+        const invalid = parseSSE(await toSSEResponse(execution, { lastEventId: 'abc' }).text());
+
+        expect(resumed.map((m) => m.id)).toEqual(['1', '2', '3']);
+        expect(filtered.map((m) => m.id)).toEqual(['0', '2', '3']);
+        expect(invalid.map((m) => m.id)).toEqual(['0', '1', '2', '3']);
+    });
+
+    it('should serialize errors and split multi-line data', async () => {
+        const execution = createTestErrorExecution<TestEvent>(new Error('Boom'));
+
+        const [error] = parseSSE(await toSSEResponse(execution).text());
+        expect(JSON.parse(error.data).error).toEqual({ name: 'Error', message: 'Boom' });
+
+        const custom = await toSSEResponse(createTestExecution<TestEvent>('done', EVENTS), {
+            types: ['log'],
+            serialize: (event) => (event.type === 'log' ? event.message : ''),
+            headers: { 'X-Accel-Buffering': 'no' },
+        });
+
+        expect(custom.headers.get('X-Accel-Buffering')).toBe('no');
+        expect(await custom.text()).toBe(
+            'id: 1\nevent: log\ndata: first line\ndata: second line\n\n'
+        );
+    });
+});
@@ -0,0 +1,134 @@
+import type { ErrorEvent, SessionEvent, StreamingExecution, StreamOptions } from './types.js';
+
+/**
+ * Options for {@link toSSEResponse}.
+ */
+export interface SSEResponseOptions<TEvent extends { type: string }> {
+    /**
+     * ID of the last event the client received, i.e. the `Last-Event-ID` request header
+     * of a reconnecting `EventSource`. Only later events are sent.
+     */
+    lastEventId?: string | null;
+    /** Only send events of these types. Event IDs still count every event. */
+    types?: StreamOptions<TEvent>['types'];
+    /** Response status. @default 200 */
+    status?: number;
+    /** Extra response headers */
+    headers?: ConstructorParameters<typeof Headers>[0];
+    /**
+     * Converts an event to the SSE `data` field.
+     * By default events are sent as JSON, with errors as `{ name, message }`.
+     */
+    serialize?: (event: SessionEvent<TEvent | ErrorEvent>) => string;
+}
+
+function serializeEvent(event: unknown): string {
+    return JSON.stringify(event, (_, value: unknown) =>
+        value instanceof Error ? { name: value.name, message: value.message } : value
+    );
+}
+
+/** One SSE message; multi-line data is split over several `data:` lines */
+function formatSSEMessage(id: number, type: string, data: string): string {
+    const lines = data.split(/\r\n|\r|\n/).map((line) => `data: ${line}`);
+    return `id: ${id}\nevent: ${type}\n${lines.join('\n')}\n\n`;
+}
+
+/** Event index to resume from after `lastEventId`, or 0 if it is missing or not an event ID */
+function resumeIndex(lastEventId: string | null | undefined): number {
+    const last = lastEventId ? Number(lastEventId) : NaN;
+    return Number.isInteger(last) && last >= 0 ? last + 1 : 0;
+}
+
+/**
+ * Web `ReadableStream` of an execution's events, e.g. for piping through a
+ * `TransformStream` or returning from a framework that accepts streams.
+ * Canceling the stream stops reading events; the execution keeps running.
+ *
+ * @example
+ * ```typescript
+ * const reader = toReadableStream(execution, { types: ['progress'] }).getReader();
+ * ```
+ */
+export function toReadableStream<TEvent extends { type: string }>(
+    execution: StreamingExecution<TEvent>,
+    options?: StreamOptions<TEvent>
+): ReadableStream<SessionEvent<TEvent | ErrorEvent>> {
+    const iterator = execution.stream(options)[Symbol.asyncIterator]();
+
+    return new ReadableStream({
+        async pull(controller) {
+            const { value, done } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        async cancel() {
+            await iterator.return?.();
+        },
+    });
+}
+
+/**
+ * Server-Sent Events response streaming an execution's events to a browser.
+ * Each event is sent with its index as `id` and its type as `event`, so a reconnecting
+ * `EventSource` resumes after the last event it received when `lastEventId` is passed on.
+ * A client disconnecting stops the response, not the execution.
+ *
+ * @example
+ * ```typescript
+ * // GET /executions/:id/events
+ * export function GET(request: Request) {
+ *   const execution = executions.get(id);
+ *   return toSSEResponse(execution, { lastEventId: request.headers.get('Last-Event-ID') });
+ * }
+ *
+ * // Browser
+ * const source = new EventSource(`/executions/${id}/events`);
+ * source.addEventListener('progress', (e) => render(JSON.parse(e.data)));
+ * source.addEventListener('complete', () => source.close());
+ * ```
+ */
+export function toSSEResponse<TEvent extends { type: string }>(
+    execution: StreamingExecution<TEvent>,
+    options: SSEResponseOptions<TEvent> = {}
+): Response {
+    const { types, serialize = serializeEvent } = options;
+    const fromIndex = resumeIndex(options.lastEventId);
+    // Filter here rather than in stream() so that every event keeps its index as ID
+    const iterator = execution.stream({ fromIndex })[Symbol.asyncIterator]();
+    const encoder = new TextEncoder();
+    let index = fromIndex;
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            let next = await iterator.next();
+            while (!next.done && types && !(types as readonly string[]).includes(next.value.type)) {
+                index++;
+                next = await iterator.next();
+            }
+            if (next.done) {
+                controller.close();
+                return;
+            }
+            const message = formatSSEMessage(index++, next.value.type, serialize(next.value));
+            controller.enqueue(encoder.encode(message));
+        },
+        async cancel() {
+            await iterator.return?.();
+        },
+    });
+
+    const headers = new Headers(options.headers);
+    headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+    if (!headers.has('Cache-Control')) {
+        headers.set('Cache-Control', 'no-cache');
+    }
+    if (!headers.has('Connection')) {
+        headers.set('Connection', 'keep-alive');
+    }
+
+    return new Response(body, { status: options.status ?? 200, headers });
+}
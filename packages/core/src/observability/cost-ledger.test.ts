@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+
+import { createZeroUsage } from '../session/usage-extractors.js';
+import { mock } from '../testing/mock.js';
+import { CostLedger, type CostLedgerSummary } from './cost-ledger.js';
+
+const USAGE = {
+  inputTokens: { total: 1000, noCache: 1000, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 100, text: 100, reasoning: undefined },
+};
+
+const PRICING = { 'mock-model-id': { inputPricePerMillion: 1, outputPricePerMillion: 10 } };
+
+function summaryAt(
+  timestamp: number,
+  cost: number,
+  attribution: Record<string, string>
+): CostLedgerSummary {
+  return {
+    llmCalls: [
+      {
+        startTime: timestamp,
+        endTime: timestamp,
+        duration: 0,
+        usage: createZeroUsage(),
+        type: 'manual',
+        model: 'm',
+        provider: 'p',
+        cost,
+        attribution,
+      },
+    ],
+    additionalCosts: [],
+  };
+}
+
+describe('CostLedger', () => {
+  it('should record executions with their attribution as a logger', async () => {
+    const ledger = new CostLedger();
+    const provider = mock
+      .provider(mock.text('Hi', { usage: USAGE }))
+      .withPricing(PRICING)
+      .withLogger(ledger);
+
+    await provider
+      .simpleExecution(
+        async (session) => {
+          session.recordAdditionalCost({
+            type: 'search',
+            cost: 0.01,
+            attribution: { tool: 'web' },
+          });
+          return session.generateText({ prompt: 'Hi' });
+        },
+        { attribution: { customer: 'acme', feature: 'search' } }
+      )
+      .result();
+    await provider
+      .simpleExecution((session) => session.generateText({ prompt: 'Hi' }), {
+        attribution: { customer: 'globex', feature: 'search' },
+      })
+      .result();
+
+    const entries = ledger.getEntries();
+    expect(entries).toHaveLength(3);
+    expect(entries[1]).toMatchObject({
+      kind: 'additional',
+      type: 'search',
+      cost: 0.01,
+      attribution: { customer: 'acme', feature: 'search', tool: 'web' },
+    });
+
+    const rows = ledger.report({ groupBy: ['customer'] });
+    expect(rows.map((row) => row.tags)).toEqual([{ customer: 'acme' }, { customer: 'globex' }]);
+    expect(rows[0]).toMatchObject({ llmCalls: 1, inputTokens: 1000, outputTokens: 100 });
+    expect(rows[0].llmCost).toBeCloseTo(0.002, 10);
+    expect(rows[0].additionalCost).toBeCloseTo(0.01, 10);
+    expect(rows[0].totalCost).toBeCloseTo(0.012, 10);
+    expect(rows[1].totalCost).toBeCloseTo(0.002, 10);
+
+    const [total] = ledger.report({ groupBy: ['feature'] });
+    expect(total.totalCost).toBeCloseTo(0.014, 10);
+  });
+
+  it('should group by tag combinations and time buckets', () => {
+    const ledger = new CostLedger();
+    const monday = Date.UTC(2026, 0, 5, 9);
+    ledger.record(summaryAt(monday, 1, { customer: 'acme', agent: 'planner' }));
+    ledger.record(summaryAt(monday + 3_600_000, 2, { customer: 'acme', agent: 'planner' }));
+    ledger.record(summaryAt(Date.UTC(2026, 0, 11, 23), 4, { customer: 'acme', agent: 'writer' }));
+    ledger.record(summaryAt(Date.UTC(2026, 0, 12), 8, { customer: 'acme' }));
+
+    expect(
+      ledger
+        .report({ groupBy: ['customer', 'agent'], bucket: 'week' })
+        .map((row) => [row.bucket, row.tags.agent, row.totalCost])
+    ).toEqual([
+      ['2026-01-05T00:00:00.000Z', 'planner', 3],
+      ['2026-01-05T00:00:00.000Z', 'writer', 4],
+      ['2026-01-12T00:00:00.000Z', undefined, 8],
+    ]);
+    expect(ledger.report({ bucket: 'hour' }).map((row) => row.bucket)).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-05T10:00:00.000Z',
+      '2026-01-11T23:00:00.000Z',
+      '2026-01-12T00:00:00.000Z',
+    ]);
+    expect(ledger.report({ bucket: 'month' })).toHaveLength(1);
+  });
+
+  it('should filter by tags and time range', () => {
+    const ledger = new CostLedger();
+    ledger.record(summaryAt(1000, 1, { customer: 'acme' }));
+    ledger.record(summaryAt(2000, 2, { customer: 'acme' }));
+    ledger.record(summaryAt(2000, 4, { customer: 'globex' }));
+
+    const [row] = ledger.report({
+      filter: { customer: 'acme' },
+      from: 1500,
+      until: new Date(3000),
+    });
+    expect(row.totalCost).toBe(2);
+  });
+
+  it('should apply default tags to untagged entries', () => {
+    const ledger = new CostLedger();
+    ledger.record(summaryAt(1000, 1, {}), { customer: 'acme' });
+    ledger.record(summaryAt(1000, 2, { customer: 'globex' }), { customer: 'acme' });
+
+    expect(ledger.report({ groupBy: ['customer'] }).map((row) => row.tags.customer)).toEqual([
+      'acme',
+      'globex',
+    ]);
+  });
+
+  it('should export CSV and JSON', () => {
+    const ledger = new CostLedger();
+    ledger.record(summaryAt(Date.UTC(2026, 0, 5), 1.5, { customer: 'Acme, Inc.' }));
+
+    expect(ledger.exportCSV({ groupBy: ['customer'], bucket: 'day' })).toBe(
+      'bucket,customer,llmCalls,inputTokens,outputTokens,llmCost,additionalCost,totalCost\n' +
+        '2026-01-05T00:00:00.000Z,"Acme, Inc.",1,0,0,1.5,0,1.5\n'
+    );
+    expect(JSON.parse(ledger.exportJSON({ groupBy: ['customer'] }))).toMatchObject({
+      groupBy: ['customer'],
+      rows: [{ tags: { customer: 'Acme, Inc.' }, totalCost: 1.5 }],
+    });
+  });
+
+  it('should keep at most maxEntries entries', () => {
+    const ledger = new CostLedger({ maxEntries: 2 });
+    ledger.record(summaryAt(1000, 1, {}));
+    ledger.record(summaryAt(2000, 2, {}));
+    ledger.record(summaryAt(3000, 4, {}));
+
+    expect(ledger.getEntries().map((entry) => entry.cost)).toEqual([2, 4]);
+
+    ledger.clear();
+    expect(ledger.report()).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+import { calculateCostFromUsage } from '../pricing/calculator.js';
+import type { AdditionalCost, CostAttribution, LLMCallRecord } from '../session/types.js';
+import type {
+  ExecutionCancelEvent,
+  ExecutionDoneEvent,
+  ExecutionErrorEvent,
+  Logger,
+} from './logger.js';
+
+/** Summary fields the ledger reads; a `SessionSummary` or its JSON form */
+export interface CostLedgerSummary {
+  llmCalls: readonly LLMCallRecord[];
+  additionalCosts: readonly AdditionalCost[];
+}
+
+/** One LLM call or additional cost recorded in the ledger */
+export interface CostLedgerEntry {
+  kind: 'llm' | 'additional';
+  /** Call start time or additional cost time (ms since epoch) */
+  timestamp: number;
+  cost: number;
+  /** Provider and model of an LLM call */
+  provider?: string;
+  model?: string;
+  /** Type of an additional cost */
+  type?: string;
+  inputTokens: number;
+  outputTokens: number;
+  attribution: CostAttribution;
+}
+
+/** Time buckets of a report, in UTC. Weeks start on Monday. */
+export type CostBucket = 'hour' | 'day' | 'week' | 'month';
+
+export interface CostReportOptions {
+  /** Tags to group by, e.g. `['customer', 'feature']`. Without any, all entries form one group. */
+  groupBy?: string[];
+  /** Splits each group into time buckets */
+  bucket?: CostBucket;
+  /** Only entries with all of these tag values */
+  filter?: CostAttribution;
+  /** Only entries at or after this time */
+  from?: Date | number;
+  /** Only entries before this time */
+  until?: Date | number;
+}
+
+export interface CostReportRow {
+  /** ISO 8601 start of the time bucket, when bucketed */
+  bucket?: string;
+  /** Values of the grouped tags; entries without a tag are grouped under `undefined` */
+  tags: Record<string, string | undefined>;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  llmCost: number;
+  additionalCost: number;
+  totalCost: number;
+}
+
+export interface CostLedgerOptions {
+  /** Oldest entries are dropped beyond this many. @default unlimited */
+  maxEntries?: number;
+}
+
+function toTime(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function bucketStart(timestamp: number, bucket: CostBucket): string {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (bucket) {
+    case 'hour':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours())).toISOString();
+    case 'day':
+      return new Date(Date.UTC(year, month, day)).toISOString();
+    case 'week': {
+      const sinceMonday = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, day - sinceMonday)).toISOString();
+    }
+    case 'month':
+      return new Date(Date.UTC(year, month)).toISOString();
+  }
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Accumulates the costs of many executions and reports them grouped by attribution
+ * tags and time bucket.
+ *
+ * Create one per process and either record summaries yourself or attach it as a
+ * logger, which records the summary of every finished execution (succeeded, failed
+ * or canceled) except child executions, whose costs are in their parent's summary.
+ * Entries carry the tags set with `ExecutionOptions.attribution`.
+ *
+ * @example
+ * ```typescript
+ * export const ledger = new CostLedger();
+ * const provider = createGoogleProvider({ apiKey }).withLogger(ledger);
+ *
+ * await provider
+ *   .simpleExecution(fn, { attribution: { customer: 'acme', feature: 'search' } })
+ *   .result();
+ *
+ * ledger.report({ groupBy: ['customer'], bucket: 'day' });
+ * fs.writeFileSync('costs.csv', ledger.exportCSV({ groupBy: ['customer', 'feature'] }));
+ * ```
+ */
+export class CostLedger implements Logger {
+  private entries: CostLedgerEntry[] = [];
+  private readonly maxEntries: number;
+
+  constructor(options: CostLedgerOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  /**
+   * Records every LLM call and additional cost of a summary.
+   * @param attribution - Tags for entries recorded without them; their own tags take precedence
+   */
+  record(summary: CostLedgerSummary, attribution?: CostAttribution): void {
+    for (const call of summary.llmCalls) {
+      this.entries.push({
+        kind: 'llm',
+        timestamp: call.startTime,
+        cost:
+          call.cost ??
+          calculateCostFromUsage(
+            call.usage,
+            call.model,
+            call.provider,
+            undefined,
+            undefined,
+            call.startTime
+          ).total,
+        provider: call.provider,
+        model: call.model,
+        inputTokens: call.usage.inputTokens ?? 0,
+        outputTokens: call.usage.outputTokens ?? 0,
+        attribution: { ...attribution, ...call.attribution },
+      });
+    }
+    for (const cost of summary.additionalCosts) {
+      this.entries.push({
+        kind: 'additional',
+        timestamp: cost.timestamp,
+        cost: cost.cost,
+        type: cost.type,
+        inputTokens: 0,
+        outputTokens: 0,
+        attribution: { ...attribution, ...cost.attribution },
+      });
+    }
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(this.entries.length - this.maxEntries);
+    }
+  }
+
+  onExecutionDone(event: ExecutionDoneEvent): void {
+    if (!event.parentExecutionId) {
+      this.record(event.summary);
+    }
+  }
+
+  onExecutionError(event: ExecutionErrorEvent): void {
+    if (event.summary && !event.parentExecutionId) {
+      this.record(event.summary);
+    }
+  }
+
+  onExecutionCancel(event: ExecutionCancelEvent): void {
+    if (event.summary && !event.parentExecutionId) {
+      this.record(event.summary);
+    }
+  }
+
+  /** Recorded entries, oldest first */
+  getEntries(): readonly CostLedgerEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Totals per combination of the `groupBy` tag values (and time bucket), sorted by
+   * bucket, then by tag values.
+   */
+  report(options: CostReportOptions = {}): CostReportRow[] {
+    const { groupBy = [], bucket, filter = {} } = options;
+    const from = options.from === undefined ? -Infinity : toTime(options.from);
+    const until = options.until === undefined ? Infinity : toTime(options.until);
+    const rows = new Map<string, CostReportRow>();
+
+    for (const entry of this.entries) {
+      if (
+        entry.timestamp < from ||
+        entry.timestamp >= until ||
+        !Object.entries(filter).every(([tag, value]) => entry.attribution[tag] === value)
+      ) {
+        continue;
+      }
+      const tags = Object.fromEntries(groupBy.map((tag) => [tag, entry.attribution[tag]]));
+      const start = bucket ? bucketStart(entry.timestamp, bucket) : undefined;
+      const key = JSON.stringify([start, groupBy.map((tag) => tags[tag] ?? null)]);
+
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          ...(start !== undefined && { bucket: start }),
+          tags,
+          llmCalls: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          llmCost: 0,
+          additionalCost: 0,
+          totalCost: 0,
+        };
+        rows.set(key, row);
+      }
+      if (entry.kind === 'llm') {
+        row.llmCalls += 1;
+        row.llmCost += entry.cost;
+      } else {
+        row.additionalCost += entry.cost;
+      }
+      row.inputTokens += entry.inputTokens;
+      row.outputTokens += entry.outputTokens;
+      row.totalCost += entry.cost;
+    }
+
+    const sortKey = (row: CostReportRow) => [
+      row.bucket ?? '',
+      ...groupBy.map((tag) => row.tags[tag] ?? ''),
+    ];
+    return [...rows.values()].sort((a, b) => {
+      const [keyA, keyB] = [sortKey(a), sortKey(b)];
+      const index = keyA.findIndex((part, i) => part !== keyB[i]);
+      return index === -1 ? 0 : keyA[index].localeCompare(keyB[index]);
+    });
+  }
+
+  /**
+   * The report as CSV: a header row, then one row per group. Columns are the bucket
+   * (when bucketed), the grouped tags, then call count, tokens and costs in USD.
+   */
+  exportCSV(options: CostReportOptions = {}): string {
+    const groupBy = options.groupBy ?? [];
+    const header = [
+      ...(options.bucket ? ['bucket'] : []),
+      ...groupBy,
+      'llmCalls',
+      'inputTokens',
+      'outputTokens',
+      'llmCost',
+      'additionalCost',
+      'totalCost',
+    ];
+    const lines = this.report(options).map((row) =>
+      [
+        ...(options.bucket ? [row.bucket] : []),
+        ...groupBy.map((tag) => row.tags[tag]),
+        row.llmCalls,
+        row.inputTokens,
+        row.outputTokens,
+        row.llmCost,
+        row.additionalCost,
+        row.totalCost,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+    return [header.map(csvField).join(','), ...lines].join('\n') + '\n';
+  }
+
+  /** The report as a JSON document with the options it was grouped by */
+  exportJSON(options: CostReportOptions = {}): string {
+    return JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        groupBy: options.groupBy ?? [],
+        ...(options.bucket && { bucket: options.bucket }),
+        rows: this.report(options),
+      },
+      null,
+      2
+    );
+  }
+
+  /** Removes all entries */
+  clear(): void {
+    this.entries = [];
+  }
+}
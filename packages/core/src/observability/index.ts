@@ -4,12 +4,55 @@ export type {
   Logger,
   LogLevel,
   LLMCallLogType,
+  LogCorrelation,
+  LLMCallCorrelation,
   LLMCallStartEvent,
   LLMCallEndEvent,
+  LLMCallRetryEvent,
+  ToolCallCorrelation,
+  ToolCallStartEvent,
+  ToolCallEndEvent,
   ExecutionStartEvent,
   ExecutionEmitEvent,
   ExecutionDoneEvent,
   ExecutionErrorEvent,
+  ExecutionCancelEvent,
 } from './logger.js';
 
-export { noopLogger, createLogger } from './logger.js';
+export { noopLogger, createLogger, composeLoggers } from './logger.js';
+
+export {
+  createJsonlLogger,
+  redactionPatterns,
+  type JsonlLogger,
+  type JsonlLoggerOptions,
+  type RedactionOptions,
+} from './jsonl-logger.js';
+
+export {
+  createOpenTelemetryLogger,
+  type OpenTelemetryLoggerOptions,
+} from './opentelemetry.js';
+
+export {
+  createMetricsLogger,
+  PROMETHEUS_CONTENT_TYPE,
+  type MetricsLogger,
+  type MetricsLoggerOptions,
+  type MetricsSnapshot,
+  type MetricLabels,
+  type CounterMetric,
+  type CounterSample,
+  type HistogramMetric,
+  type HistogramSample,
+} from './metrics-logger.js';
+
+export {
+  CostLedger,
+  type CostLedgerOptions,
+  type CostLedgerEntry,
+  type CostLedgerSummary,
+  type CostBucket,
+  type CostReportOptions,
+  type CostReportRow,
+} from './cost-ledger.js';
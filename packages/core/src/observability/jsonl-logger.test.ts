@@ -0,0 +1,212 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConfigurationError } from '../errors/index.js';
+import { mock } from '../testing/mock.js';
+import { createJsonlLogger, redactionPatterns, type JsonlLoggerOptions } from './jsonl-logger.js';
+
+function createCollector(options: Omit<JsonlLoggerOptions, 'stream' | 'path'> = {}) {
+  const lines: Record<string, unknown>[] = [];
+  const logger = createJsonlLogger({
+    ...options,
+    stream: { write: (chunk: string) => lines.push(JSON.parse(chunk)) },
+  });
+  return { logger, lines };
+}
+
+const START_EVENT = {
+  type: 'llm_call_start' as const,
+  callType: 'generateText' as const,
+  modelId: 'gpt-4o',
+  timestamp: Date.now(),
+};
+
+describe('createJsonlLogger', () => {
+  it('should write one line per event with execution and call IDs', async () => {
+    const { logger, lines } = createCollector({ level: 'debug' });
+
+    await mock
+      .provider(mock.text('Hi'))
+      .withPricing({ 'mock-model-id': { inputPricePerMillion: 1, outputPricePerMillion: 5 } })
+      .withLogger(logger)
+      .simpleExecution((session) => session.generateText({ prompt: 'Hello' }))
+      .result();
+
+    expect(lines.map((line) => line.type)).toEqual([
+      'execution_start',
+      'llm_call_start',
+      'llm_call_end',
+      'execution_done',
+    ]);
+    expect(new Set(lines.map((line) => line.executionId)).size).toBe(1);
+    expect(lines[1].callId).toBe(lines[2].callId);
+    expect(lines[2]).toMatchObject({ level: 'info', modelId: 'mock-model-id', finishReason: 'stop' });
+    expect(lines[3]).toMatchObject({ summary: { llmCallCount: 1 } });
+    expect(typeof lines[0].time).toBe('string');
+  });
+
+  it('should skip events below the configured level', async () => {
+    const { logger, lines } = createCollector();
+
+    await mock
+      .provider(mock.error(new Error('boom')))
+      .withLogger(logger)
+      .simpleExecution((session) => session.generateText({ prompt: 'Hello' }))
+      .result();
+
+    expect(lines.map((line) => [line.type, line.level])).toEqual([
+      ['llm_call_end', 'error'],
+      ['execution_error', 'error'],
+    ]);
+    expect(lines[0].error).toMatchObject({ message: 'boom' });
+  });
+
+  it('should write the trace context returned by getTraceContext', () => {
+    const getTraceContext = vi
+      .fn()
+      .mockReturnValueOnce({ traceId: 'trace-1', spanId: 'span-1' })
+      .mockReturnValueOnce(undefined);
+    const { logger, lines } = createCollector({ level: 'debug', getTraceContext });
+
+    logger.onLLMCallStart?.({ ...START_EVENT, request: { params: {} } });
+    logger.onLLMCallStart?.({ ...START_EVENT, request: { params: {} } });
+
+    expect(lines[0]).toMatchObject({ traceId: 'trace-1', spanId: 'span-1' });
+    expect(lines[1]).not.toHaveProperty('traceId');
+  });
+
+  it('should redact credential keys and matching patterns but keep token counts', () => {
+    const { logger, lines } = createCollector({
+      redact: { patterns: [redactionPatterns.apiKey, redactionPatterns.email] },
+    });
+
+    logger.log?.('info', 'configured', {
+      apiKey: 'plain-secret',
+      headers: { Authorization: 'Bearer abc.def' },
+      note: 'key sk-abcdefghijklmnopqrstuvwx for jane@example.com',
+      usage: { inputTokens: 10, maxOutputTokens: 20 },
+    });
+
+    expect(lines[0].data).toEqual({
+      apiKey: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+      note: 'key [REDACTED] for [REDACTED]',
+      usage: { inputTokens: 10, maxOutputTokens: 20 },
+    });
+  });
+
+  it('should replace file contents and binary data', () => {
+    const { logger, lines } = createCollector({ level: 'debug' });
+
+    logger.onLLMCallStart?.({
+      ...START_EVENT,
+      request: {
+        params: {
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Describe' },
+                { type: 'file', data: 'JVBERi0xLjQK', mediaType: 'application/pdf' },
+                { type: 'image', image: new Uint8Array(4) },
+              ],
+            },
+          ],
+          extra: new Uint8Array(8),
+        },
+      },
+    });
+
+    expect(lines[0].request).toEqual({
+      params: {
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Describe' },
+              { type: 'file', data: '[file contents]', mediaType: 'application/pdf' },
+              { type: 'image', image: '[file contents]' },
+            ],
+          },
+        ],
+        extra: '[binary 8 bytes]',
+      },
+    });
+  });
+
+  it.each([
+    ['truncate' as const, expect.stringMatching(/^\{"prompt":"x+…\[truncated \d+ chars\]$/)],
+    ['hash' as const, { sha256: expect.stringMatching(/^[0-9a-f]{64}$/), length: 513 }],
+  ])('should %s oversized payloads', (oversizedPayloads, expected) => {
+    const { logger, lines } = createCollector({
+      level: 'debug',
+      maxPayloadLength: 100,
+      oversizedPayloads,
+    });
+
+    logger.onLLMCallStart?.({ ...START_EVENT, request: { params: { prompt: 'x'.repeat(500) } } });
+
+    expect(lines[0].request).toEqual({ params: expected });
+  });
+
+  it('should serialize circular and non-JSON values', () => {
+    const { logger, lines } = createCollector();
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    logger.log?.('warn', 'odd values', {
+      circular,
+      pending: Promise.resolve(1),
+      count: 10n,
+      callback: () => {},
+    });
+
+    expect(lines[0]).toMatchObject({
+      level: 'warn',
+      message: 'odd values',
+      data: { circular: { name: 'loop', self: '[Circular]' }, pending: '[Promise]', count: '10' },
+    });
+  });
+
+  it('should append to a file and close it', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'agtlantis-jsonl-'));
+    const file = path.join(directory, 'agent.jsonl');
+
+    try {
+      const logger = createJsonlLogger({ path: file });
+      logger.log?.('info', 'first');
+      logger.log?.('error', 'second');
+      await logger.close();
+
+      const content = await readFile(file, 'utf-8');
+      expect(content.trim().split('\n').map((line) => JSON.parse(line).message)).toEqual([
+        'first',
+        'second',
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should not throw when the stream fails', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = createJsonlLogger({
+      stream: {
+        write: () => {
+          throw new Error('disk full');
+        },
+      },
+    });
+
+    expect(() => logger.log?.('info', 'lost')).not.toThrow();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should require a path or stream', () => {
+    expect(() => createJsonlLogger({})).toThrow(ConfigurationError);
+  });
+});
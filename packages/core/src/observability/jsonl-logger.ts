@@ -0,0 +1,385 @@
+import { createHash } from 'node:crypto';
+import { createWriteStream, type WriteStream } from 'node:fs';
+
+import { AgtlantisError, ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+import type { Logger, LogLevel } from './logger.js';
+
+/** Patterns for `redact.patterns`. Matches are replaced with `'[REDACTED]'`. */
+export const redactionPatterns = {
+  /** API keys of common providers (OpenAI, Anthropic, Google) and bearer tokens */
+  apiKey: /\b(?:sk-[A-Za-z0-9_-]{16,}|AIza[0-9A-Za-z_-]{35}|Bearer\s+[A-Za-z0-9._~+/-]+=*)/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /\+?\d{1,3}[\s.-]?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/g,
+  creditCard: /\b(?:\d[ -]?){13,16}\b/g,
+} as const;
+
+export interface RedactionOptions {
+  /**
+   * Object keys whose values are replaced entirely.
+   * @default /api[-_]?key|authorization|secret|password|cookie|^(?:access|auth|refresh)?[-_]?token$/i
+   */
+  keys?: RegExp;
+  /**
+   * Patterns replaced inside every string.
+   * @default [redactionPatterns.apiKey]
+   */
+  patterns?: RegExp[];
+  /**
+   * Replace file and image contents in prompts with a placeholder.
+   * Binary data is never written regardless of this option.
+   * @default true
+   */
+  fileContents?: boolean;
+}
+
+export interface JsonlLoggerOptions {
+  /** File to append lines to. Either `path` or `stream` is required. */
+  path?: string;
+  /** Stream to write lines to, e.g. `process.stdout` */
+  stream?: { write(chunk: string): unknown };
+  /**
+   * Minimum level written. LLM call, tool call and execution starts and emits are `debug`,
+   * completions `info`, retries and cancellations `warn` and failures `error`.
+   * @default 'info'
+   */
+  level?: LogLevel;
+  /** Redaction rules, or `false` to write payloads unredacted */
+  redact?: RedactionOptions | false;
+  /**
+   * Payloads (`request.params`, `raw`, emitted events, results) whose JSON is longer
+   * than this many characters are truncated or hashed.
+   * @default 2000
+   */
+  maxPayloadLength?: number;
+  /** How oversized payloads are written. @default 'truncate' */
+  oversizedPayloads?: 'truncate' | 'hash';
+  /**
+   * Returns the trace context written on each line as `traceId`/`spanId`, e.g.
+   * `() => trace.getActiveSpan()?.spanContext()` with `@opentelemetry/api`.
+   * Lines have no trace IDs without it.
+   */
+  getTraceContext?: () => { traceId: string; spanId?: string } | undefined;
+}
+
+export interface JsonlLogger extends Logger {
+  /** Closes the file opened for `path`. Streams passed as `stream` are left open. */
+  close(): Promise<void>;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+// Token *counts* (inputTokens, maxOutputTokens) must stay readable
+const DEFAULT_REDACTED_KEYS =
+  /api[-_]?key|authorization|secret|password|cookie|^(?:access|auth|refresh)?[-_]?token$/i;
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 10;
+
+interface Redaction {
+  keys: RegExp;
+  patterns: RegExp[];
+  fileContents: boolean;
+}
+
+function isBinary(value: unknown): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+/**
+ * Converts a value into plain JSON data, applying redaction. Handles circular
+ * references, binary data, errors and non-serializable values (promises, streams, functions).
+ */
+function toLogValue(
+  value: unknown,
+  redaction: Redaction | undefined,
+  seen = new WeakSet<object>(),
+  depth = 0
+): unknown {
+  if (typeof value === 'string') {
+    return redaction
+      ? redaction.patterns.reduce((text, pattern) => text.replace(pattern, REDACTED), value)
+      : value;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (isBinary(value)) {
+    return `[binary ${value.byteLength} bytes]`;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof URL) {
+    return value.href;
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: toLogValue(value.message, redaction),
+      ...(value instanceof AgtlantisError && { code: value.code }),
+    };
+  }
+  if (typeof (value as PromiseLike<unknown>).then === 'function') {
+    return '[Promise]';
+  }
+  if (value instanceof ReadableStream) {
+    return '[ReadableStream]';
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+  seen.add(value);
+
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => toLogValue(item, redaction, seen, depth + 1) ?? null);
+    }
+
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof toJSON === 'function') {
+      return toLogValue(toJSON.call(value), redaction, seen, depth + 1);
+    }
+
+    const isFilePart =
+      redaction?.fileContents &&
+      ((value as { type?: unknown }).type === 'file' ||
+        (value as { type?: unknown }).type === 'image');
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (redaction?.keys.test(key)) {
+        result[key] = REDACTED;
+      } else if (isFilePart && (key === 'data' || key === 'image')) {
+        result[key] = '[file contents]';
+      } else {
+        result[key] = toLogValue(item, redaction, seen, depth + 1);
+      }
+    }
+    return result;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+/**
+ * Creates a Logger that writes every event as one JSON line.
+ *
+ * Each line has `time`, `level`, `type`, the event's `executionId`/`callId`, and
+ * `traceId`/`spanId` when `getTraceContext` returns them. Payloads are redacted
+ * (credentials by default) and oversized ones truncated or hashed.
+ * Write failures are reported with console.error and never fail the session.
+ *
+ * @example
+ * ```typescript
+ * const logger = createJsonlLogger({
+ *   path: './logs/agent.jsonl',
+ *   level: 'debug',
+ *   redact: { patterns: [redactionPatterns.apiKey, redactionPatterns.email] },
+ * });
+ *
+ * const provider = createGoogleProvider({ apiKey }).withLogger(logger);
+ * // ...
+ * await logger.close();
+ * ```
+ */
+export function createJsonlLogger(options: JsonlLoggerOptions): JsonlLogger {
+  const {
+    level: minLevel = 'info',
+    maxPayloadLength = 2000,
+    oversizedPayloads = 'truncate',
+  } = options;
+
+  let file: WriteStream | undefined;
+  let output: { write(chunk: string): unknown };
+  if (options.stream) {
+    output = options.stream;
+  } else if (options.path) {
+    file = createWriteStream(options.path, { flags: 'a' });
+    file.on('error', (error) => console.error('[JsonlLogger] Failed to write log file:', error));
+    output = file;
+  } else {
+    throw new ConfigurationError('createJsonlLogger requires either path or stream', {
+      code: ConfigurationErrorCode.MISSING_REQUIRED,
+      context: { field: 'path' },
+    });
+  }
+
+  const redaction: Redaction | undefined =
+    options.redact === false
+      ? undefined
+      : {
+          keys: options.redact?.keys ?? DEFAULT_REDACTED_KEYS,
+          patterns: options.redact?.patterns ?? [redactionPatterns.apiKey],
+          fileContents: options.redact?.fileContents ?? true,
+        };
+
+  function payload(value: unknown): unknown {
+    const data = toLogValue(value, redaction);
+    const json = JSON.stringify(data) ?? 'null';
+    if (json.length <= maxPayloadLength) {
+      return data;
+    }
+    if (oversizedPayloads === 'hash') {
+      return { sha256: createHash('sha256').update(json).digest('hex'), length: json.length };
+    }
+    return `${json.slice(0, maxPayloadLength)}…[truncated ${json.length - maxPayloadLength} chars]`;
+  }
+
+  function write(
+    level: LogLevel,
+    type: string,
+    timestamp: number,
+    fields: Record<string, unknown>
+  ) {
+    if (LEVELS[level] < LEVELS[minLevel]) {
+      return;
+    }
+    try {
+      const traceContext = options.getTraceContext?.();
+      const line = {
+        time: new Date(timestamp).toISOString(),
+        level,
+        type,
+        ...(traceContext && { traceId: traceContext.traceId, spanId: traceContext.spanId }),
+        ...(toLogValue(fields, redaction) as Record<string, unknown>),
+      };
+      output.write(`${JSON.stringify(line)}\n`);
+    } catch (error) {
+      console.error('[JsonlLogger] Failed to write log line:', error);
+    }
+  }
+
+  return {
+    onLLMCallStart(event) {
+      write('debug', event.type, event.timestamp, {
+        executionId: event.executionId,
+        callId: event.callId,
+        callType: event.callType,
+        modelId: event.modelId,
+        provider: event.provider,
+        request: { params: payload(event.request.params) },
+      });
+    },
+
+    onLLMCallEnd(event) {
+      const { response } = event;
+      write(response.error ? 'error' : 'info', event.type, event.timestamp, {
+        executionId: event.executionId,
+        callId: event.callId,
+        callType: event.callType,
+        modelId: event.modelId,
+        provider: event.provider,
+        duration: response.duration,
+        usage: response.usage,
+        cost: response.cost,
+        cached: response.cached,
+        finishReason: response.finishReason,
+        error: response.error,
+        raw: payload(response.raw),
+      });
+    },
+
+    onLLMCallRetry(event) {
+      write('warn', event.type, event.timestamp, {
+        executionId: event.executionId,
+        callId: event.callId,
+        callType: event.callType,
+        modelId: event.modelId,
+        attempt: event.attempt,
+        maxAttempts: event.maxAttempts,
+        delayMs: event.delayMs,
+        errorKind: event.errorKind,
+        error: event.error,
+      });
+    },
+
+    onToolCallStart(event) {
+      write('debug', event.type, event.timestamp, {
+        executionId: event.executionId,
+        callId: event.callId,
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: payload(event.args),
+      });
+    },
+
+    onToolCallEnd(event) {
+      write(event.error ? 'error' : 'info', event.type, event.timestamp, {
+        executionId: event.executionId,
+        callId: event.callId,
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        duration: event.duration,
+        resultSize: event.resultSize,
+        timedOut: event.timedOut,
+        error: event.error,
+      });
+    },
+
+    onExecutionStart(event) {
+      write('debug', event.type, event.timestamp, {
+        executionId: event.executionId,
+        parentExecutionId: event.parentExecutionId,
+      });
+    },
+
+    onExecutionEmit(event) {
+      write('debug', event.type, Date.now(), {
+        executionId: event.executionId,
+        parentExecutionId: event.parentExecutionId,
+        event: payload(event.event),
+      });
+    },
+
+    onExecutionDone(event) {
+      write('info', event.type, event.timestamp, {
+        executionId: event.executionId,
+        parentExecutionId: event.parentExecutionId,
+        duration: event.duration,
+        data: payload(event.data),
+        summary: event.summary,
+      });
+    },
+
+    onExecutionError(event) {
+      write('error', event.type, event.timestamp, {
+        executionId: event.executionId,
+        parentExecutionId: event.parentExecutionId,
+        duration: event.duration,
+        error: event.error,
+        data: payload(event.data),
+        summary: event.summary,
+      });
+    },
+
+    onExecutionCancel(event) {
+      write('warn', event.type, event.timestamp, {
+        executionId: event.executionId,
+        parentExecutionId: event.parentExecutionId,
+        duration: event.duration,
+        summary: event.summary,
+      });
+    },
+
+    log(level, message, data) {
+      write(level, 'log', Date.now(), { message, data });
+    },
+
+    close() {
+      return new Promise((resolve) => {
+        if (!file || file.closed) {
+          resolve();
+          return;
+        }
+        file.end(() => resolve());
+      });
+    },
+  };
+}
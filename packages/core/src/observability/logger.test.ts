@@ -9,7 +9,7 @@ import type {
   ExecutionDoneEvent,
   ExecutionErrorEvent,
 } from './logger.js';
-import { noopLogger, createLogger } from './logger.js';
+import { noopLogger, createLogger, composeLoggers } from './logger.js';
 import { createMockUsage, createMockSessionSummary } from '../testing/index.js';
 
 describe('Logger', () => {
@@ -369,4 +369,49 @@ describe('Logger', () => {
       ]);
     });
   });
+
+  describe('composeLoggers', () => {
+    const event: ExecutionStartEvent = { type: 'execution_start', timestamp: Date.now() };
+
+    it('should deliver events to every logger in order', () => {
+      const order: string[] = [];
+      const logger = composeLoggers(
+        { onExecutionStart: () => order.push('first') },
+        {},
+        { onExecutionStart: () => order.push('second') }
+      );
+
+      logger.onExecutionStart?.(event);
+
+      expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should only define hooks that some logger handles', () => {
+      const logger = composeLoggers({ onLLMCallEnd: vi.fn() }, noopLogger);
+
+      expect(logger.onLLMCallEnd).toBeDefined();
+      expect(logger.onExecutionStart).toBeUndefined();
+    });
+
+    it('should keep going when a logger throws or rejects', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const next = vi.fn();
+      const logger = composeLoggers(
+        {
+          onExecutionStart: () => {
+            throw new Error('broken');
+          },
+        },
+        { onExecutionStart: () => Promise.reject(new Error('async broken')) },
+        { onExecutionStart: next }
+      );
+
+      expect(() => logger.onExecutionStart?.(event)).not.toThrow();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(next).toHaveBeenCalledWith(event);
+      expect(consoleError).toHaveBeenCalledTimes(2);
+      consoleError.mockRestore();
+    });
+  });
 });
@@ -1,4 +1,6 @@
-import type { LanguageModelUsage } from 'ai';
+import type { FinishReason, LanguageModelUsage } from 'ai';
+import type { ProviderType } from '../pricing/types.js';
+import type { ProviderErrorKind } from '../provider/error-classification.js';
 import type { SessionSummary } from '../session/types.js';
 
 /**
@@ -20,10 +22,14 @@ import type { SessionSummary } from '../session/types.js';
 export interface Logger {
   onLLMCallStart?(event: LLMCallStartEvent): void;
   onLLMCallEnd?(event: LLMCallEndEvent): void;
+  onLLMCallRetry?(event: LLMCallRetryEvent): void;
+  onToolCallStart?(event: ToolCallStartEvent): void;
+  onToolCallEnd?(event: ToolCallEndEvent): void;
   onExecutionStart?(event: ExecutionStartEvent): void;
   onExecutionEmit?<TEvent>(event: ExecutionEmitEvent<TEvent>): void;
   onExecutionDone?<TResult>(event: ExecutionDoneEvent<TResult>): void;
   onExecutionError?<TResult>(event: ExecutionErrorEvent<TResult>): void;
+  onExecutionCancel?(event: ExecutionCancelEvent): void;
   log?(level: LogLevel, message: string, data?: Record<string, unknown>): void;
 }
 
@@ -31,6 +37,26 @@ export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 export type LLMCallLogType = 'generateText' | 'streamText';
 
+/**
+ * Identifiers for correlating events. Sessions set them on every event;
+ * they are optional so loggers can be called with hand-built events.
+ */
+export interface LogCorrelation {
+  /** Unique per execution (session); shared by its execution and LLM call events */
+  executionId?: string;
+  /**
+   * Set on the execution events of child executions (e.g. pipeline steps), whose
+   * summaries are merged into this parent execution's
+   */
+  parentExecutionId?: string;
+}
+
+/** Identifiers for correlating the start, retry and end events of one LLM call */
+export interface LLMCallCorrelation extends LogCorrelation {
+  /** Unique per LLM call */
+  callId?: string;
+}
+
 /**
  * Event emitted when an LLM call starts.
  *
@@ -45,10 +71,12 @@ export type LLMCallLogType = 'generateText' | 'streamText';
  * });
  * ```
  */
-export interface LLMCallStartEvent {
+export interface LLMCallStartEvent extends LLMCallCorrelation {
   type: 'llm_call_start';
   callType: LLMCallLogType;
   modelId: string;
+  /** Provider the call was made through (before any fallback or routing) */
+  provider?: ProviderType;
   timestamp: number;
   request: {
     params: Record<string, unknown>;
@@ -88,20 +116,105 @@ export interface LLMCallStartEvent {
  * });
  * ```
  */
-export interface LLMCallEndEvent {
+export interface LLMCallEndEvent extends LLMCallCorrelation {
   type: 'llm_call_end';
   callType: LLMCallLogType;
   modelId: string;
+  /** Provider that served the call */
+  provider?: ProviderType;
   timestamp: number;
   response: {
     duration: number;
+    /** Usage as recorded in the session summary (zero for cache hits) */
     usage?: LanguageModelUsage;
+    /** Cost in USD, as recorded in the session summary */
+    cost?: number;
+    /** True when the response was replayed from the response cache */
+    cached?: boolean;
+    /** Set for generateText; reading it from a streamText result would consume the stream */
+    finishReason?: FinishReason;
     raw: unknown;
     error?: Error;
   };
 }
 
-export interface ExecutionStartEvent {
+/**
+ * Event emitted when a failed LLM request is about to be retried under the provider's retry policy.
+ *
+ * @example
+ * ```typescript
+ * logger.onLLMCallRetry?.({
+ *   type: 'llm_call_retry',
+ *   callType: 'generateText',
+ *   modelId: 'gpt-4o',
+ *   timestamp: Date.now(),
+ *   attempt: 1,
+ *   maxAttempts: 3,
+ *   delayMs: 1000,
+ *   error: new Error('Rate limit exceeded'),
+ *   errorKind: 'rate_limit',
+ * });
+ * ```
+ */
+export interface LLMCallRetryEvent extends LLMCallCorrelation {
+  type: 'llm_call_retry';
+  callType: LLMCallLogType;
+  modelId: string;
+  timestamp: number;
+  /** 1-based number of the attempt that failed */
+  attempt: number;
+  maxAttempts: number;
+  /** Wait before the next attempt */
+  delayMs: number;
+  error: Error;
+  errorKind: ProviderErrorKind;
+}
+
+/** Identifiers for correlating the start and end events of one tool execution */
+export interface ToolCallCorrelation extends LogCorrelation {
+  /** LLM call whose response requested the tool */
+  callId?: string;
+  /** ID the model gave the tool call */
+  toolCallId?: string;
+}
+
+/**
+ * Event emitted when a session starts executing a tool the model called.
+ *
+ * @example
+ * ```typescript
+ * logger.onToolCallStart?.({
+ *   type: 'tool_call_start',
+ *   toolName: 'search',
+ *   timestamp: Date.now(),
+ *   args: { query: 'weather' },
+ * });
+ * ```
+ */
+export interface ToolCallStartEvent extends ToolCallCorrelation {
+  type: 'tool_call_start';
+  toolName: string;
+  timestamp: number;
+  /** Arguments, redacted per the tool policy (absent when omitted) */
+  args?: unknown;
+}
+
+/**
+ * Event emitted when a tool execution ends (success, error or timeout).
+ */
+export interface ToolCallEndEvent extends ToolCallCorrelation {
+  type: 'tool_call_end';
+  toolName: string;
+  timestamp: number;
+  duration: number;
+  /** Length of the JSON-serialized result, in characters */
+  resultSize?: number;
+  /** Set when the execution hit the tool policy's timeout */
+  timedOut?: boolean;
+  error?: Error;
+}
+
+export interface ExecutionStartEvent extends LogCorrelation {
   type: 'execution_start';
   timestamp: number;
 }
@@ -110,7 +223,7 @@ export interface ExecutionStartEvent {
  * Event emitted for each intermediate event during execution.
  * @typeParam TEvent - The type of the emitted event (includes metrics)
  */
-export interface ExecutionEmitEvent<TEvent = unknown> {
+export interface ExecutionEmitEvent<TEvent = unknown> extends LogCorrelation {
   type: 'execution_emit';
   event: TEvent;
 }
@@ -119,7 +232,7 @@ export interface ExecutionEmitEvent<TEvent = unknown> {
  * Event emitted when execution completes successfully.
  * @typeParam TResult - The type of the execution result
  */
-export interface ExecutionDoneEvent<TResult = unknown> {
+export interface ExecutionDoneEvent<TResult = unknown> extends LogCorrelation {
   type: 'execution_done';
   timestamp: number;
   duration: number;
@@ -131,7 +244,7 @@ export interface ExecutionDoneEvent<TResult = unknown> {
  * Event emitted when execution fails with an error.
  * @typeParam TResult - The type of partial result data (if available)
  */
-export interface ExecutionErrorEvent<TResult = unknown> {
+export interface ExecutionErrorEvent<TResult = unknown> extends LogCorrelation {
   type: 'execution_error';
   timestamp: number;
   duration: number;
@@ -140,6 +253,17 @@ export interface ExecutionErrorEvent<TResult = unknown> {
   summary?: SessionSummary;
 }
 
+/**
+ * Event emitted when an execution is canceled, by `cancel()`, `cleanup()` or its abort signal.
+ * Timeouts are failures and emit `execution_error` instead.
+ */
+export interface ExecutionCancelEvent extends LogCorrelation {
+  type: 'execution_cancel';
+  timestamp: number;
+  duration: number;
+  summary?: SessionSummary;
+}
+
 /**
  * No-op logger (default when no logger provided).
  *
@@ -171,3 +295,55 @@ export const noopLogger: Logger = {};
 export function createLogger(handlers: Partial<Logger>): Logger {
   return handlers;
 }
+
+const LOGGER_METHODS = [
+  'onLLMCallStart',
+  'onLLMCallEnd',
+  'onLLMCallRetry',
+  'onToolCallStart',
+  'onToolCallEnd',
+  'onExecutionStart',
+  'onExecutionEmit',
+  'onExecutionDone',
+  'onExecutionError',
+  'onExecutionCancel',
+  'log',
+] as const satisfies readonly (keyof Logger)[];
+
+/**
+ * Combines loggers so every event is delivered to each of them in order.
+ * A logger that throws (or returns a rejected promise) is reported with console.error
+ * and does not stop the others or the session.
+ *
+ * @example
+ * ```typescript
+ * const provider = createGoogleProvider({ apiKey })
+ *   .withLogger(composeLoggers(createJsonlLogger({ path: 'agent.log' }), metricsLogger));
+ * ```
+ */
+export function composeLoggers(...loggers: Logger[]): Logger {
+  const composed: Logger = {};
+
+  for (const method of LOGGER_METHODS) {
+    const handlers = loggers.filter((logger) => logger[method] !== undefined);
+    if (handlers.length === 0) {
+      continue;
+    }
+
+    const report = (error: unknown) => console.error(`[composeLoggers] ${method} failed:`, error);
+    (composed[method] as (...args: unknown[]) => void) = (...args: unknown[]) => {
+      for (const logger of handlers) {
+        try {
+          const result: unknown = (logger[method] as (...args: unknown[]) => unknown).apply(logger, args);
+          if (result instanceof Promise) {
+            result.catch(report);
+          }
+        } catch (error) {
+          report(error);
+        }
+      }
+    };
+  }
+
+  return composed;
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryResponseCache } from '../session/response-cache.js';
+import { mock } from '../testing/mock.js';
+import { createMetricsLogger } from './metrics-logger.js';
+
+const USAGE = {
+  inputTokens: { total: 1000, noCache: 1000, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 100, text: 100, reasoning: undefined },
+};
+
+const PRICING = { 'mock-model-id': { inputPricePerMillion: 1, outputPricePerMillion: 10 } };
+
+const END_EVENT = {
+  type: 'llm_call_end' as const,
+  callType: 'generateText' as const,
+  modelId: 'gpt-4o',
+  provider: 'openai' as const,
+  timestamp: Date.now(),
+};
+
+describe('createMetricsLogger', () => {
+  it('should aggregate LLM calls, tokens and cost per provider and model', async () => {
+    const metrics = createMetricsLogger();
+    const provider = mock
+      .provider(mock.text('Hi', { usage: USAGE }))
+      .withLogger(metrics)
+      .withPricing(PRICING);
+
+    await provider
+      .simpleExecution(async (session) => {
+        await session.generateText({ prompt: 'One' });
+        return session.generateText({ prompt: 'Two' });
+      })
+      .result();
+
+    const snapshot = metrics.snapshot();
+    const labels = { provider: 'mock', model: 'mock-model-id' };
+
+    expect(snapshot.agtlantis_llm_calls_total.samples).toEqual([
+      { labels: { ...labels, status: 'success' }, value: 2 },
+    ]);
+    expect(snapshot.agtlantis_llm_input_tokens_total.samples).toEqual([{ labels, value: 2000 }]);
+    expect(snapshot.agtlantis_llm_output_tokens_total.samples).toEqual([{ labels, value: 200 }]);
+    expect(snapshot.agtlantis_llm_cost_usd_total.samples).toEqual([{ labels, value: 0.004 }]);
+    expect(snapshot.agtlantis_llm_call_duration_seconds.samples).toEqual([
+      expect.objectContaining({ labels, count: 2 }),
+    ]);
+    expect(snapshot.agtlantis_executions_total.samples).toEqual([
+      { labels: { status: 'succeeded' }, value: 1 },
+    ]);
+  });
+
+  it('should count cache hits without their tokens, cost or latency', async () => {
+    const metrics = createMetricsLogger();
+    const provider = mock
+      .provider(mock.text('Hi', { usage: USAGE }))
+      .withLogger(metrics)
+      .withPricing(PRICING)
+      .withResponseCache(new InMemoryResponseCache());
+
+    await provider
+      .simpleExecution(async (session) => {
+        await session.generateText({ prompt: 'One' });
+        await session.generateText({ prompt: 'Two' });
+        return session.generateText({ prompt: 'One' });
+      })
+      .result();
+
+    const snapshot = metrics.snapshot();
+    const labels = { provider: 'mock', model: 'mock-model-id' };
+
+    expect(snapshot.agtlantis_llm_calls_total.samples).toEqual([
+      { labels: { ...labels, status: 'success' }, value: 2 },
+      { labels: { ...labels, status: 'cached' }, value: 1 },
+    ]);
+    expect(snapshot.agtlantis_llm_input_tokens_total.samples).toEqual([{ labels, value: 2000 }]);
+    expect(snapshot.agtlantis_llm_cost_usd_total.samples).toEqual([{ labels, value: 0.004 }]);
+    expect(snapshot.agtlantis_llm_call_duration_seconds.samples).toEqual([
+      expect.objectContaining({ labels, count: 2 }),
+    ]);
+  });
+
+  it('should count failed and canceled executions', async () => {
+    const metrics = createMetricsLogger();
+
+    await mock
+      .provider(mock.error(new Error('boom')))
+      .withLogger(metrics)
+      .simpleExecution((session) => session.generateText({ prompt: 'Hi' }))
+      .result();
+
+    const canceled = mock
+      .provider(mock.text('Hi'))
+      .withLogger(metrics)
+      .simpleExecution(async () => {
+        throw new DOMException('Aborted', 'AbortError');
+      });
+    canceled.cancel();
+    await canceled.result();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.agtlantis_executions_total.samples).toEqual([
+      { labels: { status: 'failed' }, value: 1 },
+      { labels: { status: 'canceled' }, value: 1 },
+    ]);
+    expect(snapshot.agtlantis_llm_calls_total.samples).toEqual([
+      { labels: { provider: 'mock', model: 'mock-model-id', status: 'error' }, value: 1 },
+    ]);
+  });
+
+  it('should count emitted events per type', async () => {
+    const metrics = createMetricsLogger();
+
+    await mock
+      .provider(mock.text('Hi'))
+      .withLogger(metrics)
+      .streamingExecution<{ type: 'step' } | { type: 'complete'; data: string }>(
+        async function* (session) {
+          yield session.emit({ type: 'step' });
+          yield session.emit({ type: 'step' });
+          return session.done('ok');
+        }
+      )
+      .result();
+
+    expect(metrics.snapshot().agtlantis_emitted_events_total.samples).toEqual([
+      { labels: { type: 'step' }, value: 2 },
+      { labels: { type: 'complete' }, value: 1 },
+    ]);
+  });
+
+  it('should count tool executions per tool and status', () => {
+    const metrics = createMetricsLogger();
+    const event = { type: 'tool_call_end' as const, toolName: 'search', timestamp: Date.now() };
+
+    metrics.onToolCallEnd!({ ...event, duration: 200 });
+    metrics.onToolCallEnd!({ ...event, duration: 5000, error: new Error('slow'), timedOut: true });
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.agtlantis_tool_calls_total.samples).toEqual([
+      { labels: { tool: 'search', status: 'success' }, value: 1 },
+      { labels: { tool: 'search', status: 'timeout' }, value: 1 },
+    ]);
+    expect(snapshot.agtlantis_tool_call_duration_seconds.samples).toEqual([
+      expect.objectContaining({ labels: { tool: 'search' }, count: 2, sum: 5.2 }),
+    ]);
+  });
+
+  it('should render the Prometheus text format', () => {
+    const metrics = createMetricsLogger({ buckets: [0.5, 1] });
+
+    metrics.onLLMCallEnd?.({ ...END_EVENT, response: { duration: 300, raw: null, cost: 0.01 } });
+    metrics.onLLMCallEnd?.({ ...END_EVENT, response: { duration: 800, raw: null } });
+    metrics.onLLMCallEnd?.({ ...END_EVENT, response: { duration: 2500, raw: null } });
+
+    const text = metrics.toPrometheus();
+
+    expect(text).toContain('# TYPE agtlantis_llm_calls_total counter');
+    expect(text).toContain(
+      'agtlantis_llm_calls_total{provider="openai",model="gpt-4o",status="success"} 3'
+    );
+    expect(text).toContain('# TYPE agtlantis_llm_call_duration_seconds histogram');
+    expect(text).toContain(
+      [
+        'agtlantis_llm_call_duration_seconds_bucket{provider="openai",model="gpt-4o",le="0.5"} 1',
+        'agtlantis_llm_call_duration_seconds_bucket{provider="openai",model="gpt-4o",le="1"} 2',
+        'agtlantis_llm_call_duration_seconds_bucket{provider="openai",model="gpt-4o",le="+Inf"} 3',
+        'agtlantis_llm_call_duration_seconds_sum{provider="openai",model="gpt-4o"} 3.6',
+        'agtlantis_llm_call_duration_seconds_count{provider="openai",model="gpt-4o"} 3',
+      ].join('\n')
+    );
+    expect(text).toContain('agtlantis_llm_cost_usd_total{provider="openai",model="gpt-4o"} 0.01');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should escape label values and apply the prefix', () => {
+    const metrics = createMetricsLogger({ prefix: 'app_' });
+
+    metrics.onLLMCallRetry?.({
+      type: 'llm_call_retry',
+      callType: 'generateText',
+      modelId: 'my "custom"\\model',
+      timestamp: Date.now(),
+      attempt: 1,
+      maxAttempts: 3,
+      delayMs: 100,
+      error: new Error('Rate limited'),
+      errorKind: 'rate_limit',
+    });
+
+    expect(metrics.toPrometheus()).toContain(
+      'app_llm_call_retries_total{model="my \\"custom\\"\\\\model",error_kind="rate_limit"} 1'
+    );
+  });
+
+  it('should clear values on reset', () => {
+    const metrics = createMetricsLogger();
+    metrics.onLLMCallEnd?.({ ...END_EVENT, response: { duration: 100, raw: null } });
+
+    metrics.reset();
+
+    expect(metrics.snapshot()).toEqual({});
+    expect(metrics.toPrometheus()).toBe('');
+  });
+});
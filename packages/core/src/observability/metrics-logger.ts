@@ -0,0 +1,330 @@
+import type { LanguageModelUsage } from 'ai';
+import type { Logger } from './logger.js';
+
+export interface MetricsLoggerOptions {
+  /** Prefix of every metric name. @default 'agtlantis_' */
+  prefix?: string;
+  /**
+   * Upper bounds (in seconds) of the latency histogram buckets.
+   * @default [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+   */
+  buckets?: number[];
+}
+
+export type MetricLabels = Record<string, string>;
+
+export interface CounterSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: MetricLabels;
+  /** Cumulative number of observations less than or equal to each bucket bound */
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+}
+
+export interface CounterMetric {
+  type: 'counter';
+  help: string;
+  samples: CounterSample[];
+}
+
+export interface HistogramMetric {
+  type: 'histogram';
+  help: string;
+  samples: HistogramSample[];
+}
+
+/** Metrics keyed by their full name (including the prefix) */
+export type MetricsSnapshot = Record<string, CounterMetric | HistogramMetric>;
+
+export interface MetricsLogger extends Logger {
+  /** Returns a copy of the current values */
+  snapshot(): MetricsSnapshot;
+  /** Renders the current values in the Prometheus text exposition format (version 0.0.4) */
+  toPrometheus(): string;
+  /** Clears all recorded values */
+  reset(): void;
+}
+
+/** Content type of {@link MetricsLogger.toPrometheus} output, for `/metrics` responses */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+interface MetricDefinition {
+  name: string;
+  type: 'counter' | 'histogram';
+  help: string;
+}
+
+const METRICS = {
+  llmCalls: {
+    name: 'llm_calls_total',
+    type: 'counter',
+    help: 'LLM calls by provider, model and status (success, error or cached)',
+  },
+  llmCallDuration: {
+    name: 'llm_call_duration_seconds',
+    type: 'histogram',
+    help: 'LLM call latency in seconds',
+  },
+  llmCallRetries: {
+    name: 'llm_call_retries_total',
+    type: 'counter',
+    help: 'Retried LLM requests by model and error kind',
+  },
+  inputTokens: {
+    name: 'llm_input_tokens_total',
+    type: 'counter',
+    help: 'Input tokens by provider and model',
+  },
+  outputTokens: {
+    name: 'llm_output_tokens_total',
+    type: 'counter',
+    help: 'Output tokens by provider and model',
+  },
+  cost: {
+    name: 'llm_cost_usd_total',
+    type: 'counter',
+    help: 'LLM cost in USD by provider and model',
+  },
+  toolCalls: {
+    name: 'tool_calls_total',
+    type: 'counter',
+    help: 'Tool executions by tool and status',
+  },
+  toolCallDuration: {
+    name: 'tool_call_duration_seconds',
+    type: 'histogram',
+    help: 'Tool execution latency in seconds by tool',
+  },
+  executions: {
+    name: 'executions_total',
+    type: 'counter',
+    help: 'Finished executions by status',
+  },
+  executionDuration: {
+    name: 'execution_duration_seconds',
+    type: 'histogram',
+    help: 'Execution duration in seconds by status',
+  },
+  emittedEvents: {
+    name: 'emitted_events_total',
+    type: 'counter',
+    help: 'Events emitted by streaming executions by type',
+  },
+} as const satisfies Record<string, MetricDefinition>;
+
+interface Series {
+  labels: MetricLabels;
+  value: number;
+  /** Per-bucket (non-cumulative) counts, histograms only */
+  bucketCounts: number[];
+  count: number;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  if (value === -Infinity) {
+    return '-Inf';
+  }
+  return String(value);
+}
+
+function tokenCounts(usage: LanguageModelUsage | undefined) {
+  return { input: usage?.inputTokens ?? 0, output: usage?.outputTokens ?? 0 };
+}
+
+/**
+ * Creates a Logger that aggregates LLM call and execution metrics in memory.
+ *
+ * Records call counts, latency histograms, token usage and cost per provider and model
+ * (from `LLMCallEndEvent`), execution outcomes and durations (succeeded, failed, canceled),
+ * retries, tool executions per tool, and emitted events per type. Values can be read as a plain object with
+ * `snapshot()` or rendered for a Prometheus `/metrics` endpoint with `toPrometheus()`.
+ *
+ * @example
+ * ```typescript
+ * const metrics = createMetricsLogger();
+ * const provider = createGoogleProvider({ apiKey }).withLogger(metrics);
+ *
+ * app.get('/metrics', (_req, res) => {
+ *   res.type(PROMETHEUS_CONTENT_TYPE).send(metrics.toPrometheus());
+ * });
+ * ```
+ */
+export function createMetricsLogger(options: MetricsLoggerOptions = {}): MetricsLogger {
+  const { prefix = 'agtlantis_' } = options;
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  const series = new Map<MetricDefinition, Map<string, Series>>();
+
+  function seriesOf(metric: MetricDefinition, labels: MetricLabels): Series {
+    let byLabels = series.get(metric);
+    if (!byLabels) {
+      byLabels = new Map();
+      series.set(metric, byLabels);
+    }
+    const key = labelKey(labels);
+    let entry = byLabels.get(key);
+    if (!entry) {
+      entry = { labels, value: 0, bucketCounts: bounds.map(() => 0), count: 0 };
+      byLabels.set(key, entry);
+    }
+    return entry;
+  }
+
+  function increment(metric: MetricDefinition, labels: MetricLabels, amount = 1): void {
+    seriesOf(metric, labels).value += amount;
+  }
+
+  function observe(metric: MetricDefinition, labels: MetricLabels, value: number): void {
+    const entry = seriesOf(metric, labels);
+    entry.value += value;
+    entry.count += 1;
+    const bucket = bounds.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      entry.bucketCounts[bucket] += 1;
+    }
+  }
+
+  function cumulativeBuckets(entry: Series): { le: number; count: number }[] {
+    let running = 0;
+    const buckets = bounds.map((le, index) => {
+      running += entry.bucketCounts[index];
+      return { le, count: running };
+    });
+    buckets.push({ le: Infinity, count: entry.count });
+    return buckets;
+  }
+
+  function snapshot(): MetricsSnapshot {
+    const result: MetricsSnapshot = {};
+    for (const metric of Object.values(METRICS)) {
+      const entries = [...(series.get(metric)?.values() ?? [])];
+      if (entries.length === 0) {
+        continue;
+      }
+      const name = `${prefix}${metric.name}`;
+      result[name] =
+        metric.type === 'counter'
+          ? {
+              type: 'counter',
+              help: metric.help,
+              samples: entries.map((entry) => ({
+                labels: { ...entry.labels },
+                value: entry.value,
+              })),
+            }
+          : {
+              type: 'histogram',
+              help: metric.help,
+              samples: entries.map((entry) => ({
+                labels: { ...entry.labels },
+                buckets: cumulativeBuckets(entry),
+                sum: entry.value,
+                count: entry.count,
+              })),
+            };
+    }
+    return result;
+  }
+
+  function toPrometheus(): string {
+    const lines: string[] = [];
+    for (const [name, metric] of Object.entries(snapshot())) {
+      lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+      if (metric.type === 'counter') {
+        for (const sample of metric.samples) {
+          lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+        continue;
+      }
+      for (const sample of metric.samples) {
+        for (const bucket of sample.buckets) {
+          const le = { le: formatValue(bucket.le) };
+          lines.push(`${name}_bucket${formatLabels(sample.labels, le)} ${bucket.count}`);
+        }
+        lines.push(`${name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+        lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  return {
+    onLLMCallEnd(event) {
+      const { response } = event;
+      const labels = { provider: event.provider ?? 'unknown', model: event.modelId };
+      const tokens = tokenCounts(response.usage);
+
+      const status = response.error ? 'error' : response.cached ? 'cached' : 'success';
+      increment(METRICS.llmCalls, { ...labels, status });
+      // Cache hits never reach the provider, so they would skew its latency
+      if (!response.cached) {
+        observe(METRICS.llmCallDuration, labels, response.duration / 1000);
+      }
+      increment(METRICS.inputTokens, labels, tokens.input);
+      increment(METRICS.outputTokens, labels, tokens.output);
+      increment(METRICS.cost, labels, response.cost ?? 0);
+    },
+
+    onLLMCallRetry(event) {
+      increment(METRICS.llmCallRetries, { model: event.modelId, error_kind: event.errorKind });
+    },
+
+    onToolCallEnd(event) {
+      const status = event.timedOut ? 'timeout' : event.error ? 'error' : 'success';
+      increment(METRICS.toolCalls, { tool: event.toolName, status });
+      observe(METRICS.toolCallDuration, { tool: event.toolName }, event.duration / 1000);
+    },
+
+    onExecutionEmit(event) {
+      const type = (event.event as { type?: unknown } | null)?.type;
+      increment(METRICS.emittedEvents, { type: typeof type === 'string' ? type : 'unknown' });
+    },
+
+    onExecutionDone(event) {
+      increment(METRICS.executions, { status: 'succeeded' });
+      observe(METRICS.executionDuration, { status: 'succeeded' }, event.duration / 1000);
+    },
+
+    onExecutionError(event) {
+      increment(METRICS.executions, { status: 'failed' });
+      observe(METRICS.executionDuration, { status: 'failed' }, event.duration / 1000);
+    },
+
+    onExecutionCancel(event) {
+      increment(METRICS.executions, { status: 'canceled' });
+      observe(METRICS.executionDuration, { status: 'canceled' }, event.duration / 1000);
+    },
+
+    snapshot,
+    toPrometheus,
+
+    reset() {
+      series.clear();
+    },
+  };
+}
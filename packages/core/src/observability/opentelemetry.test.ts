@@ -0,0 +1,173 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { ExecutionErrorCode } from '../errors/index.js';
+import { mock } from '../testing/mock.js';
+import { createOpenTelemetryLogger } from './opentelemetry.js';
+
+const USAGE = {
+  inputTokens: { total: 1000, noCache: 1000, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 100, text: 100, reasoning: undefined },
+};
+
+const PRICING = { 'mock-model-id': { inputPricePerMillion: 1, outputPricePerMillion: 10 } };
+
+describe('createOpenTelemetryLogger', () => {
+  const exporter = new InMemorySpanExporter();
+  const tracerProvider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const logger = createOpenTelemetryLogger({ tracer: tracerProvider.getTracer('test') });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  function spans(name: string): ReadableSpan[] {
+    return exporter.getFinishedSpans().filter((span) => span.name === name);
+  }
+
+  function parentOf(span: ReadableSpan): string | undefined {
+    return span.parentSpanContext?.spanId;
+  }
+
+  it('should trace an execution with a child span per LLM call', async () => {
+    const provider = mock
+      .provider(mock.text('Hi', { usage: USAGE }))
+      .withLogger(logger)
+      .withPricing(PRICING);
+
+    await provider
+      .simpleExecution(async (session) => {
+        await session.generateText({ prompt: 'Hello', temperature: 0.2, maxOutputTokens: 500 });
+        return session.generateText({ prompt: 'Again' });
+      })
+      .result();
+
+    const [execution] = spans('agtlantis.execution');
+    const calls = spans('chat mock-model-id');
+
+    expect(calls).toHaveLength(2);
+    expect(calls.map(parentOf)).toEqual([
+      execution.spanContext().spanId,
+      execution.spanContext().spanId,
+    ]);
+    expect(calls[0].kind).toBe(SpanKind.CLIENT);
+    expect(calls[0].attributes).toMatchObject({
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.provider.name': 'mock',
+      'gen_ai.request.model': 'mock-model-id',
+      'gen_ai.request.temperature': 0.2,
+      'gen_ai.request.max_tokens': 500,
+      'gen_ai.usage.input_tokens': 1000,
+      'gen_ai.usage.output_tokens': 100,
+      'gen_ai.response.finish_reasons': ['stop'],
+      'agtlantis.cost.usd': 0.002,
+    });
+    expect(execution.attributes).toMatchObject({
+      'agtlantis.llm_calls': 2,
+      'gen_ai.usage.input_tokens': 2000,
+      'agtlantis.cost.usd': 0.004,
+    });
+  });
+
+  it('should keep LLM calls under the execution span across streaming emits', async () => {
+    const provider = mock.provider(mock.stream(['a', 'b'], { usage: USAGE })).withLogger(logger);
+
+    const execution = provider.streamingExecution<
+      { type: 'step' } | { type: 'complete'; data: string }
+    >(async function* (session) {
+      yield session.emit({ type: 'step' });
+      const text = await session.streamText({ prompt: 'Hi' }).text;
+      yield session.emit({ type: 'step' });
+      return session.done(text);
+    });
+    await execution.result();
+
+    const [span] = spans('agtlantis.execution');
+    const [call] = spans('chat mock-model-id');
+
+    expect(parentOf(call)).toBe(span.spanContext().spanId);
+    expect(call.attributes['agtlantis.call_type']).toBe('streamText');
+    expect(span.events.map((event) => event.attributes?.['agtlantis.event.type'])).toEqual([
+      'step',
+      'step',
+    ]);
+  });
+
+  it('should give concurrent executions separate traces', async () => {
+    const provider = mock.provider(mock.text('Hi')).withLogger(logger);
+    const run = () =>
+      provider.simpleExecution((session) => session.generateText({ prompt: 'Hi' })).result();
+
+    await Promise.all([run(), run()]);
+
+    const executionIds = spans('agtlantis.execution').map((span) => span.spanContext().spanId);
+    const parents = spans('chat mock-model-id').map(parentOf);
+
+    expect(new Set(executionIds).size).toBe(2);
+    expect(new Set(parents)).toEqual(new Set(executionIds));
+  });
+
+  it('should record failed LLM calls and executions with the error code', async () => {
+    const provider = mock.provider(mock.error(new Error('Rate limited'))).withLogger(logger);
+
+    await provider.simpleExecution((session) => session.generateText({ prompt: 'Hi' })).result();
+
+    const [call] = spans('chat mock-model-id');
+    const [execution] = spans('agtlantis.execution');
+
+    expect(call.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Rate limited' });
+    expect(call.events.map((event) => event.name)).toContain('exception');
+    expect(execution.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('should set error.type from AgtlantisError codes', async () => {
+    const provider = mock
+      .provider(mock.text('Hi'))
+      .withLogger(logger)
+      .withBudget({ maxLLMCalls: 0 });
+
+    await provider.simpleExecution((session) => session.generateText({ prompt: 'Hi' })).result();
+
+    const [execution] = spans('agtlantis.execution');
+    expect(execution.attributes).toMatchObject({
+      'error.type': ExecutionErrorCode.BUDGET_EXCEEDED,
+      'agtlantis.error.code': ExecutionErrorCode.BUDGET_EXCEEDED,
+    });
+  });
+
+  it('should end the execution span when the execution is canceled', async () => {
+    const execution = mock
+      .provider(mock.text('Hi'))
+      .withLogger(logger)
+      .simpleExecution(async () => {
+        throw new DOMException('Aborted', 'AbortError');
+      });
+    execution.cancel();
+    await execution.result();
+
+    const [span] = spans('agtlantis.execution');
+    expect(span.attributes['agtlantis.canceled']).toBe(true);
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should ignore events without correlation IDs', () => {
+    expect(() =>
+      logger.onLLMCallEnd?.({
+        type: 'llm_call_end',
+        callType: 'generateText',
+        modelId: 'gpt-4o',
+        timestamp: Date.now(),
+        response: { duration: 1, raw: null },
+      })
+    ).not.toThrow();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  context,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+  type Tracer,
+} from '@opentelemetry/api';
+import type { LanguageModelUsage } from 'ai';
+import { AgtlantisError } from '../errors/index.js';
+import type { SessionSummary } from '../session/types.js';
+import type { Logger } from './logger.js';
+
+export interface OpenTelemetryLoggerOptions {
+  /** Tracer spans are created with, e.g. `trace.getTracer('my-app')` */
+  tracer: Tracer;
+  /** Name of execution spans. Defaults to `'agtlantis.execution'`. */
+  executionSpanName?: string;
+}
+
+/** GenAI semantic convention attributes for request parameters */
+const REQUEST_ATTRIBUTES: Record<string, string> = {
+  maxOutputTokens: 'gen_ai.request.max_tokens',
+  temperature: 'gen_ai.request.temperature',
+  topP: 'gen_ai.request.top_p',
+  topK: 'gen_ai.request.top_k',
+  presencePenalty: 'gen_ai.request.presence_penalty',
+  frequencyPenalty: 'gen_ai.request.frequency_penalty',
+  stopSequences: 'gen_ai.request.stop_sequences',
+  seed: 'gen_ai.request.seed',
+};
+
+function requestAttributes(params: Record<string, unknown>): Attributes {
+  const attributes: Attributes = {};
+  for (const [param, attribute] of Object.entries(REQUEST_ATTRIBUTES)) {
+    const value = params[param];
+    if (typeof value === 'number' || Array.isArray(value)) {
+      attributes[attribute] = value;
+    }
+  }
+  return attributes;
+}
+
+function usageAttributes(usage: LanguageModelUsage | undefined): Attributes {
+  return {
+    'gen_ai.usage.input_tokens': usage?.inputTokens,
+    'gen_ai.usage.output_tokens': usage?.outputTokens,
+  };
+}
+
+function summaryAttributes(summary: SessionSummary): Attributes {
+  return {
+    ...usageAttributes(summary.totalLLMUsage),
+    'agtlantis.llm_calls': summary.llmCallCount,
+    'agtlantis.cost.usd': summary.totalCost,
+  };
+}
+
+function recordError(span: Span, error: Error): void {
+  const code = error instanceof AgtlantisError ? error.code : undefined;
+  span.recordException(error);
+  span.setAttributes({ 'error.type': code ?? error.name, 'agtlantis.error.code': code });
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+}
+
+/**
+ * Creates a Logger that traces executions and LLM calls with OpenTelemetry.
+ *
+ * Each execution becomes a span (a child of the context active when it starts), and
+ * each LLM call a `chat {model}` client span under it with GenAI semantic convention
+ * attributes: model, provider, request parameters, token usage and finish reason,
+ * plus `agtlantis.cost.usd`. Tool executions become `execute_tool {name}` spans under
+ * the execution. Calls are parented through their execution ID rather than
+ * the active context, so the trace stays intact across `streamingExecution` emits.
+ * Emitted events and retries are recorded as span events, and errors set the span
+ * status with `error.type` from `AgtlantisError.code`.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const provider = createGoogleProvider({ apiKey }).withLogger(
+ *   createOpenTelemetryLogger({ tracer: trace.getTracer('my-app') })
+ * );
+ * ```
+ */
+export function createOpenTelemetryLogger(options: OpenTelemetryLoggerOptions): Logger {
+  const { tracer, executionSpanName = 'agtlantis.execution' } = options;
+  const executions = new Map<string, Span>();
+  const calls = new Map<string, Span>();
+  const toolCalls = new Map<string, Span>();
+
+  function endExecution(
+    executionId: string | undefined,
+    timestamp: number,
+    apply: (span: Span) => void
+  ): void {
+    const span = executionId ? executions.get(executionId) : undefined;
+    if (!span) {
+      return;
+    }
+    executions.delete(executionId!);
+    apply(span);
+    span.end(timestamp);
+  }
+
+  return {
+    onExecutionStart(event) {
+      if (!event.executionId) {
+        return;
+      }
+      const span = tracer.startSpan(
+        executionSpanName,
+        { startTime: event.timestamp, attributes: { 'agtlantis.execution.id': event.executionId } },
+        context.active()
+      );
+      executions.set(event.executionId, span);
+    },
+
+    onExecutionEmit(event) {
+      const span = event.executionId ? executions.get(event.executionId) : undefined;
+      const type = (event.event as { type?: unknown } | null)?.type;
+      span?.addEvent('agtlantis.emit', {
+        'agtlantis.event.type': typeof type === 'string' ? type : undefined,
+      });
+    },
+
+    onExecutionDone(event) {
+      endExecution(event.executionId, event.timestamp, (span) => {
+        span.setAttributes(summaryAttributes(event.summary));
+      });
+    },
+
+    onExecutionError(event) {
+      endExecution(event.executionId, event.timestamp, (span) => {
+        if (event.summary) {
+          span.setAttributes(summaryAttributes(event.summary));
+        }
+        recordError(span, event.error);
+      });
+    },
+
+    onExecutionCancel(event) {
+      endExecution(event.executionId, event.timestamp, (span) => {
+        if (event.summary) {
+          span.setAttributes(summaryAttributes(event.summary));
+        }
+        span.setAttribute('agtlantis.canceled', true);
+      });
+    },
+
+    onLLMCallStart(event) {
+      if (!event.callId) {
+        return;
+      }
+      const execution = event.executionId ? executions.get(event.executionId) : undefined;
+      const parent = execution ? trace.setSpan(context.active(), execution) : context.active();
+      const span = tracer.startSpan(
+        `chat ${event.modelId}`,
+        {
+          kind: SpanKind.CLIENT,
+          startTime: event.timestamp,
+          attributes: {
+            'gen_ai.operation.name': 'chat',
+            'gen_ai.provider.name': event.provider,
+            'gen_ai.request.model': event.modelId,
+            'agtlantis.call_type': event.callType,
+            ...requestAttributes(event.request.params),
+          },
+        },
+        parent
+      );
+      calls.set(event.callId, span);
+    },
+
+    onLLMCallRetry(event) {
+      const span = event.callId ? calls.get(event.callId) : undefined;
+      span?.addEvent(
+        'agtlantis.retry',
+        {
+          'agtlantis.retry.attempt': event.attempt,
+          'agtlantis.retry.delay_ms': event.delayMs,
+          'error.type': event.errorKind,
+        },
+        event.timestamp
+      );
+    },
+
+    onToolCallStart(event) {
+      if (!event.toolCallId) {
+        return;
+      }
+      const execution = event.executionId ? executions.get(event.executionId) : undefined;
+      const parent = execution ? trace.setSpan(context.active(), execution) : context.active();
+      const span = tracer.startSpan(
+        `execute_tool ${event.toolName}`,
+        {
+          kind: SpanKind.INTERNAL,
+          startTime: event.timestamp,
+          attributes: {
+            'gen_ai.operation.name': 'execute_tool',
+            'gen_ai.tool.name': event.toolName,
+            'gen_ai.tool.call.id': event.toolCallId,
+          },
+        },
+        parent
+      );
+      toolCalls.set(event.toolCallId, span);
+    },
+
+    onToolCallEnd(event) {
+      const span = event.toolCallId ? toolCalls.get(event.toolCallId) : undefined;
+      if (!span) {
+        return;
+      }
+      toolCalls.delete(event.toolCallId!);
+
+      span.setAttributes({ 'agtlantis.tool.result_size': event.resultSize });
+      if (event.error) {
+        recordError(span, event.error);
+      }
+      span.end(event.timestamp);
+    },
+
+    onLLMCallEnd(event) {
+      const span = event.callId ? calls.get(event.callId) : undefined;
+      if (!span) {
+        return;
+      }
+      calls.delete(event.callId!);
+
+      const { response } = event;
+      span.setAttributes({
+        'gen_ai.provider.name': event.provider,
+        ...usageAttributes(response.usage),
+        'gen_ai.response.finish_reasons': response.finishReason
+          ? [response.finishReason]
+          : undefined,
+        'agtlantis.cost.usd': response.cost,
+        'agtlantis.cached': response.cached,
+      });
+      if (response.error) {
+        recordError(span, response.error);
+      }
+      span.end(event.timestamp);
+    },
+  };
+}
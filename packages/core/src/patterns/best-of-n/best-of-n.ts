@@ -0,0 +1,332 @@
+import { Output, type ToolSet } from 'ai';
+import { z } from 'zod';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import type {
+    DefaultOutput,
+    GenerateTextParams,
+    GenerateTextResultTyped,
+    InferOutputComplete,
+    OutputSpec,
+} from '../../session/types.js';
+
+/** One successful sample */
+export interface BestOfNCandidate<TOutput, TResult = unknown> {
+    /** Position of the sample, from 0 */
+    index: number;
+    /** Structured output, or the text when the call has no `output` */
+    output: TOutput;
+    /** Equivalence key; candidates with the same key are in the same group */
+    key: string;
+    /** Seed used for this sample, if any */
+    seed?: number;
+    /** Temperature used for this sample, if any */
+    temperature?: number;
+    /** Set by a scoring selector */
+    score?: number;
+    /** Full `generateText` result */
+    result: TResult;
+}
+
+/** Equivalent candidates */
+export interface BestOfNGroup<TOutput> {
+    key: string;
+    /** Output of the group's first candidate */
+    output: TOutput;
+    /** Indexes of the candidates in the group */
+    indices: number[];
+    count: number;
+}
+
+/**
+ * Scores a candidate; the highest score wins.
+ * Ties go to the larger group, then to the earlier sample.
+ */
+export type BestOfNScorer<TOutput> = (
+    candidate: BestOfNCandidate<TOutput>
+) => Promise<number> | number;
+
+/**
+ * - `'majority'`: the largest group of equivalent outputs wins (ties go to the earliest group)
+ * - `'judge'`: one more call picks the best of the groups
+ * - a function: scores each candidate
+ */
+export type BestOfNSelector<TOutput> = 'majority' | 'judge' | BestOfNScorer<TOutput>;
+
+export interface BestOfNOptions<TOutput> {
+    /** Number of samples */
+    n: number;
+    /** Defaults to `'majority'` */
+    selector?: BestOfNSelector<TOutput>;
+    /** Maximum number of samples running at once. Defaults to all of them. */
+    concurrency?: number;
+    /** Seeds of the samples, used in turn (sample `i` gets `seeds[i % seeds.length]`) */
+    seeds?: number[];
+    /** Temperatures of the samples, used in turn like `seeds` */
+    temperatures?: number[];
+    /**
+     * Equivalence key of an output. Defaults to its JSON with sorted object keys
+     * (trimmed text for text outputs).
+     */
+    key?: (output: TOutput) => string;
+    /** Options of the `'judge'` selector's call */
+    judge?: {
+        /** Model of the judging call. Defaults to the samples' model. */
+        model?: string;
+        /** Replaces {@link BEST_OF_N_JUDGE_INSTRUCTIONS} */
+        instructions?: string;
+    };
+}
+
+export interface BestOfNResult<TOutput, TResult = unknown> {
+    winner: BestOfNCandidate<TOutput, TResult>;
+    /** Successful samples in index order */
+    candidates: BestOfNCandidate<TOutput, TResult>[];
+    /** Groups of equivalent candidates, largest first */
+    groups: BestOfNGroup<TOutput>[];
+    /** Share of the successful samples in the winner's group, from 0 to 1 */
+    agreement: number;
+    /** Samples whose call failed */
+    failures: { index: number; error: Error }[];
+    /** Set by the `'judge'` selector when it made a call */
+    judgement?: { group: number; reason: string };
+}
+
+export const BEST_OF_N_JUDGE_INSTRUCTIONS = `## JUDGING
+
+Several candidate answers to the task below are listed by number.
+- Pick the candidate that completes the task best: correct, complete and faithful to the input
+- Set "choice" to its number and explain the choice in one sentence in "reason"`;
+
+/**
+ * Samples `n` completions of one `generateText` call in the session and selects the best.
+ *
+ * - Every call (samples and judge) is recorded in the session summary
+ * - Samples skip the provider's response cache, so each one is a new completion
+ * - Equivalent outputs are grouped, so `agreement` tells how consistent the samples were
+ * - Failed samples are reported in `failures`; the pattern fails only if every sample failed
+ *
+ * @example Self-consistency for extraction
+ * ```typescript
+ * const execution = provider.simpleExecution(async (session) => {
+ *   const { winner, agreement } = await bestOfN(
+ *     session,
+ *     { prompt: invoiceText, output: Output.object({ schema: invoiceSchema }) },
+ *     { n: 5, temperatures: [0.2, 0.7, 1] }
+ *   );
+ *   if (agreement < 0.6) session.setMetadata('needsReview', true);
+ *   return winner.output;
+ * });
+ * ```
+ *
+ * @example Custom scorer
+ * ```typescript
+ * const { winner } = await bestOfN(session, { prompt }, {
+ *   n: 4,
+ *   selector: ({ output }) => (passesTests(output) ? 1 : 0) - output.length / 1e6,
+ * });
+ * ```
+ */
+export async function bestOfN<
+    TOOLS extends ToolSet = {},
+    OUTPUT extends OutputSpec = DefaultOutput,
+>(
+    session: SimpleSession,
+    params: GenerateTextParams<TOOLS, OUTPUT>,
+    options: BestOfNOptions<InferOutputComplete<OUTPUT>>
+): Promise<BestOfNResult<InferOutputComplete<OUTPUT>, GenerateTextResultTyped<TOOLS, OUTPUT>>> {
+    type TOutput = InferOutputComplete<OUTPUT>;
+    type TCandidate = BestOfNCandidate<TOutput, GenerateTextResultTyped<TOOLS, OUTPUT>>;
+
+    validateOptions(options);
+    const { n, selector = 'majority', seeds, temperatures } = options;
+    const concurrency = options.concurrency ?? n;
+    const keyOf = options.key ?? canonicalKey;
+
+    const candidates: TCandidate[] = [];
+    const failures: { index: number; error: Error }[] = [];
+
+    await runConcurrently(n, concurrency, async (index) => {
+        const seed = seeds?.[index % seeds.length];
+        const temperature = temperatures?.[index % temperatures.length];
+        try {
+            const result = await session.generateText({
+                ...params,
+                // Cached responses would make every sample the same
+                cache: false,
+                ...(seed !== undefined && { seed }),
+                ...(temperature !== undefined && { temperature }),
+            });
+            const output = (params.output ? result.output : result.text) as TOutput;
+            candidates.push({
+                index,
+                output,
+                key: keyOf(output),
+                ...(seed !== undefined && { seed }),
+                ...(temperature !== undefined && { temperature }),
+                result,
+            });
+        } catch (error) {
+            // Canceled sessions stop sampling instead of reporting failures
+            if (session.signal?.aborted) {
+                throw error;
+            }
+            failures.push({
+                index,
+                error: error instanceof Error ? error : new Error(String(error)),
+            });
+        }
+    });
+
+    if (candidates.length === 0) {
+        const first = failures.sort((a, b) => a.index - b.index)[0]?.error;
+        throw new Error(`bestOfN: All ${n} samples failed. ${first?.message ?? ''}`.trim(), {
+            cause: first,
+        });
+    }
+
+    candidates.sort((a, b) => a.index - b.index);
+    failures.sort((a, b) => a.index - b.index);
+    const groups = groupCandidates(candidates);
+    const groupOf = (candidate: TCandidate) => groups.find((group) => group.key === candidate.key)!;
+    const firstOf = (group: BestOfNGroup<TOutput>) =>
+        candidates.find((candidate) => candidate.index === group.indices[0])!;
+
+    let winner: TCandidate;
+    let judgement: BestOfNResult<TOutput>['judgement'];
+
+    if (typeof selector === 'function') {
+        for (const candidate of candidates) {
+            candidate.score = await selector(candidate);
+        }
+        winner = candidates.reduce((best, candidate) =>
+            candidate.score! > best.score! ||
+            (candidate.score === best.score && groupOf(candidate).count > groupOf(best).count)
+                ? candidate
+                : best
+        );
+    } else if (selector === 'judge' && groups.length > 1) {
+        judgement = await judge(session, params, groups, options.judge);
+        winner = firstOf(groups[judgement.group]);
+    } else {
+        winner = firstOf(groups[0]);
+    }
+
+    return {
+        winner,
+        candidates,
+        groups,
+        agreement: groupOf(winner).count / candidates.length,
+        failures,
+        ...(judgement && { judgement }),
+    };
+}
+
+function validateOptions<TOutput>(options: BestOfNOptions<TOutput>): void {
+    const { n, concurrency, seeds, temperatures } = options;
+    const invalid = (message: string) =>
+        new ConfigurationError(`Invalid bestOfN options: ${message}`, {
+            code: ConfigurationErrorCode.INVALID_CONFIG,
+            context: { n, concurrency, seeds, temperatures },
+        });
+
+    if (!Number.isInteger(n) || n < 1) {
+        throw invalid('n must be a positive integer');
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        throw invalid('concurrency must be a positive integer');
+    }
+    if (seeds?.length === 0) {
+        throw invalid('seeds must not be empty');
+    }
+    if (temperatures?.length === 0) {
+        throw invalid('temperatures must not be empty');
+    }
+}
+
+/** Runs `fn` for indexes 0 to `count - 1`, at most `concurrency` at once */
+async function runConcurrently(
+    count: number,
+    concurrency: number,
+    fn: (index: number) => Promise<void>
+): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < count) {
+            await fn(next++);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+}
+
+/** JSON with sorted object keys, so that equal objects get equal keys */
+function canonicalKey(output: unknown): string {
+    if (typeof output === 'string') {
+        return output.trim();
+    }
+    return JSON.stringify(output, (_, value: unknown) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.fromEntries(
+                  Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+              )
+            : value
+    );
+}
+
+/** Groups candidates by key, largest first; ties keep the order of first appearance */
+function groupCandidates<TOutput>(
+    candidates: BestOfNCandidate<TOutput>[]
+): BestOfNGroup<TOutput>[] {
+    const groups = new Map<string, BestOfNGroup<TOutput>>();
+    for (const candidate of candidates) {
+        const group = groups.get(candidate.key);
+        if (group) {
+            group.indices.push(candidate.index);
+            group.count += 1;
+        } else {
+            groups.set(candidate.key, {
+                key: candidate.key,
+                output: candidate.output,
+                indices: [candidate.index],
+                count: 1,
+            });
+        }
+    }
+    // Array.prototype.sort is stable
+    return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+async function judge<TOutput>(
+    session: SimpleSession,
+    params: Pick<GenerateTextParams, 'model' | 'prompt' | 'messages'>,
+    groups: BestOfNGroup<TOutput>[],
+    options: BestOfNOptions<TOutput>['judge'] = {}
+): Promise<{ group: number; reason: string }> {
+    const task =
+        typeof params.prompt === 'string'
+            ? params.prompt
+            : JSON.stringify(params.messages ?? params.prompt);
+    const list = groups
+        .map((group, index) => `[${index}] ${canonicalKey(group.output)}`)
+        .join('\n\n');
+
+    const { output } = await session.generateText({
+        model: options.model ?? params.model,
+        system: options.instructions ?? BEST_OF_N_JUDGE_INSTRUCTIONS,
+        prompt: `## TASK\n\n${task}\n\n## CANDIDATES\n\n${list}`,
+        output: Output.object({
+            schema: z.object({
+                choice: z.number().int(),
+                reason: z.string(),
+            }),
+        }),
+    });
+
+    if (!output || output.choice < 0 || output.choice >= groups.length) {
+        throw new Error(
+            `bestOfN: The judge chose candidate ${output?.choice}, but there are only ${groups.length}.`
+        );
+    }
+    return { group: output.choice, reason: output.reason };
+}
@@ -0,0 +1,199 @@
+import { Output } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+
+import { ConfigurationError } from '../../errors/index.js';
+import { InMemoryResponseCache } from '../../session/response-cache.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import { mock } from '../../testing/mock.js';
+import { bestOfN } from './index.js';
+
+/** Answers each call with the next response, in call order */
+function scriptedModel(responses: (string | Error)[]) {
+    let next = 0;
+    let running = 0;
+    const stats = { maxRunning: 0 };
+    const model = new MockLanguageModelV3({
+        doGenerate: async () => {
+            const response = responses[next++];
+            running += 1;
+            stats.maxRunning = Math.max(stats.maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            running -= 1;
+            if (response instanceof Error) {
+                throw response;
+            }
+            return {
+                content: [{ type: 'text', text: response }],
+                finishReason: { unified: 'stop', raw: undefined },
+                usage: {
+                    inputTokens: {
+                        total: 1,
+                        noCache: 1,
+                        cacheRead: undefined,
+                        cacheWrite: undefined,
+                    },
+                    outputTokens: { total: 1, text: 1, reasoning: undefined },
+                },
+                warnings: [],
+            };
+        },
+    });
+    return { model, stats };
+}
+
+function run<T>(model: MockLanguageModelV3, fn: (session: SimpleSession) => Promise<T>) {
+    return mock.provider(model).simpleExecution(fn).result();
+}
+
+const invoiceSchema = z.object({ total: z.number(), currency: z.string() });
+
+describe('bestOfN', () => {
+    it('should pick the majority of equivalent structured outputs', async () => {
+        const { model } = scriptedModel([
+            '{"total":10,"currency":"EUR"}',
+            '{"total":12,"currency":"EUR"}',
+            '{"currency":"EUR","total":10}',
+        ]);
+
+        const result = await run(model, (session) =>
+            bestOfN(
+                session,
+                { prompt: 'Extract', output: Output.object({ schema: invoiceSchema }) },
+                { n: 3 }
+            )
+        );
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            const { winner, groups, agreement, candidates } = result.value;
+            expect(winner.index).toBe(0);
+            expect(winner.output).toEqual({ total: 10, currency: 'EUR' });
+            expect(groups.map((group) => group.indices)).toEqual([[0, 2], [1]]);
+            expect(agreement).toBeCloseTo(2 / 3);
+            expect(candidates).toHaveLength(3);
+        }
+        expect(result.summary.llmCallCount).toBe(3);
+        expect(result.summary.totalLLMUsage.inputTokens).toBe(3);
+    });
+
+    it('should vary seed and temperature across samples', async () => {
+        const { model } = scriptedModel(['a', 'a', 'a']);
+
+        const result = await run(model, (session) =>
+            bestOfN(session, { prompt: 'Hi' }, { n: 3, seeds: [1, 2], temperatures: [0.5] })
+        );
+
+        expect(model.doGenerateCalls.map((call) => [call.seed, call.temperature])).toEqual([
+            [1, 0.5],
+            [2, 0.5],
+            [1, 0.5],
+        ]);
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value.candidates[1]).toMatchObject({ seed: 2, temperature: 0.5 });
+            expect(result.value.agreement).toBe(1);
+        }
+    });
+
+    it('should sample the model even when the provider has a response cache', async () => {
+        const { model } = scriptedModel(['a', 'b', 'b']);
+        const provider = mock.provider(model).withResponseCache(new InMemoryResponseCache());
+
+        const result = await provider
+            .simpleExecution((session) =>
+                bestOfN(session, { prompt: 'Hi' }, { n: 3, concurrency: 1 })
+            )
+            .result();
+
+        expect(model.doGenerateCalls).toHaveLength(3);
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value.winner.output).toBe('b');
+            expect(result.value.groups.map((group) => group.indices)).toEqual([[1, 2], [0]]);
+        }
+    });
+
+    it('should pick the highest score with a scorer', async () => {
+        const { model } = scriptedModel(['short', 'the longest one', 'short']);
+
+        const result = await run(model, (session) =>
+            bestOfN(session, { prompt: 'Hi' }, { n: 3, selector: ({ output }) => output.length })
+        );
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value.winner).toMatchObject({ index: 1, score: 15 });
+            expect(result.value.agreement).toBeCloseTo(1 / 3);
+        }
+    });
+
+    it('should let a judge call pick among the groups', async () => {
+        const { model } = scriptedModel([
+            'Paris',
+            'Lyon',
+            'Lyon',
+            '{"choice":1,"reason":"Paris is the capital"}',
+        ]);
+
+        const result = await run(model, (session) =>
+            bestOfN(session, { prompt: 'Capital of France?' }, { n: 3, selector: 'judge' })
+        );
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value.winner.output).toBe('Paris');
+            expect(result.value.judgement).toEqual({ group: 1, reason: 'Paris is the capital' });
+        }
+        expect(result.summary.llmCallCount).toBe(4);
+
+        const judgePrompt = JSON.stringify(model.doGenerateCalls[3].prompt);
+        expect(judgePrompt).toContain('Capital of France?');
+        expect(judgePrompt).toContain('[0] Lyon');
+        expect(judgePrompt).toContain('[1] Paris');
+    });
+
+    it('should report failed samples and fail only when all of them failed', async () => {
+        const { model } = scriptedModel(['ok', new Error('Rate limited')]);
+        const partial = await run(model, (session) => bestOfN(session, { prompt: 'Hi' }, { n: 2 }));
+
+        expect(partial.status).toBe('succeeded');
+        if (partial.status === 'succeeded') {
+            expect(partial.value.winner.output).toBe('ok');
+            expect(partial.value.failures).toEqual([
+                { index: 1, error: expect.objectContaining({ message: 'Rate limited' }) },
+            ]);
+        }
+
+        const failing = scriptedModel([new Error('Down'), new Error('Down')]).model;
+        const failed = await run(failing, (session) =>
+            bestOfN(session, { prompt: 'Hi' }, { n: 2 })
+        );
+
+        expect(failed.status).toBe('failed');
+        if (failed.status === 'failed') {
+            expect(failed.error.message).toBe('bestOfN: All 2 samples failed. Down');
+        }
+    });
+
+    it('should limit concurrent samples', async () => {
+        const { model, stats } = scriptedModel(['a', 'b', 'c', 'd']);
+
+        await run(model, (session) => bestOfN(session, { prompt: 'Hi' }, { n: 4, concurrency: 2 }));
+
+        expect(model.doGenerateCalls).toHaveLength(4);
+        expect(stats.maxRunning).toBe(2);
+    });
+
+    it('should reject invalid options', async () => {
+        const { model } = scriptedModel([]);
+
+        for (const options of [{ n: 0 }, { n: 2, concurrency: 0 }, { n: 2, seeds: [] }]) {
+            const result = await run(model, (session) =>
+                bestOfN(session, { prompt: 'Hi' }, options)
+            );
+            expect(result.status === 'failed' && result.error).toBeInstanceOf(ConfigurationError);
+        }
+    });
+});
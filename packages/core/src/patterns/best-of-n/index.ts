@@ -0,0 +1,10 @@
+export {
+  bestOfN,
+  BEST_OF_N_JUDGE_INSTRUCTIONS,
+  type BestOfNOptions,
+  type BestOfNSelector,
+  type BestOfNScorer,
+  type BestOfNCandidate,
+  type BestOfNGroup,
+  type BestOfNResult,
+} from './best-of-n.js';
@@ -1 +1,5 @@
 export * from './progressive/index.js';
+export * from './pipeline/index.js';
+export * from './router/index.js';
+export * from './plan-execute/index.js';
+export * from './best-of-n/index.js';
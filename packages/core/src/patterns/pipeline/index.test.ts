@@ -0,0 +1,275 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+    BudgetExceededError,
+    ConfigurationError,
+    ExecutionError,
+    ExecutionErrorCode,
+} from '../../errors/index.js';
+import { CostLedger } from '../../observability/cost-ledger.js';
+import { composeLoggers } from '../../observability/logger.js';
+import { WindowedConversationMemory } from '../../session/memory.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import { mock } from '../../testing/mock.js';
+import { pipeline, type PipelineStepEvent } from './index.js';
+
+const provider = mock.provider(
+    mock.text('echo', {
+        usage: {
+            inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+            outputTokens: { total: 5, text: 5, reasoning: undefined },
+        },
+    })
+);
+
+async function ask(session: SimpleSession, prompt: string): Promise<string> {
+    return (await session.generateText({ prompt })).text;
+}
+
+describe('pipeline', () => {
+    it('should run steps in order and merge child summaries into the parent', async () => {
+        const words = pipeline<string>()
+            .step((text) => text.split(' '), { name: 'split' })
+            .map(
+                (parts) => parts,
+                async (word, session) => `${word}:${(await ask(session, word)).length}`,
+                { name: 'measure', concurrency: 2 }
+            )
+            .step(async (measured, session) => {
+                session.recordAdditionalCost({ type: 'search', cost: 0.25 });
+                return measured.join(',');
+            })
+            .parallel([
+                (joined) => joined.length,
+                async (joined, session) => (await ask(session, joined)).startsWith('echo'),
+            ]);
+
+        const result = await words.run(provider, 'a b c').result();
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toEqual([11, true]);
+        }
+        expect(result.summary.llmCallCount).toBe(4);
+        expect(result.summary.totalLLMUsage.inputTokens).toBe(40);
+        expect(result.summary.totalAdditionalCost).toBe(0.25);
+    });
+
+    it('should record each cost once in a cost ledger', async () => {
+        const ledger = new CostLedger();
+        const onExecutionDone = vi.fn();
+        const ledgerProvider = provider
+            .withPricing({ 'mock-model-id': { inputPricePerMillion: 1, outputPricePerMillion: 5 } })
+            .withLogger(composeLoggers(ledger, { onExecutionDone }));
+        const flow = pipeline<string[]>()
+            .map(
+                (words) => words,
+                (word, session) => ask(session, word)
+            )
+            .step((answers, session) => ask(session, answers.join(' ')));
+
+        const result = await flow
+            .run(ledgerProvider, ['a', 'b'], { attribution: { feature: 'words' } })
+            .result();
+
+        const [parent] = onExecutionDone.mock.calls.find(([event]) => !event.parentExecutionId)!;
+        const children = onExecutionDone.mock.calls.filter(([event]) => event.parentExecutionId);
+        expect(children).toHaveLength(3);
+        expect(children.every(([event]) => event.parentExecutionId === parent.executionId)).toBe(
+            true
+        );
+        expect(ledger.getEntries()).toHaveLength(3);
+        const [row] = ledger.report({ groupBy: ['feature'] });
+        expect(row).toMatchObject({ tags: { feature: 'words' }, llmCalls: 3 });
+        expect(row.totalCost).toBeCloseTo(result.summary.totalCost);
+    });
+
+    it('should emit step events when streamed', async () => {
+        const execution = pipeline<number[]>()
+            .map(
+                (numbers) => numbers,
+                (n) => n * 2,
+                { name: 'double' }
+            )
+            .step((doubled) => doubled.reduce((sum, n) => sum + n, 0), { name: 'sum' })
+            .stream(provider, [1, 2, 3]);
+
+        const events: PipelineStepEvent[] = [];
+        for await (const event of execution.stream({ types: ['pipeline_step'] })) {
+            events.push(event as PipelineStepEvent);
+        }
+        const result = await execution.result();
+
+        expect(
+            events.map((e) => `${e.index}:${e.step}:${e.status}:${e.completed}/${e.total}`)
+        ).toEqual([
+            '0:double:started:0/3',
+            '0:double:progress:1/3',
+            '0:double:progress:2/3',
+            '0:double:completed:3/3',
+            '1:sum:started:0/1',
+            '1:sum:completed:1/1',
+        ]);
+        expect(events[3].durationMs).toBeGreaterThanOrEqual(0);
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe(12);
+        }
+    });
+
+    it('should fail on the first failing branch and cancel its siblings', async () => {
+        let siblingAborted = false;
+        let siblingSettled = false;
+        const flow = pipeline<string>().parallel([
+            async () => {
+                throw new Error('Branch failed');
+            },
+            (_, session) =>
+                new Promise((resolve) =>
+                    session.signal?.addEventListener('abort', () => {
+                        siblingAborted = true;
+                        setTimeout(() => {
+                            siblingSettled = true;
+                            resolve('late');
+                        }, 5);
+                    })
+                ),
+        ]);
+
+        const result = await flow.run(provider, 'x').result();
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toBe('Branch failed');
+        }
+        expect(siblingAborted).toBe(true);
+        expect(siblingSettled).toBe(true);
+    });
+
+    it('should cancel running steps when the parent is canceled', async () => {
+        let started = 0;
+        const flow = pipeline<number[]>().map(
+            (items) => items,
+            (_, session) =>
+                new Promise((_, reject) => {
+                    started += 1;
+                    session.signal?.addEventListener('abort', () => reject(session.signal?.reason));
+                }),
+            { concurrency: 1 }
+        );
+
+        const execution = flow.run(provider, [1, 2, 3]);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        execution.cancel();
+        const result = await execution.result();
+
+        expect(result.status).toBe('canceled');
+        expect(started).toBe(1);
+    });
+
+    it('should hold child executions to the run budget', async () => {
+        const started: string[] = [];
+        const flow = pipeline<string[]>().map(
+            (words) => words,
+            async (word, session) => {
+                started.push(word);
+                await ask(session, word);
+                return ask(session, word);
+            },
+            { concurrency: 1 }
+        );
+
+        // The second child gets the one call left and fails on its second call
+        const midChild = await flow
+            .run(provider, ['a', 'b', 'c'], { budget: { maxLLMCalls: 3 } })
+            .result();
+        expect(midChild.status === 'failed' && midChild.error).toBeInstanceOf(BudgetExceededError);
+        expect(midChild.summary.llmCallCount).toBe(3);
+        expect(started).toEqual(['a', 'b']);
+
+        // The third child is refused before it starts
+        started.length = 0;
+        const spent = await flow
+            .run(provider, ['a', 'b', 'c'], { budget: { maxLLMCalls: 4 } })
+            .result();
+        expect(spent.status === 'failed' && spent.error).toBeInstanceOf(BudgetExceededError);
+        expect(spent.summary.llmCallCount).toBe(4);
+        expect(started).toEqual(['a', 'b']);
+    });
+
+    it('should split the run budget between parallel branches', async () => {
+        // Each call costs 5 output tokens at $10 per million: $0.00005
+        const pricedProvider = provider.withPricing({
+            'mock-model-id': { inputPricePerMillion: 0, outputPricePerMillion: 10 },
+        });
+        const askUntilRefused = async (session: SimpleSession) => {
+            let calls = 0;
+            try {
+                for (;;) {
+                    await session.generateText({ prompt: 'Hi', maxOutputTokens: 5 });
+                    calls += 1;
+                }
+            } catch (error) {
+                if (!(error instanceof BudgetExceededError)) {
+                    throw error;
+                }
+            }
+            return calls;
+        };
+        const flow = pipeline<string>().parallel([
+            (_, session) => askUntilRefused(session),
+            (_, session) => askUntilRefused(session),
+        ]);
+
+        // With the whole remainder each, the branches would make two calls apiece
+        const result = await flow
+            .run(pricedProvider, 'x', { budget: { maxCostUSD: 0.0001 } })
+            .result();
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toEqual([1, 1]);
+        }
+        expect(result.summary.totalCost).toBeLessThanOrEqual(0.0001 + 1e-12);
+    });
+
+    it('should time out running steps with the run timeout', async () => {
+        let childAborted = false;
+        const flow = pipeline<string>().step(
+            (_, session) =>
+                new Promise((_, reject) =>
+                    session.signal?.addEventListener('abort', () => {
+                        childAborted = true;
+                        reject(session.signal?.reason);
+                    })
+                )
+        );
+
+        const result = await flow.run(provider, 'x', { timeoutMs: 20 }).result();
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error).toBeInstanceOf(ExecutionError);
+            expect(result.error).toMatchObject({ code: ExecutionErrorCode.TIMEOUT });
+        }
+        expect(childAborted).toBe(true);
+    });
+
+    it('should reject memory in run options', () => {
+        const flow = pipeline<string>().step((text) => text);
+        const memory = new WindowedConversationMemory();
+
+        expect(() => flow.run(provider, 'x', { memory })).toThrow(ConfigurationError);
+        expect(() => flow.stream(provider, 'x', { memory })).toThrow('memory is not supported');
+    });
+
+    it('should reject invalid map concurrency', () => {
+        expect(() =>
+            pipeline<number[]>().map(
+                (items) => items,
+                (n) => n,
+                { concurrency: 0 }
+            )
+        ).toThrow(ConfigurationError);
+    });
+});
@@ -0,0 +1,10 @@
+export {
+  pipeline,
+  Pipeline,
+  type PipelineStepFn,
+  type PipelineMapFn,
+  type PipelineStepOptions,
+  type PipelineMapOptions,
+  type PipelineStepEvent,
+  type PipelineEvent,
+} from './pipeline.js';
@@ -0,0 +1,448 @@
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type {
+    CompletionEvent,
+    ExecutionOptions,
+    SimpleExecution,
+    StreamingExecution,
+} from '../../execution/types.js';
+import { combineSignals, Deferred } from '../../execution/utils.js';
+import type { BaseProvider } from '../../provider/base-provider.js';
+import { enforceBudget, remainingBudget, type Budget } from '../../session/budget.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import { SessionSummary } from '../../session/types.js';
+
+/**
+ * A pipeline step. Runs as its own child execution; `session` is that execution's session.
+ */
+export type PipelineStepFn<TIn, TOut> = (
+    input: TIn,
+    session: SimpleSession
+) => Promise<TOut> | TOut;
+
+/**
+ * Runs once per item of a map step, as its own child execution.
+ */
+export type PipelineMapFn<TItem, TOut> = (
+    item: TItem,
+    session: SimpleSession,
+    index: number
+) => Promise<TOut> | TOut;
+
+export interface PipelineStepOptions {
+    /** Name used in step events. Defaults to `step-<n>`, counting from 1. */
+    name?: string;
+}
+
+export interface PipelineMapOptions extends PipelineStepOptions {
+    /** Maximum number of items running at once. Defaults to all of them. */
+    concurrency?: number;
+}
+
+/**
+ * Step progress emitted by streaming pipelines.
+ * `completed`/`total` count the step's child executions (1 for `step()`).
+ */
+export interface PipelineStepEvent {
+    type: 'pipeline_step';
+    /** Step name */
+    step: string;
+    /** Position of the step in the pipeline, from 0 */
+    index: number;
+    status: 'started' | 'progress' | 'completed' | 'failed';
+    completed: number;
+    total: number;
+    /** Time the step took. Set when it completed or failed. */
+    durationMs?: number;
+}
+
+/** Events of `pipeline.stream()` */
+export type PipelineEvent<TResult> = PipelineStepEvent | CompletionEvent<TResult>;
+
+type StepEventInput = Omit<PipelineStepEvent, 'type' | 'step' | 'index'>;
+
+/** How a stage starts one of its child executions */
+interface ChildStart {
+    signal: AbortSignal;
+    /** Children of the stage that may start now, this one included */
+    slots: number;
+}
+
+interface StageContext {
+    step: string;
+    /** Runs `fn` as a child execution and adds its summary to the parent's */
+    runChild<T>(fn: (session: SimpleSession) => Promise<T> | T, start: ChildStart): Promise<T>;
+    /** Signal of the parent execution */
+    signal: AbortSignal | undefined;
+    report(event: StepEventInput): void;
+}
+
+interface PipelineStage {
+    name: string;
+    run(input: unknown, context: StageContext): Promise<unknown>;
+}
+
+/**
+ * Runs `fn` for every item with at most `concurrency` items at once, in item order.
+ * The first failure aborts the stage so no new items start, and is rethrown
+ * once the running items have settled.
+ */
+async function runChildren<TItem, TOut>(
+    items: readonly TItem[],
+    concurrency: number,
+    context: StageContext,
+    fn: (item: TItem, index: number, start: ChildStart) => Promise<TOut>
+): Promise<TOut[]> {
+    const controller = new AbortController();
+    const signal = context.signal
+        ? combineSignals(context.signal, controller.signal)
+        : controller.signal;
+    const results = new Array<TOut>(items.length);
+    const workers = Math.min(concurrency, items.length);
+    let next = 0;
+    let running = 0;
+    let completed = 0;
+
+    context.report({ status: 'started', completed, total: items.length });
+
+    const worker = async () => {
+        while (next < items.length && !signal.aborted) {
+            const index = next++;
+            const slots = workers - running;
+            running += 1;
+            try {
+                results[index] = await fn(items[index], index, { signal, slots });
+            } finally {
+                running -= 1;
+            }
+            completed += 1;
+            if (completed < items.length) {
+                context.report({ status: 'progress', completed, total: items.length });
+            }
+        }
+    };
+
+    let failure: { error: unknown } | undefined;
+    const started = Array.from({ length: workers }, () =>
+        worker().catch((error: unknown) => {
+            failure ??= { error };
+            controller.abort();
+            throw error;
+        })
+    );
+    // Wait for the canceled siblings too, so their summaries are merged before the stage ends
+    await Promise.allSettled(started);
+    if (failure) {
+        throw failure.error;
+    }
+    // The parent was canceled between items
+    if (signal.aborted) {
+        throw abortError(context.step);
+    }
+    return results;
+}
+
+/**
+ * Splits what is left of `budget` after `spent`, minus the shares `reserved` by running
+ * children, evenly between the `slots` children that may start now. Children started
+ * together therefore cannot spend more than the budget between them.
+ */
+function shareBudget(
+    budget: Budget,
+    spent: SessionSummary,
+    reserved: ReadonlySet<Budget>,
+    slots: number
+): Budget {
+    const remaining = remainingBudget(budget, spent);
+    const share: Budget = {};
+    for (const limit of ['maxCostUSD', 'maxTokens', 'maxLLMCalls'] as const) {
+        const left = remaining[limit];
+        if (left === undefined) {
+            continue;
+        }
+        let free = left;
+        for (const other of reserved) {
+            free -= other[limit] ?? 0;
+        }
+        free = Math.max(0, free) / slots;
+        // Token and call counts are whole; rounding up hands out at most what is free
+        share[limit] = limit === 'maxCostUSD' ? free : Math.ceil(free);
+    }
+    return share;
+}
+
+/**
+ * Steps run as separate executions, so a conversation shared between them
+ * (and appended to by concurrent branches) has no meaningful order.
+ * @throws ConfigurationError if `memory` is set
+ */
+function validateRunOptions(options: ExecutionOptions | undefined): void {
+    if (options?.memory) {
+        throw new ConfigurationError(
+            'Invalid pipeline options: memory is not supported; steps run as separate executions',
+            { code: ConfigurationErrorCode.INVALID_CONFIG, context: { option: 'memory' } }
+        );
+    }
+}
+
+function abortError(step: string): Error {
+    const error = new Error(`Pipeline step '${step}' was canceled`);
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Sequence of steps run as child executions of one parent execution.
+ * Create one with {@link pipeline}; every method returns a new pipeline.
+ *
+ * - Each step (and each branch of `parallel()` and item of `map()`) is its own
+ *   `simpleExecution` on the provider, with the provider's settings
+ * - Child summaries (usage, LLM calls, tool calls, costs) are merged into the parent's
+ * - Canceling the parent cancels running steps; a failing branch cancels its siblings
+ *
+ * @example
+ * ```typescript
+ * const summarize = pipeline<string[]>()
+ *   .map((docs) => docs, (doc, session) => summarizeDoc(session, doc), { concurrency: 3 })
+ *   .step((summaries, session) => combine(session, summaries), { name: 'combine' });
+ *
+ * const result = await summarize.run(provider, documents).result();
+ * ```
+ */
+export class Pipeline<TInput, TOutput> {
+    /** @internal Use {@link pipeline} */
+    constructor(private readonly stages: readonly PipelineStage[] = []) {}
+
+    /**
+     * Adds a step receiving the previous step's output (or the pipeline input).
+     */
+    step<TNext>(
+        fn: PipelineStepFn<TOutput, TNext>,
+        options: PipelineStepOptions = {}
+    ): Pipeline<TInput, TNext> {
+        return this.append(options.name, async (input, context) => {
+            const [output] = await runChildren([input], 1, context, (item, _, start) =>
+                context.runChild((session) => fn(item as TOutput, session), start)
+            );
+            return output;
+        });
+    }
+
+    /**
+     * Adds steps running at the same time on the same input.
+     * Outputs are collected in order, as a tuple.
+     */
+    parallel<const TFns extends readonly PipelineStepFn<TOutput, unknown>[]>(
+        fns: TFns,
+        options: PipelineStepOptions = {}
+    ): Pipeline<TInput, { -readonly [K in keyof TFns]: Awaited<ReturnType<TFns[K]>> }> {
+        return this.append(options.name, (input, context) =>
+            runChildren(fns, fns.length, context, (fn, _, start) =>
+                context.runChild((session) => fn(input as TOutput, session), start)
+            )
+        );
+    }
+
+    /**
+     * Adds a step running `fn` for every item selected from the previous output.
+     * Outputs are collected in item order; reduce them in a following `step()`.
+     */
+    map<TItem, TNext>(
+        items: (input: TOutput) => readonly TItem[],
+        fn: PipelineMapFn<TItem, TNext>,
+        options: PipelineMapOptions = {}
+    ): Pipeline<TInput, TNext[]> {
+        const { concurrency = Infinity } = options;
+        if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+            throw new ConfigurationError(
+                `Invalid pipeline map concurrency: ${concurrency} must be a positive integer`,
+                { code: ConfigurationErrorCode.INVALID_CONFIG, context: { concurrency } }
+            );
+        }
+        return this.append(options.name, (input, context) =>
+            runChildren(items(input as TOutput), concurrency, context, (item, index, start) =>
+                context.runChild((session) => fn(item, session, index), start)
+            )
+        );
+    }
+
+    /**
+     * Runs the pipeline as a simple execution. Its summary includes every step's.
+     * `options` apply to the parent execution; steps also get its `attribution`, and
+     * each child execution gets an even share of what is left of its `budget` among
+     * the children that may run at once.
+     * @throws ConfigurationError if `options.memory` is set
+     */
+    run(
+        provider: BaseProvider,
+        input: TInput,
+        options?: ExecutionOptions
+    ): SimpleExecution<TOutput> {
+        validateRunOptions(options);
+        return provider.simpleExecution(
+            (session) => this.execute(provider, session, input, options, () => {}),
+            options
+        );
+    }
+
+    /**
+     * Runs the pipeline as a streaming execution emitting a {@link PipelineStepEvent}
+     * when each step starts, makes progress and ends. `options` apply as in {@link run}.
+     * @throws ConfigurationError if `options.memory` is set
+     *
+     * @example
+     * ```typescript
+     * const execution = summarize.stream(provider, documents);
+     * for await (const event of execution.stream()) {
+     *   if (event.type === 'pipeline_step') {
+     *     console.log(`${event.step}: ${event.status} (${event.completed}/${event.total})`);
+     *   }
+     * }
+     * ```
+     */
+    stream(
+        provider: BaseProvider,
+        input: TInput,
+        options?: ExecutionOptions
+    ): StreamingExecution<PipelineEvent<TOutput>> {
+        validateRunOptions(options);
+        const self = this;
+        return provider.streamingExecution<PipelineEvent<TOutput>>(async function* (session) {
+            const queue: PipelineStepEvent[] = [];
+            let wake = new Deferred<void>();
+            let settled = false;
+
+            const running = self.execute(provider, session, input, options, (event) => {
+                queue.push(event);
+                wake.resolve();
+            });
+            const settle = () => {
+                settled = true;
+                wake.resolve();
+            };
+            running.then(settle, settle);
+
+            while (queue.length > 0 || !settled) {
+                if (queue.length > 0) {
+                    yield session.emit(queue.shift()!);
+                } else {
+                    await wake.promise;
+                    wake = new Deferred<void>();
+                }
+            }
+
+            return session.done(await running);
+        }, options);
+    }
+
+    private append<TNext>(
+        name: string | undefined,
+        run: PipelineStage['run']
+    ): Pipeline<TInput, TNext> {
+        const stage = { name: name ?? `step-${this.stages.length + 1}`, run };
+        return new Pipeline<TInput, TNext>([...this.stages, stage]);
+    }
+
+    private async execute(
+        provider: BaseProvider,
+        session: SimpleSession,
+        input: TInput,
+        options: ExecutionOptions | undefined,
+        onEvent: (event: PipelineStepEvent) => void
+    ): Promise<TOutput> {
+        const childOptions = {
+            parentExecutionId: session.executionId,
+            ...(options?.attribution && { attribution: options.attribution }),
+        };
+        // Usage of the children so far, and the budget shares of the running ones
+        let spent = SessionSummary.empty(Date.now());
+        const reserved = new Set<Budget>();
+        let value: unknown = input;
+
+        for (const [index, stage] of this.stages.entries()) {
+            const startTime = Date.now();
+            let completed = 0;
+            let total = 0;
+            const context: StageContext = {
+                step: stage.name,
+                signal: session.signal,
+                report: (event) => {
+                    ({ completed, total } = event);
+                    onEvent({ type: 'pipeline_step', step: stage.name, index, ...event });
+                },
+                runChild: async (fn, { signal, slots }) => {
+                    let budget: Budget | undefined;
+                    if (options?.budget) {
+                        // The run's budget covers all children; refuse to start once it is spent
+                        enforceBudget(options.budget, spent);
+                        budget = shareBudget(options.budget, spent, reserved, slots);
+                        reserved.add(budget);
+                    }
+                    const result = await provider
+                        .simpleExecution(async (child) => fn(child), {
+                            ...childOptions,
+                            ...(budget && { budget }),
+                            signal,
+                        })
+                        .result()
+                        .finally(() => budget && reserved.delete(budget));
+                    spent = spent.withChildSummary(result.summary);
+                    session.recordChildSummary(result.summary);
+                    if (result.status === 'failed') {
+                        throw result.error;
+                    }
+                    if (result.status === 'canceled') {
+                        throw abortError(stage.name);
+                    }
+                    return result.value;
+                },
+            };
+
+            try {
+                value = await stage.run(value, context);
+            } catch (error) {
+                context.report({
+                    status: 'failed',
+                    completed,
+                    total,
+                    durationMs: Date.now() - startTime,
+                });
+                throw error;
+            }
+            context.report({
+                status: 'completed',
+                completed: total,
+                total,
+                durationMs: Date.now() - startTime,
+            });
+        }
+
+        return value as TOutput;
+    }
+}
+
+/**
+ * Creates an empty pipeline taking `TInput`.
+ *
+ * @example Map-reduce
+ * ```typescript
+ * const review = pipeline<{ files: string[] }>()
+ *   .map((input) => input.files, (file, session) => reviewFile(session, file), {
+ *     name: 'review',
+ *     concurrency: 4,
+ *   })
+ *   .step((reviews, session) => mergeReviews(session, reviews), { name: 'merge' })
+ *   .parallel([
+ *     (merged, session) => writeSummary(session, merged),
+ *     (merged, session) => suggestFixes(session, merged),
+ *   ]);
+ *
+ * const result = await review.run(provider, { files }).result();
+ * if (result.status === 'succeeded') {
+ *   const [summary, fixes] = result.value;
+ *   console.log(result.summary.totalCost); // all steps together
+ * }
+ * ```
+ */
+export function pipeline<TInput = void>(): Pipeline<TInput, TInput> {
+    return new Pipeline<TInput, TInput>();
+}
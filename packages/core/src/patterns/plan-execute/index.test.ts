@@ -0,0 +1,253 @@
+import { tool } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+
+import { ConfigurationError } from '../../errors/index.js';
+import type { ErrorEvent, SessionEvent } from '../../execution/types.js';
+import { mock } from '../../testing/mock.js';
+import { definePlanExecutePattern, type PlanExecuteEvent, type PlanStepExecutor } from './index.js';
+
+type TestPlan = { steps: { goal: string }[] };
+type TestEvent = PlanExecuteEvent<TestPlan, string, { answer: string }>;
+
+const planSchema = z.object({ steps: z.array(z.object({ goal: z.string() })) });
+const resultSchema = z.object({ answer: z.string() });
+
+function plan(...goals: string[]) {
+    return { toolName: 'submitPlan', data: { steps: goals.map((goal) => ({ goal })) } };
+}
+
+/** Answers each model call with the next tool call */
+function scriptedModel(calls: { toolName: string; data: unknown }[]): MockLanguageModelV3 {
+    let next = 0;
+    return new MockLanguageModelV3({
+        doGenerate: async () => {
+            const call = calls[next++];
+            if (!call) {
+                throw new Error('Unexpected model call');
+            }
+            return {
+                content: [
+                    {
+                        type: 'tool-call',
+                        toolCallId: `call-${next}`,
+                        toolName: call.toolName,
+                        input: JSON.stringify(
+                            call.toolName.startsWith('submit') ? { data: call.data } : call.data
+                        ),
+                    },
+                ],
+                finishReason: { unified: 'tool-calls', raw: undefined },
+                usage: {
+                    inputTokens: {
+                        total: 0,
+                        noCache: 0,
+                        cacheRead: undefined,
+                        cacheWrite: undefined,
+                    },
+                    outputTokens: { total: 0, text: 0, reasoning: undefined },
+                },
+                warnings: [],
+            };
+        },
+    });
+}
+
+const executeGoal: PlanStepExecutor<TestPlan, string> = ({ step, execute }) =>
+    execute({ prompt: step.goal });
+
+async function runPattern(
+    model: MockLanguageModelV3,
+    config: {
+        stepExecutor?: PlanStepExecutor<TestPlan, string>;
+        maxReplans?: number;
+        maxSteps?: number;
+        maxToolIterations?: number;
+    } = {}
+) {
+    const pattern = definePlanExecutePattern({
+        planSchema,
+        resultSchema,
+        stepExecutor: executeGoal,
+        ...config,
+    });
+    const provider = mock.provider(model);
+    const execution = provider.streamingExecution<TestEvent>(async function* (session) {
+        return yield* pattern.runInSession(session, { prompt: 'Compare A and B' });
+    });
+
+    const events: SessionEvent<TestEvent | ErrorEvent>[] = [];
+    for await (const event of execution.stream()) {
+        events.push(event);
+    }
+    return { events, result: await execution.result() };
+}
+
+describe('PlanExecutePattern', () => {
+    it('should plan, execute each step with tools and submit the final result', async () => {
+        const lookup = vi.fn(async ({ name }: { name: string }) => `${name} is fast`);
+        const model = scriptedModel([
+            plan('Look up A', 'Look up B'),
+            { toolName: 'lookup', data: { name: 'A' } },
+            { toolName: 'submitStepResult', data: 'A is fast' },
+            { toolName: 'submitStepResult', data: 'B is slow' },
+            { toolName: 'submitResult', data: { answer: 'A' } },
+        ]);
+
+        const { events, result } = await runPattern(model, {
+            stepExecutor: ({ step, execute }) =>
+                execute({
+                    prompt: step.goal,
+                    tools: {
+                        lookup: tool({
+                            inputSchema: z.object({ name: z.string() }),
+                            execute: lookup,
+                        }),
+                    },
+                }),
+        });
+
+        expect(events.map((event) => event.type)).toEqual([
+            'plan',
+            'step_start',
+            'step_result',
+            'step_start',
+            'step_result',
+            'complete',
+        ]);
+        expect(events[0]).toMatchObject({
+            plan: { steps: [{ goal: 'Look up A' }, { goal: 'Look up B' }] },
+            attempt: 0,
+        });
+        expect(events[2]).toMatchObject({ index: 0, status: 'succeeded', result: 'A is fast' });
+        expect(events[4]).toMatchObject({ index: 1, status: 'succeeded', result: 'B is slow' });
+        expect(lookup).toHaveBeenCalledOnce();
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toEqual({ answer: 'A' });
+        }
+
+        const finalSystem = JSON.stringify(model.doGenerateCalls[4].prompt[0]);
+        expect(finalSystem).toContain('## FINAL RESULT');
+        expect(finalSystem).toContain('B is slow');
+    });
+
+    it('should replan the remaining work after a failed step', async () => {
+        const model = scriptedModel([
+            plan('Look up A', 'Look up B'),
+            { toolName: 'submitStepResult', data: 'A is fast' },
+            plan('Estimate B'),
+            { toolName: 'submitStepResult', data: 'B is slow' },
+            { toolName: 'submitResult', data: { answer: 'A' } },
+        ]);
+
+        const { events, result } = await runPattern(model, {
+            stepExecutor: (context) => {
+                if (context.step.goal === 'Look up B') {
+                    throw new Error('B is not listed');
+                }
+                return executeGoal(context);
+            },
+        });
+
+        expect(events.map((event) => event.type)).toEqual([
+            'plan',
+            'step_start',
+            'step_result',
+            'step_start',
+            'step_result',
+            'replan',
+            'plan',
+            'step_start',
+            'step_result',
+            'complete',
+        ]);
+        expect(events[4]).toMatchObject({ status: 'failed', error: 'B is not listed' });
+        expect(events[5]).toMatchObject({ attempt: 1, index: 1, reason: 'B is not listed' });
+        expect(events[6]).toMatchObject({ plan: { steps: [{ goal: 'Estimate B' }] }, attempt: 1 });
+        expect(result.status).toBe('succeeded');
+
+        const replanSystem = JSON.stringify(model.doGenerateCalls[2].prompt[0]);
+        expect(replanSystem).toContain('## REPLANNING');
+        expect(replanSystem).toContain('Error: B is not listed');
+        expect(replanSystem).toContain('A is fast');
+    });
+
+    it('should fail once maxReplans is used up', async () => {
+        const model = scriptedModel([plan('Look up A'), plan('Look up A again')]);
+
+        const { events, result } = await runPattern(model, {
+            stepExecutor: () => {
+                throw new Error('Lookup is down');
+            },
+            maxReplans: 1,
+        });
+
+        expect(events.filter((event) => event.type === 'replan')).toHaveLength(1);
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toBe(
+                'PlanExecutePattern: Step 0 failed after 1 replans. Lookup is down'
+            );
+        }
+    });
+
+    it('should fail when a plan exceeds the remaining steps', async () => {
+        const model = scriptedModel([plan('One', 'Two', 'Three')]);
+
+        const { events, result } = await runPattern(model, { maxSteps: 2 });
+
+        expect(events.map((event) => event.type)).toEqual(['plan', 'error']);
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toContain('only 2 of the 2 allowed steps remain');
+        }
+    });
+
+    it('should fail a step that does not submit a result within maxToolIterations', async () => {
+        const model = scriptedModel([
+            plan('Look up A'),
+            { toolName: 'lookup', data: { name: 'A' } },
+            { toolName: 'lookup', data: { name: 'A' } },
+        ]);
+
+        const { events, result } = await runPattern(model, {
+            stepExecutor: ({ execute }) =>
+                execute({
+                    prompt: 'Look up A',
+                    tools: {
+                        lookup: tool({
+                            inputSchema: z.object({ name: z.string() }),
+                            execute: async () => 'unknown',
+                        }),
+                    },
+                }),
+            maxReplans: 0,
+            maxToolIterations: 2,
+        });
+
+        expect(events[2]).toMatchObject({ type: 'step_result', status: 'failed' });
+        expect(model.doGenerateCalls).toHaveLength(3);
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toContain(
+                'did not call submitStepResult within 2 tool iterations'
+            );
+        }
+    });
+
+    it('should reject invalid limits', () => {
+        const config = { planSchema, resultSchema, stepExecutor: executeGoal };
+
+        expect(() => definePlanExecutePattern({ ...config, maxReplans: -1 })).toThrow(
+            ConfigurationError
+        );
+        expect(() => definePlanExecutePattern({ ...config, maxSteps: 0 })).toThrow(
+            'maxSteps must be a positive integer'
+        );
+        expect(() => definePlanExecutePattern({ ...config, maxToolIterations: 1.5 })).toThrow(
+            'maxToolIterations must be a positive integer'
+        );
+    });
+});
@@ -0,0 +1,18 @@
+export {
+  definePlanExecutePattern,
+  PlanExecutePattern,
+  PLAN_EXECUTE_PROTOCOL,
+  type PlanExecutePatternConfig,
+  type PlanExecuteRunOptions,
+  type PlanStepExecuteOptions,
+  type PlanStepExecutor,
+  type PlanStepContext,
+  type PlanStepRecord,
+  type PlanSchema,
+  type PlanStep,
+  type PlanEvent,
+  type PlanStepStartEvent,
+  type PlanStepResultEvent,
+  type ReplanEvent,
+  type PlanExecuteEvent,
+} from './plan-execute-pattern.js';
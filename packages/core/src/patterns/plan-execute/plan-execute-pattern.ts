@@ -0,0 +1,536 @@
+import { hasToolCall, stepCountIs, tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type {
+    CompletionEvent,
+    EmittableEventInput,
+    ErrorEvent,
+    ExtractResult,
+    SessionEvent,
+} from '../../execution/types.js';
+import type { BaseProvider } from '../../provider/base-provider.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import type { StreamingSession } from '../../session/streaming-session.js';
+import type { GenerateTextParams } from '../../session/types.js';
+
+/**
+ * Options of the planning and final calls. The request (`prompt` or `messages`) is
+ * planned as is; `system` is kept and followed by the pattern's instructions.
+ */
+export type PlanExecuteRunOptions = Omit<
+    GenerateTextParams,
+    'output' | 'tools' | 'toolChoice' | 'stopWhen'
+>;
+
+/** Options of {@link PlanStepContext.execute} */
+export type PlanStepExecuteOptions<TTools extends ToolSet = {}> = Omit<
+    GenerateTextParams<TTools>,
+    'output' | 'tools' | 'toolChoice' | 'stopWhen'
+> & {
+    tools?: TTools;
+};
+
+/** Plan schemas describe an object with the list of steps under `steps` */
+export type PlanSchema = z.ZodType<{ steps: readonly unknown[] }>;
+
+/** Step type of a plan */
+export type PlanStep<TPlan> = TPlan extends { steps: readonly (infer TStep)[] } ? TStep : never;
+
+/**
+ * Plan event - pure domain event without metrics.
+ * Framework automatically wraps with SessionEvent at runtime.
+ */
+export interface PlanEvent<TPlan> {
+    type: 'plan';
+    plan: TPlan;
+    /** 0 for the first plan, n for the plan made after the n-th replan */
+    attempt: number;
+}
+
+/**
+ * Step start event - pure domain event without metrics.
+ * Framework automatically wraps with SessionEvent at runtime.
+ */
+export interface PlanStepStartEvent<TStep> {
+    type: 'step_start';
+    /** Position of the step in the current plan, from 0 */
+    index: number;
+    step: TStep;
+}
+
+/**
+ * Step result event - pure domain event without metrics.
+ * Framework automatically wraps with SessionEvent at runtime.
+ */
+export interface PlanStepResultEvent<TStep, TStepResult> {
+    type: 'step_result';
+    /** Position of the step in the current plan, from 0 */
+    index: number;
+    step: TStep;
+    status: 'succeeded' | 'failed';
+    /** Set when the step succeeded */
+    result?: TStepResult;
+    /** Error message, set when the step failed */
+    error?: string;
+}
+
+/**
+ * Replan event - pure domain event without metrics.
+ * Framework automatically wraps with SessionEvent at runtime.
+ */
+export interface ReplanEvent {
+    type: 'replan';
+    /** Number of this replan, from 1 */
+    attempt: number;
+    /** Position of the failed step in the previous plan */
+    index: number;
+    /** Error message of the failed step */
+    reason: string;
+}
+
+/** Events of a plan-execute pattern run */
+export type PlanExecuteEvent<TPlan, TStepResult, TResult> =
+    | PlanEvent<TPlan>
+    | PlanStepStartEvent<PlanStep<TPlan>>
+    | PlanStepResultEvent<PlanStep<TPlan>, TStepResult>
+    | ReplanEvent
+    | CompletionEvent<TResult>;
+
+/** A step that succeeded, with its result */
+export interface PlanStepRecord<TStep, TStepResult> {
+    step: TStep;
+    result: TStepResult;
+}
+
+export interface PlanStepContext<TPlan, TStepResult> {
+    /** The session the pattern runs in */
+    session: SimpleSession;
+    step: PlanStep<TPlan>;
+    /** Position of the step in the current plan, from 0 */
+    index: number;
+    plan: TPlan;
+    /** Steps that succeeded so far, including those of earlier plans */
+    completed: PlanStepRecord<PlanStep<TPlan>, TStepResult>[];
+    /** The planned request */
+    request: PlanExecuteRunOptions;
+    /**
+     * Runs a tool-calling loop for the step that ends when the model calls `submitStepResult`.
+     * Makes at most `maxToolIterations` model calls; throws if no valid result was submitted.
+     */
+    execute<TTools extends ToolSet = {}>(
+        options: PlanStepExecuteOptions<TTools>
+    ): Promise<TStepResult>;
+}
+
+/**
+ * Executes one step of the plan. A thrown error fails the step, which triggers a replan
+ * (or fails the pattern once `maxReplans` is used up).
+ */
+export type PlanStepExecutor<TPlan, TStepResult> = (
+    context: PlanStepContext<TPlan, TStepResult>
+) => Promise<TStepResult> | TStepResult;
+
+export interface PlanExecutePatternConfig<
+    TPlanSchema extends PlanSchema,
+    TStepResultSchema extends z.ZodType,
+    TResultSchema extends z.ZodType,
+> {
+    planSchema: TPlanSchema;
+    /** Schema of the results submitted by `context.execute()`. Defaults to `z.string()`. */
+    stepResultSchema?: TStepResultSchema;
+    resultSchema: TResultSchema;
+    stepExecutor: PlanStepExecutor<z.infer<TPlanSchema>, z.infer<TStepResultSchema>>;
+    /** Number of times the pattern may replan after a failed step. Defaults to 2. */
+    maxReplans?: number;
+    /** Maximum number of steps executed over all plans. Defaults to 20. */
+    maxSteps?: number;
+    /** Maximum number of model calls of each tool-calling loop. Defaults to 10. */
+    maxToolIterations?: number;
+}
+
+const DEFAULT_MAX_REPLANS = 2;
+const DEFAULT_MAX_STEPS = 20;
+const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+
+const TOOL_DESCRIPTIONS = {
+    submitPlan:
+        '[REQUIRED] Submit the plan. You MUST call this exactly once. Without this call, the task FAILS.',
+    submitStepResult:
+        '[REQUIRED] Submit the result of the current step. You MUST call this exactly once, after using any other tools you need.',
+    submitResult:
+        '[REQUIRED] Submit the final result. You MUST call this exactly once to complete the task. Without this call, the task FAILS.',
+} as const;
+
+export const PLAN_EXECUTE_PROTOCOL = {
+    plan: `## PLANNING
+
+Break the task below into the steps needed to complete it.
+- Each step must be small enough to be done on its own
+- Order the steps so that each one only depends on earlier ones
+- You MUST call submitPlan exactly once with the plan`,
+    step: `## STEP EXECUTION
+
+Complete the current step only.
+- Use the other tools as needed
+- You MUST call submitStepResult exactly once with the step's result`,
+    result: `## FINAL RESULT
+
+The steps of the plan have been executed.
+- Answer the task below using their results
+- You MUST call submitResult exactly once with the final result`,
+} as const;
+
+type SubmitToolName = keyof typeof TOOL_DESCRIPTIONS;
+
+/**
+ * Creates a plan-and-execute pattern: the model plans the task as a list of steps, each step
+ * is executed (usually with tools), and the model replans the remaining work when a step fails.
+ * Once all steps succeed, the model submits the final result.
+ *
+ * The pattern automatically:
+ * - Injects `submitPlan`, `submitStepResult` and `submitResult` tools with the given schemas
+ * - Emits `plan`, `step_start`, `step_result` and `replan` events
+ * - Limits replans, executed steps and the model calls of each tool-calling loop
+ *
+ * @example
+ * ```typescript
+ * const research = definePlanExecutePattern({
+ *   planSchema: z.object({ steps: z.array(z.object({ goal: z.string() })) }),
+ *   resultSchema: z.object({ answer: z.string() }),
+ *   stepExecutor: ({ step, completed, execute }) =>
+ *     execute({
+ *       prompt: `Goal: ${step.goal}\nFindings so far: ${JSON.stringify(completed)}`,
+ *       tools: { search, fetchPage },
+ *     }),
+ *   maxReplans: 1,
+ * });
+ *
+ * for await (const event of research.run(provider, { prompt: question })) {
+ *   if (event.type === 'step_start') console.log('Step:', event.step.goal);
+ * }
+ * ```
+ *
+ * @example Composable (within a session)
+ * ```typescript
+ * provider.streamingExecution(async function* (session) {
+ *   return yield* research.runInSession(session, { prompt: question });
+ * });
+ * ```
+ */
+export function definePlanExecutePattern<
+    TPlanSchema extends PlanSchema,
+    TResultSchema extends z.ZodType,
+    TStepResultSchema extends z.ZodType = z.ZodString,
+>(config: PlanExecutePatternConfig<TPlanSchema, TStepResultSchema, TResultSchema>) {
+    return new PlanExecutePattern(config);
+}
+
+export class PlanExecutePattern<
+    TPlanSchema extends PlanSchema,
+    TStepResultSchema extends z.ZodType,
+    TResultSchema extends z.ZodType,
+    TPlan = z.infer<TPlanSchema>,
+    TStepResult = z.infer<TStepResultSchema>,
+    TResult = z.infer<TResultSchema>,
+    TEvent extends { type: string } = PlanExecuteEvent<TPlan, TStepResult, TResult>,
+> {
+    private readonly stepResultSchema: z.ZodType;
+    private readonly maxReplans: number;
+    private readonly maxSteps: number;
+    private readonly maxToolIterations: number;
+
+    constructor(
+        readonly config: PlanExecutePatternConfig<TPlanSchema, TStepResultSchema, TResultSchema>
+    ) {
+        this.stepResultSchema = config.stepResultSchema ?? z.string();
+        this.maxReplans = config.maxReplans ?? DEFAULT_MAX_REPLANS;
+        this.maxSteps = config.maxSteps ?? DEFAULT_MAX_STEPS;
+        this.maxToolIterations = config.maxToolIterations ?? DEFAULT_MAX_TOOL_ITERATIONS;
+        this.validateConfig();
+    }
+
+    /**
+     * Runs the pattern within an existing session: plans, executes the steps (replanning
+     * after failures), then completes with the final result.
+     */
+    async *runInSession(
+        session: StreamingSession<TEvent>,
+        options: PlanExecuteRunOptions
+    ): AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent>, undefined> {
+        const completed: PlanStepRecord<PlanStep<TPlan>, TStepResult>[] = [];
+        let executed = 0;
+        let plan = await this.plan(session, options, completed);
+
+        for (let attempt = 0; ; attempt++) {
+            // Cast required: TypeScript can't know that TEvent includes a 'plan' variant
+            yield session.emit({
+                type: 'plan',
+                plan,
+                attempt,
+            } as unknown as EmittableEventInput<TEvent>);
+
+            const steps = (plan as { steps: readonly PlanStep<TPlan>[] }).steps;
+            if (executed + steps.length > this.maxSteps) {
+                throw new Error(
+                    `PlanExecutePattern: Plan has ${steps.length} steps, but only ` +
+                        `${this.maxSteps - executed} of the ${this.maxSteps} allowed steps remain.`
+                );
+            }
+
+            const failure = yield* this.executePlan(session, options, plan, completed);
+            executed += failure ? failure.index + 1 : steps.length;
+            if (!failure) {
+                break;
+            }
+
+            if (attempt >= this.maxReplans) {
+                throw new Error(
+                    `PlanExecutePattern: Step ${failure.index} failed after ` +
+                        `${this.maxReplans} replans. ${failure.message}`,
+                    { cause: failure.error }
+                );
+            }
+
+            // Cast required: TypeScript can't know that TEvent includes a 'replan' variant
+            yield session.emit({
+                type: 'replan',
+                attempt: attempt + 1,
+                index: failure.index,
+                reason: failure.message,
+            } as unknown as EmittableEventInput<TEvent>);
+
+            plan = await this.plan(session, options, completed, {
+                step: steps[failure.index],
+                message: failure.message,
+            });
+        }
+
+        const result = await this.submit<TResult>(
+            session,
+            {
+                ...options,
+                system: this.renderSystemPrompt(
+                    options.system,
+                    `${PLAN_EXECUTE_PROTOCOL.result}\n\n${this.renderCompleted(completed)}`
+                ),
+            },
+            'submitResult',
+            this.config.resultSchema
+        );
+
+        const completeEvent = await session.done(result as ExtractResult<TEvent>);
+        yield completeEvent;
+        return completeEvent;
+    }
+
+    /**
+     * Standalone execution that creates a new session internally.
+     */
+    run(
+        provider: BaseProvider,
+        options: PlanExecuteRunOptions
+    ): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        const self = this;
+        const execution = provider.streamingExecution<TEvent>(async function* (session) {
+            return yield* self.runInSession(session, options);
+        });
+        return execution.stream();
+    }
+
+    /**
+     * Executes the steps of `plan` in order, stopping at the first failure.
+     * Returns the failure, or `undefined` when every step succeeded.
+     */
+    private async *executePlan(
+        session: StreamingSession<TEvent>,
+        request: PlanExecuteRunOptions,
+        plan: TPlan,
+        completed: PlanStepRecord<PlanStep<TPlan>, TStepResult>[]
+    ): AsyncGenerator<
+        SessionEvent<TEvent>,
+        { index: number; message: string; error: unknown } | undefined,
+        undefined
+    > {
+        const steps = (plan as { steps: readonly PlanStep<TPlan>[] }).steps;
+
+        for (const [index, step] of steps.entries()) {
+            // Cast required: TypeScript can't know that TEvent includes a 'step_start' variant
+            yield session.emit({
+                type: 'step_start',
+                index,
+                step,
+            } as unknown as EmittableEventInput<TEvent>);
+
+            let result: TStepResult;
+            try {
+                result = (await this.config.stepExecutor({
+                    session,
+                    step,
+                    index,
+                    plan,
+                    completed: [...completed],
+                    request,
+                    execute: (options) =>
+                        this.submit<TStepResult>(
+                            session,
+                            {
+                                ...(options as PlanStepExecuteOptions<ToolSet>),
+                                system: this.renderSystemPrompt(
+                                    options.system,
+                                    PLAN_EXECUTE_PROTOCOL.step
+                                ),
+                            },
+                            'submitStepResult',
+                            this.stepResultSchema
+                        ),
+                } as PlanStepContext<
+                    z.infer<TPlanSchema>,
+                    z.infer<TStepResultSchema>
+                >)) as TStepResult;
+            } catch (error) {
+                // Canceled executions end here instead of replanning
+                if (session.signal?.aborted) {
+                    throw error;
+                }
+                const message = error instanceof Error ? error.message : String(error);
+                // Cast required: TypeScript can't know that TEvent includes a 'step_result' variant
+                yield session.emit({
+                    type: 'step_result',
+                    index,
+                    step,
+                    status: 'failed',
+                    error: message,
+                } as unknown as EmittableEventInput<TEvent>);
+                return { index, message, error };
+            }
+
+            completed.push({ step, result });
+            // Cast required: TypeScript can't know that TEvent includes a 'step_result' variant
+            yield session.emit({
+                type: 'step_result',
+                index,
+                step,
+                status: 'succeeded',
+                result,
+            } as unknown as EmittableEventInput<TEvent>);
+        }
+
+        return undefined;
+    }
+
+    private plan(
+        session: SimpleSession,
+        options: PlanExecuteRunOptions,
+        completed: PlanStepRecord<PlanStep<TPlan>, TStepResult>[],
+        failure?: { step: PlanStep<TPlan>; message: string }
+    ): Promise<TPlan> {
+        const sections: string[] = [PLAN_EXECUTE_PROTOCOL.plan];
+        if (failure) {
+            sections.push(
+                [
+                    '## REPLANNING',
+                    '',
+                    'The previous plan failed. Plan only the remaining work.',
+                    `Failed step: ${JSON.stringify(failure.step)}`,
+                    `Error: ${failure.message}`,
+                ].join('\n')
+            );
+        }
+        if (completed.length > 0) {
+            sections.push(this.renderCompleted(completed));
+        }
+
+        return this.submit<TPlan>(
+            session,
+            { ...options, system: this.renderSystemPrompt(options.system, sections.join('\n\n')) },
+            'submitPlan',
+            this.config.planSchema
+        );
+    }
+
+    /**
+     * Runs a tool-calling loop with the `name` submit tool added, and returns the data of
+     * its first valid call.
+     */
+    private async submit<T>(
+        session: SimpleSession,
+        options: PlanStepExecuteOptions<ToolSet>,
+        name: SubmitToolName,
+        schema: z.ZodType
+    ): Promise<T> {
+        const { tools: userTools, ...restOptions } = options;
+        const submitTool = tool({
+            description: TOOL_DESCRIPTIONS[name],
+            inputSchema: z.object({ data: schema }),
+            execute: async () => ({ status: 'submitted' }),
+        });
+
+        const result = await session.generateText({
+            ...restOptions,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            tools: { ...userTools, [name]: submitTool } as any,
+            toolChoice: 'required',
+            stopWhen: [hasToolCall(name), stepCountIs(this.maxToolIterations)],
+        });
+
+        let lastParseError: Error | null = null;
+        for (const call of result.steps.flatMap((step) => step.toolCalls)) {
+            if (call.toolName !== name) {
+                continue;
+            }
+            try {
+                const data = (call.input as { data?: unknown } | undefined)?.data;
+                const parsed = schema.safeParse(data);
+                if (parsed.success) {
+                    return parsed.data as T;
+                }
+                // Some models send the data as a JSON string
+                if (typeof data !== 'string') {
+                    throw parsed.error;
+                }
+                return schema.parse(JSON.parse(data)) as T;
+            } catch (error) {
+                lastParseError = error instanceof Error ? error : new Error(String(error));
+            }
+        }
+
+        const detail = lastParseError
+            ? ` Last parse error: ${lastParseError.message}`
+            : ` The LLM did not call ${name} within ${this.maxToolIterations} tool iterations.`;
+        throw new Error(`PlanExecutePattern: No ${name} call received.${detail}`);
+    }
+
+    private validateConfig(): void {
+        const { maxReplans, maxSteps, maxToolIterations } = this;
+        const invalid = (message: string) =>
+            new ConfigurationError(`Invalid plan-execute pattern: ${message}`, {
+                code: ConfigurationErrorCode.INVALID_CONFIG,
+                context: { maxReplans, maxSteps, maxToolIterations },
+            });
+
+        if (!Number.isInteger(maxReplans) || maxReplans < 0) {
+            throw invalid('maxReplans must be a non-negative integer');
+        }
+        if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+            throw invalid('maxSteps must be a positive integer');
+        }
+        if (!Number.isInteger(maxToolIterations) || maxToolIterations < 1) {
+            throw invalid('maxToolIterations must be a positive integer');
+        }
+    }
+
+    private renderCompleted(completed: PlanStepRecord<PlanStep<TPlan>, TStepResult>[]): string {
+        const lines = completed.map(
+            ({ step, result }, index) =>
+                `${index + 1}. ${JSON.stringify(step)}\n   Result: ${JSON.stringify(result)}`
+        );
+        return ['## COMPLETED STEPS', '', ...(lines.length > 0 ? lines : ['(none)'])].join('\n');
+    }
+
+    private renderSystemPrompt(userSystem: unknown, protocol: string): string {
+        return typeof userSystem === 'string' && userSystem
+            ? `${userSystem}\n\n${protocol}`
+            : protocol;
+    }
+}
@@ -1,9 +1,12 @@
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { z } from 'zod';
 import { defineProgressivePattern, ProgressivePattern } from './index.js';
+import { ConfigurationError } from '../../errors/index.js';
 import type { CompletionEvent } from '../../execution/types.js';
 import type { EventMetrics } from '../../observability/index.js';
 import type { StreamingSession } from '../../session/streaming-session.js';
+import { mock } from '../../testing/mock.js';
 
 type TestProgress = { stage: string; message: string } | { stage: string; progress: number };
 type TestResult = { summary: string; score: number };
@@ -51,7 +54,8 @@ function createMockFullStream(
 }
 
 function createMockSession(
-    fullStreamEvents: Array<{ toolName: string; input: unknown }>
+    fullStreamEvents: Array<{ toolName: string; input: unknown }>,
+    repairToolCalls: Array<{ toolName: string; input: unknown }> = []
 ): StreamingSession<TestEvent> & {
     _emittedEvents: TestEvent[];
     _doneResult: () => TestResult | null;
@@ -77,7 +81,11 @@ function createMockSession(
         }),
         streamText: vi.fn(() => ({
             fullStream: mockFullStream,
+            response: Promise.resolve({ messages: [] }),
         })),
+        generateText: vi.fn(() =>
+            Promise.resolve({ toolCalls: repairToolCalls, response: { messages: [] } })
+        ),
         _emittedEvents: emittedEvents,
         _doneResult: () => doneResult,
     } as unknown as StreamingSession<TestEvent> & {
@@ -389,3 +397,165 @@ describe('ProgressivePattern edge cases', () => {
         expect(session.done).toHaveBeenCalledWith({ summary: 'Second', score: 2 });
     });
 });
+
+describe('ProgressivePattern repair', () => {
+    let pattern: ProgressivePattern<typeof testProgressSchema, typeof testResultSchema>;
+
+    beforeEach(() => {
+        pattern = defineProgressivePattern({
+            progressSchema: testProgressSchema,
+            resultSchema: testResultSchema,
+        });
+    });
+
+    it('should ask for the result when submitResult was not called', async () => {
+        const session = createMockSession(
+            [
+                {
+                    toolName: 'reportProgress',
+                    input: wrapData({ stage: 'analyzing', message: 'Hi' }),
+                },
+            ],
+            [{ toolName: 'submitResult', input: wrapData({ summary: 'Repaired', score: 3 }) }]
+        );
+
+        const events = await collectEvents(
+            pattern.runInSession(session, { prompt: 'Test', temperature: 0 })
+        );
+
+        expect(events.map((event) => event.type)).toEqual(['progress', 'complete']);
+        expect(session.done).toHaveBeenCalledWith({ summary: 'Repaired', score: 3 });
+
+        const callArgs = (session.generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        expect(callArgs.toolChoice).toEqual({ type: 'tool', toolName: 'submitResult' });
+        expect(Object.keys(callArgs.tools)).toEqual(['submitResult']);
+        expect(callArgs.temperature).toBe(0);
+        expect(callArgs.messages).toEqual([
+            { role: 'user', content: 'Test' },
+            { role: 'user', content: expect.stringContaining('Call submitResult now') },
+        ]);
+    });
+
+    it('should fail without repair calls when repairAttempts is 0', async () => {
+        const session = createMockSession([]);
+
+        await expect(
+            collectEvents(pattern.runInSession(session, { prompt: 'Test', repairAttempts: 0 }))
+        ).rejects.toThrow('No result received');
+        expect(session.generateText).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid repairAttempts', async () => {
+        const session = createMockSession([]);
+
+        await expect(
+            collectEvents(pattern.runInSession(session, { prompt: 'Test', repairAttempts: -1 }))
+        ).rejects.toThrow(ConfigurationError);
+    });
+});
+
+describe('ProgressivePattern structured mode', () => {
+    const pattern = defineProgressivePattern({
+        progressSchema: testProgressSchema,
+        resultSchema: testResultSchema,
+    });
+
+    const USAGE = {
+        inputTokens: { total: 0, noCache: 0, cacheRead: undefined, cacheWrite: undefined },
+        outputTokens: { total: 0, text: 0, reasoning: undefined },
+    };
+
+    /** Streams `chunks` as text, and answers repair calls with `repairText` */
+    function structuredModel(chunks: string[], repairText?: string): MockLanguageModelV3 {
+        return new MockLanguageModelV3({
+            doStream: async () => ({
+                stream: simulateReadableStream({
+                    chunks: [
+                        { type: 'text-start' as const, id: 'text-1' },
+                        ...chunks.map((delta) => ({
+                            type: 'text-delta' as const,
+                            id: 'text-1',
+                            delta,
+                        })),
+                        { type: 'text-end' as const, id: 'text-1' },
+                        {
+                            type: 'finish' as const,
+                            finishReason: { unified: 'stop' as const, raw: undefined },
+                            usage: USAGE,
+                        },
+                    ],
+                }),
+            }),
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: repairText ?? '' }],
+                finishReason: { unified: 'stop', raw: undefined },
+                usage: USAGE,
+                warnings: [],
+            }),
+        });
+    }
+
+    async function run(model: MockLanguageModelV3) {
+        const execution = mock.provider(model).streamingExecution(async function* (session) {
+            return yield* pattern.runInSession(session, {
+                prompt: 'Analyze',
+                mode: 'structured',
+            });
+        });
+        const events: { type: string; data?: unknown }[] = [];
+        for await (const event of execution.stream()) {
+            events.push(event);
+        }
+        return { events, result: await execution.result() };
+    }
+
+    it('should emit progress events from the partial output as items complete', async () => {
+        const model = structuredModel([
+            '{"progress":[{"stage":"analyzing","mess',
+            'age":"Reading"},{"stage":"processing",',
+            '"progress":50},{"stage":"unknown"}],"result":{"summary":"Done",',
+            '"score":9}}',
+        ]);
+
+        const { events, result } = await run(model);
+
+        expect(events.map((event) => event.type)).toEqual(['progress', 'progress', 'complete']);
+        expect(events[0].data).toEqual({ stage: 'analyzing', message: 'Reading' });
+        expect(events[1].data).toEqual({ stage: 'processing', progress: 50 });
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toEqual({ summary: 'Done', score: 9 });
+        }
+
+        const callOptions = model.doStreamCalls[0];
+        expect(callOptions.responseFormat?.type).toBe('json');
+        expect(callOptions.tools).toBeUndefined();
+        expect(JSON.stringify(callOptions.prompt[0])).toContain('RESPONSE FORMAT');
+    });
+
+    it('should repair a missing result', async () => {
+        const model = structuredModel(
+            ['{"progress":[{"stage":"processing","progress":10}]}'],
+            '{"progress":[],"result":{"summary":"Repaired","score":1}}'
+        );
+
+        const { events, result } = await run(model);
+
+        expect(events.map((event) => event.type)).toEqual(['progress', 'complete']);
+        expect(model.doGenerateCalls).toHaveLength(1);
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toEqual({ summary: 'Repaired', score: 1 });
+        }
+    });
+
+    it('should fail when the repaired output is still invalid', async () => {
+        const { result } = await run(structuredModel(['not json'], 'still not json'));
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toContain('No result received');
+            expect(result.error.message).toContain('after 1 repair attempts');
+        }
+    });
+});
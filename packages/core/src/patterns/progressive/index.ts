@@ -2,6 +2,8 @@ export {
   defineProgressivePattern,
   ProgressivePattern,
   TOOL_CALLING_PROTOCOL,
+  STRUCTURED_OUTPUT_PROTOCOL,
+  type ProgressiveMode,
   type ProgressiveStreamOptions,
   type ProgressEvent,
   type CompleteEvent,
@@ -1,6 +1,15 @@
-import { type StopCondition, type ToolSet, hasToolCall, tool } from 'ai';
+import {
+    type ModelMessage,
+    NoObjectGeneratedError,
+    Output,
+    type StopCondition,
+    type ToolSet,
+    hasToolCall,
+    tool,
+} from 'ai';
 import { z } from 'zod';
 
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
 import type {
     EmittableEventInput,
     ErrorEvent,
@@ -11,6 +20,13 @@ import type { BaseProvider } from '../../provider/base-provider.js';
 import type { StreamingSession } from '../../session/streaming-session.js';
 import type { StreamTextParams } from '../../session/types.js';
 
+/**
+ * How the model reports progress and its result:
+ * - `'tools'`: `reportProgress` and `submitResult` tool calls
+ * - `'structured'`: one structured output `{ progress: [...], result }`, streamed as partial JSON
+ */
+export type ProgressiveMode = 'tools' | 'structured';
+
 export type ProgressiveStreamOptions<TUserTools extends ToolSet = {}> = Omit<
     StreamTextParams<TUserTools>,
     'tools' | 'toolChoice' | 'stopWhen'
@@ -18,14 +34,25 @@ export type ProgressiveStreamOptions<TUserTools extends ToolSet = {}> = Omit<
     tools?: TUserTools;
     /**
      * Additional stop conditions. Will be combined with the default
-     * `hasToolCall('submitResult')`.
+     * `hasToolCall('submitResult')` in `'tools'` mode.
      */
     stopWhen?: StopCondition<ToolSet> | StopCondition<ToolSet>[];
     /**
      * Custom protocol instructions appended to the system prompt.
-     * If not provided, uses the default TOOL_CALLING_PROTOCOL.
+     * If not provided, uses the default TOOL_CALLING_PROTOCOL
+     * (STRUCTURED_OUTPUT_PROTOCOL in `'structured'` mode).
      */
     protocol?: string;
+    /**
+     * Use `'structured'` for models that don't follow the tool-calling protocol.
+     * Defaults to `'tools'`.
+     */
+    mode?: ProgressiveMode;
+    /**
+     * Follow-up calls asking for the result when the model did not submit a valid one.
+     * Defaults to 1; with 0 the pattern fails right away.
+     */
+    repairAttempts?: number;
 };
 
 /**
@@ -74,6 +101,30 @@ CORRECT SEQUENCE:
 ❌ WRONG: reportProgress → reportProgress → reportProgress → reportProgress (no submitResult = FAIL)
 ✅ CORRECT: reportProgress → submitResult (SUCCESS)`;
 
+export const STRUCTURED_OUTPUT_PROTOCOL = `## RESPONSE FORMAT
+
+Respond with a single JSON object:
+- "progress": your intermediate work, as a list of progress updates in the order you make them
+- "result": your final answer
+
+Write "progress" before "result".`;
+
+const REPAIR_INSTRUCTIONS = {
+    tools: 'You did not submit a valid result. Call submitResult now with your final result.',
+    structured:
+        'Your response did not contain a valid result. Respond again with the complete JSON object.',
+} as const;
+
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
 /**
  * Creates a progressive pattern for streaming LLM responses with intermediate progress updates.
  *
@@ -81,6 +132,10 @@ CORRECT SEQUENCE:
  * - Injects `reportProgress` and `submitResult` tools
  * - Stops when `submitResult` is called (via `hasToolCall('submitResult')`)
  * - Appends protocol instructions to the system prompt
+ * - Asks again for the result (`repairAttempts`) when the model did not submit a valid one
+ *
+ * With `mode: 'structured'`, the model streams one structured output instead of calling
+ * tools, and progress events are emitted from its partial JSON.
  *
  * @example Basic usage
  * ```typescript
@@ -115,6 +170,14 @@ CORRECT SEQUENCE:
  * })) { ... }
  * ```
  *
+ * @example Structured output mode
+ * ```typescript
+ * for await (const event of pattern.run(provider, {
+ *   prompt: 'Analyze...',
+ *   mode: 'structured',
+ * })) { ... }
+ * ```
+ *
  * @example Composable (within a session)
  * ```typescript
  * provider.streamingExecution(async function*(session) {
@@ -154,6 +217,8 @@ export class ProgressivePattern<
      * @param options - Stream options including:
      *   - `stopWhen` - Additional stop conditions (combined with default `hasToolCall('submitResult')`)
      *   - `protocol` - Custom protocol instructions (replaces default `TOOL_CALLING_PROTOCOL`)
+     *   - `mode` - `'structured'` to stream one structured output instead of calling tools
+     *   - `repairAttempts` - Follow-up calls asking for a missing or invalid result (default: 1)
      *   - All other `streamText` options except `tools`, `toolChoice`, `stopWhen`
      *
      * @example Basic usage
@@ -179,57 +244,31 @@ export class ProgressivePattern<
         options: ProgressiveStreamOptions<TUserTools>
     ): AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent>, undefined> {
         const {
-            tools: userTools,
-            system,
-            stopWhen: userStopWhen,
-            protocol,
-            ...restOptions
+            mode = 'tools',
+            repairAttempts = DEFAULT_REPAIR_ATTEMPTS,
+            ...streamOptions
         } = options;
-
-        const internalTools = this.createTools();
-        const allTools = { ...userTools, ...internalTools } as ToolSet;
-        const systemString = typeof system === 'string' ? system : undefined;
-        const fullSystem = this.renderSystemPrompt(systemString, protocol);
-
-        const defaultStopCondition = hasToolCall('submitResult');
-        const stopConditions = this.combineStopConditions(defaultStopCondition, userStopWhen);
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const stream = session.streamText({
-            ...restOptions,
-            system: fullSystem,
-            tools: allTools as any,
-            toolChoice: 'required',
-            stopWhen: stopConditions as any,
-        });
-
-        let result: TResult | null = null;
-
-        for await (const part of stream.fullStream) {
-            if (part.type === 'tool-call') {
-                if (part.toolName === 'reportProgress') {
-                    const input = 'input' in part ? part.input : undefined;
-                    const progressData = this.parseProgressInput(input);
-                    if (progressData !== null) {
-                        // Cast required: TypeScript can't know that TEvent includes a 'progress' variant
-                        yield session.emit({
-                            type: 'progress',
-                            data: progressData,
-                        } as unknown as EmittableEventInput<TEvent>);
-                    }
-                } else if (part.toolName === 'submitResult') {
-                    const input = 'input' in part ? part.input : undefined;
-                    result = this.parseResultInput(input);
-                }
-            }
+        if (!Number.isInteger(repairAttempts) || repairAttempts < 0) {
+            throw new ConfigurationError(
+                `Invalid progressive pattern options: repairAttempts (${repairAttempts}) must be a non-negative integer`,
+                { code: ConfigurationErrorCode.INVALID_CONFIG, context: { repairAttempts } }
+            );
         }
 
+        const result =
+            mode === 'structured'
+                ? yield* this.streamStructured(session, streamOptions, repairAttempts)
+                : yield* this.streamWithTools(session, streamOptions, repairAttempts);
+
         if (result === null) {
             const baseMsg = 'ProgressivePattern: No result received.';
             const detail = this.lastParseError
                 ? ` Last parse error: ${this.lastParseError.message}`
-                : ' The LLM did not call submitResult tool.';
-            throw new Error(baseMsg + detail);
+                : mode === 'structured'
+                  ? ' The LLM did not respond with a result.'
+                  : ' The LLM did not call submitResult tool.';
+            const repairs = repairAttempts > 0 ? ` (after ${repairAttempts} repair attempts)` : '';
+            throw new Error(baseMsg + detail + repairs);
         }
 
         const completeEvent = await session.done(result as ExtractResult<TEvent>);
@@ -281,6 +320,230 @@ export class ProgressivePattern<
         return execution.stream();
     }
 
+    /**
+     * Streams with the `reportProgress`/`submitResult` tools, then asks for the result
+     * up to `repairAttempts` times if `submitResult` was not called with a valid one.
+     */
+    private async *streamWithTools<TUserTools extends ToolSet>(
+        session: StreamingSession<TEvent>,
+        options: Omit<ProgressiveStreamOptions<TUserTools>, 'mode' | 'repairAttempts'>,
+        repairAttempts: number
+    ): AsyncGenerator<SessionEvent<TEvent>, TResult | null, undefined> {
+        const {
+            tools: userTools,
+            system,
+            stopWhen: userStopWhen,
+            protocol,
+            ...restOptions
+        } = options;
+
+        const internalTools = this.createTools();
+        const allTools = { ...userTools, ...internalTools } as ToolSet;
+        const systemString = typeof system === 'string' ? system : undefined;
+        const fullSystem = this.renderSystemPrompt(systemString, protocol);
+
+        const defaultStopCondition = hasToolCall('submitResult');
+        const stopConditions = this.combineStopConditions(defaultStopCondition, userStopWhen);
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const stream = session.streamText({
+            ...restOptions,
+            system: fullSystem,
+            tools: allTools as any,
+            toolChoice: 'required',
+            stopWhen: stopConditions as any,
+        });
+
+        let result: TResult | null = null;
+
+        for await (const part of stream.fullStream) {
+            if (part.type === 'tool-call') {
+                if (part.toolName === 'reportProgress') {
+                    const input = 'input' in part ? part.input : undefined;
+                    const progressData = this.parseProgressInput(input);
+                    if (progressData !== null) {
+                        // Cast required: TypeScript can't know that TEvent includes a 'progress' variant
+                        yield session.emit({
+                            type: 'progress',
+                            data: progressData,
+                        } as unknown as EmittableEventInput<TEvent>);
+                    }
+                } else if (part.toolName === 'submitResult') {
+                    const input = 'input' in part ? part.input : undefined;
+                    result = this.parseResultInput(input);
+                }
+            }
+        }
+
+        if (result !== null || repairAttempts === 0) {
+            return result;
+        }
+
+        const messages = this.conversation(restOptions, (await stream.response).messages);
+        for (let attempt = 0; attempt < repairAttempts && result === null; attempt++) {
+            messages.push({ role: 'user', content: REPAIR_INSTRUCTIONS.tools });
+            // Only submitResult is offered, and it must be called
+            const repair = await session.generateText({
+                ...this.repairCallOptions(restOptions),
+                system: fullSystem,
+                messages,
+                tools: { submitResult: internalTools.submitResult },
+                toolChoice: { type: 'tool', toolName: 'submitResult' },
+            });
+            for (const call of repair.toolCalls) {
+                if (call.toolName === 'submitResult') {
+                    result = this.parseResultInput(call.input) ?? result;
+                }
+            }
+            messages.push(...repair.response.messages);
+        }
+
+        return result;
+    }
+
+    /**
+     * Streams one structured output `{ progress, result }` and emits each progress item
+     * once the partial JSON has moved past it, then asks for the result up to
+     * `repairAttempts` times if it is missing or invalid.
+     */
+    private async *streamStructured<TUserTools extends ToolSet>(
+        session: StreamingSession<TEvent>,
+        options: Omit<ProgressiveStreamOptions<TUserTools>, 'mode' | 'repairAttempts'>,
+        repairAttempts: number
+    ): AsyncGenerator<SessionEvent<TEvent>, TResult | null, undefined> {
+        const { tools: userTools, system, stopWhen, protocol, ...restOptions } = options;
+
+        const output = Output.object({
+            schema: z.object({
+                progress: z.array(this.progressSchema),
+                result: this.resultSchema,
+            }),
+        });
+        const systemString = typeof system === 'string' ? system : undefined;
+        const fullSystem = this.renderSystemPrompt(
+            systemString,
+            protocol ?? STRUCTURED_OUTPUT_PROTOCOL
+        );
+
+        const stream = session.streamText({
+            ...restOptions,
+            system: fullSystem,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            tools: userTools as any,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            stopWhen: stopWhen as any,
+            output,
+        });
+
+        let text = '';
+        let emitted = 0;
+
+        for await (const part of stream.fullStream) {
+            if (part.type === 'start-step') {
+                // Only the last step's text is the structured output
+                text = '';
+            } else if (part.type === 'text-delta') {
+                text += part.text;
+                const parsed = (await output.parsePartialOutput({ text }))?.partial as
+                    { progress?: unknown; result?: unknown } | undefined;
+                if (Array.isArray(parsed?.progress)) {
+                    // The last item may still be streaming until another item or the result follows
+                    const done =
+                        'result' in parsed ? parsed.progress.length : parsed.progress.length - 1;
+                    yield* this.emitProgress(session, parsed.progress.slice(emitted, done));
+                    emitted = Math.max(emitted, done);
+                }
+            }
+        }
+
+        const final = parseJson(text) as { progress?: unknown; result?: unknown } | undefined;
+        if (Array.isArray(final?.progress)) {
+            yield* this.emitProgress(session, final.progress.slice(emitted));
+        }
+        let result = this.parseValue(final?.result, this.resultSchema) as TResult | null;
+        if (result !== null || repairAttempts === 0) {
+            return result;
+        }
+
+        const messages = this.conversation(restOptions, (await stream.response).messages);
+        for (let attempt = 0; attempt < repairAttempts && result === null; attempt++) {
+            messages.push({ role: 'user', content: REPAIR_INSTRUCTIONS.structured });
+            let repairText: string | undefined;
+            try {
+                repairText = (
+                    await session.generateText({
+                        ...this.repairCallOptions(restOptions),
+                        system: fullSystem,
+                        messages,
+                        output,
+                    })
+                ).text;
+            } catch (error) {
+                // Invalid outputs are repaired again instead of failing the pattern
+                if (!NoObjectGeneratedError.isInstance(error)) {
+                    throw error;
+                }
+                repairText = error.text;
+            }
+            const repaired = parseJson(repairText ?? '') as { result?: unknown } | undefined;
+            result = this.parseValue(repaired?.result, this.resultSchema) as TResult | null;
+            messages.push({ role: 'assistant', content: repairText ?? '' });
+        }
+
+        return result;
+    }
+
+    private *emitProgress(
+        session: StreamingSession<TEvent>,
+        items: unknown[]
+    ): Generator<SessionEvent<TEvent>, void, undefined> {
+        for (const item of items) {
+            const progressData = this.parseValue(item, this.progressSchema);
+            if (progressData !== null) {
+                // Cast required: TypeScript can't know that TEvent includes a 'progress' variant
+                yield session.emit({
+                    type: 'progress',
+                    data: progressData,
+                } as unknown as EmittableEventInput<TEvent>);
+            }
+        }
+    }
+
+    /** The request's messages followed by the model's response */
+    private conversation(
+        options: { prompt?: unknown; messages?: ModelMessage[] },
+        responseMessages: ModelMessage[]
+    ): ModelMessage[] {
+        const { prompt, messages } = options;
+        const request: ModelMessage[] =
+            messages ??
+            (typeof prompt === 'string'
+                ? [{ role: 'user', content: prompt }]
+                : Array.isArray(prompt)
+                  ? (prompt as ModelMessage[])
+                  : []);
+        return [...request, ...responseMessages];
+    }
+
+    /** Model settings of the original call that repair calls keep */
+    private repairCallOptions(
+        options: Pick<
+            StreamTextParams,
+            | 'model'
+            | 'maxOutputTokens'
+            | 'temperature'
+            | 'topP'
+            | 'topK'
+            | 'seed'
+            | 'headers'
+            | 'providerOptions'
+        >
+    ) {
+        const { model, maxOutputTokens, temperature, topP, topK, seed, headers, providerOptions } =
+            options;
+        return { model, maxOutputTokens, temperature, topP, topK, seed, headers, providerOptions };
+    }
+
     private createTools() {
         return {
             reportProgress: tool({
@@ -323,6 +586,15 @@ export class ProgressivePattern<
         }
     }
 
+    private parseValue<T>(value: unknown, schema: z.ZodType<T>): T | null {
+        const parsed = schema.safeParse(value);
+        if (!parsed.success) {
+            this.lastParseError = parsed.error;
+            return null;
+        }
+        return parsed.data;
+    }
+
     private parseProgressInput(input: unknown): TProgress | null {
         return this.parseJsonWrapper(input, this.progressSchema) as TProgress | null;
     }
@@ -0,0 +1,158 @@
+import type { MockLanguageModelV3 } from 'ai/test';
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+
+import { ConfigurationError } from '../../errors/index.js';
+import type { ErrorEvent, SessionEvent } from '../../execution/types.js';
+import { mock } from '../../testing/mock.js';
+import {
+    defineRouterPattern,
+    type RouteSelectedEvent,
+    type RouterEvent,
+    type RouterPattern,
+} from './index.js';
+
+function createSupportRouter() {
+    return defineRouterPattern({
+        routes: {
+            refund: {
+                description: 'The customer wants money back for an order',
+                schema: z.object({ orderId: z.string() }),
+                handler: ({ input }) => `refund:${input.orderId}`,
+            },
+            general: {
+                description: 'Anything else',
+                handler: ({ decision }) => `general:${decision.fallbackReason ?? 'chosen'}`,
+            },
+        },
+        fallback: 'general',
+        minConfidence: 0.5,
+    });
+}
+
+async function runRouter(
+    model: MockLanguageModelV3,
+    router: Pick<RouterPattern<unknown, unknown, string>, 'runInSession'> = createSupportRouter()
+) {
+    const provider = mock.provider(model);
+    const execution = provider.streamingExecution<RouterEvent<string>>(async function* (session) {
+        return yield* router.runInSession(session, { prompt: 'Where is my money for A-1?' });
+    });
+
+    const events: SessionEvent<RouterEvent<string> | ErrorEvent>[] = [];
+    for await (const event of execution.stream()) {
+        events.push(event);
+    }
+    return { events, result: await execution.result() };
+}
+
+describe('RouterPattern', () => {
+    it('should run the chosen route with the extracted input', async () => {
+        const model = mock.json({
+            route: 'refund',
+            confidence: 0.9,
+            reason: 'Asks for money back',
+            input: { orderId: 'A-1' },
+        });
+
+        const { events, result } = await runRouter(model);
+
+        expect(events.map((event) => event.type)).toEqual(['route_selected', 'complete']);
+        expect(events[0]).toMatchObject({
+            route: 'refund',
+            confidence: 0.9,
+            reason: 'Asks for money back',
+        });
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe('refund:A-1');
+        }
+        expect(result.summary.llmCallCount).toBe(1);
+        expect(result.summary.metadata.route).toEqual({
+            route: 'refund',
+            confidence: 0.9,
+            reason: 'Asks for money back',
+        });
+
+        const system = JSON.stringify(model.doGenerateCalls[0].prompt[0]);
+        expect(system).toContain('- refund: The customer wants money back for an order');
+        expect(system).toContain('- general: Anything else');
+    });
+
+    it.each([
+        {
+            name: 'low confidence',
+            model: mock.json({ route: 'refund', confidence: 0.2, input: { orderId: 'A-1' } }),
+            reason: 'low_confidence',
+            requestedRoute: 'refund',
+        },
+        {
+            name: 'input not matching the route schema',
+            model: mock.json({ route: 'refund', confidence: 0.9, input: { order: 1 } }),
+            reason: 'invalid_input',
+            requestedRoute: 'refund',
+        },
+        {
+            name: 'no valid decision',
+            model: mock.text('I think it is about refunds'),
+            reason: 'no_decision',
+            requestedRoute: undefined,
+        },
+    ])('should run the fallback route on $name', async ({ model, reason, requestedRoute }) => {
+        const { events, result } = await runRouter(model);
+
+        expect(events[0]).toMatchObject({
+            type: 'route_selected',
+            route: 'general',
+            fallbackReason: reason,
+        });
+        expect((events[0] as RouteSelectedEvent).requestedRoute).toBe(requestedRoute);
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe(`general:${reason}`);
+        }
+    });
+
+    it('should fail without a fallback route when the decision is unusable', async () => {
+        const router = defineRouterPattern({
+            routes: {
+                refund: {
+                    description: 'Refunds',
+                    schema: z.object({ orderId: z.string() }),
+                    handler: ({ input }) => input.orderId,
+                },
+            },
+        });
+
+        const { result } = await runRouter(
+            mock.json({ route: 'refund', confidence: 1, input: {} }),
+            router
+        );
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toContain(
+                "RouterPattern: Invalid input for route 'refund'."
+            );
+        }
+    });
+
+    it('should reject invalid configurations', () => {
+        const handler = () => 'ok';
+        const schema = z.object({ id: z.string() });
+
+        expect(() => defineRouterPattern({ routes: {} })).toThrow(ConfigurationError);
+        expect(() =>
+            defineRouterPattern({
+                routes: { a: { description: 'A', schema, handler } },
+                fallback: 'a',
+            })
+        ).toThrow('must not have a schema');
+        expect(() =>
+            defineRouterPattern({
+                routes: { a: { description: 'A', handler } },
+                minConfidence: 0.5,
+            })
+        ).toThrow('minConfidence requires a fallback route');
+    });
+});
@@ -0,0 +1,15 @@
+export {
+  defineRouterPattern,
+  RouterPattern,
+  ROUTER_INSTRUCTIONS,
+  type RouterPatternConfig,
+  type RouterRunOptions,
+  type RouteDefinition,
+  type RouterRoutes,
+  type RouteInput,
+  type RouteContext,
+  type RouteDecision,
+  type RouteFallbackReason,
+  type RouteSelectedEvent,
+  type RouterEvent,
+} from './router-pattern.js';
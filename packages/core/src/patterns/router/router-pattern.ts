@@ -0,0 +1,387 @@
+import { NoObjectGeneratedError, NoOutputGeneratedError, Output } from 'ai';
+import { z } from 'zod';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type {
+    CompletionEvent,
+    EmittableEventInput,
+    ErrorEvent,
+    ExtractResult,
+    SessionEvent,
+} from '../../execution/types.js';
+import type { BaseProvider } from '../../provider/base-provider.js';
+import type { SimpleSession } from '../../session/simple-session.js';
+import type { StreamingSession } from '../../session/streaming-session.js';
+import type { GenerateTextParams } from '../../session/types.js';
+
+/**
+ * Options of the routing call. The request (`prompt` or `messages`) is classified as is
+ * and passed on to the chosen handler.
+ */
+export type RouterRunOptions = Omit<
+    GenerateTextParams,
+    'output' | 'tools' | 'toolChoice' | 'stopWhen'
+>;
+
+/** Why the fallback route ran instead of the classifier's choice */
+export type RouteFallbackReason = 'low_confidence' | 'invalid_input' | 'no_decision';
+
+/**
+ * Routing decision, emitted as a `route_selected` event and stored in the
+ * session metadata under `route`.
+ */
+export interface RouteDecision {
+    /** Route whose handler runs */
+    route: string;
+    /** Classifier confidence in its choice, from 0 to 1 (0 if it made none) */
+    confidence: number;
+    /** Classifier's explanation of its choice */
+    reason?: string;
+    /** Route chosen by the classifier, when the fallback route runs instead */
+    requestedRoute?: string;
+    /** Set when the fallback route runs instead of the classifier's choice */
+    fallbackReason?: RouteFallbackReason;
+}
+
+/**
+ * Route selected event - pure domain event without metrics.
+ * Framework automatically wraps with SessionEvent at runtime.
+ */
+export interface RouteSelectedEvent extends RouteDecision {
+    type: 'route_selected';
+}
+
+/** Events of a router pattern run */
+export type RouterEvent<TResult> = RouteSelectedEvent | CompletionEvent<TResult>;
+
+export interface RouteContext<TInput> {
+    /** The session the request was classified in */
+    session: SimpleSession;
+    /** Route input extracted by the classifier, parsed with the route's schema */
+    input: TInput;
+    decision: RouteDecision;
+    /** The routed request */
+    request: RouterRunOptions;
+}
+
+/** Handler input of a route: parsed with its schema, or `undefined` without one */
+export type RouteInput<TSchema> = TSchema extends z.ZodType ? z.infer<TSchema> : undefined;
+
+export interface RouteDefinition<TSchema, TResult> {
+    /** Tells the classifier which requests belong to this route */
+    description: string;
+    /**
+     * Input the classifier extracts from the request for the handler.
+     * Handlers of routes without a schema receive `undefined`.
+     */
+    schema?: TSchema;
+    handler: (context: RouteContext<RouteInput<TSchema>>) => Promise<TResult> | TResult;
+}
+
+/**
+ * Routes by name. Mapped twice so that each route's schema and handler result
+ * are inferred separately.
+ */
+export type RouterRoutes<TSchemas, TResults> = {
+    [K in keyof TSchemas]: RouteDefinition<TSchemas[K], unknown>;
+} & {
+    [K in keyof TResults]: { handler: (context: never) => Promise<TResults[K]> | TResults[K] };
+};
+
+export interface RouterPatternConfig<TSchemas, TResults> {
+    routes: RouterRoutes<TSchemas, TResults>;
+    /**
+     * Route to run when the classifier's choice is below `minConfidence`, its input does
+     * not match the route's schema, or it made no valid choice. Must not have a schema.
+     * Without one, these cases fail the pattern.
+     */
+    fallback?: keyof TSchemas & string;
+    /** Lowest confidence accepted from the classifier. Requires `fallback`. */
+    minConfidence?: number;
+    /**
+     * Custom routing instructions, replacing the default ones.
+     * The list of routes is always appended.
+     */
+    instructions?: string;
+}
+
+interface Selection {
+    decision: RouteDecision;
+    /** Input for the chosen route's handler */
+    input: unknown;
+}
+
+function parseJson(text: string | undefined): unknown {
+    try {
+        return text === undefined ? undefined : JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+export const ROUTER_INSTRUCTIONS = `## ROUTING
+
+Choose the single route that best handles the request below.
+- Set "confidence" to how sure you are (0 to 1)
+- Explain the choice in one sentence in "reason"
+- Fill "input" with the chosen route's parameters taken from the request`;
+
+/**
+ * Creates a router pattern that classifies a request with one structured-output call,
+ * then runs the chosen route's handler in the same session.
+ *
+ * The pattern automatically:
+ * - Asks the model for `{ route, confidence, reason, input }`, listing every route's description
+ * - Emits a `route_selected` event and stores the decision in session metadata (`route`)
+ * - Runs the fallback route if the choice is too uncertain or unusable
+ *
+ * @example
+ * ```typescript
+ * const support = defineRouterPattern({
+ *   routes: {
+ *     refund: {
+ *       description: 'The customer wants money back for an order',
+ *       schema: z.object({ orderId: z.string() }),
+ *       handler: ({ session, input }) => handleRefund(session, input.orderId),
+ *     },
+ *     general: {
+ *       description: 'Anything else',
+ *       handler: ({ session, request }) => answer(session, request),
+ *     },
+ *   },
+ *   fallback: 'general',
+ *   minConfidence: 0.6,
+ * });
+ *
+ * for await (const event of support.run(provider, { prompt: message })) {
+ *   if (event.type === 'route_selected') console.log('Route:', event.route);
+ * }
+ * ```
+ *
+ * @example Composable (within a session)
+ * ```typescript
+ * provider.streamingExecution(async function* (session) {
+ *   return yield* support.runInSession(session, { prompt: message });
+ * });
+ * ```
+ */
+export function defineRouterPattern<TSchemas, TResults>(
+    config: RouterPatternConfig<TSchemas, TResults>
+) {
+    return new RouterPattern(config);
+}
+
+export class RouterPattern<
+    TSchemas,
+    TResults,
+    TResult = TResults[keyof TResults],
+    TEvent extends { type: string } = RouterEvent<TResult>,
+> {
+    private readonly routeNames: string[];
+    private readonly choiceSchema: ReturnType<
+        RouterPattern<TSchemas, TResults>['createChoiceSchema']
+    >;
+    private readonly decisionSchema: z.ZodType;
+
+    constructor(readonly config: RouterPatternConfig<TSchemas, TResults>) {
+        this.routeNames = Object.keys(config.routes);
+        this.validateConfig();
+        this.choiceSchema = this.createChoiceSchema();
+        this.decisionSchema = this.createDecisionSchema();
+    }
+
+    /**
+     * Classifies the request without running a handler.
+     * The decision already accounts for `minConfidence` and the fallback route.
+     */
+    async classify(session: SimpleSession, options: RouterRunOptions): Promise<RouteDecision> {
+        return (await this.select(session, options)).decision;
+    }
+
+    /**
+     * Runs the pattern within an existing session: classifies the request, emits a
+     * `route_selected` event, then runs the chosen handler and completes with its result.
+     */
+    async *runInSession(
+        session: StreamingSession<TEvent>,
+        options: RouterRunOptions
+    ): AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent>, undefined> {
+        const { decision, input } = await this.select(session, options);
+        session.setMetadata('route', decision);
+
+        // Cast required: TypeScript can't know that TEvent includes a 'route_selected' variant
+        yield session.emit({
+            type: 'route_selected',
+            ...decision,
+        } as unknown as EmittableEventInput<TEvent>);
+
+        // Parsed with this route's schema (undefined without one)
+        const result = await this.route(decision.route).handler({
+            session,
+            input,
+            decision,
+            request: options,
+        });
+
+        const completeEvent = await session.done(result as ExtractResult<TEvent>);
+        yield completeEvent;
+        return completeEvent;
+    }
+
+    /**
+     * Standalone execution that creates a new session internally.
+     */
+    run(
+        provider: BaseProvider,
+        options: RouterRunOptions
+    ): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        const self = this;
+        const execution = provider.streamingExecution<TEvent>(async function* (session) {
+            return yield* self.runInSession(session, options);
+        });
+        return execution.stream();
+    }
+
+    private async select(session: SimpleSession, options: RouterRunOptions): Promise<Selection> {
+        const { system, ...restOptions } = options;
+        const systemString = typeof system === 'string' ? system : undefined;
+
+        let output: unknown;
+        try {
+            const result = await session.generateText({
+                ...restOptions,
+                system: this.renderSystemPrompt(systemString),
+                output: Output.object({ schema: this.decisionSchema }),
+            });
+            output = result.output;
+        } catch (error) {
+            // Decisions not matching the schema are checked below, so that they can fall back
+            if (NoObjectGeneratedError.isInstance(error)) {
+                output = parseJson(error.text);
+            } else if (NoOutputGeneratedError.isInstance(error)) {
+                output = undefined;
+            } else {
+                throw error;
+            }
+        }
+
+        return this.decide(output);
+    }
+
+    private decide(output: unknown): Selection {
+        const { fallback, minConfidence } = this.config;
+
+        const choice = this.choiceSchema.safeParse(output);
+        if (!choice.success) {
+            return this.fallBack('no_decision', { route: '', confidence: 0 }, choice.error);
+        }
+
+        const { route, confidence, reason } = choice.data;
+        const decision: RouteDecision = { route, confidence, ...(reason && { reason }) };
+
+        if (minConfidence !== undefined && confidence < minConfidence && route !== fallback) {
+            return this.fallBack('low_confidence', decision);
+        }
+
+        const schema = this.route(route).schema;
+        if (!schema) {
+            return { decision, input: undefined };
+        }
+        const input = schema.safeParse((output as { input?: unknown }).input);
+        if (!input.success) {
+            return this.fallBack('invalid_input', decision, input.error);
+        }
+        return { decision, input: input.data };
+    }
+
+    private fallBack(
+        reason: RouteFallbackReason,
+        decision: RouteDecision,
+        cause?: unknown
+    ): Selection {
+        const { fallback } = this.config;
+        if (!fallback) {
+            const detail = cause instanceof Error ? ` ${cause.message}` : '';
+            throw new Error(
+                reason === 'no_decision'
+                    ? `RouterPattern: No valid route decision received.${detail}`
+                    : `RouterPattern: Invalid input for route '${decision.route}'.${detail}`,
+                { cause }
+            );
+        }
+        return {
+            decision: {
+                ...decision,
+                route: fallback,
+                ...(decision.route && { requestedRoute: decision.route }),
+                fallbackReason: reason,
+            },
+            input: undefined,
+        };
+    }
+
+    private validateConfig(): void {
+        const { routes, fallback, minConfidence } = this.config;
+        const invalid = (message: string) =>
+            new ConfigurationError(`Invalid router pattern: ${message}`, {
+                code: ConfigurationErrorCode.INVALID_CONFIG,
+                context: { routes: this.routeNames, fallback, minConfidence },
+            });
+
+        if (this.routeNames.length === 0) {
+            throw invalid('at least one route is required');
+        }
+        if (fallback !== undefined && !(fallback in routes)) {
+            throw invalid(`fallback route '${fallback}' is not defined`);
+        }
+        if (fallback !== undefined && this.route(fallback).schema) {
+            throw invalid(`fallback route '${fallback}' must not have a schema`);
+        }
+        if (minConfidence !== undefined) {
+            if (!(minConfidence >= 0 && minConfidence <= 1)) {
+                throw invalid('minConfidence must be between 0 and 1');
+            }
+            if (fallback === undefined) {
+                throw invalid('minConfidence requires a fallback route');
+            }
+        }
+    }
+
+    private route(name: string): RouteDefinition<z.ZodType | undefined, unknown> {
+        return (
+            this.config.routes as Record<string, RouteDefinition<z.ZodType | undefined, unknown>>
+        )[name];
+    }
+
+    private createChoiceSchema() {
+        return z.object({
+            route: z.enum(this.routeNames as [string, ...string[]]),
+            confidence: z.number().min(0).max(1),
+            reason: z.string().optional(),
+        });
+    }
+
+    /** Choice plus the input of any route, sent to the model */
+    private createDecisionSchema(): z.ZodType {
+        const schemas = this.routeNames
+            .map((name) => this.route(name).schema)
+            .filter((schema) => schema !== undefined);
+
+        if (schemas.length === 0) {
+            return this.choiceSchema;
+        }
+        const input =
+            schemas.length === 1
+                ? schemas[0]
+                : z.union(schemas as unknown as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+        return this.choiceSchema.extend({ input: input.optional() });
+    }
+
+    private renderSystemPrompt(userSystem?: string): string {
+        const routes = this.routeNames
+            .map((name) => `- ${name}: ${this.route(name).description}`)
+            .join('\n');
+        const routing = `${this.config.instructions ?? ROUTER_INSTRUCTIONS}\n\nRoutes:\n${routes}`;
+        return userSystem ? `${userSystem}\n\n${routing}` : routing;
+    }
+}
@@ -2,11 +2,14 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import type { LanguageModelUsage } from 'ai';
 import {
   getModelPricing,
+  findModelPricing,
   calculateCost,
   calculateCostFromUsage,
   calculateTotalCost,
+  resolveModelPricing,
 } from './calculator.js';
 import { configurePricing, resetPricingConfig } from './config.js';
+import type { ModelPricing } from './types.js';
 import {
   GOOGLE_PRICING,
   OPENAI_PRICING,
@@ -118,6 +121,51 @@ describe('getModelPricing', () => {
     });
   });
 
+  describe('model ID resolution', () => {
+    it('should resolve dated snapshots and models/ prefixes to the base model', () => {
+      expect(getModelPricing('gpt-4o-2024-08-06', 'openai')).toBe(OPENAI_PRICING['gpt-4o']);
+      expect(getModelPricing('gpt-4o-mini-2024-07-18', 'openai')).toBe(
+        OPENAI_PRICING['gpt-4o-mini']
+      );
+      expect(getModelPricing('models/gemini-2.5-flash', 'google')).toBe(
+        GOOGLE_PRICING['gemini-2.5-flash']
+      );
+      expect(getModelPricing('gemini-1.5-pro-002', 'google')).toBe(
+        GOOGLE_PRICING['gemini-1.5-pro']
+      );
+    });
+
+    it('should not resolve suffixes that name another model', () => {
+      expect(getModelPricing('o1-pro', 'openai')).toEqual(DEFAULT_FALLBACK_PRICING);
+      expect(findModelPricing('o1-pro', 'openai')).toBeUndefined();
+    });
+
+    it('should resolve built-in and configured aliases', () => {
+      expect(getModelPricing('claude-sonnet-4-5', 'anthropic')).toBe(
+        ANTHROPIC_PRICING['claude-sonnet-4-5-20250929']
+      );
+
+      configurePricing({ aliases: { 'my-model': 'gpt-4o' } });
+      expect(getModelPricing('my-model', 'openai')).toBe(OPENAI_PRICING['gpt-4o']);
+    });
+
+    it('should prefer an exact provider-level entry over an alias', () => {
+      const pricing = { inputPricePerMillion: 9, outputPricePerMillion: 9 };
+
+      expect(
+        getModelPricing('claude-sonnet-4-5', 'anthropic', { 'claude-sonnet-4-5': pricing })
+      ).toBe(pricing);
+    });
+
+    it('should resolve snapshots to the most specific entry across layers', () => {
+      const pricing = { inputPricePerMillion: 9, outputPricePerMillion: 9 };
+
+      expect(getModelPricing('gpt-4o-mini-2024-07-18', 'openai', { 'gpt-4o': pricing })).toBe(
+        OPENAI_PRICING['gpt-4o-mini']
+      );
+    });
+  });
+
   describe('provider-level override', () => {
     it('should use provider-level pricing when specified', () => {
       const providerPricing = {
@@ -163,6 +211,29 @@ describe('getModelPricing', () => {
       expect(pricing).toEqual(providerPricing['gemini-2.5-flash']);
     });
   });
+
+  describe('provider-level fallback', () => {
+    const zeroPricing = { inputPricePerMillion: 0, outputPricePerMillion: 0 };
+
+    it('should use fallbackPricing for unknown models', () => {
+      const pricing = getModelPricing('llama3', 'vllm', undefined, zeroPricing);
+      expect(pricing).toEqual(zeroPricing);
+    });
+
+    it('should prioritize fallbackPricing over global fallback', () => {
+      configurePricing({
+        fallback: { inputPricePerMillion: 2.0, outputPricePerMillion: 8.0 },
+      });
+
+      const pricing = getModelPricing('llama3', 'vllm', undefined, zeroPricing);
+      expect(pricing).toEqual(zeroPricing);
+    });
+
+    it('should not override known model pricing', () => {
+      const pricing = getModelPricing('gpt-4o', 'openai', undefined, zeroPricing);
+      expect(pricing).toEqual(OPENAI_PRICING['gpt-4o']);
+    });
+  });
 });
 
 describe('calculateCost', () => {
@@ -245,6 +316,36 @@ describe('calculateCost', () => {
     expect(result.total).toBeCloseTo(6.0, 6);
   });
 
+  it('should bill cache write tokens at cacheWriteInputPricePerMillion', () => {
+    const result = calculateCost({
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cachedInputTokens: 200_000,
+      cacheWriteInputTokens: 300_000,
+      model: 'claude-sonnet-4-20250514',
+      provider: 'anthropic',
+    });
+
+    expect(result.inputCost).toBeCloseTo(1.5, 6);
+    expect(result.cachedInputCost).toBeCloseTo(0.075, 6);
+    expect(result.cacheWriteInputCost).toBeCloseTo(1.125, 6);
+    expect(result.total).toBeCloseTo(2.7, 6);
+  });
+
+  it('should use regular input price when cache write price not defined', () => {
+    const result = calculateCost({
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cacheWriteInputTokens: 400_000,
+      model: 'gpt-4o',
+      provider: 'openai',
+    });
+
+    expect(result.inputCost).toBeCloseTo(1.5, 6);
+    expect(result.cacheWriteInputCost).toBeCloseTo(1.0, 6);
+    expect(result.total).toBeCloseTo(2.5, 6);
+  });
+
   it('should use provider-level pricing override', () => {
     const providerPricing = {
       'custom-model': {
@@ -307,6 +408,27 @@ describe('calculateCostFromUsage', () => {
     expect(result.cachedInputCost).toBeCloseTo(0.015, 6);
   });
 
+  it('should extract cache write tokens from inputTokenDetails', () => {
+    const usage = createMockUsage({
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      inputTokenDetails: {
+        cacheReadTokens: 0,
+        cacheWriteTokens: 1_000_000,
+        noCacheTokens: 0,
+      },
+    });
+
+    const result = calculateCostFromUsage(
+      usage,
+      'claude-haiku-4-5-20251001',
+      'anthropic'
+    );
+
+    expect(result.inputCost).toBe(0);
+    expect(result.cacheWriteInputCost).toBeCloseTo(1.25, 6);
+  });
+
   it('should handle undefined cacheReadTokens', () => {
     const usage = createMockUsage({
       inputTokens: 1_000_000,
@@ -453,6 +575,19 @@ describe('calculateCost validation', () => {
     ).toThrow('cachedInputTokens cannot exceed inputTokens');
   });
 
+  it('should throw when cached + cache write tokens > inputTokens', () => {
+    expect(() =>
+      calculateCost({
+        inputTokens: 100,
+        outputTokens: 50,
+        cachedInputTokens: 60,
+        cacheWriteInputTokens: 60,
+        model: 'claude-sonnet-4-20250514',
+        provider: 'anthropic',
+      })
+    ).toThrow('cachedInputTokens + cacheWriteInputTokens cannot exceed inputTokens');
+  });
+
   it('should throw on NaN inputTokens', () => {
     expect(() =>
       calculateCost({
@@ -501,3 +636,215 @@ describe('calculateCost validation', () => {
     expect(result.cachedInputCost).toBeGreaterThan(0);
   });
 });
+
+describe('resolveModelPricing', () => {
+  const pricing: ModelPricing = {
+    inputPricePerMillion: 1.0,
+    outputPricePerMillion: 4.0,
+    tiers: [
+      { aboveInputTokens: 100_000, inputPricePerMillion: 2.0 },
+      { aboveInputTokens: 10_000, inputPricePerMillion: 1.5, outputPricePerMillion: 5.0 },
+    ],
+    periods: [
+      {
+        effectiveFrom: '2025-01-01',
+        effectiveUntil: '2025-02-01',
+        inputPricePerMillion: 0.5,
+        tiers: [],
+      },
+      { effectiveFrom: '2026-01-01', outputPricePerMillion: 3.0 },
+    ],
+  };
+  const before = Date.parse('2024-06-01');
+
+  it('should return base prices below every tier and outside every period', () => {
+    expect(resolveModelPricing(pricing, { inputTokens: 10_000, date: before })).toEqual({
+      inputPricePerMillion: 1.0,
+      outputPricePerMillion: 4.0,
+    });
+  });
+
+  it('should apply the tier with the highest threshold below the input tokens', () => {
+    expect(resolveModelPricing(pricing, { inputTokens: 50_000, date: before })).toEqual({
+      inputPricePerMillion: 1.5,
+      outputPricePerMillion: 5.0,
+    });
+    expect(resolveModelPricing(pricing, { inputTokens: 150_000, date: before })).toEqual({
+      inputPricePerMillion: 2.0,
+      outputPricePerMillion: 4.0,
+    });
+  });
+
+  it('should apply the period containing the date, with inclusive start and exclusive end', () => {
+    const start = new Date('2025-01-01');
+    const end = new Date('2025-02-01');
+
+    expect(resolveModelPricing(pricing, { date: start }).inputPricePerMillion).toBe(0.5);
+    expect(resolveModelPricing(pricing, { date: end }).inputPricePerMillion).toBe(1.0);
+  });
+
+  it('should use period tiers instead of the model tiers', () => {
+    const january = new Date('2025-01-15');
+    const later = new Date('2026-03-01');
+
+    expect(resolveModelPricing(pricing, { inputTokens: 150_000, date: january })).toEqual({
+      inputPricePerMillion: 0.5,
+      outputPricePerMillion: 4.0,
+    });
+    expect(resolveModelPricing(pricing, { inputTokens: 50_000, date: later })).toEqual({
+      inputPricePerMillion: 1.5,
+      outputPricePerMillion: 5.0,
+    });
+  });
+
+  it('should price long Gemini 2.5 Pro prompts at the higher tier', () => {
+    const small = calculateCost({
+      inputTokens: 200_000,
+      outputTokens: 0,
+      model: 'gemini-2.5-pro',
+      provider: 'google',
+    });
+    const large = calculateCost({
+      inputTokens: 200_001,
+      outputTokens: 0,
+      model: 'gemini-2.5-pro',
+      provider: 'google',
+    });
+
+    expect(small.inputCost).toBeCloseTo(0.25, 6);
+    expect(large.inputCost).toBeCloseTo(0.5000025, 6);
+  });
+});
+
+describe('calculateCost components', () => {
+  const pricing: ModelPricing = {
+    inputPricePerMillion: 1.0,
+    outputPricePerMillion: 10.0,
+    cachedInputPricePerMillion: 0.1,
+    cacheWriteInputPricePerMillion: 1.25,
+    reasoningOutputPricePerMillion: 20.0,
+    audioInputPricePerMillion: 3.0,
+    imageInputPricePerMillion: 2.0,
+  };
+
+  it('should break the cost down per component', () => {
+    const result = calculateCost(
+      {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        cachedInputTokens: 100_000,
+        cacheWriteInputTokens: 100_000,
+        reasoningOutputTokens: 400_000,
+        audioInputTokens: 200_000,
+        imageInputTokens: 100_000,
+        videoInputTokens: 100_000,
+        model: 'custom-model',
+        provider: 'custom',
+      },
+      { 'custom-model': pricing }
+    );
+
+    expect(result.inputCost).toBeCloseTo(0.4, 10);
+    expect(result.cachedInputCost).toBeCloseTo(0.01, 10);
+    expect(result.cacheWriteInputCost).toBeCloseTo(0.125, 10);
+    expect(result.audioInputCost).toBeCloseTo(0.6, 10);
+    expect(result.imageInputCost).toBeCloseTo(0.2, 10);
+    // No video price, so the text input price applies
+    expect(result.videoInputCost).toBeCloseTo(0.1, 10);
+    expect(result.outputCost).toBeCloseTo(6.0, 10);
+    expect(result.reasoningOutputCost).toBeCloseTo(8.0, 10);
+    expect(result.total).toBeCloseTo(15.435, 10);
+  });
+
+  it('should reject reasoning tokens above output tokens', () => {
+    expect(() =>
+      calculateCost({
+        inputTokens: 10,
+        outputTokens: 10,
+        reasoningOutputTokens: 11,
+        model: 'gpt-4o',
+        provider: 'openai',
+      })
+    ).toThrow('reasoningOutputTokens cannot exceed outputTokens');
+  });
+
+  it('should reject modality tokens above input tokens', () => {
+    expect(() =>
+      calculateCost({
+        inputTokens: 10,
+        outputTokens: 10,
+        cachedInputTokens: 5,
+        imageInputTokens: 6,
+        model: 'gpt-4o',
+        provider: 'openai',
+      })
+    ).toThrow('Cached, cache-write and modality input tokens cannot exceed inputTokens');
+  });
+
+  it('should read reasoning tokens and raw modality details from usage', () => {
+    const usage: LanguageModelUsage = {
+      ...createMockUsage({
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        inputTokenDetails: {
+          cacheReadTokens: 100_000,
+          cacheWriteTokens: undefined,
+          noCacheTokens: 900_000,
+        },
+        outputTokenDetails: { textTokens: 600_000, reasoningTokens: 400_000 },
+      }),
+      raw: {
+        promptTokensDetails: [
+          { modality: 'TEXT', tokenCount: 700_000 },
+          { modality: 'AUDIO', tokenCount: 300_000 },
+        ],
+        cacheTokensDetails: [{ modality: 'AUDIO', tokenCount: 100_000 }],
+      },
+    };
+
+    const result = calculateCostFromUsage(usage, 'custom-model', 'custom', {
+      'custom-model': pricing,
+    });
+
+    expect(result.audioInputCost).toBeCloseTo(0.6, 10);
+    expect(result.inputCost).toBeCloseTo(0.7, 10);
+    expect(result.reasoningOutputCost).toBeCloseTo(8.0, 10);
+    expect(result.outputCost).toBeCloseTo(6.0, 10);
+  });
+
+  it('should ignore raw modality details that exceed the input tokens', () => {
+    const usage: LanguageModelUsage = {
+      ...createMockUsage({ inputTokens: 100, outputTokens: 0 }),
+      raw: { prompt_tokens_details: { audio_tokens: 500 } },
+    };
+
+    const result = calculateCostFromUsage(usage, 'custom-model', 'custom', {
+      'custom-model': pricing,
+    });
+
+    expect(result.audioInputCost).toBe(0);
+    expect(result.inputCost).toBeCloseTo(0.0001, 10);
+  });
+
+  it('should price calls in calculateTotalCost at their start time', () => {
+    const dated: ModelPricing = {
+      inputPricePerMillion: 1.0,
+      outputPricePerMillion: 1.0,
+      periods: [{ effectiveUntil: '2025-01-01', inputPricePerMillion: 2.0 }],
+    };
+
+    const result = calculateTotalCost(
+      [
+        {
+          usage: createMockUsage({ inputTokens: 1_000_000, outputTokens: 0 }),
+          model: 'custom-model',
+          provider: 'custom',
+          startTime: Date.parse('2024-12-31'),
+        },
+      ],
+      { 'custom-model': dated }
+    );
+
+    expect(result.totalCost).toBeCloseTo(2.0, 10);
+  });
+});
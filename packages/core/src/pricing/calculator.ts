@@ -16,51 +16,146 @@ import type {
   ModelPricing,
   ProviderPricing,
   ProviderType,
+  TokenPrices,
 } from './types.js';
 import { DEFAULT_PRICING_CONFIG, DEFAULT_FALLBACK_PRICING } from './defaults.js';
 import { getPricingConfig } from './config.js';
+import { resolveModelId } from './model-id.js';
 
 const TOKENS_PER_MILLION = 1_000_000;
 
 /**
- * Get pricing for a specific model.
+ * Find the pricing of a model, without falling back.
  *
  * Resolution order:
  * 1. Provider-level config (providerPricing param)
  * 2. Global config (configurePricing)
  * 3. Built-in defaults
- * 4. Fallback pricing
+ *
+ * The model ID is matched with {@link resolveModelId} against all three, using the
+ * built-in and global aliases, so `models/` prefixes and dated snapshot IDs resolve
+ * to their base model.
+ *
+ * @returns undefined if the model is not priced
  */
-export function getModelPricing(
+export function findModelPricing(
   model: string,
   provider: ProviderType,
   providerPricing?: ProviderPricing
-): ModelPricing {
-  if (providerPricing?.[model]) {
-    return providerPricing[model];
-  }
-
+): ModelPricing | undefined {
   const globalConfig = getPricingConfig();
-  if (globalConfig?.providers?.[provider]?.[model]) {
-    return globalConfig.providers[provider][model];
-  }
-
-  const defaultProviderPricing = DEFAULT_PRICING_CONFIG.providers[provider];
-  if (defaultProviderPricing?.[model]) {
-    return defaultProviderPricing[model];
+  const tables = [
+    providerPricing,
+    globalConfig?.providers?.[provider],
+    DEFAULT_PRICING_CONFIG.providers[provider],
+  ];
+  const id = resolveModelId(
+    model,
+    tables.flatMap((table) => Object.keys(table ?? {})),
+    { ...DEFAULT_PRICING_CONFIG.aliases, ...globalConfig?.aliases }
+  );
+  if (id === undefined) {
+    return undefined;
   }
+  return tables.find((table) => table?.[id])?.[id];
+}
 
+/**
+ * Get pricing for a specific model.
+ *
+ * Resolution order:
+ * 1. Provider-level config (providerPricing param)
+ * 2. Global config (configurePricing)
+ * 3. Built-in defaults
+ * 4. Provider-level fallback (fallbackPricing param)
+ * 5. Fallback pricing
+ *
+ * Steps 1-3 resolve aliases and snapshot IDs, see {@link findModelPricing}.
+ */
+export function getModelPricing(
+  model: string,
+  provider: ProviderType,
+  providerPricing?: ProviderPricing,
+  fallbackPricing?: ModelPricing
+): ModelPricing {
   return (
-    globalConfig?.fallback ??
+    findModelPricing(model, provider, providerPricing) ??
+    fallbackPricing ??
+    getPricingConfig()?.fallback ??
     DEFAULT_PRICING_CONFIG.fallback ??
     DEFAULT_FALLBACK_PRICING
   );
 }
 
+/**
+ * Resolve the prices that apply to one request: the first period containing `date`
+ * is applied over the base prices, then the tier with the highest threshold below
+ * `inputTokens`.
+ *
+ * @example
+ * ```typescript
+ * const prices = resolveModelPricing(getModelPricing('gemini-2.5-pro', 'google'), {
+ *   inputTokens: 250_000,
+ * });
+ * console.log(prices.inputPricePerMillion); // 2.5 (above the 200k tier)
+ * ```
+ */
+export function resolveModelPricing(
+  pricing: ModelPricing,
+  request: { inputTokens?: number; date?: Date | number } = {}
+): TokenPrices {
+  const { inputTokens = 0, date = Date.now() } = request;
+  const time = date instanceof Date ? date.getTime() : date;
+  const { tiers: baseTiers, periods, ...basePrices } = pricing;
+
+  const period = periods?.find(
+    ({ effectiveFrom, effectiveUntil }) =>
+      (effectiveFrom === undefined || Date.parse(effectiveFrom) <= time) &&
+      (effectiveUntil === undefined || time < Date.parse(effectiveUntil))
+  );
+  const {
+    effectiveFrom: _from,
+    effectiveUntil: _until,
+    tiers: periodTiers,
+    ...periodPrices
+  } = period ?? {};
+  const tiers = periodTiers ?? baseTiers ?? [];
+
+  const tier = tiers
+    .filter((candidate) => inputTokens > candidate.aboveInputTokens)
+    .reduce<(typeof tiers)[number] | undefined>(
+      (highest, candidate) =>
+        !highest || candidate.aboveInputTokens > highest.aboveInputTokens ? candidate : highest,
+      undefined
+    );
+  const { aboveInputTokens: _threshold, ...tierPrices } = tier ?? { aboveInputTokens: 0 };
+
+  return { ...basePrices, ...periodPrices, ...tierPrices };
+}
+
 function validateCostParams(params: CalculateCostParams): void {
-  const { inputTokens, outputTokens, cachedInputTokens = 0 } = params;
+  const {
+    inputTokens,
+    outputTokens,
+    cachedInputTokens = 0,
+    cacheWriteInputTokens = 0,
+    reasoningOutputTokens = 0,
+    audioInputTokens = 0,
+    imageInputTokens = 0,
+    videoInputTokens = 0,
+  } = params;
+  const counts = [
+    inputTokens,
+    outputTokens,
+    cachedInputTokens,
+    cacheWriteInputTokens,
+    reasoningOutputTokens,
+    audioInputTokens,
+    imageInputTokens,
+    videoInputTokens,
+  ];
 
-  if (inputTokens < 0 || outputTokens < 0 || cachedInputTokens < 0) {
+  if (counts.some((count) => count < 0)) {
     throw new Error('Token counts must be non-negative');
   }
 
@@ -68,19 +163,37 @@ function validateCostParams(params: CalculateCostParams): void {
     throw new Error('cachedInputTokens cannot exceed inputTokens');
   }
 
-  if (
-    !Number.isFinite(inputTokens) ||
-    !Number.isFinite(outputTokens) ||
-    !Number.isFinite(cachedInputTokens)
-  ) {
+  if (cachedInputTokens + cacheWriteInputTokens > inputTokens) {
+    throw new Error(
+      'cachedInputTokens + cacheWriteInputTokens cannot exceed inputTokens'
+    );
+  }
+
+  const modalityInputTokens = audioInputTokens + imageInputTokens + videoInputTokens;
+  if (cachedInputTokens + cacheWriteInputTokens + modalityInputTokens > inputTokens) {
+    throw new Error('Cached, cache-write and modality input tokens cannot exceed inputTokens');
+  }
+
+  if (reasoningOutputTokens > outputTokens) {
+    throw new Error('reasoningOutputTokens cannot exceed outputTokens');
+  }
+
+  if (!counts.every(Number.isFinite)) {
     throw new Error('Token counts must be finite numbers');
   }
 }
 
+function tokenCost(tokens: number, pricePerMillion: number): number {
+  return (tokens / TOKENS_PER_MILLION) * pricePerMillion;
+}
+
 /**
  * Calculate cost from token counts.
  *
- * @throws Error if token counts are negative, non-finite, or if cachedInputTokens > inputTokens
+ * Prices are resolved with {@link resolveModelPricing} for the request's input tokens
+ * and date, and the result is broken down per component.
+ *
+ * @throws Error if token counts are negative, non-finite, or if cached, cache-write and modality tokens exceed inputTokens
  *
  * @example
  * ```typescript
@@ -96,7 +209,8 @@ function validateCostParams(params: CalculateCostParams): void {
  */
 export function calculateCost(
   params: CalculateCostParams,
-  providerPricing?: ProviderPricing
+  providerPricing?: ProviderPricing,
+  fallbackPricing?: ModelPricing
 ): CostResult {
   validateCostParams(params);
 
@@ -104,36 +218,101 @@ export function calculateCost(
     inputTokens,
     outputTokens,
     cachedInputTokens = 0,
+    cacheWriteInputTokens = 0,
+    reasoningOutputTokens = 0,
+    audioInputTokens = 0,
+    imageInputTokens = 0,
+    videoInputTokens = 0,
     model,
     provider,
+    date,
   } = params;
 
-  const pricing = getModelPricing(model, provider, providerPricing);
+  const pricing = resolveModelPricing(
+    getModelPricing(model, provider, providerPricing, fallbackPricing),
+    { inputTokens, date }
+  );
+  const inputPrice = pricing.inputPricePerMillion;
+  const outputPrice = pricing.outputPricePerMillion;
 
-  const nonCachedInputTokens = inputTokens - cachedInputTokens;
-  const inputCost =
-    (nonCachedInputTokens / TOKENS_PER_MILLION) * pricing.inputPricePerMillion;
-  const outputCost =
-    (outputTokens / TOKENS_PER_MILLION) * pricing.outputPricePerMillion;
+  const textInputTokens =
+    inputTokens -
+    cachedInputTokens -
+    cacheWriteInputTokens -
+    audioInputTokens -
+    imageInputTokens -
+    videoInputTokens;
 
-  const cachedInputPricePerMillion =
-    pricing.cachedInputPricePerMillion ?? pricing.inputPricePerMillion;
-  const cachedInputCost =
-    (cachedInputTokens / TOKENS_PER_MILLION) * cachedInputPricePerMillion;
+  const costs = {
+    inputCost: tokenCost(textInputTokens, inputPrice),
+    outputCost: tokenCost(outputTokens - reasoningOutputTokens, outputPrice),
+    cachedInputCost: tokenCost(cachedInputTokens, pricing.cachedInputPricePerMillion ?? inputPrice),
+    cacheWriteInputCost: tokenCost(
+      cacheWriteInputTokens,
+      pricing.cacheWriteInputPricePerMillion ?? inputPrice
+    ),
+    reasoningOutputCost: tokenCost(
+      reasoningOutputTokens,
+      pricing.reasoningOutputPricePerMillion ?? outputPrice
+    ),
+    audioInputCost: tokenCost(audioInputTokens, pricing.audioInputPricePerMillion ?? inputPrice),
+    imageInputCost: tokenCost(imageInputTokens, pricing.imageInputPricePerMillion ?? inputPrice),
+    videoInputCost: tokenCost(videoInputTokens, pricing.videoInputPricePerMillion ?? inputPrice),
+  };
 
   return {
-    total: inputCost + outputCost + cachedInputCost,
-    inputCost,
-    outputCost,
-    cachedInputCost,
+    total: Object.values(costs).reduce((total, cost) => total + cost, 0),
+    ...costs,
   };
 }
 
+type ModalityInputTokens = Pick<
+  CalculateCostParams,
+  'audioInputTokens' | 'imageInputTokens' | 'videoInputTokens'
+>;
+
+const MODALITY_FIELDS = {
+  AUDIO: 'audioInputTokens',
+  IMAGE: 'imageInputTokens',
+  VIDEO: 'videoInputTokens',
+} as const;
+
+/**
+ * Reads non-cached audio/image/video input tokens from the provider's raw usage, when it
+ * reports them (Gemini `promptTokensDetails`, OpenAI `prompt_tokens_details.audio_tokens`).
+ */
+function readModalityInputTokens(raw: unknown): ModalityInputTokens {
+  const usage = raw as
+    | {
+        promptTokensDetails?: { modality?: string; tokenCount?: number }[];
+        cacheTokensDetails?: { modality?: string; tokenCount?: number }[];
+        prompt_tokens_details?: { audio_tokens?: number };
+      }
+    | undefined;
+  const tokens: ModalityInputTokens = {};
+
+  for (const detail of usage?.promptTokensDetails ?? []) {
+    const field = MODALITY_FIELDS[detail.modality as keyof typeof MODALITY_FIELDS];
+    if (field) {
+      const cached = usage?.cacheTokensDetails?.find((entry) => entry.modality === detail.modality);
+      tokens[field] = (detail.tokenCount ?? 0) - (cached?.tokenCount ?? 0);
+    }
+  }
+  if (usage?.prompt_tokens_details?.audio_tokens) {
+    tokens.audioInputTokens = usage.prompt_tokens_details.audio_tokens;
+  }
+  return tokens;
+}
+
 /**
  * Calculate cost from AI SDK LanguageModelUsage.
  *
  * Convenience function that extracts token counts from the
  * AI SDK's LanguageModelUsage type and calculates the cost.
+ * Reasoning tokens come from `outputTokenDetails`; audio, image and video input
+ * tokens from the provider's raw usage when it reports them.
+ *
+ * @param date - Date of the call, for date-ranged prices (defaults to now)
  *
  * @example
  * ```typescript
@@ -145,17 +324,37 @@ export function calculateCostFromUsage(
   usage: LanguageModelUsage,
   model: string,
   provider: ProviderType,
-  providerPricing?: ProviderPricing
+  providerPricing?: ProviderPricing,
+  fallbackPricing?: ModelPricing,
+  date?: Date | number
 ): CostResult {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  const cachedInputTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0;
+  const cacheWriteInputTokens = usage.inputTokenDetails?.cacheWriteTokens ?? 0;
+
+  const modalities = readModalityInputTokens(usage.raw);
+  const counts = Object.values(modalities);
+  const modalityTotal = counts.reduce((total, count) => total + count, 0);
+  // Ignore modality counts that do not add up with the standard usage
+  const fitsInput =
+    counts.every((count) => count >= 0) &&
+    cachedInputTokens + cacheWriteInputTokens + modalityTotal <= inputTokens;
+
   return calculateCost(
     {
-      inputTokens: usage.inputTokens ?? 0,
-      outputTokens: usage.outputTokens ?? 0,
-      cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? 0,
+      inputTokens,
+      outputTokens,
+      cachedInputTokens,
+      cacheWriteInputTokens,
+      reasoningOutputTokens: Math.min(usage.outputTokenDetails?.reasoningTokens ?? 0, outputTokens),
+      ...(fitsInput && modalities),
       model,
       provider,
+      date,
     },
-    providerPricing
+    providerPricing,
+    fallbackPricing
   );
 }
 
@@ -173,8 +372,11 @@ export function calculateTotalCost(
     usage: LanguageModelUsage;
     model: string;
     provider: ProviderType;
+    /** Priced at this time (e.g. `LLMCallRecord.startTime`) if set, otherwise now */
+    startTime?: number;
   }>,
-  providerPricing?: ProviderPricing
+  providerPricing?: ProviderPricing,
+  fallbackPricing?: ModelPricing
 ): { totalCost: number; costByModel: Record<string, number> } {
   const costByModel: Record<string, number> = {};
   let totalCost = 0;
@@ -184,7 +386,9 @@ export function calculateTotalCost(
       call.usage,
       call.model,
       call.provider,
-      providerPricing
+      providerPricing,
+      fallbackPricing,
+      call.startTime
     );
     totalCost += cost.total;
 
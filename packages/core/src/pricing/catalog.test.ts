@@ -0,0 +1,118 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ConfigurationError } from '../errors/index.js';
+import { getModelPricing } from './calculator.js';
+import { loadPricingCatalog, parsePricingCatalog } from './catalog.js';
+import { configurePricing, resetPricingConfig } from './config.js';
+
+const YAML_CATALOG = `
+version: 1
+updatedAt: 2026-01-15
+providers:
+  openai:
+    gpt-9:
+      inputPricePerMillion: 3.0
+      outputPricePerMillion: 12.0
+      tiers:
+        - aboveInputTokens: 200000
+          inputPricePerMillion: 6.0
+aliases:
+  gpt-latest: gpt-9
+fallback:
+  inputPricePerMillion: 2.0
+  outputPricePerMillion: 8.0
+`;
+
+describe('loadPricingCatalog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'pricing-catalog-'));
+  });
+
+  afterEach(async () => {
+    resetPricingConfig();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load a YAML catalog into a PricingConfig', async () => {
+    const path = join(dir, 'pricing.yaml');
+    await writeFile(path, YAML_CATALOG);
+
+    const config = await loadPricingCatalog(path);
+
+    expect(config).not.toHaveProperty('version');
+    expect(config.providers?.openai?.['gpt-9']?.tiers).toHaveLength(1);
+    expect(config.aliases).toEqual({ 'gpt-latest': 'gpt-9' });
+
+    configurePricing(config);
+    expect(getModelPricing('gpt-latest', 'openai').inputPricePerMillion).toBe(3.0);
+    expect(getModelPricing('gpt-9-2026-01-01', 'openai').outputPricePerMillion).toBe(12.0);
+    expect(getModelPricing('unknown', 'openai').inputPricePerMillion).toBe(2.0);
+  });
+
+  it('should load a JSON catalog', async () => {
+    const path = join(dir, 'pricing.json');
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        providers: {
+          google: { 'gemini-9': { inputPricePerMillion: 1, outputPricePerMillion: 4 } },
+        },
+      })
+    );
+
+    const config = await loadPricingCatalog(path);
+
+    expect(config.providers?.google?.['gemini-9']).toEqual({
+      inputPricePerMillion: 1,
+      outputPricePerMillion: 4,
+    });
+  });
+
+  it('should reject missing files with the path', async () => {
+    const path = join(dir, 'missing.yaml');
+
+    await expect(loadPricingCatalog(path)).rejects.toThrow(ConfigurationError);
+    await expect(loadPricingCatalog(path)).rejects.toMatchObject({ context: { path } });
+  });
+
+  it('should reject invalid catalogs with the path', async () => {
+    const path = join(dir, 'pricing.json');
+    await writeFile(path, '{ "version": 1, ');
+
+    await expect(loadPricingCatalog(path)).rejects.toThrow(
+      /^Invalid pricing catalog: .*\(.*pricing\.json\)$/
+    );
+  });
+});
+
+describe('parsePricingCatalog', () => {
+  it('should reject unsupported versions', () => {
+    expect(() => parsePricingCatalog('version: 2')).toThrow(
+      'Invalid pricing catalog: unsupported version 2 (expected 1)'
+    );
+    expect(() => parsePricingCatalog('providers: {}')).toThrow('unsupported version undefined');
+  });
+
+  it('should reject non-object content', () => {
+    expect(() => parsePricingCatalog('[1, 2]', 'json')).toThrow(
+      'Invalid pricing catalog: expected an object'
+    );
+  });
+
+  it('should validate prices and aliases', () => {
+    expect(() =>
+      parsePricingCatalog(
+        'version: 1\nproviders:\n  openai:\n    gpt-9: { inputPricePerMillion: -1, outputPricePerMillion: 1 }'
+      )
+    ).toThrow('Invalid pricing catalog: openai/gpt-9: inputPricePerMillion cannot be negative');
+    expect(() => parsePricingCatalog('version: 1\naliases:\n  gpt-latest: 9')).toThrow(
+      'aliases/gpt-latest: must map to a model ID'
+    );
+  });
+});
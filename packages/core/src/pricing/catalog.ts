@@ -0,0 +1,108 @@
+/**
+ * Pricing catalog loading.
+ *
+ * Price sheets kept outside the code (JSON or YAML) can be updated without a
+ * release, unlike the built-in tables in defaults.ts.
+ *
+ * @module pricing/catalog
+ */
+
+import { readFile } from 'node:fs/promises';
+import * as yaml from 'yaml';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+import type { PricingCatalog, PricingConfig } from './types.js';
+import { validatePricingConfig } from './validator.js';
+
+/** Catalog format version supported by this release */
+export const PRICING_CATALOG_VERSION = 1;
+
+export type PricingCatalogFormat = 'json' | 'yaml';
+
+function formatOf(path: string): PricingCatalogFormat {
+  return /\.json$/i.test(path) ? 'json' : 'yaml';
+}
+
+/**
+ * Parse and validate a pricing catalog.
+ *
+ * @throws ConfigurationError if the content cannot be parsed, the version is not
+ * supported, or any price, tier, period or alias is invalid
+ *
+ * @example
+ * ```typescript
+ * const config = parsePricingCatalog(
+ *   '{ "version": 1, "providers": { "openai": { "gpt-4.1": { "inputPricePerMillion": 2, "outputPricePerMillion": 8 } } } }',
+ *   'json'
+ * );
+ * ```
+ */
+export function parsePricingCatalog(
+  content: string,
+  format: PricingCatalogFormat = 'yaml'
+): PricingConfig {
+  const invalid = (message: string, cause?: unknown) =>
+    new ConfigurationError(`Invalid pricing catalog: ${message}`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      cause: cause instanceof Error ? cause : undefined,
+    });
+
+  let parsed: unknown;
+  try {
+    parsed = format === 'json' ? JSON.parse(content) : yaml.parse(content);
+  } catch (error) {
+    throw invalid(error instanceof Error ? error.message : String(error), error);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw invalid('expected an object');
+  }
+
+  const { version, updatedAt: _updatedAt, ...config } = parsed as PricingCatalog;
+  if (version !== PRICING_CATALOG_VERSION) {
+    throw invalid(
+      `unsupported version ${JSON.stringify(version)} (expected ${PRICING_CATALOG_VERSION})`
+    );
+  }
+  try {
+    validatePricingConfig(config);
+  } catch (error) {
+    throw invalid((error as Error).message, error);
+  }
+  return config;
+}
+
+/**
+ * Load a pricing catalog from a JSON (`.json`) or YAML file into a `PricingConfig`.
+ *
+ * The result can be applied globally with `configurePricing()`, or its provider
+ * tables passed to `Provider.withPricing()`.
+ *
+ * @throws ConfigurationError if the file cannot be read or is not a valid catalog
+ *
+ * @example
+ * ```typescript
+ * configurePricing(await loadPricingCatalog('./pricing.yaml'));
+ * ```
+ */
+export async function loadPricingCatalog(path: string): Promise<PricingConfig> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new ConfigurationError(`Failed to read pricing catalog ${path}`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      cause: error instanceof Error ? error : undefined,
+      context: { path },
+    });
+  }
+
+  try {
+    return parsePricingCatalog(content, formatOf(path));
+  } catch (error) {
+    throw new ConfigurationError(`${(error as Error).message} (${path})`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      cause: error as Error,
+      context: { path },
+    });
+  }
+}
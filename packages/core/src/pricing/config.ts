@@ -13,6 +13,7 @@
 import type { ModelPricing, PricingConfig, ProviderType } from './types.js';
 import { validatePricingConfig } from './validator.js';
 import { DEFAULT_PRICING_CONFIG, DEFAULT_FALLBACK_PRICING } from './defaults.js';
+import { resolveModelId } from './model-id.js';
 
 let globalConfig: PricingConfig | undefined;
 
@@ -66,6 +67,7 @@ export interface EffectivePricingResult {
 /**
  * Get effective pricing for a model with source information.
  * Useful for debugging to understand which pricing layer is applied.
+ * Model IDs resolve aliases and dated snapshot IDs like `getModelPricing()`.
  *
  * @example
  * ```typescript
@@ -81,17 +83,24 @@ export function getEffectivePricing(
   model: string,
   provider: ProviderType
 ): EffectivePricingResult {
-  if (globalConfig?.providers?.[provider]?.[model]) {
+  const globalPricing = globalConfig?.providers?.[provider];
+  const defaultPricing = DEFAULT_PRICING_CONFIG.providers[provider];
+  const id = resolveModelId(
+    model,
+    [...Object.keys(globalPricing ?? {}), ...Object.keys(defaultPricing ?? {})],
+    { ...DEFAULT_PRICING_CONFIG.aliases, ...globalConfig?.aliases }
+  );
+
+  if (id !== undefined && globalPricing?.[id]) {
     return {
-      pricing: globalConfig.providers[provider]![model],
+      pricing: globalPricing[id],
       source: 'global',
     };
   }
 
-  const defaultPricing = DEFAULT_PRICING_CONFIG.providers[provider];
-  if (defaultPricing?.[model]) {
+  if (id !== undefined && defaultPricing?.[id]) {
     return {
-      pricing: defaultPricing[model],
+      pricing: defaultPricing[id],
       source: 'default',
     };
   }
@@ -1,21 +1,59 @@
 /**
- * Built-in pricing tables (USD per million tokens).
+ * Built-in pricing tables (USD per million tokens) and model limits.
  *
  * These are the default prices for common models. They can be overridden
- * using `configurePricing()` (global) or `Provider.withPricing()` (per-provider).
+ * using `configurePricing()` (global) or `Provider.withPricing()` (per-provider),
+ * or replaced by a price sheet loaded with `loadPricingCatalog()`.
+ * Model limits can be overridden per provider via `Provider.withContextGuard()`.
  *
  * Last updated: January 2025
  *
  * @module pricing/defaults
  */
 
-import type { ModelPricing, PricingConfig, ProviderPricing } from './types.js';
+import type {
+  ModelPricing,
+  ModelRegistry,
+  PricingConfig,
+  ProviderModelLimits,
+  ProviderPricing,
+} from './types.js';
 
 /**
  * OpenAI model pricing.
  * @see https://openai.com/pricing
  */
 export const OPENAI_PRICING: ProviderPricing = {
+  'gpt-5': {
+    inputPricePerMillion: 1.25,
+    outputPricePerMillion: 10.0,
+    cachedInputPricePerMillion: 0.125,
+  },
+  'gpt-5-mini': {
+    inputPricePerMillion: 0.25,
+    outputPricePerMillion: 2.0,
+    cachedInputPricePerMillion: 0.025,
+  },
+  'gpt-5-nano': {
+    inputPricePerMillion: 0.05,
+    outputPricePerMillion: 0.4,
+    cachedInputPricePerMillion: 0.005,
+  },
+  'gpt-4.1': {
+    inputPricePerMillion: 2.0,
+    outputPricePerMillion: 8.0,
+    cachedInputPricePerMillion: 0.5,
+  },
+  'gpt-4.1-mini': {
+    inputPricePerMillion: 0.4,
+    outputPricePerMillion: 1.6,
+    cachedInputPricePerMillion: 0.1,
+  },
+  'gpt-4.1-nano': {
+    inputPricePerMillion: 0.1,
+    outputPricePerMillion: 0.4,
+    cachedInputPricePerMillion: 0.025,
+  },
   'gpt-4o': { inputPricePerMillion: 2.5, outputPricePerMillion: 10.0 },
   'gpt-4o-mini': { inputPricePerMillion: 0.15, outputPricePerMillion: 0.6 },
   'gpt-4-turbo': { inputPricePerMillion: 10.0, outputPricePerMillion: 30.0 },
@@ -42,6 +80,19 @@ export const OPENAI_PRICING: ProviderPricing = {
  * @see https://ai.google.dev/gemini-api/docs/pricing
  */
 export const GOOGLE_PRICING: ProviderPricing = {
+  'gemini-3-pro-preview': {
+    inputPricePerMillion: 2.0,
+    outputPricePerMillion: 12.0,
+    cachedInputPricePerMillion: 0.2,
+    tiers: [
+      {
+        aboveInputTokens: 200_000,
+        inputPricePerMillion: 4.0,
+        outputPricePerMillion: 18.0,
+        cachedInputPricePerMillion: 0.4,
+      },
+    ],
+  },
   'gemini-2.5-flash': {
     inputPricePerMillion: 0.15,
     outputPricePerMillion: 0.6,
@@ -56,6 +107,14 @@ export const GOOGLE_PRICING: ProviderPricing = {
     inputPricePerMillion: 1.25,
     outputPricePerMillion: 10.0,
     cachedInputPricePerMillion: 0.3125,
+    tiers: [
+      {
+        aboveInputTokens: 200_000,
+        inputPricePerMillion: 2.5,
+        outputPricePerMillion: 15.0,
+        cachedInputPricePerMillion: 0.625,
+      },
+    ],
   },
   'gemini-2.0-flash': {
     inputPricePerMillion: 0.1,
@@ -71,6 +130,14 @@ export const GOOGLE_PRICING: ProviderPricing = {
     inputPricePerMillion: 1.25,
     outputPricePerMillion: 5.0,
     cachedInputPricePerMillion: 0.3125,
+    tiers: [
+      {
+        aboveInputTokens: 128_000,
+        inputPricePerMillion: 2.5,
+        outputPricePerMillion: 10.0,
+        cachedInputPricePerMillion: 0.625,
+      },
+    ],
   },
   'gemini-1.5-flash': {
     inputPricePerMillion: 0.075,
@@ -94,45 +161,103 @@ export const ANTHROPIC_PRICING: ProviderPricing = {
     inputPricePerMillion: 15.0,
     outputPricePerMillion: 75.0,
     cachedInputPricePerMillion: 1.875,
+    cacheWriteInputPricePerMillion: 18.75,
+  },
+  'claude-opus-4-1-20250805': {
+    inputPricePerMillion: 15.0,
+    outputPricePerMillion: 75.0,
+    cachedInputPricePerMillion: 1.5,
+    cacheWriteInputPricePerMillion: 18.75,
+  },
+  'claude-opus-4-20250514': {
+    inputPricePerMillion: 15.0,
+    outputPricePerMillion: 75.0,
+    cachedInputPricePerMillion: 1.5,
+    cacheWriteInputPricePerMillion: 18.75,
+  },
+  'claude-sonnet-4-5-20250929': {
+    inputPricePerMillion: 3.0,
+    outputPricePerMillion: 15.0,
+    cachedInputPricePerMillion: 0.3,
+    cacheWriteInputPricePerMillion: 3.75,
   },
   'claude-sonnet-4-20250514': {
     inputPricePerMillion: 3.0,
     outputPricePerMillion: 15.0,
     cachedInputPricePerMillion: 0.375,
+    cacheWriteInputPricePerMillion: 3.75,
+  },
+  'claude-haiku-4-5-20251001': {
+    inputPricePerMillion: 1.0,
+    outputPricePerMillion: 5.0,
+    cachedInputPricePerMillion: 0.1,
+    cacheWriteInputPricePerMillion: 1.25,
+  },
+  'claude-3-7-sonnet-20250219': {
+    inputPricePerMillion: 3.0,
+    outputPricePerMillion: 15.0,
+    cachedInputPricePerMillion: 0.3,
+    cacheWriteInputPricePerMillion: 3.75,
   },
   'claude-3-5-sonnet-20241022': {
     inputPricePerMillion: 3.0,
     outputPricePerMillion: 15.0,
     cachedInputPricePerMillion: 0.375,
+    cacheWriteInputPricePerMillion: 3.75,
   },
   'claude-3-5-haiku-20241022': {
     inputPricePerMillion: 0.8,
     outputPricePerMillion: 4.0,
     cachedInputPricePerMillion: 0.1,
+    cacheWriteInputPricePerMillion: 1.0,
   },
   'claude-3-opus-20240229': {
     inputPricePerMillion: 15.0,
     outputPricePerMillion: 75.0,
     cachedInputPricePerMillion: 1.875,
+    cacheWriteInputPricePerMillion: 18.75,
   },
   'claude-3-sonnet-20240229': {
     inputPricePerMillion: 3.0,
     outputPricePerMillion: 15.0,
     cachedInputPricePerMillion: 0.375,
+    cacheWriteInputPricePerMillion: 3.75,
   },
   'claude-3-haiku-20240307': {
     inputPricePerMillion: 0.25,
     outputPricePerMillion: 1.25,
     cachedInputPricePerMillion: 0.03,
+    cacheWriteInputPricePerMillion: 0.3,
   },
 };
 
+/**
+ * Model IDs that resolve to another model's pricing.
+ * Dated snapshots (e.g. `gpt-4o-2024-08-06`) resolve without an alias.
+ */
+export const DEFAULT_MODEL_ALIASES: Record<string, string> = {
+  'chatgpt-4o-latest': 'gpt-4o',
+  'gemini-pro-latest': 'gemini-2.5-pro',
+  'gemini-flash-latest': 'gemini-2.5-flash',
+  'gemini-flash-lite-latest': 'gemini-2.5-flash-lite',
+  'claude-opus-4-1': 'claude-opus-4-1-20250805',
+  'claude-opus-4-0': 'claude-opus-4-20250514',
+  'claude-sonnet-4-5': 'claude-sonnet-4-5-20250929',
+  'claude-sonnet-4-0': 'claude-sonnet-4-20250514',
+  'claude-haiku-4-5': 'claude-haiku-4-5-20251001',
+  'claude-3-7-sonnet-latest': 'claude-3-7-sonnet-20250219',
+  'claude-3-5-sonnet-latest': 'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-latest': 'claude-3-5-haiku-20241022',
+  'claude-3-opus-latest': 'claude-3-opus-20240229',
+};
+
 export const DEFAULT_PRICING_CONFIG: Required<PricingConfig> = {
   providers: {
     openai: OPENAI_PRICING,
     google: GOOGLE_PRICING,
     anthropic: ANTHROPIC_PRICING,
   },
+  aliases: DEFAULT_MODEL_ALIASES,
   fallback: {
     inputPricePerMillion: 1.0,
     outputPricePerMillion: 5.0,
@@ -143,3 +268,74 @@ export const DEFAULT_FALLBACK_PRICING: ModelPricing = {
   inputPricePerMillion: 1.0,
   outputPricePerMillion: 5.0,
 };
+
+/**
+ * OpenAI model limits.
+ * @see https://platform.openai.com/docs/models
+ */
+export const OPENAI_MODEL_LIMITS: ProviderModelLimits = {
+  'gpt-5': { contextWindow: 400_000, maxOutputTokens: 128_000 },
+  'gpt-5-mini': { contextWindow: 400_000, maxOutputTokens: 128_000 },
+  'gpt-5-nano': { contextWindow: 400_000, maxOutputTokens: 128_000 },
+  'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4.1-mini': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4.1-nano': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4-turbo': { contextWindow: 128_000, maxOutputTokens: 4096 },
+  'gpt-4-turbo-preview': { contextWindow: 128_000, maxOutputTokens: 4096 },
+  'gpt-4': { contextWindow: 8192, maxOutputTokens: 8192 },
+  'gpt-4-32k': { contextWindow: 32_768, maxOutputTokens: 8192 },
+  'gpt-3.5-turbo': { contextWindow: 16_385, maxOutputTokens: 4096 },
+  'gpt-3.5-turbo-16k': { contextWindow: 16_385, maxOutputTokens: 4096 },
+  'o1': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o1-mini': { contextWindow: 128_000, maxOutputTokens: 65_536 },
+  'o1-preview': { contextWindow: 128_000, maxOutputTokens: 32_768 },
+  'o3': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o3-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+};
+
+/**
+ * Google Gemini model limits.
+ * @see https://ai.google.dev/gemini-api/docs/models
+ */
+export const GOOGLE_MODEL_LIMITS: ProviderModelLimits = {
+  'gemini-3-pro-preview': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+  'gemini-2.5-flash': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+  'gemini-2.5-flash-lite': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+  'gemini-2.5-pro': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+  'gemini-2.0-flash': { contextWindow: 1_048_576, maxOutputTokens: 8192 },
+  'gemini-2.0-flash-lite': { contextWindow: 1_048_576, maxOutputTokens: 8192 },
+  'gemini-1.5-pro': { contextWindow: 2_097_152, maxOutputTokens: 8192 },
+  'gemini-1.5-flash': { contextWindow: 1_048_576, maxOutputTokens: 8192 },
+  'gemini-1.5-flash-8b': { contextWindow: 1_048_576, maxOutputTokens: 8192 },
+  'gemini-pro': { contextWindow: 32_760, maxOutputTokens: 8192 },
+};
+
+/**
+ * Anthropic Claude model limits.
+ * @see https://docs.anthropic.com/en/docs/about-claude/models
+ */
+export const ANTHROPIC_MODEL_LIMITS: ProviderModelLimits = {
+  'claude-opus-4-5-20250514': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-opus-4-1-20250805': { contextWindow: 200_000, maxOutputTokens: 32_000 },
+  'claude-opus-4-20250514': { contextWindow: 200_000, maxOutputTokens: 32_000 },
+  'claude-sonnet-4-5-20250929': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-sonnet-4-20250514': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-haiku-4-5-20251001': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-3-7-sonnet-20250219': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-3-5-sonnet-20241022': { contextWindow: 200_000, maxOutputTokens: 8192 },
+  'claude-3-5-haiku-20241022': { contextWindow: 200_000, maxOutputTokens: 8192 },
+  'claude-3-opus-20240229': { contextWindow: 200_000, maxOutputTokens: 4096 },
+  'claude-3-sonnet-20240229': { contextWindow: 200_000, maxOutputTokens: 4096 },
+  'claude-3-haiku-20240307': { contextWindow: 200_000, maxOutputTokens: 4096 },
+};
+
+/**
+ * Built-in context window and output limits, used by the session context guard.
+ */
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  openai: OPENAI_MODEL_LIMITS,
+  google: GOOGLE_MODEL_LIMITS,
+  anthropic: ANTHROPIC_MODEL_LIMITS,
+};
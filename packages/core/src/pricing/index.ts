@@ -36,11 +36,18 @@
 // Types
 export type {
   ProviderType,
+  TokenPrices,
+  PricingTier,
+  PricingPeriod,
   ModelPricing,
   ProviderPricing,
   PricingConfig,
+  PricingCatalog,
   CalculateCostParams,
   CostResult,
+  ModelLimits,
+  ProviderModelLimits,
+  ModelRegistry,
 } from './types.js';
 
 // Configuration
@@ -53,6 +60,17 @@ export {
   type EffectivePricingResult,
 } from './config.js';
 
+// Catalog
+export {
+  loadPricingCatalog,
+  parsePricingCatalog,
+  PRICING_CATALOG_VERSION,
+  type PricingCatalogFormat,
+} from './catalog.js';
+
+// Model IDs
+export { resolveModelId } from './model-id.js';
+
 // Validation
 export {
   validateModelPricing,
@@ -63,11 +81,16 @@ export {
 // Calculation
 export {
   getModelPricing,
+  findModelPricing,
+  resolveModelPricing,
   calculateCost,
   calculateCostFromUsage,
   calculateTotalCost,
 } from './calculator.js';
 
+// Model limits
+export { getModelLimits } from './model-limits.js';
+
 // Defaults (for reference/inspection)
 export {
   OPENAI_PRICING,
@@ -75,4 +98,9 @@ export {
   ANTHROPIC_PRICING,
   DEFAULT_PRICING_CONFIG,
   DEFAULT_FALLBACK_PRICING,
+  DEFAULT_MODEL_ALIASES,
+  OPENAI_MODEL_LIMITS,
+  GOOGLE_MODEL_LIMITS,
+  ANTHROPIC_MODEL_LIMITS,
+  DEFAULT_MODEL_REGISTRY,
 } from './defaults.js';
@@ -0,0 +1,62 @@
+/**
+ * Model ID resolution for pricing lookups.
+ *
+ * @module pricing/model-id
+ */
+
+/** Suffix segments of snapshot and preview IDs, e.g. `-2024-08-06`, `-002`, `-preview-05-20` */
+const SNAPSHOT_SEGMENT = /^(\d+|latest|preview|exp)$/;
+
+function isSnapshotOf(model: string, base: string): boolean {
+  return (
+    model.startsWith(`${base}-`) &&
+    model
+      .slice(base.length + 1)
+      .split('-')
+      .every((segment) => SNAPSHOT_SEGMENT.test(segment))
+  );
+}
+
+/**
+ * Resolve a model ID to one of the known (priced) model IDs.
+ *
+ * Resolution order:
+ * 1. The ID itself, without a `models/` prefix (as reported by Gemini)
+ * 2. An alias of that ID
+ * 3. The longest known ID the model is a dated snapshot or preview of,
+ *    e.g. `gpt-4o-2024-08-06` → `gpt-4o`, `gemini-1.5-pro-002` → `gemini-1.5-pro`
+ *
+ * Suffixes that name a different model (`-mini`, `-pro`) never match, so
+ * `o1-pro` does not resolve to `o1`.
+ *
+ * @returns undefined if the model is not known
+ *
+ * @example
+ * ```typescript
+ * resolveModelId('models/gemini-2.5-flash-preview-05-20', ['gemini-2.5-flash']);
+ * // 'gemini-2.5-flash'
+ * ```
+ */
+export function resolveModelId(
+  model: string,
+  knownIds: Iterable<string>,
+  aliases: Record<string, string> = {}
+): string | undefined {
+  const known = new Set(knownIds);
+  const unprefixed = model.replace(/^models\//, '');
+  if (known.has(unprefixed)) {
+    return unprefixed;
+  }
+  const id = aliases[unprefixed] ?? unprefixed;
+  if (known.has(id)) {
+    return id;
+  }
+
+  let match: string | undefined;
+  for (const base of known) {
+    if (isSnapshotOf(id, base) && (!match || base.length > match.length)) {
+      match = base;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,41 @@
+/**
+ * Model limit lookup.
+ *
+ * @module pricing/model-limits
+ */
+
+import type { ModelLimits, ProviderModelLimits, ProviderType } from './types.js';
+import { DEFAULT_MODEL_REGISTRY } from './defaults.js';
+
+/**
+ * Get the context window and output limits of a model.
+ *
+ * Resolution order:
+ * 1. Provider-level limits (modelLimits param)
+ * 2. Built-in registry for the provider
+ * 3. Built-in registry of any provider with the same model ID
+ *    (composite providers have no registry of their own)
+ *
+ * @returns undefined if the model is unknown
+ */
+export function getModelLimits(
+  model: string,
+  provider: ProviderType,
+  modelLimits?: ProviderModelLimits
+): ModelLimits | undefined {
+  if (modelLimits?.[model]) {
+    return modelLimits[model];
+  }
+
+  const providerLimits = DEFAULT_MODEL_REGISTRY[provider];
+  if (providerLimits?.[model]) {
+    return providerLimits[model];
+  }
+
+  for (const limits of Object.values(DEFAULT_MODEL_REGISTRY)) {
+    if (limits?.[model]) {
+      return limits[model];
+    }
+  }
+  return undefined;
+}
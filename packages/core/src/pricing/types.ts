@@ -12,9 +12,58 @@
  */
 export type ProviderType = string;
 
+/**
+ * Token prices in USD per million tokens, without tiers or periods.
+ */
+export interface TokenPrices {
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  /** Defaults to inputPricePerMillion if not set */
+  cachedInputPricePerMillion?: number;
+  /**
+   * Price for input tokens written to the prompt cache (e.g. Anthropic cache writes).
+   * Defaults to inputPricePerMillion if not set.
+   */
+  cacheWriteInputPricePerMillion?: number;
+  /** Price for reasoning (thinking) output tokens. Defaults to outputPricePerMillion if not set. */
+  reasoningOutputPricePerMillion?: number;
+  /** Price for non-cached audio input tokens. Defaults to inputPricePerMillion if not set. */
+  audioInputPricePerMillion?: number;
+  /** Price for non-cached image input tokens. Defaults to inputPricePerMillion if not set. */
+  imageInputPricePerMillion?: number;
+  /** Price for non-cached video input tokens. Defaults to inputPricePerMillion if not set. */
+  videoInputPricePerMillion?: number;
+}
+
+/**
+ * Prices that apply to requests whose input (prompt) tokens exceed a threshold.
+ * Unset prices keep the model's base price.
+ */
+export interface PricingTier extends Partial<TokenPrices> {
+  /** The tier applies when a request has more input tokens than this */
+  aboveInputTokens: number;
+}
+
+/**
+ * Prices that apply during a date range, e.g. a price change or a promotion.
+ * Unset prices keep the model's base price.
+ */
+export interface PricingPeriod extends Partial<TokenPrices> {
+  /** ISO 8601 date or date-time the period starts (inclusive). Open-ended if not set. */
+  effectiveFrom?: string;
+  /** ISO 8601 date or date-time the period ends (exclusive). Open-ended if not set. */
+  effectiveUntil?: string;
+  /** Prompt-size tiers during the period, replacing the model's tiers */
+  tiers?: PricingTier[];
+}
+
 /**
  * Pricing for a specific model in USD per million tokens.
  *
+ * Base prices can be refined by prompt-size `tiers` and date-ranged `periods`:
+ * the first period containing the call date is applied over the base prices, then
+ * the tier with the highest threshold below the request's input tokens.
+ *
  * @example
  * ```typescript
  * const gpt4Pricing: ModelPricing = {
@@ -22,13 +71,19 @@ export type ProviderType = string;
  *   outputPricePerMillion: 10.0,
  *   cachedInputPricePerMillion: 1.25, // 50% discount for cached tokens
  * };
+ *
+ * const geminiProPricing: ModelPricing = {
+ *   inputPricePerMillion: 1.25,
+ *   outputPricePerMillion: 10.0,
+ *   tiers: [{ aboveInputTokens: 200_000, inputPricePerMillion: 2.5, outputPricePerMillion: 15.0 }],
+ * };
  * ```
  */
-export interface ModelPricing {
-  inputPricePerMillion: number;
-  outputPricePerMillion: number;
-  /** Defaults to inputPricePerMillion if not set */
-  cachedInputPricePerMillion?: number;
+export interface ModelPricing extends TokenPrices {
+  /** Prompt-size tiers */
+  tiers?: PricingTier[];
+  /** Date-ranged prices */
+  periods?: PricingPeriod[];
 }
 
 /**
@@ -68,9 +123,35 @@ export type ProviderPricing = Record<string, ModelPricing>;
  */
 export interface PricingConfig {
   providers?: Partial<Record<ProviderType, ProviderPricing>>;
+  /**
+   * Model IDs that resolve to another model's pricing, e.g.
+   * `{ 'claude-sonnet-4-5': 'claude-sonnet-4-5-20250929' }`.
+   */
+  aliases?: Record<string, string>;
   fallback?: ModelPricing;
 }
 
+/**
+ * A versioned price sheet, loaded with `loadPricingCatalog()`.
+ *
+ * @example
+ * ```yaml
+ * version: 1
+ * updatedAt: 2026-01-15
+ * providers:
+ *   openai:
+ *     gpt-4.1: { inputPricePerMillion: 2.0, outputPricePerMillion: 8.0 }
+ * aliases:
+ *   chatgpt-4o-latest: gpt-4o
+ * ```
+ */
+export interface PricingCatalog extends PricingConfig {
+  /** Catalog format version. Only version 1 is supported. */
+  version: number;
+  /** When the prices were last checked (informational) */
+  updatedAt?: string;
+}
+
 /**
  * Parameters for cost calculation.
  */
@@ -86,8 +167,27 @@ export interface CalculateCostParams {
    * Must be <= inputTokens. Cached tokens are billed at a lower rate.
    */
   cachedInputTokens?: number;
+  /**
+   * Input tokens written to the prompt cache (optional).
+   * Counted as part of inputTokens; cachedInputTokens + cacheWriteInputTokens must be <= inputTokens.
+   */
+  cacheWriteInputTokens?: number;
+  /**
+   * Reasoning tokens (optional), counted as part of outputTokens.
+   * Billed at reasoningOutputPricePerMillion.
+   */
+  reasoningOutputTokens?: number;
+  /**
+   * Non-cached audio, image and video input tokens (optional), counted as part of inputTokens.
+   * Billed at the modality's input price; the remaining non-cached tokens are billed as text.
+   */
+  audioInputTokens?: number;
+  imageInputTokens?: number;
+  videoInputTokens?: number;
   model: string;
   provider: ProviderType;
+  /** Date of the call, for date-ranged prices. Defaults to now. */
+  date?: Date | number;
 }
 
 /**
@@ -95,7 +195,39 @@ export interface CalculateCostParams {
  */
 export interface CostResult {
   total: number;
+  /** Non-cached text input */
   inputCost: number;
+  /** Output other than reasoning */
   outputCost: number;
   cachedInputCost: number;
+  cacheWriteInputCost: number;
+  reasoningOutputCost: number;
+  audioInputCost: number;
+  imageInputCost: number;
+  videoInputCost: number;
 }
+
+/**
+ * Token limits of a model.
+ *
+ * @example
+ * ```typescript
+ * const limits: ModelLimits = { contextWindow: 128_000, maxOutputTokens: 16_384 };
+ * ```
+ */
+export interface ModelLimits {
+  /** Maximum input plus output tokens of one request */
+  contextWindow: number;
+  /** Maximum output tokens of one request */
+  maxOutputTokens: number;
+}
+
+/**
+ * Limits of a provider's models, keyed by model ID.
+ */
+export type ProviderModelLimits = Record<string, ModelLimits>;
+
+/**
+ * Model limits of every provider, keyed by provider type.
+ */
+export type ModelRegistry = Partial<Record<ProviderType, ProviderModelLimits>>;
@@ -83,6 +83,19 @@ describe('validateModelPricing', () => {
         )
       ).toThrow('test/model: cachedInputPricePerMillion cannot be negative');
     });
+
+    it('should throw on negative cacheWriteInputPricePerMillion', () => {
+      expect(() =>
+        validateModelPricing(
+          {
+            inputPricePerMillion: 3.0,
+            outputPricePerMillion: 15.0,
+            cacheWriteInputPricePerMillion: -1,
+          },
+          'test/model'
+        )
+      ).toThrow('test/model: cacheWriteInputPricePerMillion cannot be negative');
+    });
   });
 
   describe('non-finite values', () => {
@@ -136,6 +149,73 @@ describe('validateModelPricing', () => {
     });
   });
 
+  describe('tiers and periods', () => {
+    const base = { inputPricePerMillion: 1.25, outputPricePerMillion: 10.0 };
+
+    it('should accept valid tiers and periods', () => {
+      expect(() =>
+        validateModelPricing(
+          {
+            ...base,
+            reasoningOutputPricePerMillion: 12.0,
+            audioInputPricePerMillion: 3.0,
+            tiers: [{ aboveInputTokens: 200_000, inputPricePerMillion: 2.5 }],
+            periods: [
+              {
+                effectiveFrom: '2025-01-01',
+                effectiveUntil: '2025-07-01T00:00:00Z',
+                tiers: [{ aboveInputTokens: 0, outputPricePerMillion: 8.0 }],
+              },
+            ],
+          },
+          'test/model'
+        )
+      ).not.toThrow();
+    });
+
+    it('should throw on negative reasoning and modality prices', () => {
+      expect(() =>
+        validateModelPricing({ ...base, reasoningOutputPricePerMillion: -1 }, 'test/model')
+      ).toThrow('test/model: reasoningOutputPricePerMillion cannot be negative');
+      expect(() =>
+        validateModelPricing({ ...base, videoInputPricePerMillion: NaN }, 'test/model')
+      ).toThrow('test/model: videoInputPricePerMillion must be a finite number');
+    });
+
+    it('should throw on invalid tier thresholds and prices', () => {
+      expect(() =>
+        validateModelPricing({ ...base, tiers: [{ aboveInputTokens: -1 }] }, 'test/model')
+      ).toThrow('test/model tiers[0]: aboveInputTokens must be a non-negative finite number');
+      expect(() =>
+        validateModelPricing(
+          { ...base, tiers: [{ aboveInputTokens: 1000, inputPricePerMillion: -2 }] },
+          'test/model'
+        )
+      ).toThrow('test/model tiers[0]: inputPricePerMillion cannot be negative');
+    });
+
+    it('should throw on invalid or unordered period dates', () => {
+      expect(() =>
+        validateModelPricing({ ...base, periods: [{ effectiveFrom: 'soon' }] }, 'test/model')
+      ).toThrow('test/model periods[0]: effectiveFrom must be an ISO 8601 date');
+      expect(() =>
+        validateModelPricing(
+          { ...base, periods: [{ effectiveFrom: '2025-02-01', effectiveUntil: '2025-01-01' }] },
+          'test/model'
+        )
+      ).toThrow('test/model periods[0]: effectiveFrom must be before effectiveUntil');
+    });
+
+    it('should validate tiers within periods', () => {
+      expect(() =>
+        validateModelPricing(
+          { ...base, periods: [{ tiers: [{ aboveInputTokens: Infinity }] }] },
+          'test/model'
+        )
+      ).toThrow('test/model periods[0] tiers[0]: aboveInputTokens');
+    });
+  });
+
   describe('context in error messages', () => {
     it('should include context in error message', () => {
       expect(() =>
@@ -7,7 +7,14 @@
  * @module pricing/validator
  */
 
-import type { ModelPricing, PricingConfig, ProviderPricing } from './types.js';
+import type {
+  ModelPricing,
+  PricingConfig,
+  PricingPeriod,
+  PricingTier,
+  ProviderPricing,
+  TokenPrices,
+} from './types.js';
 
 function validatePriceValue(
   value: number,
@@ -22,11 +29,73 @@ function validatePriceValue(
   }
 }
 
+const OPTIONAL_PRICE_FIELDS = [
+  'cachedInputPricePerMillion',
+  'cacheWriteInputPricePerMillion',
+  'reasoningOutputPricePerMillion',
+  'audioInputPricePerMillion',
+  'imageInputPricePerMillion',
+  'videoInputPricePerMillion',
+] as const;
+
+const PRICE_FIELDS = [
+  'inputPricePerMillion',
+  'outputPricePerMillion',
+  ...OPTIONAL_PRICE_FIELDS,
+] as const;
+
+function validatePrices(prices: Partial<TokenPrices>, context: string): void {
+  for (const field of PRICE_FIELDS) {
+    const value = prices[field];
+    if (value !== undefined) {
+      validatePriceValue(value, field, context);
+    }
+  }
+}
+
+function validateTiers(tiers: PricingTier[], context: string): void {
+  tiers.forEach((tier, index) => {
+    const tierContext = `${context} tiers[${index}]`;
+    if (!Number.isFinite(tier.aboveInputTokens) || tier.aboveInputTokens < 0) {
+      throw new Error(
+        `${tierContext}: aboveInputTokens must be a non-negative finite number`
+      );
+    }
+    validatePrices(tier, tierContext);
+  });
+}
+
+function validatePeriods(periods: PricingPeriod[], context: string): void {
+  periods.forEach((period, index) => {
+    const periodContext = `${context} periods[${index}]`;
+    for (const field of ['effectiveFrom', 'effectiveUntil'] as const) {
+      const value = period[field];
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        throw new Error(`${periodContext}: ${field} must be an ISO 8601 date`);
+      }
+    }
+    if (
+      period.effectiveFrom !== undefined &&
+      period.effectiveUntil !== undefined &&
+      Date.parse(period.effectiveFrom) >= Date.parse(period.effectiveUntil)
+    ) {
+      throw new Error(
+        `${periodContext}: effectiveFrom must be before effectiveUntil`
+      );
+    }
+    validatePrices(period, periodContext);
+    if (period.tiers) {
+      validateTiers(period.tiers, periodContext);
+    }
+  });
+}
+
 /**
  * Validates a ModelPricing object.
- * Ensures all price values are non-negative and finite.
+ * Ensures all price values (including tiers and periods) are non-negative and finite,
+ * tier thresholds are non-negative and period dates are valid and ordered.
  *
- * @throws {Error} If any price value is invalid
+ * @throws {Error} If any price value, tier or period is invalid
  *
  * @example
  * ```typescript
@@ -50,13 +119,13 @@ export function validateModelPricing(
     'outputPricePerMillion',
     context
   );
+  validatePrices(pricing, context);
 
-  if (pricing.cachedInputPricePerMillion !== undefined) {
-    validatePriceValue(
-      pricing.cachedInputPricePerMillion,
-      'cachedInputPricePerMillion',
-      context
-    );
+  if (pricing.tiers) {
+    validateTiers(pricing.tiers, context);
+  }
+  if (pricing.periods) {
+    validatePeriods(pricing.periods, context);
   }
 }
 
@@ -84,7 +153,7 @@ export function validateProviderPricing(
 }
 
 /**
- * Validates a PricingConfig object.
+ * Validates a PricingConfig object, including its aliases.
  *
  * @throws {Error} If any pricing configuration is invalid
  *
@@ -107,6 +176,12 @@ export function validatePricingConfig(config: PricingConfig): void {
     }
   }
 
+  for (const [alias, model] of Object.entries(config.aliases ?? {})) {
+    if (typeof model !== 'string' || model.length === 0) {
+      throw new Error(`aliases/${alias}: must map to a model ID`);
+    }
+  }
+
   if (config.fallback) {
     validateModelPricing(config.fallback, 'fallback');
   }
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAnthropicProvider } from './factory.js';
+import { AnthropicFileManager } from './file-manager.js';
+
+// Mock @ai-sdk/anthropic
+const mockModel = { modelId: 'claude-sonnet-4-20250514' };
+const mockAnthropicFn = vi.fn().mockReturnValue(mockModel);
+vi.mock('@ai-sdk/anthropic', () => ({
+    createAnthropic: vi.fn().mockImplementation(() => mockAnthropicFn),
+}));
+
+// Mock AnthropicFileManager (Vitest 4.x requires function keyword for constructor mocks)
+vi.mock('./file-manager', () => ({
+    AnthropicFileManager: vi.fn(function () {
+        return {
+            upload: vi.fn(),
+            delete: vi.fn(),
+            clear: vi.fn(),
+            getUploadedFiles: vi.fn().mockReturnValue([]),
+        };
+    }),
+}));
+
+// Mock AI SDK generateText/streamText
+vi.mock('ai', () => ({
+    generateText: vi.fn().mockResolvedValue({
+        text: 'test response',
+        usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30 },
+    }),
+    streamText: vi.fn().mockReturnValue({
+        usage: Promise.resolve({ inputTokens: 10, outputTokens: 20, totalTokens: 30 }),
+        textStream: (async function* () {
+            yield 'test';
+        })(),
+    }),
+}));
+
+describe('createAnthropicProvider', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('fluent API', () => {
+        it('should create provider and allow fluent configuration', () => {
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' })
+                .withDefaultModel('claude-sonnet-4-20250514')
+                .withLogger({});
+
+            expect(provider).toBeDefined();
+            expect(provider.withDefaultOptions).toBeTypeOf('function');
+            expect(provider.streamingExecution).toBeTypeOf('function');
+            expect(provider.simpleExecution).toBeTypeOf('function');
+        });
+
+        it('should return new instance on each with* method', () => {
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' });
+
+            expect(provider.withDefaultModel('claude-sonnet-4-20250514')).not.toBe(provider);
+            expect(provider.withLogger({})).not.toBe(provider);
+            expect(provider.withDefaultOptions({})).not.toBe(provider);
+            expect(provider.withDefaultGenerationOptions({ temperature: 0 })).not.toBe(provider);
+            expect(provider.withFileCache()).not.toBe(provider);
+            expect(
+                provider.withPricing({
+                    'claude-sonnet-4-20250514': {
+                        inputPricePerMillion: 3.0,
+                        outputPricePerMillion: 15.0,
+                    },
+                })
+            ).not.toBe(provider);
+        });
+
+        it('should throw on negative pricing in withPricing()', () => {
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' });
+
+            expect(() =>
+                provider.withPricing({
+                    'claude-sonnet-4-20250514': {
+                        inputPricePerMillion: 3.0,
+                        outputPricePerMillion: 15.0,
+                        cacheWriteInputPricePerMillion: -1,
+                    },
+                })
+            ).toThrow(
+                'anthropic/claude-sonnet-4-20250514: cacheWriteInputPricePerMillion cannot be negative'
+            );
+        });
+    });
+
+    describe('config', () => {
+        it('should pass apiKey and baseURL to createAnthropic', () => {
+            createAnthropicProvider({
+                apiKey: 'test-api-key',
+                baseURL: 'https://proxy.example.com/v1',
+            });
+
+            expect(createAnthropic).toHaveBeenCalledWith({
+                apiKey: 'test-api-key',
+                baseURL: 'https://proxy.example.com/v1',
+            });
+        });
+    });
+
+    describe('streamingExecution', () => {
+        it('should return result via result()', async () => {
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' }).withDefaultModel(
+                'claude-sonnet-4-20250514'
+            );
+
+            const execution = provider.streamingExecution(async function* (session) {
+                yield session.emit({ type: 'progress', step: 1 } as never);
+                return session.done('my-result');
+            });
+
+            const result = await execution.result();
+            expect(result.status).toBe('succeeded');
+            if (result.status === 'succeeded') {
+                expect(result.value).toBe('my-result');
+            }
+        });
+    });
+
+    describe('simpleExecution', () => {
+        it('should pass default options as anthropic providerOptions', async () => {
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' })
+                .withDefaultModel('claude-sonnet-4-20250514')
+                .withDefaultOptions({
+                    thinking: { type: 'enabled', budgetTokens: 2048 },
+                    cacheControl: { type: 'ephemeral' },
+                });
+
+            const execution = provider.simpleExecution(async (session) => {
+                const response = await session.generateText({ prompt: 'Hello' });
+                return response.text;
+            });
+
+            const result = await execution.result();
+            expect(result.status).toBe('succeeded');
+            expect(vi.mocked(generateText)).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    providerOptions: {
+                        anthropic: {
+                            thinking: { type: 'enabled', budgetTokens: 2048 },
+                            cacheControl: { type: 'ephemeral' },
+                        },
+                    },
+                })
+            );
+        });
+
+        it('should bill cache reads and writes in the summary', async () => {
+            vi.mocked(generateText).mockResolvedValueOnce({
+                text: 'cached response',
+                usage: {
+                    inputTokens: 1_000_000,
+                    outputTokens: 0,
+                    totalTokens: 1_000_000,
+                    inputTokenDetails: {
+                        noCacheTokens: 500_000,
+                        cacheReadTokens: 250_000,
+                        cacheWriteTokens: 250_000,
+                    },
+                },
+            } as never);
+
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' }).withDefaultModel(
+                'claude-sonnet-4-20250514'
+            );
+
+            const execution = provider.simpleExecution(async (session) => {
+                await session.generateText({ prompt: 'Hello' });
+                return 'done';
+            });
+
+            const result = await execution.result();
+            // 0.5M * $3 + 0.25M * $0.375 + 0.25M * $3.75
+            expect(result.summary.llmCost).toBeCloseTo(1.5 + 0.09375 + 0.9375, 6);
+        });
+    });
+
+    describe('AnthropicFileManager integration', () => {
+        it('should create AnthropicFileManager with the configured cache', async () => {
+            const cache = { get: vi.fn(), set: vi.fn(), delete: vi.fn(), clear: vi.fn() };
+            const provider = createAnthropicProvider({ apiKey: 'test-api-key' })
+                .withDefaultModel('claude-sonnet-4-20250514')
+                .withFileCache(cache);
+
+            await provider.simpleExecution(async () => 'ok').result();
+
+            expect(AnthropicFileManager).toHaveBeenCalledWith({ cache });
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { createAnthropic, type AnthropicProviderOptions } from '@ai-sdk/anthropic';
+import type { FileCache } from '../types.js';
+import type { Logger } from '../../observability/logger.js';
+import { noopLogger } from '../../observability/logger.js';
+import type { ProviderPricing } from '../../pricing/index.js';
+import { validateProviderPricing } from '../../pricing/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../../session/index.js';
+import { InMemoryFileCache } from '../file-cache.js';
+import { SimpleSession } from '../../session/simple-session.js';
+import { StreamingSession } from '../../session/streaming-session.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../base-provider.js';
+import { AnthropicFileManager } from './file-manager.js';
+
+export interface AnthropicProviderConfig {
+    apiKey: string;
+    baseURL?: string;
+}
+
+interface AnthropicProviderState {
+    apiKey: string;
+    defaultModelId: string | null;
+    logger: Logger;
+    baseURL?: string;
+    pricingConfig?: ProviderPricing;
+    defaultOptions?: AnthropicProviderOptions;
+    fileCache?: FileCache;
+    defaultGenOptions?: GenerationOptions;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
+}
+
+export class AnthropicProvider extends BaseProvider {
+    private readonly anthropic: ReturnType<typeof createAnthropic>;
+
+    constructor(private readonly config: AnthropicProviderState) {
+        super();
+        this.anthropic = createAnthropic({
+            apiKey: config.apiKey,
+            baseURL: config.baseURL,
+        });
+    }
+
+    withDefaultModel(modelId: string): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, defaultModelId: modelId });
+    }
+
+    withLogger(newLogger: Logger): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, logger: newLogger });
+    }
+
+    withPricing(pricing: ProviderPricing): AnthropicProvider {
+        validateProviderPricing(pricing, 'anthropic');
+        return new AnthropicProvider({ ...this.config, pricingConfig: pricing });
+    }
+
+    /**
+     * Set default provider-specific options for all LLM calls.
+     * These options will be deep-merged with per-call providerOptions.
+     *
+     * Prompt caching and extended thinking are configured here. Cache reads and
+     * writes reported by Anthropic are billed separately in the session summary.
+     *
+     * @example
+     * ```typescript
+     * createAnthropicProvider({ apiKey: 'xxx' })
+     *   .withDefaultModel('claude-sonnet-4-5-20250929')
+     *   .withDefaultOptions({
+     *     thinking: { type: 'enabled', budgetTokens: 8000 },
+     *     cacheControl: { type: 'ephemeral' },
+     *   })
+     * ```
+     */
+    withDefaultOptions(options: AnthropicProviderOptions): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, defaultOptions: options });
+    }
+
+    withDefaultGenerationOptions(options: GenerationOptions): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, defaultGenOptions: options });
+    }
+
+    withRetryPolicy(policy: RetryPolicy): AnthropicProvider {
+        validateRetryPolicy(policy);
+        return new AnthropicProvider({ ...this.config, retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): AnthropicProvider {
+        validateBudget(budget);
+        return new AnthropicProvider({ ...this.config, budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): AnthropicProvider {
+        validateContextGuard(options);
+        return new AnthropicProvider({ ...this.config, contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): AnthropicProvider {
+        validateToolPolicy(policy);
+        return new AnthropicProvider({ ...this.config, toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): AnthropicProvider {
+        return new AnthropicProvider({ ...this.config, checkpointStore: store });
+    }
+
+    /**
+     * Enable file caching to avoid re-encoding the same files across sessions.
+     * If no cache is provided, uses an in-memory cache.
+     *
+     * @example
+     * ```typescript
+     * createAnthropicProvider({ apiKey: 'xxx' })
+     *   .withFileCache()
+     * ```
+     */
+    withFileCache(cache?: FileCache): AnthropicProvider {
+        return new AnthropicProvider({
+            ...this.config,
+            fileCache: cache ?? new InMemoryFileCache(),
+        });
+    }
+
+    protected getSessionConfig(): ProviderSessionConfig {
+        return {
+            defaultLanguageModel: this.config.defaultModelId
+                ? this.anthropic(this.config.defaultModelId)
+                : null,
+            modelFactory: (modelId: string) => this.anthropic(modelId),
+            providerType: 'anthropic',
+            providerPricing: this.config.pricingConfig,
+            fileManager: new AnthropicFileManager({ cache: this.config.fileCache }),
+            logger: this.config.logger,
+            defaultProviderOptions: this.config.defaultOptions
+                ? { anthropic: this.config.defaultOptions }
+                : undefined,
+            defaultGenerationOptions: this.config.defaultGenOptions,
+            retryPolicy: this.config.retryPolicy,
+            budget: this.config.budget,
+            responseCache: this.config.responseCache,
+            contextGuard: this.config.contextGuard,
+            toolPolicy: this.config.toolPolicy,
+            checkpointStore: this.config.checkpointStore,
+        };
+    }
+
+    protected createStreamingSession<
+        TEvent extends { type: string },
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+}
+
+export function createAnthropicProvider(config: AnthropicProviderConfig): AnthropicProvider {
+    return new AnthropicProvider({
+        apiKey: config.apiKey,
+        defaultModelId: null,
+        logger: noopLogger,
+        baseURL: config.baseURL,
+    });
+}
+
+// Re-export provider options type for consumers
+export type { AnthropicProviderOptions } from '@ai-sdk/anthropic';
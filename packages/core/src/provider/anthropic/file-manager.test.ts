@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { FileError } from '../../errors/index.js';
+import { AnthropicFileManager } from './file-manager.js';
+
+describe('AnthropicFileManager', () => {
+    it.each(['image/png', 'image/webp', 'application/pdf', 'text/plain'])(
+        'should inline %s',
+        async (mediaType) => {
+            const fileManager = new AnthropicFileManager();
+
+            const [result] = await fileManager.upload([
+                { source: 'data', data: Buffer.from('content'), mediaType },
+            ]);
+
+            expect(result.id).toBeNull();
+            expect(result.part).toMatchObject({ mediaType });
+        }
+    );
+
+    it('should reject media types Anthropic cannot read', async () => {
+        const fileManager = new AnthropicFileManager();
+
+        const error = await fileManager
+            .upload([{ source: 'data', data: Buffer.from('{}'), mediaType: 'application/json' }])
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(FileError);
+        expect((error as FileError).message).toContain(
+            'Unsupported media type for anthropic: application/json'
+        );
+    });
+});
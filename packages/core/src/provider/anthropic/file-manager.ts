@@ -0,0 +1,22 @@
+import { isImageMediaType } from '../file-utils.js';
+import { InlineFileManager } from '../inline-file-manager.js';
+import type { FileManagerOptions } from '../types.js';
+
+const SUPPORTED_DOCUMENT_TYPES = new Set(['application/pdf', 'text/plain']);
+
+/**
+ * Anthropic FileManager that sends files inline as content blocks.
+ *
+ * The AI SDK Anthropic adapter has no way to reference Files API ids in a prompt,
+ * so files are always inlined. Only images, PDFs and plain text are accepted.
+ */
+export class AnthropicFileManager extends InlineFileManager {
+    constructor(options?: FileManagerOptions) {
+        super({
+            ...options,
+            providerName: 'anthropic',
+            isSupportedMediaType: (mediaType) =>
+                isImageMediaType(mediaType) || SUPPORTED_DOCUMENT_TYPES.has(mediaType),
+        });
+    }
+}
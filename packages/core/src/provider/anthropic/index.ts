@@ -0,0 +1,14 @@
+/**
+ * Anthropic Provider Module
+ *
+ * Exports Anthropic (Claude) provider factory and related types.
+ */
+
+export {
+    createAnthropicProvider,
+    AnthropicProvider,
+    type AnthropicProviderConfig,
+    type AnthropicProviderOptions,
+} from './factory.js';
+
+export { AnthropicFileManager } from './file-manager.js';
@@ -1,13 +1,41 @@
+import { ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
 import type { Logger } from '../observability/logger.js';
 import type { ProviderPricing } from '../pricing/index.js';
-import type { GenerationOptions } from '../session/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../session/index.js';
+import { validateBudget } from '../session/index.js';
 import type { SessionEvent, StreamingExecution, SimpleExecution, ExecutionOptions } from '../execution/types.js';
-import { StreamingExecutionHost } from '../execution/streaming-host.js';
+import {
+    StreamingExecutionHost,
+    type StreamingCheckpointOptions,
+} from '../execution/streaming-host.js';
 import { SimpleExecutionHost } from '../execution/simple-host.js';
-import type { SimpleSession } from '../session/simple-session.js';
+import type { SimpleSession, SimpleSessionOptions } from '../session/simple-session.js';
 import type { StreamingSession } from '../session/streaming-session.js';
 import type { Provider } from './types.js';
 
+/**
+ * Options a provider passes to every session it creates (everything but per-execution state),
+ * plus the checkpoint store its streaming executions save to.
+ */
+export type ProviderSessionConfig = Omit<SimpleSessionOptions, 'signal' | 'startTime'> & {
+    checkpointStore?: CheckpointStore;
+};
+
+/** Session options overridden for a single execution via ExecutionOptions */
+export type ExecutionSessionOverrides = Pick<
+    SimpleSessionOptions,
+    'budget' | 'memory' | 'attribution' | 'parentExecutionId'
+>;
+
 /**
  * Abstract base class for AI providers.
  *
@@ -15,19 +43,37 @@ import type { Provider } from './types.js';
  * Subclasses implement session creation and fluent configuration methods.
  */
 export abstract class BaseProvider implements Provider {
+    /**
+     * Session configuration shared by simple and streaming sessions.
+     */
+    protected abstract getSessionConfig(): ProviderSessionConfig;
+
+    /**
+     * Read another provider's session configuration.
+     * Lets composite providers (fallback, routing) reuse the models and pricing of the providers they wrap.
+     */
+    protected static sessionConfigOf(provider: BaseProvider): ProviderSessionConfig {
+        return provider.getSessionConfig();
+    }
+
     /**
      * Create a SimpleSession for non-streaming execution.
      * @param signal - AbortSignal for cancellation support
+     * @param overrides - Per-execution session options, applied over the provider's
      */
-    protected abstract createSimpleSession(signal?: AbortSignal): SimpleSession;
+    protected abstract createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession;
 
     /**
      * Create a StreamingSession for streaming execution.
      * @param signal - AbortSignal for cancellation support
+     * @param overrides - Per-execution session options, applied over the provider's
      */
     protected abstract createStreamingSession<
         TEvent extends { type: string },
-    >(signal?: AbortSignal): StreamingSession<TEvent>;
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent>;
 
     abstract withDefaultModel(modelId: string): Provider;
 
@@ -39,16 +85,101 @@ export abstract class BaseProvider implements Provider {
 
     abstract withDefaultGenerationOptions(options: GenerationOptions): Provider;
 
+    abstract withRetryPolicy(policy: RetryPolicy): Provider;
+
+    abstract withBudget(budget: Budget): Provider;
+
+    abstract withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): Provider;
+
+    abstract withContextGuard(options?: ContextGuardOptions): Provider;
+
+    abstract withToolPolicy(policy: ToolPolicy): Provider;
+
+    abstract withCheckpointStore(store: CheckpointStore): Provider;
+
+    /**
+     * Session overrides for one execution. An execution budget overrides the
+     * provider's budget limit by limit.
+     * @throws ConfigurationError if the execution budget is invalid
+     */
+    private sessionOverrides(options?: ExecutionOptions): ExecutionSessionOverrides | undefined {
+        if (
+            !options?.budget &&
+            !options?.memory &&
+            !options?.attribution &&
+            !options?.parentExecutionId
+        ) {
+            return undefined;
+        }
+        if (options.budget) {
+            validateBudget(options.budget);
+        }
+        return {
+            ...(options.budget && { budget: { ...this.getSessionConfig().budget, ...options.budget } }),
+            ...(options.memory && { memory: options.memory }),
+            ...(options.attribution && { attribution: options.attribution }),
+            ...(options.parentExecutionId && { parentExecutionId: options.parentExecutionId }),
+        };
+    }
+
+    /**
+     * Checkpoint options for an execution, if it is checkpointed.
+     * @throws ConfigurationError if a checkpoint ID is given but there is no checkpoint store
+     */
+    private checkpointOptions(
+        checkpointId: string | undefined,
+        resume: boolean
+    ): StreamingCheckpointOptions | undefined {
+        if (checkpointId === undefined) {
+            return undefined;
+        }
+        const store = this.getSessionConfig().checkpointStore;
+        if (!store) {
+            throw new ConfigurationError(
+                'Checkpointed executions require a checkpoint store; set one with withCheckpointStore()',
+                {
+                    code: ConfigurationErrorCode.MISSING_REQUIRED,
+                    context: { checkpointId },
+                }
+            );
+        }
+        return { store, id: checkpointId, resume };
+    }
+
     streamingExecution<TEvent extends { type: string }>(
         generator: (
             session: StreamingSession<TEvent>
         ) => AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent> | Promise<SessionEvent<TEvent>>>,
         options?: ExecutionOptions
     ): StreamingExecution<TEvent> {
+        const overrides = this.sessionOverrides(options);
+        return new StreamingExecutionHost(
+            (signal) => this.createStreamingSession<TEvent>(signal, overrides),
+            generator,
+            options?.signal,
+            options?.timeoutMs,
+            this.checkpointOptions(options?.checkpointId, false)
+        );
+    }
+
+    /**
+     * Continue a checkpointed streaming execution from its last checkpoint.
+     * Saved events are replayed first; the session starts from the saved summary and step state.
+     */
+    resumeStreamingExecution<TEvent extends { type: string }>(
+        checkpointId: string,
+        generator: (
+            session: StreamingSession<TEvent>
+        ) => AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent> | Promise<SessionEvent<TEvent>>>,
+        options?: Omit<ExecutionOptions, 'checkpointId'>
+    ): StreamingExecution<TEvent> {
+        const overrides = this.sessionOverrides(options);
         return new StreamingExecutionHost(
-            (signal) => this.createStreamingSession<TEvent>(signal),
+            (signal) => this.createStreamingSession<TEvent>(signal, overrides),
             generator,
-            options?.signal
+            options?.signal,
+            options?.timeoutMs,
+            this.checkpointOptions(checkpointId, true)
         );
     }
 
@@ -60,10 +191,12 @@ export abstract class BaseProvider implements Provider {
         fn: (session: SimpleSession) => Promise<TResult>,
         options?: ExecutionOptions
     ): SimpleExecution<TResult> {
+        const overrides = this.sessionOverrides(options);
         return new SimpleExecutionHost(
-            (signal) => this.createSimpleSession(signal),
+            (signal) => this.createSimpleSession(signal, overrides),
             fn,
-            options?.signal
+            options?.signal,
+            options?.timeoutMs
         );
     }
 }
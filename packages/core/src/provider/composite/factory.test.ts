@@ -0,0 +1,304 @@
+import { APICallError } from 'ai';
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConfigurationError } from '../../errors/index.js';
+import { mock } from '../../testing/mock.js';
+import { createFallbackProvider, createRoutingProvider } from './factory.js';
+
+const USAGE = {
+    inputTokens: { total: 1_000_000, noCache: 1_000_000, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: 0, text: 0, reasoning: undefined },
+};
+
+function textModel(modelId: string, text: string): MockLanguageModelV3 {
+    return new MockLanguageModelV3({
+        modelId,
+        doGenerate: async () => ({
+            content: [{ type: 'text', text }],
+            finishReason: { unified: 'stop', raw: undefined },
+            usage: USAGE,
+            warnings: [],
+        }),
+        doStream: async () => ({
+            stream: simulateReadableStream({
+                chunks: [
+                    { type: 'text-start', id: 't' },
+                    { type: 'text-delta', id: 't', delta: text },
+                    { type: 'text-end', id: 't' },
+                    { type: 'finish', finishReason: { unified: 'stop', raw: undefined }, usage: USAGE },
+                ],
+            }),
+        }),
+    });
+}
+
+function httpError(statusCode: number): APICallError {
+    return new APICallError({
+        message: `HTTP ${statusCode}`,
+        url: 'https://api.example.com',
+        requestBodyValues: {},
+        statusCode,
+        isRetryable: false,
+    });
+}
+
+function failingModel(modelId: string, error: Error): MockLanguageModelV3 {
+    return new MockLanguageModelV3({
+        modelId,
+        doGenerate: async () => {
+            throw error;
+        },
+        doStream: async () => {
+            throw error;
+        },
+    });
+}
+
+function generate(provider: ReturnType<typeof createFallbackProvider>) {
+    return provider
+        .simpleExecution(async (session) => {
+            const { text } = await session.generateText({ prompt: 'Hi', maxRetries: 0 });
+            return text;
+        })
+        .result();
+}
+
+describe('createFallbackProvider', () => {
+    it('should throw ConfigurationError without providers', () => {
+        expect(() => createFallbackProvider([])).toThrow(ConfigurationError);
+    });
+
+    it('should serve calls from the first provider when it succeeds', async () => {
+        const provider = createFallbackProvider([
+            mock.provider({ model: textModel('gemini-2.5-flash', 'from google'), providerType: 'google' }),
+            mock.provider({ model: textModel('gpt-4o', 'from openai'), providerType: 'openai' }),
+        ]);
+
+        const result = await generate(provider);
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe('from google');
+        }
+        expect(result.summary.llmCalls[0]).toMatchObject({
+            provider: 'google',
+            model: 'gemini-2.5-flash',
+        });
+    });
+
+    it('should fall back on rate limit and record the serving provider', async () => {
+        const secondary = mock.provider({
+            model: textModel('gpt-4o', 'from openai'),
+            providerType: 'openai',
+        });
+        const provider = createFallbackProvider([
+            mock.provider({ model: failingModel('gemini-2.5-flash', httpError(429)), providerType: 'google' }),
+            secondary,
+        ]);
+
+        const result = await generate(provider);
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe('from openai');
+        }
+        expect(secondary.getCalls()).toHaveLength(1);
+        expect(result.summary.llmCalls).toHaveLength(1);
+        expect(result.summary.llmCalls[0]).toMatchObject({ provider: 'openai', model: 'gpt-4o' });
+        expect(Object.keys(result.summary.costByModel)).toEqual(['openai/gpt-4o']);
+    });
+
+    it('should price calls with the serving provider pricing', async () => {
+        const provider = createFallbackProvider([
+            mock
+                .provider({ model: failingModel('primary-model', httpError(503)), providerType: 'google' })
+                .withPricing({ 'primary-model': { inputPricePerMillion: 100, outputPricePerMillion: 100 } }),
+            mock
+                .provider({ model: textModel('backup-model', 'ok'), providerType: 'openai' })
+                .withPricing({ 'backup-model': { inputPricePerMillion: 2, outputPricePerMillion: 0 } }),
+        ]);
+
+        const result = await generate(provider);
+
+        expect(result.summary.llmCost).toBeCloseTo(2);
+        expect(result.summary.costByModel['openai/backup-model']).toBeCloseTo(2);
+    });
+
+    it('should not fall back on client errors by default', async () => {
+        const secondary = mock.provider({ model: textModel('gpt-4o', 'x'), providerType: 'openai' });
+        const provider = createFallbackProvider([
+            mock.provider({ model: failingModel('gemini-2.5-flash', httpError(400)), providerType: 'google' }),
+            secondary,
+        ]);
+
+        const result = await generate(provider);
+
+        expect(result.status).toBe('failed');
+        expect(secondary.getCalls()).toHaveLength(0);
+    });
+
+    it('should use custom shouldFallback', async () => {
+        const shouldFallback = vi.fn().mockReturnValue(true);
+        const provider = createFallbackProvider(
+            [
+                mock.provider({ model: failingModel('a', new Error('anything')), providerType: 'google' }),
+                mock.provider({ model: textModel('b', 'from b'), providerType: 'openai' }),
+            ],
+            { shouldFallback }
+        );
+
+        const result = await generate(provider);
+
+        expect(result.status).toBe('succeeded');
+        expect(shouldFallback).toHaveBeenCalledWith(expect.objectContaining({ message: 'anything' }));
+    });
+
+    it('should rethrow the last error when every provider fails', async () => {
+        const provider = createFallbackProvider([
+            mock.provider({ model: failingModel('a', httpError(429)), providerType: 'google' }),
+            mock.provider({ model: failingModel('b', httpError(503)), providerType: 'openai' }),
+        ]);
+
+        const result = await generate(provider);
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            expect(result.error.message).toContain('HTTP 503');
+        }
+    });
+
+    it('should log each fallback', async () => {
+        const log = vi.fn();
+        const provider = createFallbackProvider([
+            mock.provider({ model: failingModel('a', httpError(429)), providerType: 'google' }),
+            mock.provider({ model: textModel('b', 'ok'), providerType: 'openai' }),
+        ]).withLogger({ log });
+
+        await generate(provider);
+
+        expect(log).toHaveBeenCalledWith(
+            'warn',
+            'LLM call failed on google/a, falling back to openai/b',
+            expect.objectContaining({ failedProvider: 'google', nextProvider: 'openai' })
+        );
+    });
+
+    it('should fall back when a stream fails to start', async () => {
+        const provider = createFallbackProvider([
+            mock.provider({ model: failingModel('a', httpError(503)), providerType: 'google' }),
+            mock.provider({ model: textModel('b', 'streamed'), providerType: 'openai' }),
+        ]);
+
+        const result = await provider
+            .simpleExecution(async (session) => {
+                const stream = session.streamText({ prompt: 'Hi', maxRetries: 0 });
+                return stream.text;
+            })
+            .result();
+
+        expect(result.status).toBe('succeeded');
+        if (result.status === 'succeeded') {
+            expect(result.value).toBe('streamed');
+        }
+        expect(result.summary.llmCalls[0]).toMatchObject({
+            type: 'streamText',
+            provider: 'openai',
+            model: 'b',
+        });
+    });
+
+    it('should apply withDefaultModel to the first provider', async () => {
+        const primary = mock.provider({
+            modelFactory: (modelId) => textModel(modelId, `from ${modelId}`),
+            providerType: 'google',
+        });
+        const provider = createFallbackProvider([primary]).withDefaultModel('gemini-2.5-pro');
+
+        const result = await generate(provider);
+
+        expect(result.summary.llmCalls[0].model).toBe('gemini-2.5-pro');
+    });
+
+    it('should resolve explicitly requested models with the first provider', async () => {
+        const provider = createFallbackProvider([
+            mock.provider({ modelFactory: (id) => textModel(id, 'x'), providerType: 'google' }),
+            mock.provider({ model: textModel('b', 'y'), providerType: 'openai' }),
+        ]);
+
+        const result = await provider
+            .simpleExecution(async (session) => session.generateText({ prompt: 'Hi', model: 'explicit' }))
+            .result();
+
+        expect(result.status).toBe('succeeded');
+        expect(result.summary.llmCalls[0].model).toBe('explicit');
+    });
+});
+
+describe('createRoutingProvider', () => {
+    function routingProviders() {
+        return [
+            mock.provider({ model: textModel('a', 'from a'), providerType: 'google' }),
+            mock.provider({ model: textModel('b', 'from b'), providerType: 'openai' }),
+        ];
+    }
+
+    async function servedProviders(
+        provider: ReturnType<typeof createRoutingProvider>,
+        calls: number
+    ): Promise<string[]> {
+        const result = await provider
+            .simpleExecution(async (session) => {
+                for (let i = 0; i < calls; i++) {
+                    await session.generateText({ prompt: `call ${i}`, maxRetries: 0 });
+                }
+            })
+            .result();
+        return result.summary.llmCalls.map((call) => call.provider);
+    }
+
+    it('should alternate providers with round-robin', async () => {
+        const provider = createRoutingProvider(routingProviders(), { strategy: 'round-robin' });
+
+        expect(await servedProviders(provider, 4)).toEqual(['google', 'openai', 'google', 'openai']);
+    });
+
+    it('should pick providers by weight', async () => {
+        const random = vi
+            .fn()
+            .mockReturnValueOnce(0.1)
+            .mockReturnValueOnce(0.8)
+            .mockReturnValueOnce(0.74);
+        const provider = createRoutingProvider(routingProviders(), {
+            strategy: 'weighted',
+            weights: [3, 1],
+            random,
+        });
+
+        expect(await servedProviders(provider, 3)).toEqual(['google', 'openai', 'google']);
+    });
+
+    it('should fail over to the remaining providers', async () => {
+        const provider = createRoutingProvider(
+            [
+                mock.provider({ model: textModel('a', 'from a'), providerType: 'google' }),
+                mock.provider({ model: failingModel('b', httpError(429)), providerType: 'openai' }),
+            ],
+            { strategy: 'round-robin' }
+        );
+
+        expect(await servedProviders(provider, 2)).toEqual(['google', 'google']);
+    });
+
+    it('should validate weights', () => {
+        expect(() =>
+            createRoutingProvider(routingProviders(), { strategy: 'weighted', weights: [1] })
+        ).toThrow('weights must have one entry per provider');
+        expect(() =>
+            createRoutingProvider(routingProviders(), { strategy: 'weighted', weights: [0, 0] })
+        ).toThrow(ConfigurationError);
+        expect(() =>
+            createRoutingProvider(routingProviders(), { strategy: 'weighted', weights: [-1, 2] })
+        ).toThrow(ConfigurationError);
+    });
+});
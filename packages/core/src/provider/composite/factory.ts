@@ -0,0 +1,339 @@
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type { Logger } from '../../observability/logger.js';
+import { noopLogger } from '../../observability/logger.js';
+import type { ProviderPricing } from '../../pricing/index.js';
+import { validateProviderPricing } from '../../pricing/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../../session/index.js';
+import { SimpleSession } from '../../session/simple-session.js';
+import { StreamingSession } from '../../session/streaming-session.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../base-provider.js';
+import { isTransientProviderError } from '../error-classification.js';
+import { InMemoryFileCache } from '../file-cache.js';
+import { InlineFileManager } from '../inline-file-manager.js';
+import type { FileCache } from '../types.js';
+import { createFallbackModel, toCallTarget, type ShouldFallback } from './fallback-model.js';
+
+/** Returns the order in which wrapped providers are tried for the next call */
+type CallOrder = () => number[];
+
+interface CompositeProviderState {
+    providers: BaseProvider[];
+    order: CallOrder;
+    shouldFallback: ShouldFallback;
+    logger: Logger;
+    pricingConfig?: ProviderPricing;
+    defaultOptions?: Record<string, Record<string, unknown>>;
+    fileCache?: FileCache;
+    defaultGenOptions?: GenerationOptions;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
+}
+
+export interface FallbackProviderOptions {
+    /**
+     * Whether a failed call should be retried on the next provider.
+     * Defaults to rate limits, 5xx, timeouts and network errors (see isTransientProviderError).
+     */
+    shouldFallback?: ShouldFallback;
+}
+
+export type RoutingStrategy = 'round-robin' | 'weighted';
+
+export interface RoutingProviderOptions {
+    strategy: RoutingStrategy;
+    /** Relative weight per provider for 'weighted' (defaults to equal weights) */
+    weights?: number[];
+    /**
+     * Whether a failed call should be retried on the remaining providers.
+     * Defaults to isTransientProviderError; pass `() => false` to disable failover.
+     */
+    shouldFallback?: ShouldFallback;
+    /** Random source for 'weighted', returning [0, 1). Defaults to Math.random */
+    random?: () => number;
+}
+
+/**
+ * Provider that sends each LLM call to one of several wrapped providers.
+ *
+ * Created by `createFallbackProvider()` and `createRoutingProvider()`. Each call is
+ * recorded under the provider that actually served it, and priced with that
+ * provider's pricing. Files are sent inline so they work with whichever provider
+ * serves the call.
+ */
+export class CompositeProvider extends BaseProvider {
+    constructor(private readonly config: CompositeProviderState) {
+        super();
+    }
+
+    /** Sets the default model of the first wrapped provider */
+    withDefaultModel(modelId: string): CompositeProvider {
+        const [primary, ...rest] = this.config.providers;
+        // Every built-in provider returns its own BaseProvider subclass from withDefaultModel()
+        const updated = primary.withDefaultModel(modelId) as BaseProvider;
+        return new CompositeProvider({ ...this.config, providers: [updated, ...rest] });
+    }
+
+    withLogger(newLogger: Logger): CompositeProvider {
+        return new CompositeProvider({ ...this.config, logger: newLogger });
+    }
+
+    /** Per-model pricing that overrides the pricing of every wrapped provider */
+    withPricing(pricing: ProviderPricing): CompositeProvider {
+        validateProviderPricing(pricing, 'composite');
+        return new CompositeProvider({ ...this.config, pricingConfig: pricing });
+    }
+
+    /**
+     * Set default provider options keyed by provider name.
+     * Each wrapped provider also keeps its own defaults.
+     *
+     * @example
+     * ```typescript
+     * createFallbackProvider([google, openai])
+     *   .withDefaultOptions({
+     *     google: { thinkingConfig: { thinkingBudget: 0 } },
+     *     openai: { reasoningEffort: 'low' },
+     *   })
+     * ```
+     */
+    withDefaultOptions(options: Record<string, unknown>): CompositeProvider {
+        return new CompositeProvider({
+            ...this.config,
+            defaultOptions: options as Record<string, Record<string, unknown>>,
+        });
+    }
+
+    withDefaultGenerationOptions(options: GenerationOptions): CompositeProvider {
+        return new CompositeProvider({ ...this.config, defaultGenOptions: options });
+    }
+
+    withRetryPolicy(policy: RetryPolicy): CompositeProvider {
+        validateRetryPolicy(policy);
+        return new CompositeProvider({ ...this.config, retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): CompositeProvider {
+        validateBudget(budget);
+        return new CompositeProvider({ ...this.config, budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): CompositeProvider {
+        return new CompositeProvider({ ...this.config, responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): CompositeProvider {
+        validateContextGuard(options);
+        return new CompositeProvider({ ...this.config, contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): CompositeProvider {
+        validateToolPolicy(policy);
+        return new CompositeProvider({ ...this.config, toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): CompositeProvider {
+        return new CompositeProvider({ ...this.config, checkpointStore: store });
+    }
+
+    withFileCache(cache?: FileCache): CompositeProvider {
+        return new CompositeProvider({
+            ...this.config,
+            fileCache: cache ?? new InMemoryFileCache(),
+        });
+    }
+
+    protected getSessionConfig(): ProviderSessionConfig {
+        const targets = this.config.providers.map((provider) =>
+            toCallTarget(BaseProvider.sessionConfigOf(provider), this.config.pricingConfig)
+        );
+        const { order, shouldFallback, logger } = this.config;
+
+        return {
+            defaultLanguageModel: null,
+            // Used for calls recorded manually via recordLLMCall()
+            providerType: targets[0].providerType,
+            providerPricing: targets[0].providerPricing,
+            fallbackPricing: targets[0].fallbackPricing,
+            fileManager: new InlineFileManager({
+                providerName: 'composite',
+                cache: this.config.fileCache,
+            }),
+            logger,
+            defaultProviderOptions: this.config.defaultOptions,
+            defaultGenerationOptions: this.config.defaultGenOptions,
+            retryPolicy: this.config.retryPolicy,
+            budget: this.config.budget,
+            responseCache: this.config.responseCache,
+            contextGuard: this.config.contextGuard,
+            toolPolicy: this.config.toolPolicy,
+            checkpointStore: this.config.checkpointStore,
+            modelRouter: (requestedModelId) => {
+                const indices = requestedModelId ? targets.map((_, i) => i) : order();
+                return createFallbackModel(
+                    indices.map((i) => targets[i]),
+                    requestedModelId,
+                    shouldFallback,
+                    logger
+                );
+            },
+        };
+    }
+
+    protected createStreamingSession<
+        TEvent extends { type: string },
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+}
+
+function assertProviders(providers: BaseProvider[], factory: string): void {
+    if (providers.length === 0) {
+        throw new ConfigurationError(`${factory} requires at least one provider`, {
+            code: ConfigurationErrorCode.MISSING_REQUIRED,
+            context: { field: 'providers' },
+        });
+    }
+}
+
+/** `first`, then every other index in ascending order */
+function startingWith(first: number, count: number): number[] {
+    return [first, ...Array.from({ length: count }, (_, i) => i).filter((i) => i !== first)];
+}
+
+function createRoundRobinOrder(count: number): CallOrder {
+    let next = 0;
+    return () => {
+        const first = next;
+        next = (next + 1) % count;
+        return startingWith(first, count);
+    };
+}
+
+function createWeightedOrder(weights: number[], random: () => number): CallOrder {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const lastPositive = weights.reduce((last, w, i) => (w > 0 ? i : last), 0);
+    return () => {
+        let point = random() * total;
+        let chosen = lastPositive;
+        for (let i = 0; i < weights.length; i++) {
+            if (weights[i] > 0 && point < weights[i]) {
+                chosen = i;
+                break;
+            }
+            point -= weights[i];
+        }
+        return startingWith(chosen, weights.length);
+    };
+}
+
+function validateWeights(weights: number[], count: number): void {
+    if (weights.length !== count) {
+        throw new ConfigurationError(
+            `weights must have one entry per provider (got ${weights.length}, expected ${count})`,
+            { code: ConfigurationErrorCode.INVALID_CONFIG, context: { weights } }
+        );
+    }
+    if (weights.some((w) => !Number.isFinite(w) || w < 0) || !weights.some((w) => w > 0)) {
+        throw new ConfigurationError(
+            'weights must be finite, non-negative and contain at least one positive value',
+            { code: ConfigurationErrorCode.INVALID_CONFIG, context: { weights } }
+        );
+    }
+}
+
+/**
+ * Create a provider that tries each provider in order, moving to the next one when
+ * a call fails with an error `shouldFallback` accepts.
+ *
+ * Fallback happens per LLM call (`generateText`/`streamText`), before any output is
+ * produced; a stream that fails midway is not retried. Each wrapped provider uses its
+ * own default model and provider options.
+ *
+ * @example
+ * ```typescript
+ * const provider = createFallbackProvider([
+ *   createGoogleProvider({ apiKey }).withDefaultModel('gemini-2.5-flash'),
+ *   createOpenAIProvider({ apiKey }).withDefaultModel('gpt-4o-mini'),
+ * ]);
+ * ```
+ */
+export function createFallbackProvider(
+    providers: BaseProvider[],
+    options: FallbackProviderOptions = {}
+): CompositeProvider {
+    assertProviders(providers, 'createFallbackProvider');
+
+    return new CompositeProvider({
+        providers: [...providers],
+        order: () => providers.map((_, i) => i),
+        shouldFallback: options.shouldFallback ?? isTransientProviderError,
+        logger: noopLogger,
+    });
+}
+
+/**
+ * Create a provider that spreads LLM calls across providers, round-robin or by weight.
+ * When a call fails with an error `shouldFallback` accepts, the remaining providers
+ * are tried in their original order.
+ *
+ * @example
+ * ```typescript
+ * const provider = createRoutingProvider([primary, secondary], {
+ *   strategy: 'weighted',
+ *   weights: [3, 1],
+ * });
+ * ```
+ */
+export function createRoutingProvider(
+    providers: BaseProvider[],
+    options: RoutingProviderOptions
+): CompositeProvider {
+    assertProviders(providers, 'createRoutingProvider');
+
+    let order: CallOrder;
+    if (options.strategy === 'weighted') {
+        const weights = options.weights ?? providers.map(() => 1);
+        validateWeights(weights, providers.length);
+        order = createWeightedOrder(weights, options.random ?? Math.random);
+    } else {
+        order = createRoundRobinOrder(providers.length);
+    }
+
+    return new CompositeProvider({
+        providers: [...providers],
+        order,
+        shouldFallback: options.shouldFallback ?? isTransientProviderError,
+        logger: noopLogger,
+    });
+}
@@ -0,0 +1,182 @@
+import type { LanguageModel, wrapLanguageModel } from 'ai';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type { Logger } from '../../observability/logger.js';
+import type { ModelPricing, ProviderPricing, ProviderType } from '../../pricing/index.js';
+import type { RoutedModel, ServingTarget } from '../../session/index.js';
+import { deepMerge } from '../../utils/deep-merge.js';
+import type { ProviderSessionConfig } from '../base-provider.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+
+/** Decides whether a failed call should be retried on the next provider */
+export type ShouldFallback = (error: unknown) => boolean;
+
+/** A wrapped provider's session config, reduced to what is needed to serve a call */
+export interface CallTarget {
+    providerType: ProviderType;
+    defaultLanguageModel: LanguageModel | null;
+    modelFactory?: (modelId: string) => LanguageModel;
+    providerPricing?: ProviderPricing;
+    fallbackPricing?: ModelPricing;
+    defaultProviderOptions?: Record<string, Record<string, unknown>>;
+}
+
+export function toCallTarget(
+    config: ProviderSessionConfig,
+    pricingOverride?: ProviderPricing
+): CallTarget {
+    return {
+        providerType: config.providerType,
+        defaultLanguageModel: config.defaultLanguageModel ?? null,
+        modelFactory: config.modelFactory,
+        providerPricing:
+            pricingOverride || config.providerPricing
+                ? { ...config.providerPricing, ...pricingOverride }
+                : undefined,
+        fallbackPricing: config.fallbackPricing,
+        defaultProviderOptions: config.defaultProviderOptions,
+    };
+}
+
+interface Candidate {
+    target: CallTarget;
+    model: LanguageModelV3;
+}
+
+function asV3Model(model: LanguageModel, providerType: ProviderType): LanguageModelV3 {
+    if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+        throw new ConfigurationError(
+            `Provider '${providerType}' must supply a v3 LanguageModel to be used in a composite provider`,
+            { code: ConfigurationErrorCode.INVALID_CONFIG, context: { providerType } }
+        );
+    }
+    return model;
+}
+
+function resolveCandidates(
+    targets: CallTarget[],
+    requestedModelId: string | undefined
+): Candidate[] {
+    const candidates: Candidate[] = [];
+
+    targets.forEach((target, index) => {
+        // An explicitly requested model belongs to the first target; the rest use their defaults
+        if (requestedModelId && index === 0) {
+            if (!target.modelFactory) {
+                throw new ConfigurationError(
+                    `Model '${requestedModelId}' requested but provider '${target.providerType}' has no modelFactory`,
+                    { code: ConfigurationErrorCode.INVALID_CONFIG, context: { requestedModelId } }
+                );
+            }
+            candidates.push({
+                target,
+                model: asV3Model(target.modelFactory(requestedModelId), target.providerType),
+            });
+            return;
+        }
+        if (target.defaultLanguageModel) {
+            candidates.push({
+                target,
+                model: asV3Model(target.defaultLanguageModel, target.providerType),
+            });
+        }
+    });
+
+    if (candidates.length === 0) {
+        throw new ConfigurationError(
+            'No model specified and none of the wrapped providers has a default model. ' +
+                'Call withDefaultModel() on at least one of them.',
+            { code: ConfigurationErrorCode.MISSING_REQUIRED }
+        );
+    }
+    return candidates;
+}
+
+function withTargetOptions(candidate: Candidate, options: CallOptions): CallOptions {
+    const defaults = candidate.target.defaultProviderOptions;
+    if (!defaults) return options;
+    return {
+        ...options,
+        providerOptions: deepMerge(defaults, options.providerOptions) as CallOptions['providerOptions'],
+    };
+}
+
+/**
+ * Creates the model for one LLM call.
+ *
+ * The first step of the call tries each target in order until one succeeds (or
+ * `shouldFallback` rejects the error); later steps of the same call (tool loops)
+ * stay on the target that served the first one.
+ */
+export function createFallbackModel(
+    targets: CallTarget[],
+    requestedModelId: string | undefined,
+    shouldFallback: ShouldFallback,
+    logger: Logger
+): RoutedModel {
+    const candidates = resolveCandidates(targets, requestedModelId);
+    const primary = candidates[0].model;
+    let served: Candidate | undefined;
+
+    async function attempt<T>(
+        options: CallOptions,
+        run: (model: LanguageModelV3, options: CallOptions) => PromiseLike<T>
+    ): Promise<T> {
+        if (served) {
+            return run(served.model, withTargetOptions(served, options));
+        }
+
+        for (let i = 0; i < candidates.length; i++) {
+            const candidate = candidates[i];
+            try {
+                const result = await run(candidate.model, withTargetOptions(candidate, options));
+                served = candidate;
+                return result;
+            } catch (error) {
+                const next = candidates[i + 1];
+                if (!next || options.abortSignal?.aborted || !shouldFallback(error)) {
+                    throw error;
+                }
+                logger.log?.(
+                    'warn',
+                    `LLM call failed on ${candidate.target.providerType}/${candidate.model.modelId}, ` +
+                        `falling back to ${next.target.providerType}/${next.model.modelId}`,
+                    {
+                        failedProvider: candidate.target.providerType,
+                        failedModel: candidate.model.modelId,
+                        nextProvider: next.target.providerType,
+                        nextModel: next.model.modelId,
+                        error: error instanceof Error ? error.message : String(error),
+                    }
+                );
+            }
+        }
+
+        // Unreachable: the last candidate either succeeds or rethrows
+        throw new Error('No candidate served the call');
+    }
+
+    const model: LanguageModelV3 = {
+        specificationVersion: 'v3',
+        provider: primary.provider,
+        modelId: primary.modelId,
+        supportedUrls: primary.supportedUrls,
+        doGenerate: (options) => attempt(options, (m, o) => m.doGenerate(o)),
+        doStream: (options) => attempt(options, (m, o) => m.doStream(o)),
+    };
+
+    return {
+        model,
+        servedBy(): ServingTarget | undefined {
+            if (!served) return undefined;
+            return {
+                providerType: served.target.providerType,
+                modelId: served.model.modelId,
+                providerPricing: served.target.providerPricing,
+                fallbackPricing: served.target.fallbackPricing,
+            };
+        },
+    };
+}
@@ -0,0 +1,17 @@
+/**
+ * Composite Provider Module
+ *
+ * Exports providers that wrap several other providers: ordered fallback
+ * and round-robin/weighted routing.
+ */
+
+export {
+    createFallbackProvider,
+    createRoutingProvider,
+    CompositeProvider,
+    type FallbackProviderOptions,
+    type RoutingProviderOptions,
+    type RoutingStrategy,
+} from './factory.js';
+
+export type { ShouldFallback } from './fallback-model.js';
@@ -0,0 +1,149 @@
+import { APICallError, RetryError } from 'ai';
+import { describe, expect, it } from 'vitest';
+
+import { ExecutionError, ExecutionErrorCode } from '../errors/index.js';
+import {
+    classifyProviderError,
+    getRetryAfterMs,
+    isTransientProviderError,
+} from './error-classification.js';
+
+function apiError(statusCode?: number, isRetryable = false): APICallError {
+    return new APICallError({
+        message: `HTTP ${statusCode ?? 'n/a'}`,
+        url: 'https://api.example.com/v1/chat',
+        requestBodyValues: {},
+        statusCode,
+        isRetryable,
+    });
+}
+
+function errorWithCode(code: string): Error {
+    return Object.assign(new Error(code), { code });
+}
+
+describe('classifyProviderError', () => {
+    it.each([
+        [429, 'rate_limit'],
+        [408, 'timeout'],
+        [500, 'server'],
+        [503, 'server'],
+        [529, 'server'],
+        [400, 'client'],
+        [401, 'client'],
+        [404, 'client'],
+    ] as const)('should classify HTTP %i as %s', (status, kind) => {
+        expect(classifyProviderError(apiError(status))).toBe(kind);
+    });
+
+    it('should classify retryable APICallError without status as network', () => {
+        expect(classifyProviderError(apiError(undefined, true))).toBe('network');
+    });
+
+    it.each([
+        ['ECONNRESET', 'network'],
+        ['ENOTFOUND', 'network'],
+        ['ETIMEDOUT', 'timeout'],
+        ['UND_ERR_HEADERS_TIMEOUT', 'timeout'],
+    ] as const)('should classify error code %s as %s', (code, kind) => {
+        expect(classifyProviderError(errorWithCode(code))).toBe(kind);
+    });
+
+    it('should classify fetch failures as network', () => {
+        expect(classifyProviderError(new TypeError('fetch failed'))).toBe('network');
+    });
+
+    it('should classify AbortError as aborted and TimeoutError as timeout', () => {
+        const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+        const timeout = Object.assign(new Error('timed out'), { name: 'TimeoutError' });
+
+        expect(classifyProviderError(abort)).toBe('aborted');
+        expect(classifyProviderError(timeout)).toBe('timeout');
+    });
+
+    it('should use the last attempt of a RetryError', () => {
+        const error = new RetryError({
+            message: 'Failed after 3 attempts',
+            reason: 'maxRetriesExceeded',
+            errors: [apiError(500), apiError(429)],
+        });
+
+        expect(classifyProviderError(error)).toBe('rate_limit');
+    });
+
+    it('should follow cause chains', () => {
+        const wrapped = new ExecutionError('LLM call failed', {
+            code: ExecutionErrorCode.EXECUTION_ERROR,
+            cause: apiError(503),
+        });
+
+        expect(classifyProviderError(wrapped)).toBe('server');
+    });
+
+    it('should return unknown for unrelated errors', () => {
+        expect(classifyProviderError(new Error('boom'))).toBe('unknown');
+        expect(classifyProviderError('boom')).toBe('unknown');
+    });
+});
+
+describe('isTransientProviderError', () => {
+    it('should be true for rate limits, server errors, timeouts and network errors', () => {
+        expect(isTransientProviderError(apiError(429))).toBe(true);
+        expect(isTransientProviderError(apiError(502))).toBe(true);
+        expect(isTransientProviderError(errorWithCode('ETIMEDOUT'))).toBe(true);
+        expect(isTransientProviderError(errorWithCode('ECONNREFUSED'))).toBe(true);
+    });
+
+    it('should be false for client errors, aborts and unknown errors', () => {
+        expect(isTransientProviderError(apiError(400))).toBe(false);
+        expect(
+            isTransientProviderError(Object.assign(new Error('x'), { name: 'AbortError' }))
+        ).toBe(false);
+        expect(isTransientProviderError(new Error('boom'))).toBe(false);
+    });
+});
+
+describe('getRetryAfterMs', () => {
+    function withHeaders(responseHeaders: Record<string, string>): APICallError {
+        return new APICallError({
+            message: 'HTTP 429',
+            url: 'https://api.example.com/v1/chat',
+            requestBodyValues: {},
+            statusCode: 429,
+            responseHeaders,
+        });
+    }
+
+    it('should parse delay-seconds', () => {
+        expect(getRetryAfterMs(withHeaders({ 'retry-after': '2' }))).toBe(2000);
+    });
+
+    it('should parse an HTTP-date relative to now', () => {
+        const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+        const error = withHeaders({ 'retry-after': 'Wed, 21 Oct 2026 07:28:05 GMT' });
+
+        expect(getRetryAfterMs(error, now)).toBe(5000);
+    });
+
+    it('should prefer retry-after-ms and match headers case-insensitively', () => {
+        const error = withHeaders({ 'Retry-After': '2', 'retry-after-ms': '150' });
+
+        expect(getRetryAfterMs(error)).toBe(150);
+    });
+
+    it('should find the header through RetryError and cause chains', () => {
+        const retryError = new RetryError({
+            message: 'Failed after 3 attempts',
+            reason: 'maxRetriesExceeded',
+            errors: [withHeaders({ 'retry-after': '1' })],
+        });
+
+        expect(getRetryAfterMs(new Error('wrapped', { cause: retryError }))).toBe(1000);
+    });
+
+    it('should return undefined without a usable header', () => {
+        expect(getRetryAfterMs(withHeaders({}))).toBeUndefined();
+        expect(getRetryAfterMs(withHeaders({ 'retry-after': 'soon' }))).toBeUndefined();
+        expect(getRetryAfterMs(new Error('boom'))).toBeUndefined();
+    });
+});
@@ -0,0 +1,155 @@
+import { APICallError, RetryError } from 'ai';
+
+/**
+ * Coarse category of a failed LLM call.
+ * - `rate_limit`: HTTP 429
+ * - `server`: HTTP 5xx (including 529 "overloaded")
+ * - `timeout`: HTTP 408 or a request/socket timeout
+ * - `network`: connection failures before a response was received
+ * - `aborted`: cancelled via AbortSignal
+ * - `client`: other HTTP 4xx (bad request, auth, not found)
+ * - `unknown`: anything else
+ */
+export type ProviderErrorKind =
+    | 'rate_limit'
+    | 'server'
+    | 'timeout'
+    | 'network'
+    | 'aborted'
+    | 'client'
+    | 'unknown';
+
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'EPIPE',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const TIMEOUT_ERROR_CODES = new Set([
+    'ETIMEDOUT',
+    'ESOCKETTIMEDOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+    'UND_ERR_BODY_TIMEOUT',
+]);
+
+function getErrorCode(error: Error): string | undefined {
+    const code = (error as { code?: unknown }).code;
+    return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Unwraps AI SDK RetryError (classified by its last attempt) and follows `cause` chains
+ * until a classifiable error is found.
+ */
+function* errorChain(error: unknown): Generator<unknown> {
+    const seen = new Set<unknown>();
+    let current: unknown = error;
+
+    while (current !== undefined && current !== null && !seen.has(current)) {
+        seen.add(current);
+        yield current;
+        current = RetryError.isInstance(current)
+            ? current.lastError
+            : current instanceof Error
+              ? current.cause
+              : undefined;
+    }
+}
+
+function classifyStatus(statusCode: number): ProviderErrorKind {
+    if (statusCode === 429) return 'rate_limit';
+    if (statusCode === 408) return 'timeout';
+    if (statusCode >= 500) return 'server';
+    if (statusCode >= 400) return 'client';
+    return 'unknown';
+}
+
+function classifyOne(error: unknown): ProviderErrorKind {
+    if (APICallError.isInstance(error)) {
+        if (error.statusCode !== undefined) return classifyStatus(error.statusCode);
+        if (error.isRetryable) return 'network';
+        return 'unknown';
+    }
+
+    if (!(error instanceof Error)) return 'unknown';
+
+    if (error.name === 'AbortError') return 'aborted';
+    if (error.name === 'TimeoutError') return 'timeout';
+
+    const code = getErrorCode(error);
+    if (code && TIMEOUT_ERROR_CODES.has(code)) return 'timeout';
+    if (code && NETWORK_ERROR_CODES.has(code)) return 'network';
+
+    // undici reports connection failures as TypeError('fetch failed')
+    if (error instanceof TypeError && error.message === 'fetch failed') return 'network';
+
+    return 'unknown';
+}
+
+/**
+ * Classify an error thrown by an LLM call.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await session.generateText({ prompt });
+ * } catch (error) {
+ *   if (classifyProviderError(error) === 'rate_limit') {
+ *     // back off
+ *   }
+ * }
+ * ```
+ */
+export function classifyProviderError(error: unknown): ProviderErrorKind {
+    for (const candidate of errorChain(error)) {
+        const kind = classifyOne(candidate);
+        if (kind !== 'unknown') return kind;
+    }
+    return 'unknown';
+}
+
+/**
+ * Whether an error is likely to succeed on retry or on another provider
+ * (rate limits, server errors, timeouts and network failures).
+ */
+export function isTransientProviderError(error: unknown): boolean {
+    const kind = classifyProviderError(error);
+    return kind === 'rate_limit' || kind === 'server' || kind === 'timeout' || kind === 'network';
+}
+
+function parseRetryAfter(headers: Record<string, string>, now: number): number | undefined {
+    // Non-standard but sent by OpenAI and Azure, with sub-second precision
+    const retryAfterMs = Number.parseFloat(headers['retry-after-ms'] ?? '');
+    if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+    const retryAfter = headers['retry-after']?.trim();
+    if (!retryAfter) return undefined;
+
+    // Either delay-seconds or an HTTP-date (RFC 9110 section 10.2.3)
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) return Number.parseFloat(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay requested by the provider via `Retry-After` (or `retry-after-ms`) response headers,
+ * in milliseconds. Returns undefined when the error carries no such header.
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+    for (const candidate of errorChain(error)) {
+        if (!APICallError.isInstance(candidate) || !candidate.responseHeaders) continue;
+
+        const headers = Object.fromEntries(
+            Object.entries(candidate.responseHeaders).map(([key, value]) => [key.toLowerCase(), value])
+        );
+        const delay = parseRetryAfter(headers, now);
+        if (delay !== undefined) return delay;
+    }
+    return undefined;
+}
@@ -4,11 +4,31 @@ import type { Logger } from '../../observability/logger.js';
 import { noopLogger } from '../../observability/logger.js';
 import type { ProviderPricing } from '../../pricing/index.js';
 import { validateProviderPricing } from '../../pricing/index.js';
-import type { GenerationOptions } from '../../session/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../../session/index.js';
 import { GoogleFileManager } from './file-manager.js';
 import { SimpleSession } from '../../session/simple-session.js';
 import { StreamingSession } from '../../session/streaming-session.js';
-import { BaseProvider } from '../base-provider.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../base-provider.js';
 import type { FileCache } from '../types.js';
 import { InMemoryFileCache } from '../file-cache.js';
 
@@ -47,6 +67,12 @@ interface GoogleProviderState {
     urlContextEnabled: boolean;
     fileCache?: FileCache;
     defaultGenOptions?: GenerationOptions;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
 }
 
 export class GoogleProvider extends BaseProvider {
@@ -91,6 +117,34 @@ export class GoogleProvider extends BaseProvider {
         return new GoogleProvider({ ...this.config, defaultGenOptions: options });
     }
 
+    withRetryPolicy(policy: RetryPolicy): GoogleProvider {
+        validateRetryPolicy(policy);
+        return new GoogleProvider({ ...this.config, retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): GoogleProvider {
+        validateBudget(budget);
+        return new GoogleProvider({ ...this.config, budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): GoogleProvider {
+        return new GoogleProvider({ ...this.config, responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): GoogleProvider {
+        validateContextGuard(options);
+        return new GoogleProvider({ ...this.config, contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): GoogleProvider {
+        validateToolPolicy(policy);
+        return new GoogleProvider({ ...this.config, toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): GoogleProvider {
+        return new GoogleProvider({ ...this.config, checkpointStore: store });
+    }
+
     /**
      * Enable Google Search grounding for all LLM calls.
      * Allows the model to access real-time web information.
@@ -141,7 +195,7 @@ export class GoogleProvider extends BaseProvider {
         return new GoogleProvider({ ...this.config, fileCache: cache ?? new InMemoryFileCache() });
     }
 
-    private getSessionConfig() {
+    protected getSessionConfig(): ProviderSessionConfig {
         const { searchEnabled, urlContextEnabled } = this.config;
 
         const defaultTools = {
@@ -155,7 +209,7 @@ export class GoogleProvider extends BaseProvider {
                 ? this.createModel(this.config.defaultModelId)
                 : null,
             modelFactory: (modelId: string) => this.createModel(modelId),
-            providerType: 'google' as const,
+            providerType: 'google',
             providerPricing: this.config.pricingConfig,
             fileManager: new GoogleFileManager(this.config.apiKey, { cache: this.config.fileCache }),
             logger: this.config.logger,
@@ -164,17 +218,26 @@ export class GoogleProvider extends BaseProvider {
                 : undefined,
             defaultTools: hasDefaultTools ? defaultTools : undefined,
             defaultGenerationOptions: this.config.defaultGenOptions,
+            retryPolicy: this.config.retryPolicy,
+            budget: this.config.budget,
+            responseCache: this.config.responseCache,
+            contextGuard: this.config.contextGuard,
+            toolPolicy: this.config.toolPolicy,
+            checkpointStore: this.config.checkpointStore,
         };
     }
 
     protected createStreamingSession<
         TEvent extends { type: string },
-    >(signal?: AbortSignal): StreamingSession<TEvent> {
-        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), signal });
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
     }
 
-    protected createSimpleSession(signal?: AbortSignal): SimpleSession {
-        return new SimpleSession({ ...this.getSessionConfig(), signal });
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
     }
 
     /**
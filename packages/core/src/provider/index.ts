@@ -19,11 +19,23 @@ export {
 
 export { computeFileSourceHash } from './hash.js';
 
+export {
+    classifyProviderError,
+    isTransientProviderError,
+    getRetryAfterMs,
+    type ProviderErrorKind,
+} from './error-classification.js';
+
 export { InMemoryFileCache, type InMemoryFileCacheOptions } from './file-cache.js';
 
-export { BaseProvider } from './base-provider.js';
+export {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from './base-provider.js';
 export { BaseFileManager } from './base-file-manager.js';
 export { NoOpFileManager } from './noop-file-manager.js';
+export { InlineFileManager, type InlineFileManagerOptions } from './inline-file-manager.js';
 
 export {
     EXTENSION_TO_MIME,
@@ -57,3 +69,29 @@ export {
     type OpenAIFileManagerOptions,
     type OpenAIChatLanguageModelOptions,
 } from './openai/index.js';
+
+export {
+    createAnthropicProvider,
+    AnthropicProvider,
+    AnthropicFileManager,
+    type AnthropicProviderConfig,
+    type AnthropicProviderOptions,
+} from './anthropic/index.js';
+
+export {
+    createOpenAICompatibleProvider,
+    OpenAICompatibleProvider,
+    type OpenAICompatibleProviderConfig,
+    type OpenAICompatibleFileStrategy,
+    type OpenAICompatibleProviderOptions,
+} from './openai-compatible/index.js';
+
+export {
+    createFallbackProvider,
+    createRoutingProvider,
+    CompositeProvider,
+    type FallbackProviderOptions,
+    type RoutingProviderOptions,
+    type RoutingStrategy,
+    type ShouldFallback,
+} from './composite/index.js';
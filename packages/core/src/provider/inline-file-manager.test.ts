@@ -0,0 +1,139 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { FileError, FileErrorCode } from '../errors/index.js';
+import { InMemoryFileCache } from './file-cache.js';
+import { InlineFileManager } from './inline-file-manager.js';
+
+describe('InlineFileManager', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await mkdtemp(path.join(tmpdir(), 'inline-fm-'));
+    });
+
+    afterAll(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    describe('upload', () => {
+        it('should inline image data as ImagePart', async () => {
+            const fileManager = new InlineFileManager();
+
+            const [result] = await fileManager.upload([
+                { source: 'data', data: Buffer.from('png bytes'), mediaType: 'image/png' },
+            ]);
+
+            expect(result.id).toBeNull();
+            expect(result.part).toEqual({
+                type: 'image',
+                image: Buffer.from('png bytes'),
+                mediaType: 'image/png',
+            });
+        });
+
+        it('should decode base64 PDF into FilePart bytes', async () => {
+            const fileManager = new InlineFileManager();
+
+            const [result] = await fileManager.upload([
+                {
+                    source: 'base64',
+                    data: 'JVBERi0=',
+                    mediaType: 'application/pdf',
+                    filename: 'doc.pdf',
+                },
+            ]);
+
+            expect(result.part).toEqual({
+                type: 'file',
+                data: Buffer.from('JVBERi0=', 'base64'),
+                mediaType: 'application/pdf',
+                filename: 'doc.pdf',
+            });
+        });
+
+        it('should read path sources and infer media type', async () => {
+            const filePath = path.join(tempDir, 'notes.txt');
+            await writeFile(filePath, 'hello');
+            const fileManager = new InlineFileManager();
+
+            const [result] = await fileManager.upload([{ source: 'path', path: filePath }]);
+
+            expect(result.part).toEqual({
+                type: 'file',
+                data: Buffer.from('hello'),
+                mediaType: 'text/plain',
+                filename: 'notes.txt',
+            });
+        });
+
+        it('should pass URL sources through without encoding', async () => {
+            const fileManager = new InlineFileManager();
+
+            const [result] = await fileManager.upload([
+                { source: 'url', url: 'https://example.com/a.pdf', mediaType: 'application/pdf' },
+            ]);
+
+            expect(result.id).toBeNull();
+            expect(result.part).toMatchObject({ type: 'file', mediaType: 'application/pdf' });
+        });
+
+        it('should reject media types the predicate does not accept', async () => {
+            const fileManager = new InlineFileManager({
+                providerName: 'local',
+                isSupportedMediaType: (mediaType) => mediaType.startsWith('image/'),
+            });
+
+            const error = await fileManager
+                .upload([{ source: 'data', data: Buffer.from('{}'), mediaType: 'application/json' }])
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(FileError);
+            expect((error as FileError).message).toContain('Unsupported media type for local');
+            const cause = (error as FileError).cause as FileError;
+            expect(cause.code).toBe(FileErrorCode.UNSUPPORTED_TYPE);
+            expect(cause.context).toMatchObject({
+                provider: 'local',
+                mediaType: 'application/json',
+            });
+        });
+
+        it('should accept any media type by default', async () => {
+            const fileManager = new InlineFileManager();
+
+            const [result] = await fileManager.upload([
+                { source: 'data', data: Buffer.from('{}'), mediaType: 'application/json' },
+            ]);
+
+            expect(result.part).toMatchObject({ type: 'file', mediaType: 'application/json' });
+        });
+
+        it('should reuse cached parts for identical sources', async () => {
+            const cache = new InMemoryFileCache();
+            const getSpy = vi.spyOn(cache, 'get');
+            const fileManager = new InlineFileManager({ cache });
+            const source = { source: 'base64' as const, data: 'aGk=', mediaType: 'text/plain' };
+
+            const [first] = await fileManager.upload([source]);
+            const [second] = await fileManager.upload([source]);
+
+            expect(second).toBe(first);
+            expect(getSpy).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('delete', () => {
+        it('should be a no-op for inline files', async () => {
+            const fileManager = new InlineFileManager();
+            await fileManager.upload([
+                { source: 'data', data: Buffer.from('x'), mediaType: 'image/jpeg' },
+            ]);
+
+            await expect(fileManager.clear()).resolves.toBeUndefined();
+            expect(fileManager.getUploadedFiles()).toHaveLength(0);
+        });
+    });
+});
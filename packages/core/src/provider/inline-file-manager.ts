@@ -0,0 +1,79 @@
+import type { FilePart, ImagePart } from 'ai';
+
+import { FileError, FileErrorCode } from '../errors/index.js';
+import { BaseFileManager } from './base-file-manager.js';
+import { resolveFileSource } from './file-source.js';
+import { isImageMediaType } from './file-utils.js';
+import type {
+    FileManagerOptions,
+    FileSource,
+    FileSourceBase64,
+    FileSourceData,
+    FileSourceUrl,
+    UploadedFile,
+} from './types.js';
+
+export interface InlineFileManagerOptions extends FileManagerOptions {
+    /** Provider name used in error messages and context */
+    providerName?: string;
+    /** Returns false for media types the provider cannot accept inline (default: accept all) */
+    isSupportedMediaType?: (mediaType: string) => boolean;
+}
+
+/**
+ * FileManager that sends files inline with the prompt instead of uploading them.
+ *
+ * Non-URL sources are read into memory and attached as raw bytes; URL sources are
+ * passed through. Nothing is stored remotely, so every result has `id: null`.
+ */
+export class InlineFileManager extends BaseFileManager {
+    private readonly providerName: string;
+    private readonly isSupportedMediaType: (mediaType: string) => boolean;
+
+    constructor(options?: InlineFileManagerOptions) {
+        super(options);
+        this.providerName = options?.providerName ?? 'inline';
+        this.isSupportedMediaType = options?.isSupportedMediaType ?? (() => true);
+    }
+
+    protected async uploadToProvider(
+        source: Exclude<FileSource, FileSourceUrl>,
+        index: number
+    ): Promise<UploadedFile> {
+        try {
+            // Path sources are read into data sources; the others come back unchanged
+            const resolved = (await resolveFileSource(source)) as FileSourceData | FileSourceBase64;
+            const data =
+                resolved.source === 'base64' ? Buffer.from(resolved.data, 'base64') : resolved.data;
+            const { mediaType, filename } = resolved;
+
+            if (!this.isSupportedMediaType(mediaType)) {
+                throw new FileError(
+                    `Unsupported media type for ${this.providerName}: ${mediaType}`,
+                    {
+                        code: FileErrorCode.UNSUPPORTED_TYPE,
+                        context: { provider: this.providerName, mediaType, index },
+                    }
+                );
+            }
+
+            const part: FilePart | ImagePart = isImageMediaType(mediaType)
+                ? { type: 'image', image: data, mediaType }
+                : { type: 'file', data, mediaType, filename };
+
+            return { id: null, part };
+        } catch (error) {
+            if (error instanceof FileError) throw error;
+            throw FileError.from(error, FileErrorCode.UPLOAD_ERROR, {
+                provider: this.providerName,
+                source: source.source,
+                mediaType: source.mediaType,
+                index,
+            });
+        }
+    }
+
+    protected async deleteFromProvider(_fileId: string): Promise<void> {
+        // Inline files are never stored remotely - nothing to delete
+    }
+}
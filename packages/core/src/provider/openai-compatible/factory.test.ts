@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { generateText } from 'ai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { ConfigurationError, ConfigurationErrorCode, FileError } from '../../errors/index.js';
+import { createOpenAICompatibleProvider } from './factory.js';
+
+// Mock @ai-sdk/openai-compatible
+const mockClientFn = vi.fn().mockImplementation((modelId: string) => ({ modelId }));
+vi.mock('@ai-sdk/openai-compatible', () => ({
+    createOpenAICompatible: vi.fn().mockImplementation(() => mockClientFn),
+}));
+
+// Mock AI SDK generateText/streamText
+vi.mock('ai', () => ({
+    generateText: vi.fn().mockResolvedValue({
+        text: 'test response',
+        usage: { inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000 },
+    }),
+    streamText: vi.fn(),
+}));
+
+const baseConfig = { baseURL: 'http://localhost:8000/v1', name: 'vllm' };
+
+describe('createOpenAICompatibleProvider', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('config', () => {
+        it('should pass name, baseURL, apiKey and headers to createOpenAICompatible', () => {
+            createOpenAICompatibleProvider({
+                ...baseConfig,
+                apiKey: 'secret',
+                headers: { 'X-Team': 'ml' },
+            });
+
+            expect(createOpenAICompatible).toHaveBeenCalledWith({
+                name: 'vllm',
+                baseURL: 'http://localhost:8000/v1',
+                apiKey: 'secret',
+                headers: { 'X-Team': 'ml' },
+                includeUsage: true,
+            });
+        });
+
+        it('should throw ConfigurationError when baseURL is missing', () => {
+            expect(() => createOpenAICompatibleProvider({ baseURL: '', name: 'vllm' })).toThrow(
+                ConfigurationError
+            );
+        });
+
+        it('should throw ConfigurationError when name is missing', () => {
+            try {
+                createOpenAICompatibleProvider({ baseURL: baseConfig.baseURL, name: '' });
+                expect.fail('should have thrown');
+            } catch (error) {
+                expect(error).toBeInstanceOf(ConfigurationError);
+                expect((error as ConfigurationError).code).toBe(
+                    ConfigurationErrorCode.MISSING_REQUIRED
+                );
+            }
+        });
+    });
+
+    describe('fluent API', () => {
+        it('should return new instance on each with* method', () => {
+            const provider = createOpenAICompatibleProvider(baseConfig);
+
+            expect(provider.withDefaultModel('llama3')).not.toBe(provider);
+            expect(provider.withLogger({})).not.toBe(provider);
+            expect(provider.withDefaultOptions({})).not.toBe(provider);
+            expect(provider.withDefaultGenerationOptions({ temperature: 0 })).not.toBe(provider);
+            expect(provider.withFileCache()).not.toBe(provider);
+            expect(
+                provider.withPricing({
+                    llama3: { inputPricePerMillion: 0.1, outputPricePerMillion: 0.2 },
+                })
+            ).not.toBe(provider);
+        });
+
+        it('should report provider name in pricing validation errors', () => {
+            const provider = createOpenAICompatibleProvider(baseConfig);
+
+            expect(() =>
+                provider.withPricing({
+                    llama3: { inputPricePerMillion: -1, outputPricePerMillion: 0 },
+                })
+            ).toThrow('vllm/llama3: inputPricePerMillion cannot be negative');
+        });
+    });
+
+    describe('session', () => {
+        it('should record calls under the configured provider name at zero cost', async () => {
+            const provider = createOpenAICompatibleProvider(baseConfig).withDefaultModel('llama3');
+
+            const result = await provider
+                .simpleExecution(async (session) => {
+                    await session.generateText({ prompt: 'Hello' });
+                    return 'done';
+                })
+                .result();
+
+            expect(result.summary.llmCalls[0].provider).toBe('vllm');
+            expect(result.summary.llmCost).toBe(0);
+            expect(result.summary.costByModel).toEqual({ 'vllm/llama3': 0 });
+        });
+
+        it('should bill models configured via withPricing()', async () => {
+            const provider = createOpenAICompatibleProvider(baseConfig)
+                .withDefaultModel('llama3')
+                .withPricing({ llama3: { inputPricePerMillion: 0.1, outputPricePerMillion: 0.2 } });
+
+            const result = await provider
+                .simpleExecution(async (session) => {
+                    await session.generateText({ prompt: 'Hello' });
+                    return 'done';
+                })
+                .result();
+
+            expect(result.summary.llmCost).toBeCloseTo(0.3);
+        });
+
+        it('should pass default options under the provider name', async () => {
+            const provider = createOpenAICompatibleProvider(baseConfig)
+                .withDefaultModel('llama3')
+                .withDefaultOptions({ reasoningEffort: 'low' });
+
+            await provider
+                .simpleExecution(async (session) => {
+                    await session.generateText({ prompt: 'Hello' });
+                    return 'done';
+                })
+                .result();
+
+            expect(vi.mocked(generateText)).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    providerOptions: { vllm: { reasoningEffort: 'low' } },
+                })
+            );
+        });
+    });
+
+    describe('file strategy', () => {
+        it('should inline files by default', async () => {
+            const provider = createOpenAICompatibleProvider(baseConfig).withDefaultModel('llama3');
+
+            const result = await provider
+                .simpleExecution(async (session) => {
+                    const [file] = await session.fileManager.upload([
+                        { source: 'data', data: Buffer.from('img'), mediaType: 'image/png' },
+                    ]);
+                    return file;
+                })
+                .result();
+
+            expect(result.status).toBe('succeeded');
+            if (result.status === 'succeeded') {
+                expect(result.value.id).toBeNull();
+                expect(result.value.part).toMatchObject({ type: 'image', mediaType: 'image/png' });
+            }
+        });
+
+        it("should reject uploads with fileStrategy: 'none'", async () => {
+            const provider = createOpenAICompatibleProvider({
+                ...baseConfig,
+                fileStrategy: 'none',
+            }).withDefaultModel('llama3');
+
+            const result = await provider
+                .simpleExecution(async (session) => {
+                    return session.fileManager.upload([
+                        { source: 'data', data: Buffer.from('img'), mediaType: 'image/png' },
+                    ]);
+                })
+                .result();
+
+            expect(result.status).toBe('failed');
+            if (result.status === 'failed') {
+                expect(result.error.cause ?? result.error).toBeInstanceOf(FileError);
+            }
+        });
+    });
+});
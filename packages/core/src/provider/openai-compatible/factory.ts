@@ -0,0 +1,253 @@
+import {
+    createOpenAICompatible,
+    type OpenAICompatibleProviderOptions,
+} from '@ai-sdk/openai-compatible';
+import { ConfigurationError, ConfigurationErrorCode } from '../../errors/index.js';
+import type { FileCache, FileManager } from '../types.js';
+import type { Logger } from '../../observability/logger.js';
+import { noopLogger } from '../../observability/logger.js';
+import type { ModelPricing, ProviderPricing } from '../../pricing/index.js';
+import { validateProviderPricing } from '../../pricing/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../../session/index.js';
+import { InMemoryFileCache } from '../file-cache.js';
+import { SimpleSession } from '../../session/simple-session.js';
+import { StreamingSession } from '../../session/streaming-session.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../base-provider.js';
+import { InlineFileManager } from '../inline-file-manager.js';
+import { NoOpFileManager } from '../noop-file-manager.js';
+
+/**
+ * How files are handed to the model.
+ * - `'inline'`: files are sent with the prompt (images, audio, PDF, text)
+ * - `'none'`: file uploads throw (for text-only servers)
+ */
+export type OpenAICompatibleFileStrategy = 'inline' | 'none';
+
+export interface OpenAICompatibleProviderConfig {
+    /** Base URL of the server, e.g. 'http://localhost:8000/v1' */
+    baseURL: string;
+    /**
+     * Provider name. Used as the ProviderType for pricing lookups and cost keys,
+     * and as the providerOptions key (e.g. 'vllm', 'ollama').
+     */
+    name: string;
+    /** Sent as `Authorization: Bearer <apiKey>` when set */
+    apiKey?: string;
+    /** Extra headers for every request */
+    headers?: Record<string, string>;
+    /** Defaults to 'inline' */
+    fileStrategy?: OpenAICompatibleFileStrategy;
+}
+
+interface OpenAICompatibleProviderState {
+    baseURL: string;
+    name: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+    fileStrategy: OpenAICompatibleFileStrategy;
+    defaultModelId: string | null;
+    logger: Logger;
+    pricingConfig?: ProviderPricing;
+    defaultOptions?: OpenAICompatibleProviderOptions;
+    fileCache?: FileCache;
+    defaultGenOptions?: GenerationOptions;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
+}
+
+/** Self-hosted models cost nothing per token unless pricing is configured */
+const ZERO_PRICING: ModelPricing = {
+    inputPricePerMillion: 0,
+    outputPricePerMillion: 0,
+};
+
+export class OpenAICompatibleProvider extends BaseProvider {
+    private readonly client: ReturnType<typeof createOpenAICompatible>;
+
+    constructor(private readonly config: OpenAICompatibleProviderState) {
+        super();
+        this.client = createOpenAICompatible({
+            name: config.name,
+            baseURL: config.baseURL,
+            apiKey: config.apiKey,
+            headers: config.headers,
+            includeUsage: true,
+        });
+    }
+
+    withDefaultModel(modelId: string): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, defaultModelId: modelId });
+    }
+
+    withLogger(newLogger: Logger): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, logger: newLogger });
+    }
+
+    /**
+     * Set per-model pricing. Models without an entry here, in the global config
+     * or in the built-in defaults are billed at zero cost.
+     */
+    withPricing(pricing: ProviderPricing): OpenAICompatibleProvider {
+        validateProviderPricing(pricing, this.config.name);
+        return new OpenAICompatibleProvider({ ...this.config, pricingConfig: pricing });
+    }
+
+    /**
+     * Set default provider-specific options for all LLM calls.
+     * These options are sent under the provider name and deep-merged with per-call providerOptions.
+     *
+     * @example
+     * ```typescript
+     * createOpenAICompatibleProvider({ baseURL: 'http://localhost:8000/v1', name: 'vllm' })
+     *   .withDefaultModel('Qwen/Qwen3-8B')
+     *   .withDefaultOptions({ reasoningEffort: 'low' })
+     * ```
+     */
+    withDefaultOptions(options: OpenAICompatibleProviderOptions): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, defaultOptions: options });
+    }
+
+    withDefaultGenerationOptions(options: GenerationOptions): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, defaultGenOptions: options });
+    }
+
+    withRetryPolicy(policy: RetryPolicy): OpenAICompatibleProvider {
+        validateRetryPolicy(policy);
+        return new OpenAICompatibleProvider({ ...this.config, retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): OpenAICompatibleProvider {
+        validateBudget(budget);
+        return new OpenAICompatibleProvider({ ...this.config, budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): OpenAICompatibleProvider {
+        validateContextGuard(options);
+        return new OpenAICompatibleProvider({ ...this.config, contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): OpenAICompatibleProvider {
+        validateToolPolicy(policy);
+        return new OpenAICompatibleProvider({ ...this.config, toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({ ...this.config, checkpointStore: store });
+    }
+
+    /**
+     * Enable file caching to avoid re-reading the same files across sessions.
+     * If no cache is provided, uses an in-memory cache. Has no effect with `fileStrategy: 'none'`.
+     */
+    withFileCache(cache?: FileCache): OpenAICompatibleProvider {
+        return new OpenAICompatibleProvider({
+            ...this.config,
+            fileCache: cache ?? new InMemoryFileCache(),
+        });
+    }
+
+    private createFileManager(): FileManager {
+        if (this.config.fileStrategy === 'none') {
+            return new NoOpFileManager();
+        }
+        return new InlineFileManager({
+            providerName: this.config.name,
+            cache: this.config.fileCache,
+        });
+    }
+
+    protected getSessionConfig(): ProviderSessionConfig {
+        return {
+            defaultLanguageModel: this.config.defaultModelId
+                ? this.client(this.config.defaultModelId)
+                : null,
+            modelFactory: (modelId: string) => this.client(modelId),
+            providerType: this.config.name,
+            providerPricing: this.config.pricingConfig,
+            fallbackPricing: ZERO_PRICING,
+            fileManager: this.createFileManager(),
+            logger: this.config.logger,
+            defaultProviderOptions: this.config.defaultOptions
+                ? { [this.config.name]: this.config.defaultOptions }
+                : undefined,
+            defaultGenerationOptions: this.config.defaultGenOptions,
+            retryPolicy: this.config.retryPolicy,
+            budget: this.config.budget,
+            responseCache: this.config.responseCache,
+            contextGuard: this.config.contextGuard,
+            toolPolicy: this.config.toolPolicy,
+            checkpointStore: this.config.checkpointStore,
+        };
+    }
+
+    protected createStreamingSession<
+        TEvent extends { type: string },
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+}
+
+export function createOpenAICompatibleProvider(
+    config: OpenAICompatibleProviderConfig
+): OpenAICompatibleProvider {
+    if (!config.baseURL) {
+        throw new ConfigurationError('OpenAI-compatible provider requires a baseURL', {
+            code: ConfigurationErrorCode.MISSING_REQUIRED,
+            context: { field: 'baseURL', name: config.name },
+        });
+    }
+    if (!config.name) {
+        throw new ConfigurationError('OpenAI-compatible provider requires a name', {
+            code: ConfigurationErrorCode.MISSING_REQUIRED,
+            context: { field: 'name', baseURL: config.baseURL },
+        });
+    }
+
+    return new OpenAICompatibleProvider({
+        baseURL: config.baseURL,
+        name: config.name,
+        apiKey: config.apiKey,
+        headers: config.headers,
+        fileStrategy: config.fileStrategy ?? 'inline',
+        defaultModelId: null,
+        logger: noopLogger,
+    });
+}
+
+// Re-export provider options type for consumers
+export type { OpenAICompatibleProviderOptions } from '@ai-sdk/openai-compatible';
@@ -0,0 +1,14 @@
+/**
+ * OpenAI-Compatible Provider Module
+ *
+ * Exports a provider factory for self-hosted servers that speak the
+ * OpenAI Chat Completions protocol (vLLM, Ollama, LM Studio, etc.).
+ */
+
+export {
+    createOpenAICompatibleProvider,
+    OpenAICompatibleProvider,
+    type OpenAICompatibleProviderConfig,
+    type OpenAICompatibleFileStrategy,
+    type OpenAICompatibleProviderOptions,
+} from './factory.js';
@@ -127,6 +127,21 @@ describe('createOpenAIProvider', () => {
                 })
             ).toThrow('openai/gpt-4o-mini: inputPricePerMillion must be a finite number');
         });
+
+        it('should return new instance on withRetryPolicy()', () => {
+            const provider1 = createOpenAIProvider({ apiKey: 'test-api-key' });
+            const provider2 = provider1.withRetryPolicy({ maxAttempts: 3 });
+
+            expect(provider2).not.toBe(provider1);
+        });
+
+        it('should throw on invalid maxAttempts in withRetryPolicy()', () => {
+            const provider = createOpenAIProvider({ apiKey: 'test-api-key' });
+
+            expect(() => provider.withRetryPolicy({ maxAttempts: 0 })).toThrow(
+                'Invalid retry policy: maxAttempts must be a positive integer'
+            );
+        });
     });
 
     describe('streamingExecution', () => {
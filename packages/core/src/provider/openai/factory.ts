@@ -4,11 +4,31 @@ import type { Logger } from '../../observability/logger.js';
 import { noopLogger } from '../../observability/logger.js';
 import type { ProviderPricing } from '../../pricing/index.js';
 import { validateProviderPricing } from '../../pricing/index.js';
-import type { GenerationOptions } from '../../session/index.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../../session/index.js';
 import { InMemoryFileCache } from '../file-cache.js';
 import { SimpleSession } from '../../session/simple-session.js';
 import { StreamingSession } from '../../session/streaming-session.js';
-import { BaseProvider } from '../base-provider.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../base-provider.js';
 import { OpenAIFileManager } from './file-manager.js';
 
 export interface OpenAIProviderConfig {
@@ -27,6 +47,12 @@ interface OpenAIProviderState {
     defaultOptions?: OpenAIChatLanguageModelOptions;
     fileCache?: FileCache;
     defaultGenOptions?: GenerationOptions;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
 }
 
 class OpenAIProvider extends BaseProvider {
@@ -76,6 +102,34 @@ class OpenAIProvider extends BaseProvider {
         return new OpenAIProvider({ ...this.config, defaultGenOptions: options });
     }
 
+    withRetryPolicy(policy: RetryPolicy): OpenAIProvider {
+        validateRetryPolicy(policy);
+        return new OpenAIProvider({ ...this.config, retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): OpenAIProvider {
+        validateBudget(budget);
+        return new OpenAIProvider({ ...this.config, budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): OpenAIProvider {
+        return new OpenAIProvider({ ...this.config, responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): OpenAIProvider {
+        validateContextGuard(options);
+        return new OpenAIProvider({ ...this.config, contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): OpenAIProvider {
+        validateToolPolicy(policy);
+        return new OpenAIProvider({ ...this.config, toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): OpenAIProvider {
+        return new OpenAIProvider({ ...this.config, checkpointStore: store });
+    }
+
     /**
      * Enable file caching to prevent duplicate uploads across sessions.
      * If no cache is provided, uses an in-memory cache.
@@ -90,13 +144,13 @@ class OpenAIProvider extends BaseProvider {
         return new OpenAIProvider({ ...this.config, fileCache: cache ?? new InMemoryFileCache() });
     }
 
-    private getSessionConfig() {
+    protected getSessionConfig(): ProviderSessionConfig {
         return {
             defaultLanguageModel: this.config.defaultModelId
                 ? this.openai(this.config.defaultModelId)
                 : null,
             modelFactory: (modelId: string) => this.openai(modelId),
-            providerType: 'openai' as const,
+            providerType: 'openai',
             providerPricing: this.config.pricingConfig,
             fileManager: new OpenAIFileManager(this.config.apiKey, {
                 baseURL: this.config.baseURL,
@@ -108,17 +162,26 @@ class OpenAIProvider extends BaseProvider {
                 ? { openai: this.config.defaultOptions }
                 : undefined,
             defaultGenerationOptions: this.config.defaultGenOptions,
+            retryPolicy: this.config.retryPolicy,
+            budget: this.config.budget,
+            responseCache: this.config.responseCache,
+            contextGuard: this.config.contextGuard,
+            toolPolicy: this.config.toolPolicy,
+            checkpointStore: this.config.checkpointStore,
         };
     }
 
     protected createStreamingSession<
         TEvent extends { type: string },
-    >(signal?: AbortSignal): StreamingSession<TEvent> {
-        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), signal });
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
     }
 
-    protected createSimpleSession(signal?: AbortSignal): SimpleSession {
-        return new SimpleSession({ ...this.getSessionConfig(), signal });
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
     }
 }
 
@@ -10,13 +10,20 @@ import type { Logger } from '../observability/logger.js';
 import type { ProviderPricing } from '../pricing/index.js';
 import { SimpleSession, StreamingSession } from '../session/index.js';
 import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
     GenerateTextParams,
     GenerateTextResultTyped,
     GenerationOptions,
     OutputSpec,
+    ResponseCache,
+    ResponseCacheOptions,
+    RetryPolicy,
     StreamTextParams,
     StreamTextResultTyped,
     ToolCallSummary,
+    ToolPolicy,
 } from '../session/index.js';
 
 type DefaultOutput = OutputSpec<string, string>;
@@ -128,6 +135,49 @@ export interface Provider {
      */
     withDefaultGenerationOptions(options: GenerationOptions): Provider;
 
+    /**
+     * Retry transient LLM failures (rate limits, 5xx, timeouts, network errors)
+     * with exponential backoff, honoring Retry-After.
+     * @throws ConfigurationError if the policy is invalid
+     */
+    withRetryPolicy(policy: RetryPolicy): Provider;
+
+    /**
+     * Limit cost, tokens and LLM calls per execution. Calls that would exceed
+     * the budget throw BudgetExceededError instead of being made.
+     * @throws ConfigurationError if the budget is invalid
+     */
+    withBudget(budget: Budget): Provider;
+
+    /**
+     * Serve repeated requests (same model, messages, tools, output schema and
+     * generation options) from a response cache. Cached calls are recorded with
+     * zero usage and `cached: true`.
+     */
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): Provider;
+
+    /**
+     * Check every request against the model's context window and output limit
+     * (from the built-in model registry or `options.models`) before it is sent.
+     * Requests that do not fit are truncated as configured, or throw ContextOverflowError.
+     * @throws ConfigurationError if the options are invalid
+     */
+    withContextGuard(options?: ContextGuardOptions): Provider;
+
+    /**
+     * Set timeouts, argument redaction and error messages for tool executions.
+     * Tools passed to LLM calls are instrumented regardless: every execution is
+     * recorded in the summary's toolCalls and reported via `onToolCallStart`/`onToolCallEnd`.
+     * @throws ConfigurationError if a timeout is not a positive number
+     */
+    withToolPolicy(policy: ToolPolicy): Provider;
+
+    /**
+     * Store checkpoints of streaming executions started with `ExecutionOptions.checkpointId`,
+     * so they can be continued with `resumeStreamingExecution()`.
+     */
+    withCheckpointStore(store: CheckpointStore): Provider;
+
     streamingExecution<TEvent extends { type: string }>(
         generator: (
             session: StreamingSession<TEvent>
@@ -135,6 +185,21 @@ export interface Provider {
         options?: ExecutionOptions
     ): StreamingExecution<TEvent>;
 
+    /**
+     * Continue a checkpointed streaming execution. Its saved events are replayed to
+     * `stream()` consumers first, and the session starts from the saved summary and
+     * step state, so the generator can skip steps it finished (`session.getCheckpoint()`).
+     * The result is `failed` if no checkpoint is saved under `checkpointId`.
+     * @throws ConfigurationError if the provider has no checkpoint store
+     */
+    resumeStreamingExecution<TEvent extends { type: string }>(
+        checkpointId: string,
+        generator: (
+            session: StreamingSession<TEvent>
+        ) => AsyncGenerator<SessionEvent<TEvent>, SessionEvent<TEvent> | Promise<SessionEvent<TEvent>>>,
+        options?: Omit<ExecutionOptions, 'checkpointId'>
+    ): StreamingExecution<TEvent>;
+
     /**
      * Execute a non-streaming function with the provider.
      * Returns immediately (sync) - execution starts in the background.
@@ -0,0 +1,164 @@
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { describe, expect, it } from 'vitest';
+
+import { BudgetExceededError, ConfigurationError, ExecutionErrorCode } from '../errors/index.js';
+import { NoOpFileManager } from '../provider/noop-file-manager.js';
+import { createMockUsage } from '../testing/fixtures.js';
+import { enforceBudget, estimateMaxOutputCost, validateBudget, type Budget } from './budget.js';
+import { SimpleSession } from './simple-session.js';
+import { SessionSummary } from './types.js';
+
+const PRICING = { 'test-model': { inputPricePerMillion: 1, outputPricePerMillion: 10 } };
+
+const USAGE = {
+  inputTokens: { total: 1000, noCache: 1000, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 1000, text: 1000, reasoning: undefined },
+};
+
+function createModel(): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    modelId: 'test-model',
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: 'ok' }],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: USAGE,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-start', id: 't' },
+          { type: 'text-delta', id: 't', delta: 'ok' },
+          { type: 'text-end', id: 't' },
+          { type: 'finish', finishReason: { unified: 'stop', raw: undefined }, usage: USAGE },
+        ],
+      }),
+    }),
+  });
+}
+
+function createSession(budget: Budget, model = createModel()): SimpleSession {
+  return new SimpleSession({
+    defaultLanguageModel: model,
+    providerType: 'openai',
+    providerPricing: PRICING,
+    fileManager: new NoOpFileManager(),
+    budget,
+  });
+}
+
+function catchError(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe('validateBudget', () => {
+  it.each([{ maxCostUSD: -1 }, { maxTokens: NaN }, { maxLLMCalls: 1.5 }, { maxLLMCalls: Infinity }])(
+    'should reject %j',
+    (budget) => {
+      expect(() => validateBudget(budget)).toThrow(ConfigurationError);
+    }
+  );
+
+  it('should accept a valid budget', () => {
+    expect(() => validateBudget({ maxCostUSD: 0.5, maxTokens: 10_000, maxLLMCalls: 0 })).not.toThrow();
+  });
+});
+
+describe('estimateMaxOutputCost', () => {
+  it('should price maxOutputTokens at the output rate', () => {
+    expect(estimateMaxOutputCost(100_000, 'test-model', 'openai', PRICING)).toBeCloseTo(1);
+  });
+});
+
+describe('enforceBudget', () => {
+  const summary = SessionSummary.forTest({
+    llmCalls: [],
+    totalLLMUsage: createMockUsage({ inputTokens: 600, outputTokens: 400, totalTokens: 1000 }),
+    llmCost: 0.4,
+  });
+
+  it('should pass while under every limit', () => {
+    expect(() =>
+      enforceBudget({ maxCostUSD: 1, maxTokens: 2000, maxLLMCalls: 1 }, summary)
+    ).not.toThrow();
+  });
+
+  it('should throw with the exceeded limit and summary', () => {
+    const error = catchError(() => enforceBudget({ maxTokens: 1000 }, summary));
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({
+      code: ExecutionErrorCode.BUDGET_EXCEEDED,
+      limit: 'maxTokens',
+      summary,
+      context: { max: 1000, used: 1000 },
+    });
+  });
+
+  it('should refuse a call whose estimate would exceed the remaining budget', () => {
+    const budget = { maxCostUSD: 0.5 };
+
+    expect(() => enforceBudget(budget, summary, { outputTokens: 10, costUSD: 0.05 })).not.toThrow();
+    expect(
+      catchError(() => enforceBudget(budget, summary, { outputTokens: 20, costUSD: 0.2 }))
+    ).toMatchObject({ limit: 'maxCostUSD', context: { estimated: 0.2 } });
+  });
+});
+
+describe('SimpleSession with budget', () => {
+  it('should refuse calls once maxLLMCalls is reached', async () => {
+    const model = createModel();
+    const session = createSession({ maxLLMCalls: 2 }, model);
+
+    await session.generateText({ prompt: 'Hi' });
+    await session.generateText({ prompt: 'Hi' });
+
+    await expect(session.generateText({ prompt: 'Hi' })).rejects.toThrow(BudgetExceededError);
+    expect(model.doGenerateCalls).toHaveLength(2);
+  });
+
+  it('should refuse calls once maxCostUSD is spent', async () => {
+    // Each call costs $0.001 input + $0.01 output
+    const session = createSession({ maxCostUSD: 0.011 });
+
+    await session.generateText({ prompt: 'Hi' });
+    const error = await session.generateText({ prompt: 'Hi' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect((error as BudgetExceededError).summary.llmCallCount).toBe(1);
+  });
+
+  it('should refuse calls whose maxOutputTokens alone would exceed maxTokens', async () => {
+    const model = createModel();
+    const session = createSession({ maxTokens: 5000 }, model);
+
+    await expect(session.generateText({ prompt: 'Hi', maxOutputTokens: 8000 })).rejects.toMatchObject({
+      limit: 'maxTokens',
+    });
+    expect(model.doGenerateCalls).toHaveLength(0);
+  });
+
+  it('should refuse calls whose maxOutputTokens would exceed maxCostUSD', async () => {
+    const session = createSession({ maxCostUSD: 0.05 });
+
+    // 10,000 output tokens at $10/M = $0.10
+    await expect(session.generateText({ prompt: 'Hi', maxOutputTokens: 10_000 })).rejects.toMatchObject({
+      limit: 'maxCostUSD',
+    });
+    await expect(session.generateText({ prompt: 'Hi', maxOutputTokens: 1000 })).resolves.toBeDefined();
+  });
+
+  it('should check the budget before streamText', async () => {
+    const session = createSession({ maxLLMCalls: 1 });
+
+    await session.streamText({ prompt: 'Hi' }).text;
+    await session.getSummary();
+
+    expect(() => session.streamText({ prompt: 'Hi' })).toThrow(BudgetExceededError);
+  });
+});
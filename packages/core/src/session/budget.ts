@@ -0,0 +1,129 @@
+/**
+ * Session budgets: limits on cost, tokens and LLM calls checked before each call.
+ */
+
+import { BudgetExceededError, ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+import type { BudgetLimit } from '../errors/index.js';
+import { getModelPricing, resolveModelPricing } from '../pricing/calculator.js';
+import type { ModelPricing, ProviderPricing, ProviderType } from '../pricing/types.js';
+import type { SessionSummary } from './types.js';
+
+/**
+ * Limits for a session. Every limit is optional; calls are refused once
+ * the running session summary reaches any of them.
+ *
+ * @example
+ * ```typescript
+ * const provider = createGoogleProvider({ apiKey })
+ *   .withBudget({ maxCostUSD: 0.5, maxLLMCalls: 20 });
+ * ```
+ */
+export interface Budget {
+  /** Maximum total cost (LLM and additional costs) in USD */
+  maxCostUSD?: number;
+  /** Maximum total tokens (input + output) across all LLM calls */
+  maxTokens?: number;
+  /** Maximum number of recorded LLM calls, including failed retry attempts */
+  maxLLMCalls?: number;
+}
+
+/** Worst-case output of the next call, used to refuse it before it is made */
+export interface BudgetEstimate {
+  outputTokens: number;
+  costUSD: number;
+}
+
+/**
+ * Validates a budget.
+ * @throws ConfigurationError if a limit is negative or not a number, or maxLLMCalls is not an integer
+ */
+export function validateBudget(budget: Budget): void {
+  const invalid = (message: string) =>
+    new ConfigurationError(`Invalid budget: ${message}`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      context: { budget },
+    });
+
+  for (const limit of ['maxCostUSD', 'maxTokens', 'maxLLMCalls'] as const) {
+    const value = budget[limit];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw invalid(`${limit} must be a non-negative number`);
+    }
+  }
+  if (budget.maxLLMCalls !== undefined && !Number.isInteger(budget.maxLLMCalls)) {
+    throw invalid('maxLLMCalls must be an integer');
+  }
+}
+
+/**
+ * Estimates the highest cost of a call from its output token limit alone.
+ * Input tokens are not known before the call (nor their prompt-size tier), so this is
+ * a lower bound on the worst case.
+ */
+export function estimateMaxOutputCost(
+  maxOutputTokens: number,
+  model: string,
+  provider: ProviderType,
+  providerPricing?: ProviderPricing,
+  fallbackPricing?: ModelPricing
+): number {
+  const pricing = resolveModelPricing(
+    getModelPricing(model, provider, providerPricing, fallbackPricing)
+  );
+  return (maxOutputTokens / 1_000_000) * pricing.outputPricePerMillion;
+}
+
+/**
+ * Throws if the session has reached a budget limit, or if the estimated output
+ * of the next call would take it over one.
+ * @throws BudgetExceededError with the summary so far
+ */
+export function enforceBudget(
+  budget: Budget,
+  summary: SessionSummary,
+  next?: BudgetEstimate
+): void {
+  const check = (limit: BudgetLimit, used: number, estimated = 0) => {
+    const max = budget[limit];
+    if (max === undefined) {
+      return;
+    }
+    if (used >= max) {
+      throw new BudgetExceededError(`Budget exceeded: ${limit} of ${max} reached (used ${used})`, {
+        limit,
+        summary,
+        context: { max, used },
+      });
+    }
+    if (used + estimated > max) {
+      throw new BudgetExceededError(
+        `Budget exceeded: next call could use ${estimated} of ${limit} ${max} (used ${used})`,
+        { limit, summary, context: { max, used, estimated } }
+      );
+    }
+  };
+
+  check('maxLLMCalls', summary.llmCallCount);
+  check('maxTokens', summary.totalLLMUsage.totalTokens ?? 0, next?.outputTokens);
+  check('maxCostUSD', summary.totalCost, next?.costUSD);
+}
+
+/**
+ * What is left of each limit of `budget` after `summary`, e.g. for a child execution
+ * whose usage is merged into the session's.
+ */
+export function remainingBudget(budget: Budget, summary: SessionSummary): Budget {
+  const used: Record<BudgetLimit, number> = {
+    maxCostUSD: summary.totalCost,
+    maxTokens: summary.totalLLMUsage.totalTokens ?? 0,
+    maxLLMCalls: summary.llmCallCount,
+  };
+  const remaining: Budget = {};
+  for (const limit of ['maxCostUSD', 'maxTokens', 'maxLLMCalls'] as const) {
+    const max = budget[limit];
+    if (max !== undefined) {
+      remaining[limit] = Math.max(0, max - used[limit]);
+    }
+  }
+  return remaining;
+}
@@ -0,0 +1,148 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { ConfigurationError } from '../errors/index.js';
+import type { CompletionEvent } from '../execution/types.js';
+import { mock } from '../testing/mock.js';
+import {
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+  type ExecutionCheckpoint,
+} from './checkpoint.js';
+import type { StreamingSession } from './streaming-session.js';
+import { SessionSummary } from './types.js';
+
+const CHECKPOINT: ExecutionCheckpoint = {
+  events: [{ type: 'progress', metrics: { timestamp: 1, elapsedMs: 0, deltaMs: 0 } }],
+  summary: SessionSummary.forTest({ llmCost: 0.5 }).toJSON(),
+  steps: { outline: ['intro', 'body'] },
+  savedAt: 1,
+};
+
+describe('InMemoryCheckpointStore', () => {
+  it('should save, load and delete copies of checkpoints', async () => {
+    const store = new InMemoryCheckpointStore();
+    await store.save('run-1', CHECKPOINT);
+
+    const loaded = await store.load('run-1');
+    expect(loaded).toEqual(CHECKPOINT);
+    expect(loaded).not.toBe(CHECKPOINT);
+
+    await store.delete('run-1');
+    expect(await store.load('run-1')).toBeUndefined();
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = path.join(await mkdtemp(path.join(tmpdir(), 'agtlantis-checkpoint-')), 'runs');
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  it('should write one JSON file per checkpoint', async () => {
+    const store = new FileCheckpointStore({ directory });
+    expect(await store.load('report/42')).toBeUndefined();
+
+    await store.save('report/42', CHECKPOINT);
+    await store.save('report/42', { ...CHECKPOINT, savedAt: 2 });
+
+    expect(await readdir(directory)).toEqual(['report%2F42.json']);
+    expect(await new FileCheckpointStore({ directory }).load('report/42')).toEqual({
+      ...CHECKPOINT,
+      savedAt: 2,
+    });
+
+    await store.delete('report/42');
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe('checkpointed streaming executions', () => {
+  type Event = { type: 'step'; name: string } | CompletionEvent<string[]>;
+
+  it('should save progress and resume where a failed execution stopped', async () => {
+    const store = new InMemoryCheckpointStore();
+    const provider = mock.provider(mock.text('draft text')).withCheckpointStore(store);
+    let drafts = 0;
+
+    const run = (crash: boolean) =>
+      async function* (session: StreamingSession<Event>) {
+        let draft = session.getCheckpoint<string>('draft');
+        if (draft === undefined) {
+          drafts += 1;
+          draft = (await session.generateText({ prompt: 'Draft' })).text;
+          yield session.emit({ type: 'step', name: 'draft' });
+          await session.checkpoint('draft', draft);
+        }
+        if (crash) {
+          throw new Error('Process died');
+        }
+        yield session.emit({ type: 'step', name: 'review' });
+        return session.done([draft, 'reviewed']);
+      };
+
+    const first = await provider
+      .streamingExecution<Event>(run(true), { checkpointId: 'report-1' })
+      .result();
+    expect(first.status).toBe('failed');
+
+    const saved = await store.load('report-1');
+    expect(saved?.events.map((event) => event.type)).toEqual(['step']);
+    expect(saved?.steps).toEqual({ draft: 'draft text' });
+    expect(saved?.summary.llmCallCount).toBe(1);
+
+    const resumed = provider.resumeStreamingExecution<Event>('report-1', run(false));
+    const streamed: string[] = [];
+    for await (const event of resumed.stream()) {
+      streamed.push(event.type === 'step' ? event.name : event.type);
+    }
+    const result = await resumed.result();
+
+    expect(drafts).toBe(1);
+    expect(streamed).toEqual(['draft', 'review', 'complete']);
+    expect(result.status).toBe('succeeded');
+    if (result.status === 'succeeded') {
+      expect(result.value).toEqual(['draft text', 'reviewed']);
+    }
+    expect(result.summary.llmCallCount).toBe(1);
+    expect(await store.load('report-1')).toBeUndefined();
+  });
+
+  it('should fail resuming an execution without a checkpoint', async () => {
+    const provider = mock
+      .provider(mock.text('x'))
+      .withCheckpointStore(new InMemoryCheckpointStore());
+
+    const result = await provider
+      .resumeStreamingExecution<Event>('missing', async function* (session) {
+        return session.done([]);
+      })
+      .result();
+
+    expect(result.status).toBe('failed');
+    if (result.status === 'failed') {
+      expect(result.error.message).toBe("No checkpoint found for execution 'missing'");
+    }
+  });
+
+  it('should require a checkpoint store', () => {
+    const provider = mock.provider(mock.text('x'));
+
+    expect(() =>
+      provider.streamingExecution<Event>(
+        async function* (session) {
+          return session.done([]);
+        },
+        { checkpointId: 'report-1' }
+      )
+    ).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Checkpoints for streaming executions.
+ *
+ * A streaming execution started with `ExecutionOptions.checkpointId` on a provider with a
+ * checkpoint store saves its events, summary and step state after every event and every
+ * `session.checkpoint()` call. `provider.resumeStreamingExecution()` continues it from the
+ * last checkpoint, for example after the process running it died.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { SessionEvent } from '../execution/types.js';
+import type { SessionSummaryJSON } from './types.js';
+
+/** JSON-serializable state of a streaming execution */
+export interface ExecutionCheckpoint {
+  /** Events emitted so far, with their metrics. Terminal events are never saved. */
+  events: SessionEvent<{ type: string }>[];
+  /** Summary so far, so resumed executions keep counting costs and budgets */
+  summary: SessionSummaryJSON;
+  /** Step state saved with `session.checkpoint(key, value)` */
+  steps: Record<string, unknown>;
+  /** When the checkpoint was saved (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Storage for execution checkpoints, keyed by checkpoint ID.
+ * Implementations must return checkpoints as they were saved (JSON round-trips are fine).
+ */
+export interface CheckpointStore {
+  load(checkpointId: string): Promise<ExecutionCheckpoint | undefined>;
+  save(checkpointId: string, checkpoint: ExecutionCheckpoint): Promise<void>;
+  delete(checkpointId: string): Promise<void>;
+}
+
+/**
+ * Checkpoint store keeping checkpoints in process memory.
+ * Useful for tests and for resuming executions within one process.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly checkpoints = new Map<string, ExecutionCheckpoint>();
+
+  async load(checkpointId: string): Promise<ExecutionCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(checkpointId);
+    return checkpoint ? structuredClone(checkpoint) : undefined;
+  }
+
+  async save(checkpointId: string, checkpoint: ExecutionCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpointId, structuredClone(checkpoint));
+  }
+
+  async delete(checkpointId: string): Promise<void> {
+    this.checkpoints.delete(checkpointId);
+  }
+}
+
+export interface FileCheckpointStoreOptions {
+  /** Directory holding one JSON file per checkpoint. Created on first save. */
+  directory: string;
+}
+
+/**
+ * Checkpoint store writing one JSON file per checkpoint. Each save replaces the file
+ * atomically, so a process dying mid-save leaves the previous checkpoint intact.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly directory: string;
+
+  constructor(options: FileCheckpointStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  private checkpointPath(checkpointId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(checkpointId)}.json`);
+  }
+
+  async load(checkpointId: string): Promise<ExecutionCheckpoint | undefined> {
+    try {
+      return JSON.parse(
+        await readFile(this.checkpointPath(checkpointId), 'utf-8')
+      ) as ExecutionCheckpoint;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpointId: string, checkpoint: ExecutionCheckpoint): Promise<void> {
+    const file = this.checkpointPath(checkpointId);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(temporary, JSON.stringify(checkpoint), 'utf-8');
+    await rename(temporary, file);
+  }
+
+  async delete(checkpointId: string): Promise<void> {
+    await rm(this.checkpointPath(checkpointId), { force: true });
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -0,0 +1,224 @@
+import type { ModelMessage } from 'ai';
+import { describe, expect, it } from 'vitest';
+
+import { ConfigurationError, ContextOverflowError, ExecutionErrorCode } from '../errors/index.js';
+import { getModelLimits } from '../pricing/model-limits.js';
+import { mock } from '../testing/mock.js';
+import { estimateTokens } from './context-window.js';
+
+const LIMITS = { 'mock-model-id': { contextWindow: 100, maxOutputTokens: 20 } };
+
+/** Text of a message padded to exactly `tokens` estimated tokens (including overhead) */
+function sized(label: string, tokens: number): string {
+  return label.padEnd((tokens - 4) * 4, '.');
+}
+
+function promptOf(params: unknown) {
+  return (params as { prompt: { role: string; content: unknown }[] }).prompt;
+}
+
+describe('estimateTokens', () => {
+  it('should estimate text, tool calls and files', () => {
+    const messages: ModelMessage[] = [
+      { role: 'system', content: 'x'.repeat(40) },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'x'.repeat(8) },
+          { type: 'image', image: new Uint8Array(1_000_000) },
+          { type: 'file', data: new Uint8Array(400), mediaType: 'text/plain' },
+          { type: 'file', data: new Uint8Array(3200), mediaType: 'application/pdf' },
+          {
+            type: 'file',
+            data: new URL('https://example.com/a.pdf'),
+            mediaType: 'application/pdf',
+          },
+        ],
+      },
+    ];
+
+    // 10 + 4, then 2 + 1000 + 100 + 100 + 1000 + 4
+    expect(estimateTokens(messages)).toBe(2220);
+  });
+});
+
+describe('getModelLimits', () => {
+  it('should resolve overrides, then the provider registry, then any provider', () => {
+    const override = { 'gpt-4o': { contextWindow: 1000, maxOutputTokens: 100 } };
+
+    expect(getModelLimits('gpt-4o', 'openai', override)).toEqual(override['gpt-4o']);
+    expect(getModelLimits('gpt-4o', 'openai')?.contextWindow).toBe(128_000);
+    expect(getModelLimits('gemini-2.5-flash', 'fallback')?.contextWindow).toBe(1_048_576);
+    expect(getModelLimits('unknown-model', 'openai')).toBeUndefined();
+  });
+});
+
+describe('context guard', () => {
+  it('should throw ContextOverflowError before sending an oversized request', async () => {
+    const provider = mock.provider(mock.text('Hi')).withContextGuard({ models: LIMITS });
+
+    const result = await provider
+      .simpleExecution((session) =>
+        session.generateText({ prompt: sized('Long', 90), maxOutputTokens: 20 })
+      )
+      .result();
+
+    expect(result.status).toBe('failed');
+    const error = (result as { error: unknown }).error;
+    expect(error).toBeInstanceOf(ContextOverflowError);
+    expect(error).toMatchObject({
+      code: ExecutionErrorCode.CONTEXT_OVERFLOW,
+      limit: 'contextWindow',
+      model: 'mock-model-id',
+      maxTokens: 100,
+    });
+    expect(provider.getCalls()).toHaveLength(0);
+    expect(result.summary.llmCallCount).toBe(0);
+  });
+
+  it('should reject output limits above the model maximum', async () => {
+    const provider = mock.provider(mock.text('Hi')).withContextGuard({ models: LIMITS });
+
+    const result = await provider
+      .simpleExecution((session) => session.generateText({ prompt: 'Hi', maxOutputTokens: 50 }))
+      .result();
+
+    expect((result as { error: unknown }).error).toMatchObject({
+      limit: 'maxOutputTokens',
+      requestedTokens: 50,
+      maxTokens: 20,
+    });
+  });
+
+  it('should reject streamed calls with the overflow error', async () => {
+    const provider = mock.provider(mock.stream(['Hi'])).withContextGuard({ models: LIMITS });
+
+    const result = await provider
+      .simpleExecution(async (session) => session.streamText({ prompt: sized('Long', 120) }).text)
+      .result();
+
+    expect((result as { error: unknown }).error).toBeInstanceOf(ContextOverflowError);
+    expect(provider.getCalls()).toHaveLength(0);
+  });
+
+  it('should pass through models without known limits', async () => {
+    const provider = mock.provider(mock.text('Hi')).withContextGuard();
+
+    const result = await provider
+      .simpleExecution((session) => session.generateText({ prompt: sized('Long', 1000) }))
+      .result();
+
+    expect(result.status).toBe('succeeded');
+  });
+
+  it('should drop the oldest turns and keep system messages', async () => {
+    const provider = mock
+      .provider(mock.text('Hi'))
+      .withContextGuard({ models: LIMITS, truncate: ['drop-oldest-messages'] });
+
+    await provider
+      .simpleExecution((session) =>
+        session.generateText({
+          system: 'Be brief',
+          messages: [
+            { role: 'user', content: sized('One', 30) },
+            { role: 'assistant', content: sized('A', 20) },
+            { role: 'user', content: sized('Two', 30) },
+            { role: 'assistant', content: sized('B', 20) },
+            { role: 'user', content: sized('Three', 30) },
+          ],
+        })
+      )
+      .result();
+
+    const prompt = promptOf(provider.getCalls()[0].params);
+    expect(prompt.map((message) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(JSON.stringify(prompt)).not.toContain('One');
+    expect(JSON.stringify(prompt)).toContain('Two');
+  });
+
+  it('should truncate text files and replace other files', async () => {
+    const provider = mock
+      .provider(mock.text('Hi'))
+      .withContextGuard({ models: LIMITS, truncate: ['truncate-files'] });
+
+    await provider
+      .simpleExecution((session) =>
+        session.generateText({
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'file',
+                  data: new Uint8Array(6400),
+                  mediaType: 'application/pdf',
+                  filename: 'report.pdf',
+                },
+                {
+                  type: 'file',
+                  data: new TextEncoder().encode('x'.repeat(200)),
+                  mediaType: 'text/plain',
+                },
+                { type: 'text', text: 'Summarize' },
+              ],
+            },
+          ],
+        })
+      )
+      .result();
+
+    const [message] = promptOf(provider.getCalls()[0].params) as {
+      content: { type: string; text?: string; data?: Uint8Array }[];
+    }[];
+    expect(message.content[0]).toEqual({
+      type: 'text',
+      text: '[report.pdf removed to fit the context window]',
+    });
+    // Without the 200-token PDF, the 50-token text file fits untouched
+    expect(message.content[1].data).toHaveLength(200);
+  });
+
+  it('should shorten a text file to the tokens left', async () => {
+    const provider = mock
+      .provider(mock.text('Hi'))
+      .withContextGuard({ models: LIMITS, truncate: ['truncate-files'] });
+
+    await provider
+      .simpleExecution((session) =>
+        session.generateText({
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'file',
+                  data: new TextEncoder().encode('x'.repeat(800)),
+                  mediaType: 'text/plain',
+                },
+              ],
+            },
+          ],
+        })
+      )
+      .result();
+
+    const [message] = promptOf(provider.getCalls()[0].params) as {
+      content: { data: Uint8Array }[];
+    }[];
+    const text = new TextDecoder().decode(message.content[0].data);
+    expect(text.endsWith('\n[truncated]')).toBe(true);
+    expect(estimateTokens([{ role: 'user', content: text }])).toBeLessThanOrEqual(100);
+  });
+
+  it('should reject invalid options', () => {
+    const provider = mock.provider(mock.text('Hi'));
+
+    expect(() =>
+      provider.withContextGuard({ truncate: ['drop-newest' as 'drop-oldest-messages'] })
+    ).toThrow(ConfigurationError);
+    expect(() =>
+      provider.withContextGuard({ models: { m: { contextWindow: 0, maxOutputTokens: 1 } } })
+    ).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Context window guard for session LLM calls.
+ *
+ * Requests are checked against the model's context window and output limit before they
+ * are sent, so an oversized request fails (or is truncated) up front instead of being
+ * rejected by the provider midway through an execution. Tokens are estimated without a
+ * tokenizer, which keeps the check cheap and deterministic across providers.
+ */
+
+import type { LanguageModel, ModelMessage, wrapLanguageModel } from 'ai';
+
+import {
+  ConfigurationError,
+  ConfigurationErrorCode,
+  ContextOverflowError,
+} from '../errors/index.js';
+import { getModelLimits } from '../pricing/model-limits.js';
+import type { ModelLimits, ProviderModelLimits, ProviderType } from '../pricing/types.js';
+import { splitTurns } from './memory.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+type Prompt = CallOptions['prompt'];
+type PromptMessage = Prompt[number];
+
+/**
+ * Ways to shrink a request that does not fit the context window:
+ * - `drop-oldest-messages`: removes whole turns (a user message and everything up to the
+ *   next one) from the start of the conversation; system messages and the latest turn are kept
+ * - `truncate-files`: shortens text files and replaces other files with a placeholder,
+ *   oldest first
+ */
+export type ContextTruncation = 'drop-oldest-messages' | 'truncate-files';
+
+export interface ContextGuardOptions {
+  /**
+   * Truncations applied in order until a request fits. Requests that still do not fit
+   * throw ContextOverflowError. Without any, every overflowing request throws.
+   */
+  truncate?: ContextTruncation[];
+  /** Limits per model ID, taking precedence over the built-in registry */
+  models?: ProviderModelLimits;
+}
+
+/** A model wrapped by the context guard */
+export interface ContextGuardedModel {
+  model: LanguageModel;
+  /** Rejects with the error of the first request that did not fit */
+  overflow: Promise<never>;
+}
+
+const CHARS_PER_TOKEN = 4;
+/** Role and formatting tokens added to every message */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Images are resized by providers, so their cost barely depends on their size */
+const IMAGE_TOKENS = 1000;
+/** Rough average for PDFs, audio and other binary files */
+const BYTES_PER_BINARY_TOKEN = 32;
+/** Files sent by URL, whose size is not known */
+const UNKNOWN_FILE_TOKENS = 1000;
+
+const TRUNCATIONS: ContextTruncation[] = ['drop-oldest-messages', 'truncate-files'];
+
+function textTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function isTextMediaType(mediaType: string | undefined): boolean {
+  return !!mediaType && /^text\/|[/+](json|xml|javascript)$/.test(mediaType);
+}
+
+/** Size of inline file data, or undefined for files referenced by URL */
+function byteLength(data: unknown): number | undefined {
+  if (data instanceof Uint8Array || data instanceof ArrayBuffer) {
+    return data.byteLength;
+  }
+  if (typeof data !== 'string') {
+    return undefined;
+  }
+  if (/^https?:\/\//.test(data)) {
+    return undefined;
+  }
+  const base64 = data.startsWith('data:') ? data.slice(data.indexOf(',') + 1) : data;
+  return Math.floor((base64.length * 3) / 4);
+}
+
+function fileTokens(data: unknown, mediaType: string | undefined): number {
+  if (mediaType?.startsWith('image/')) {
+    return IMAGE_TOKENS;
+  }
+  const bytes = byteLength(data);
+  if (bytes === undefined) {
+    return UNKNOWN_FILE_TOKENS;
+  }
+  return Math.ceil(bytes / (isTextMediaType(mediaType) ? CHARS_PER_TOKEN : BYTES_PER_BINARY_TOKEN));
+}
+
+function partTokens(part: { type: string } & Record<string, unknown>): number {
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return textTokens(String(part.text));
+    case 'image':
+      return IMAGE_TOKENS;
+    case 'file':
+      return fileTokens(part.data, part.mediaType as string | undefined);
+    case 'tool-call':
+      return textTokens(`${String(part.toolName)}${JSON.stringify(part.input) ?? ''}`);
+    case 'tool-result':
+      return textTokens(JSON.stringify(part.output) ?? '');
+    default:
+      return textTokens(JSON.stringify(part));
+  }
+}
+
+function messageTokens(message: { content: unknown }): number {
+  const { content } = message;
+  const tokens =
+    typeof content === 'string'
+      ? textTokens(content)
+      : (content as ({ type: string } & Record<string, unknown>)[]).reduce(
+          (total, part) => total + partTokens(part),
+          0
+        );
+  return tokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimates the input tokens of messages without a tokenizer: about four characters per
+ * token for text, tool calls and text files, a flat 1,000 tokens per image (and per file
+ * sent by URL), and one token per 32 bytes of other files. Provider tokenizers differ,
+ * so leave some headroom when comparing the estimate with a limit.
+ */
+export function estimateTokens(messages: ModelMessage[]): number {
+  return messages.reduce((total, message) => total + messageTokens(message), 0);
+}
+
+/**
+ * Validates context guard options.
+ * @throws ConfigurationError if a truncation is unknown or a model limit is not a positive integer
+ */
+export function validateContextGuard(options: ContextGuardOptions): void {
+  const invalid = (message: string) =>
+    new ConfigurationError(`Invalid context guard: ${message}`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      context: { options },
+    });
+
+  for (const truncation of options.truncate ?? []) {
+    if (!TRUNCATIONS.includes(truncation)) {
+      throw invalid(`unknown truncation '${String(truncation)}'`);
+    }
+  }
+  for (const [model, limits] of Object.entries(options.models ?? {})) {
+    for (const limit of ['contextWindow', 'maxOutputTokens'] as const) {
+      const value = limits[limit];
+      if (!(Number.isInteger(value) && value > 0)) {
+        throw invalid(`${limit} of '${model}' must be a positive integer`);
+      }
+    }
+  }
+}
+
+function dropOldestMessages(prompt: Prompt, available: number): Prompt {
+  const system = prompt.filter((message) => message.role === 'system');
+  const turns = splitTurns(prompt.filter((message) => message.role !== 'system'));
+  let tokens = prompt.reduce((total, message) => total + messageTokens(message), 0);
+
+  while (turns.length > 1 && tokens > available) {
+    for (const message of turns.shift()!) {
+      tokens -= messageTokens(message);
+    }
+  }
+  return [...system, ...turns.flat()];
+}
+
+function toBytes(data: unknown): Uint8Array {
+  if (typeof data === 'string') {
+    const base64 = data.startsWith('data:') ? data.slice(data.indexOf(',') + 1) : data;
+    return Buffer.from(base64, 'base64');
+  }
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : (data as Uint8Array);
+}
+
+const TRUNCATION_MARKER = new TextEncoder().encode('\n[truncated]');
+
+/** The first bytes of a text file, marked as truncated, within `tokens` */
+function truncateText(data: unknown, tokens: number): Uint8Array {
+  const kept = toBytes(data).subarray(0, tokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length);
+  const truncated = new Uint8Array(kept.length + TRUNCATION_MARKER.length);
+  truncated.set(kept);
+  truncated.set(TRUNCATION_MARKER, kept.length);
+  return truncated;
+}
+
+function truncateFiles(prompt: Prompt, available: number): Prompt {
+  let tokens = prompt.reduce((total, message) => total + messageTokens(message), 0);
+
+  return prompt.map((message): PromptMessage => {
+    if ((message.role !== 'user' && message.role !== 'assistant') || tokens <= available) {
+      return message;
+    }
+    const content = message.content.map((part) => {
+      if (part.type !== 'file' || tokens <= available || byteLength(part.data) === undefined) {
+        return part;
+      }
+      const before = partTokens(part as unknown as { type: string } & Record<string, unknown>);
+      const keep = before - (tokens - available);
+      const replacement =
+        isTextMediaType(part.mediaType) && keep * CHARS_PER_TOKEN > TRUNCATION_MARKER.length
+          ? { ...part, data: truncateText(part.data, keep) }
+          : {
+              type: 'text' as const,
+              text: `[${part.filename ?? part.mediaType} removed to fit the context window]`,
+            };
+      tokens += partTokens(replacement as { type: string } & Record<string, unknown>) - before;
+      return replacement;
+    });
+    return { ...message, content } as PromptMessage;
+  });
+}
+
+const TRUNCATE: Record<ContextTruncation, (prompt: Prompt, available: number) => Prompt> = {
+  'drop-oldest-messages': dropOldestMessages,
+  'truncate-files': truncateFiles,
+};
+
+/**
+ * Fits a request into the model's limits, truncating its prompt if configured.
+ * Tools and the output schema count against the window but are never truncated.
+ * @throws ContextOverflowError if the request does not fit
+ */
+function fitRequest(
+  options: CallOptions,
+  model: string,
+  limits: ModelLimits,
+  truncations: ContextTruncation[]
+): CallOptions {
+  const { maxOutputTokens = 0 } = options;
+  if (maxOutputTokens > limits.maxOutputTokens) {
+    throw new ContextOverflowError(
+      `Requested ${maxOutputTokens} output tokens, over the ${limits.maxOutputTokens} supported by ${model}`,
+      {
+        limit: 'maxOutputTokens',
+        model,
+        requestedTokens: maxOutputTokens,
+        maxTokens: limits.maxOutputTokens,
+      }
+    );
+  }
+
+  const fixed = textTokens(
+    JSON.stringify({ tools: options.tools, responseFormat: options.responseFormat })
+  );
+  const available = limits.contextWindow - maxOutputTokens - fixed;
+  const estimate = (prompt: Prompt) =>
+    prompt.reduce((total, message) => total + messageTokens(message), 0);
+
+  let prompt = options.prompt;
+  let tokens = estimate(prompt);
+  for (const truncation of truncations) {
+    if (tokens <= available) {
+      break;
+    }
+    prompt = TRUNCATE[truncation](prompt, available);
+    tokens = estimate(prompt);
+  }
+
+  if (tokens > available) {
+    const requestedTokens = tokens + fixed + maxOutputTokens;
+    throw new ContextOverflowError(
+      `Request needs about ${requestedTokens} tokens, over the ${limits.contextWindow} token context window of ${model}`,
+      {
+        limit: 'contextWindow',
+        model,
+        requestedTokens,
+        maxTokens: limits.contextWindow,
+        context: { estimatedInputTokens: tokens + fixed, reservedOutputTokens: maxOutputTokens },
+      }
+    );
+  }
+  return prompt === options.prompt ? options : { ...options, prompt };
+}
+
+/**
+ * Wraps a model so every request (each step of a call) is checked against the model's
+ * limits before it is sent. Models without known limits are passed through unchecked.
+ */
+export function createContextGuardModel(
+  model: LanguageModel,
+  provider: ProviderType,
+  options: ContextGuardOptions
+): ContextGuardedModel {
+  if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+    throw new ConfigurationError('The context guard requires a v3 LanguageModel instance', {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+    });
+  }
+  const inner: LanguageModelV3 = model;
+  let reject!: (error: unknown) => void;
+  const overflow = new Promise<never>((_, rejectOverflow) => {
+    reject = rejectOverflow;
+  });
+  // Observers attach later (or never); avoid unhandled rejections
+  overflow.catch(() => {});
+
+  const limits = getModelLimits(inner.modelId, provider, options.models);
+  if (!limits) {
+    return { model, overflow };
+  }
+
+  const fit = (callOptions: CallOptions): CallOptions => {
+    try {
+      return fitRequest(callOptions, inner.modelId, limits, options.truncate ?? []);
+    } catch (error) {
+      reject(error);
+      throw error;
+    }
+  };
+
+  const wrapped: LanguageModelV3 = {
+    specificationVersion: 'v3',
+    provider: inner.provider,
+    modelId: inner.modelId,
+    supportedUrls: inner.supportedUrls,
+    doGenerate: async (callOptions) => inner.doGenerate(fit(callOptions)),
+    doStream: async (callOptions) => inner.doStream(fit(callOptions)),
+  };
+  return { model: wrapped, overflow };
+}
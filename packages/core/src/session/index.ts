@@ -14,3 +14,73 @@ export {
     type CreateStreamingSessionOptions,
     type StreamingSessionInternal,
 } from './streaming-session.js';
+
+export {
+    validateRetryPolicy,
+    computeRetryDelay,
+    DEFAULT_RETRY_ON,
+    type RetryPolicy,
+    type RetryBackoff,
+    type RetryPredicate,
+} from './retry.js';
+
+export type { CallTimeoutKind, TimeoutConfiguration } from './timeout.js';
+
+export {
+    validateBudget,
+    enforceBudget,
+    estimateMaxOutputCost,
+    type Budget,
+    type BudgetEstimate,
+} from './budget.js';
+
+export {
+    InMemoryResponseCache,
+    FileResponseCache,
+    createResponseCacheKey,
+    type ResponseCache,
+    type ResponseCacheMode,
+    type ResponseCacheOptions,
+    type ResponseCacheConfig,
+    type CachedResponse,
+    type CachedGenerateResponse,
+    type CachedStreamResponse,
+    type InMemoryResponseCacheOptions,
+    type FileResponseCacheOptions,
+} from './response-cache.js';
+
+export {
+    WindowedConversationMemory,
+    InMemoryConversationStore,
+    type ConversationMemory,
+    type ConversationMemoryContext,
+    type ConversationState,
+    type ConversationStore,
+    type ConversationWindow,
+    type ConversationSummarization,
+    type WindowedConversationMemoryOptions,
+} from './memory.js';
+
+export {
+    estimateTokens,
+    validateContextGuard,
+    type ContextGuardOptions,
+    type ContextTruncation,
+} from './context-window.js';
+
+export {
+    InMemoryCheckpointStore,
+    FileCheckpointStore,
+    type CheckpointStore,
+    type ExecutionCheckpoint,
+    type FileCheckpointStoreOptions,
+} from './checkpoint.js';
+
+export {
+    validateToolPolicy,
+    type ToolPolicy,
+    type ToolCallPolicy,
+    type ToolCallInfo,
+    type ToolApprovalRequest,
+    type ToolApprovalDecision,
+} from './tool-instrumentation.js';
@@ -0,0 +1,244 @@
+import type { ModelMessage } from 'ai';
+import { describe, expect, it } from 'vitest';
+
+import { ConfigurationError } from '../errors/index.js';
+import type { SimpleExecution } from '../execution/index.js';
+import { mock } from '../testing/mock.js';
+import type { MockCall } from '../testing/mock-provider.js';
+import {
+  InMemoryConversationStore,
+  WindowedConversationMemory,
+  type ConversationState,
+} from './memory.js';
+
+async function run<T>(execution: SimpleExecution<T>): Promise<T> {
+  const result = await execution.result();
+  if (result.status !== 'succeeded') {
+    throw new Error(`Execution ${result.status}`);
+  }
+  return result.value;
+}
+
+/** Role and text of each prompt message the model received */
+function promptOf(call: MockCall): string[] {
+  const { prompt } = call.params as {
+    prompt: { role: string; content: string | { type: string; text?: string }[] }[];
+  };
+  return prompt.map((message) => {
+    const content =
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part) => part.text ?? `[${part.type}]`).join('');
+    return `${message.role}: ${content}`;
+  });
+}
+
+function turn(user: string, assistant: string): ModelMessage[] {
+  return [
+    { role: 'user', content: user },
+    { role: 'assistant', content: [{ type: 'text', text: assistant }] },
+  ];
+}
+
+describe('conversation memory', () => {
+  it('should send earlier messages with each call and append the new ones', async () => {
+    const provider = mock.provider(mock.text('Hello!'));
+    const memory = new WindowedConversationMemory();
+
+    await run(
+      provider.simpleExecution(
+        async (session) => {
+          await session.generateText({ prompt: 'Hi' });
+          return session.generateText({ system: 'Be brief', prompt: 'How are you?' });
+        },
+        { memory }
+      )
+    );
+
+    expect(promptOf(provider.getCalls()[1])).toEqual([
+      'system: Be brief',
+      'user: Hi',
+      'assistant: Hello!',
+      'user: How are you?',
+    ]);
+    expect(memory.toJSON().messages).toEqual([
+      ...turn('Hi', 'Hello!'),
+      ...turn('How are you?', 'Hello!'),
+    ]);
+  });
+
+  it('should append streamed responses before the next call', async () => {
+    const provider = mock.provider(mock.stream(['Hel', 'lo']));
+    const memory = new WindowedConversationMemory();
+
+    await run(
+      provider.simpleExecution(
+        async (session) => {
+          await session.streamText({ prompt: 'Hi' }).text;
+          return session.streamText({ prompt: 'Again' }).text;
+        },
+        { memory }
+      )
+    );
+
+    expect(promptOf(provider.getCalls()[1])).toEqual([
+      'user: Hi',
+      'assistant: Hello',
+      'user: Again',
+    ]);
+  });
+
+  it('should resume a conversation from a store in a later execution', async () => {
+    const store = new InMemoryConversationStore();
+    const provider = mock.provider(mock.text('Noted'));
+    const options = { store, conversationId: 'chat-1' };
+
+    await run(
+      provider.simpleExecution((session) => session.generateText({ prompt: 'I like tea' }), {
+        memory: new WindowedConversationMemory(options),
+      })
+    );
+    await run(
+      provider.streamingExecution<{ type: 'complete'; data: string }>(
+        async function* (session) {
+          const { text } = await session.generateText({ prompt: 'What do I like?' });
+          return session.done(text);
+        },
+        { memory: new WindowedConversationMemory(options) }
+      )
+    );
+
+    expect(promptOf(provider.getCalls()[1])).toEqual([
+      'user: I like tea',
+      'assistant: Noted',
+      'user: What do I like?',
+    ]);
+    expect((await store.load('chat-1'))?.messages).toHaveLength(4);
+  });
+
+  it('should continue from a serialized state', async () => {
+    const state: ConversationState = JSON.parse(
+      JSON.stringify({ messages: turn('My name is Ada', 'Hi Ada') })
+    );
+    const provider = mock.provider(mock.text('Ada'));
+
+    await run(
+      provider.simpleExecution((session) => session.generateText({ prompt: 'My name?' }), {
+        memory: new WindowedConversationMemory({ state }),
+      })
+    );
+
+    expect(promptOf(provider.getCalls()[0])).toEqual([
+      'user: My name is Ada',
+      'assistant: Hi Ada',
+      'user: My name?',
+    ]);
+  });
+
+  it('should drop whole turns outside the window', async () => {
+    const toolTurn: ModelMessage[] = [
+      { role: 'user', content: 'Weather?' },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'c1', toolName: 'weather', input: {} }],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'c1',
+            toolName: 'weather',
+            output: { type: 'text', value: 'Sunny' },
+          },
+        ],
+      },
+      { role: 'assistant', content: [{ type: 'text', text: 'Sunny' }] },
+    ];
+    const memory = new WindowedConversationMemory({
+      state: { messages: [...turn('One', 'A'), ...toolTurn] },
+      window: { maxMessages: 5 },
+    });
+
+    await run(
+      mock
+        .provider(mock.text('B'))
+        .simpleExecution((session) => session.generateText({ prompt: 'Two' }), { memory })
+    );
+
+    // Dropping only the first turn would leave 6 messages, so the tool turn goes too
+    expect(memory.toJSON().messages).toEqual(turn('Two', 'B'));
+  });
+
+  it('should window by token budget', async () => {
+    const memory = new WindowedConversationMemory({
+      state: { messages: [...turn('One', 'A'), ...turn('Two', 'B')] },
+      window: { maxTokens: 4, countTokens: () => 1 },
+    });
+
+    await run(
+      mock
+        .provider(mock.text('C'))
+        .simpleExecution((session) => session.generateText({ prompt: 'Three' }), { memory })
+    );
+
+    expect(memory.toJSON().messages).toEqual([...turn('Two', 'B'), ...turn('Three', 'C')]);
+  });
+
+  it('should summarize removed turns through the session', async () => {
+    const provider = mock.provider(mock.text('Summary text'));
+    const memory = new WindowedConversationMemory({
+      state: { messages: turn('One', 'A') },
+      window: { maxMessages: 2 },
+      summarize: { instructions: 'Summarize tersely' },
+    });
+
+    const execution = provider.simpleExecution(
+      async (session) => {
+        await session.generateText({ prompt: 'Two' });
+        return session.generateText({ prompt: 'Three' });
+      },
+      { memory }
+    );
+    const result = await execution.result();
+
+    const calls = provider.getCalls();
+    expect(calls).toHaveLength(4);
+    expect(promptOf(calls[1])).toEqual([
+      'system: Summarize tersely',
+      'user: Conversation:\nuser: One\nassistant: A',
+    ]);
+    expect(promptOf(calls[2])).toEqual([
+      'system: Summary of the earlier conversation:\nSummary text',
+      'user: Two',
+      'assistant: Summary text',
+      'user: Three',
+    ]);
+    expect(promptOf(calls[3])[1]).toContain('Earlier summary:\nSummary text');
+    expect(result.summary.llmCallCount).toBe(4);
+    expect(memory.toJSON()).toEqual({
+      summary: 'Summary text',
+      messages: turn('Three', 'Summary text'),
+    });
+  });
+
+  it('should clear the conversation and its stored state', async () => {
+    const store = new InMemoryConversationStore();
+    await store.save('chat-1', { messages: turn('Hi', 'Hello') });
+    const memory = new WindowedConversationMemory({ store, conversationId: 'chat-1' });
+
+    await memory.clear();
+
+    expect(await memory.getMessages()).toEqual([]);
+    expect(await store.load('chat-1')).toBeUndefined();
+  });
+
+  it('should reject invalid options', () => {
+    expect(
+      () => new WindowedConversationMemory({ store: new InMemoryConversationStore() })
+    ).toThrow(ConfigurationError);
+    expect(() => new WindowedConversationMemory({ window: { maxMessages: 0 } })).toThrow(
+      ConfigurationError
+    );
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Conversation memory for sessions.
+ *
+ * A session with memory prepends the conversation so far to every LLM call and appends
+ * each call's input and response messages (user, assistant and tool messages) afterwards,
+ * so agents no longer rebuild `messages` by hand.
+ */
+
+import type { ModelMessage } from 'ai';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+import type { GenerateTextParams } from './types.js';
+
+/** JSON-serializable conversation, for resuming it in a later execution */
+export interface ConversationState {
+  /** Summary of earlier turns that were removed from `messages` */
+  summary?: string;
+  messages: ModelMessage[];
+}
+
+/**
+ * What a session gives its memory when appending messages.
+ */
+export interface ConversationMemoryContext {
+  /**
+   * Makes an LLM call through the session: it is recorded in the session summary and
+   * counted against its budget, but its messages are not added to the memory.
+   */
+  generateText(params: GenerateTextParams): Promise<{ text: string }>;
+}
+
+/**
+ * Message history attached to a session via `ExecutionOptions.memory`.
+ * Implement it to keep conversations somewhere else entirely; {@link WindowedConversationMemory}
+ * covers windowing, summarization and storage through a {@link ConversationStore}.
+ */
+export interface ConversationMemory {
+  /** Messages sent before the messages of each call */
+  getMessages(): Promise<ModelMessage[]>;
+  /**
+   * Records the messages of a finished call: its input messages followed by its response
+   * messages. Calls of one session append in order, one at a time.
+   */
+  append(messages: ModelMessage[], context: ConversationMemoryContext): Promise<void>;
+}
+
+/**
+ * Storage for conversations, keyed by conversation ID.
+ * Implementations must return states as they were saved (JSON round-trips are fine).
+ */
+export interface ConversationStore {
+  load(conversationId: string): Promise<ConversationState | undefined>;
+  save(conversationId: string, state: ConversationState): Promise<void>;
+  delete(conversationId: string): Promise<void>;
+}
+
+/**
+ * Conversation store keeping states in process memory.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private readonly states = new Map<string, ConversationState>();
+
+  async load(conversationId: string): Promise<ConversationState | undefined> {
+    const state = this.states.get(conversationId);
+    return state ? structuredClone(state) : undefined;
+  }
+
+  async save(conversationId: string, state: ConversationState): Promise<void> {
+    this.states.set(conversationId, structuredClone(state));
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.states.delete(conversationId);
+  }
+}
+
+/**
+ * Limits on the messages kept. Whole turns (a user message and everything up to the next one)
+ * are removed from the start of the conversation until it fits; the latest turn is always kept.
+ */
+export interface ConversationWindow {
+  maxMessages?: number;
+  maxTokens?: number;
+  /**
+   * Token estimate of one message, used for `maxTokens`.
+   * @default a quarter of the message's JSON length
+   */
+  countTokens?: (message: ModelMessage) => number;
+}
+
+export interface ConversationSummarization {
+  /** Model of the summary calls. Defaults to the session's default model. */
+  model?: string;
+  /** System prompt of the summary calls */
+  instructions?: string;
+  /** @default 1000 */
+  maxOutputTokens?: number;
+}
+
+export interface WindowedConversationMemoryOptions {
+  /** Limits on the messages kept. Without one, the whole conversation is kept. */
+  window?: ConversationWindow;
+  /**
+   * Summarize turns removed by the window instead of dropping them. The summary is sent
+   * as a system message ahead of the remaining messages. `true` uses the defaults.
+   */
+  summarize?: ConversationSummarization | boolean;
+  /** Where the conversation is loaded from and saved to after each call */
+  store?: ConversationStore;
+  /** Key of the conversation in `store`. Required with `store`. */
+  conversationId?: string;
+  /** Conversation to start from, e.g. one serialized with `toJSON()`. Takes precedence over `store`. */
+  state?: ConversationState;
+}
+
+const DEFAULT_SUMMARY_INSTRUCTIONS =
+  'Summarize the conversation below for an assistant that will continue it. ' +
+  'Keep facts, decisions, user preferences and open questions; omit small talk. ' +
+  'If an earlier summary is included, merge it into the new summary.';
+
+function estimateTokens(message: ModelMessage): number {
+  return Math.ceil(JSON.stringify(message).length / 4);
+}
+
+/** Splits messages into turns, each starting at a user message */
+export function splitTurns<T extends { role: string }>(messages: T[]): T[][] {
+  const turns: T[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+function describePart(part: { type: string } & Record<string, unknown>): string {
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return String(part.text);
+    case 'tool-call':
+      return `[called ${String(part.toolName)} with ${JSON.stringify(part.input)}]`;
+    case 'tool-result':
+      return `[${String(part.toolName)} returned ${JSON.stringify(part.output)}]`;
+    default:
+      return `[${part.type}]`;
+  }
+}
+
+/** Plain-text transcript of messages for the summary prompt */
+function toTranscript(messages: ModelMessage[]): string {
+  return messages
+    .map((message) => {
+      const content =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content
+              .map((part) => describePart(part as { type: string } & Record<string, unknown>))
+              .join(' ');
+      return `${message.role}: ${content}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Conversation memory that keeps messages within a window, optionally summarizing the
+ * turns that fall out of it, and persists them in a {@link ConversationStore}.
+ *
+ * @example
+ * ```typescript
+ * const memory = new WindowedConversationMemory({
+ *   store,
+ *   conversationId: `user-${userId}`,
+ *   window: { maxMessages: 20 },
+ *   summarize: { model: 'gemini-2.5-flash-lite' },
+ * });
+ *
+ * await provider
+ *   .simpleExecution(async (session) => {
+ *     const { text } = await session.generateText({ prompt: userMessage });
+ *     return text;
+ *   }, { memory })
+ *   .result();
+ * ```
+ */
+export class WindowedConversationMemory implements ConversationMemory {
+  private readonly window: ConversationWindow | undefined;
+  private readonly summarization: ConversationSummarization | undefined;
+  private readonly store: ConversationStore | undefined;
+  private readonly conversationId: string | undefined;
+  private state: ConversationState;
+  private loading: Promise<void> | undefined;
+
+  /**
+   * @throws ConfigurationError if `store` is set without `conversationId`, or the window is invalid
+   */
+  constructor(options: WindowedConversationMemoryOptions = {}) {
+    if (options.store && !options.conversationId) {
+      throw new ConfigurationError(
+        'WindowedConversationMemory with a store requires conversationId',
+        {
+          code: ConfigurationErrorCode.MISSING_REQUIRED,
+          context: { field: 'conversationId' },
+        }
+      );
+    }
+    for (const limit of ['maxMessages', 'maxTokens'] as const) {
+      const value = options.window?.[limit];
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new ConfigurationError(
+          `Invalid conversation window: ${limit} must be a positive integer`,
+          {
+            code: ConfigurationErrorCode.INVALID_CONFIG,
+            context: { window: options.window },
+          }
+        );
+      }
+    }
+
+    this.window = options.window;
+    this.summarization = options.summarize === true ? {} : options.summarize || undefined;
+    this.store = options.store;
+    this.conversationId = options.conversationId;
+    this.state = options.state ? structuredClone(options.state) : { messages: [] };
+    // An explicit state wins over whatever the store holds
+    this.loading = options.state || !options.store ? Promise.resolve() : undefined;
+  }
+
+  async getMessages(): Promise<ModelMessage[]> {
+    await this.load();
+    const { summary, messages } = this.state;
+    if (!summary) {
+      return [...messages];
+    }
+    return [
+      { role: 'system', content: `Summary of the earlier conversation:\n${summary}` },
+      ...messages,
+    ];
+  }
+
+  async append(messages: ModelMessage[], context: ConversationMemoryContext): Promise<void> {
+    await this.load();
+    const turns = splitTurns([...this.state.messages, ...messages]);
+    const removed: ModelMessage[] = [];
+    while (turns.length > 1 && this.exceedsWindow(turns.flat())) {
+      removed.push(...turns.shift()!);
+    }
+
+    const summary =
+      removed.length > 0 && this.summarization
+        ? await this.summarize(removed, context)
+        : this.state.summary;
+    this.state = { ...(summary && { summary }), messages: turns.flat() };
+    await this.store?.save(this.conversationId!, this.state);
+  }
+
+  /** Removes all messages and the summary, and deletes the conversation from the store */
+  async clear(): Promise<void> {
+    this.loading = Promise.resolve();
+    this.state = { messages: [] };
+    await this.store?.delete(this.conversationId!);
+  }
+
+  /**
+   * The conversation as last loaded or appended. Pass it as `state` to continue it later.
+   */
+  toJSON(): ConversationState {
+    return structuredClone(this.state);
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.store!.load(this.conversationId!).then(
+      (state) => {
+        if (state) {
+          this.state = state;
+        }
+      },
+      (error: unknown) => {
+        // Retry on the next call rather than failing every call after one bad load
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  private exceedsWindow(messages: ModelMessage[]): boolean {
+    if (!this.window) {
+      return false;
+    }
+    const { maxMessages, maxTokens, countTokens = estimateTokens } = this.window;
+    if (maxMessages !== undefined && messages.length > maxMessages) {
+      return true;
+    }
+    return (
+      maxTokens !== undefined &&
+      messages.reduce((total, message) => total + countTokens(message), 0) > maxTokens
+    );
+  }
+
+  private async summarize(
+    removed: ModelMessage[],
+    context: ConversationMemoryContext
+  ): Promise<string> {
+    const { model, instructions, maxOutputTokens = 1000 } = this.summarization!;
+    const earlier = this.state.summary ? `Earlier summary:\n${this.state.summary}\n\n` : '';
+    const { text } = await context.generateText({
+      ...(model && { model }),
+      system: instructions ?? DEFAULT_SUMMARY_INSTRUCTIONS,
+      prompt: `${earlier}Conversation:\n${toTranscript(removed)}`,
+      maxOutputTokens,
+    });
+    return text;
+  }
+}
@@ -0,0 +1,307 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { NoOpFileManager } from '../provider/noop-file-manager.js';
+import {
+  FileResponseCache,
+  InMemoryResponseCache,
+  createResponseCacheKey,
+  type CachedResponse,
+  type ResponseCacheMode,
+} from './response-cache.js';
+import { SimpleSession } from './simple-session.js';
+
+const USAGE = {
+  inputTokens: { total: 100, noCache: 100, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 10, text: 10, reasoning: undefined },
+};
+
+const FINISH = { unified: 'stop' as const, raw: undefined };
+
+const ENTRY: CachedResponse = {
+  type: 'generate',
+  content: [{ type: 'text', text: 'cached' }],
+  finishReason: FINISH,
+  usage: USAGE,
+  warnings: [],
+};
+
+/** Model whose responses are numbered, so replays are distinguishable from new calls */
+function countingModel(): MockLanguageModelV3 {
+  let count = 0;
+  return new MockLanguageModelV3({
+    modelId: 'gpt-4o',
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: `response ${++count}` }],
+      finishReason: FINISH,
+      usage: USAGE,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-start', id: 't' },
+          { type: 'text-delta', id: 't', delta: 'stream ' },
+          { type: 'text-delta', id: 't', delta: `${++count}` },
+          { type: 'text-end', id: 't' },
+          { type: 'finish', finishReason: FINISH, usage: USAGE },
+        ],
+      }),
+    }),
+  });
+}
+
+function createSession(
+  model: MockLanguageModelV3,
+  cache = new InMemoryResponseCache(),
+  mode?: ResponseCacheMode
+): SimpleSession {
+  return new SimpleSession({
+    defaultLanguageModel: model,
+    providerType: 'openai',
+    fileManager: new NoOpFileManager(),
+    responseCache: { cache, mode },
+  });
+}
+
+describe('InMemoryResponseCache', () => {
+  it('should evict the least recently used entry', async () => {
+    const cache = new InMemoryResponseCache({ maxEntries: 2 });
+
+    await cache.set('a', ENTRY);
+    await cache.set('b', ENTRY);
+    await cache.get('a');
+    await cache.set('c', ENTRY);
+
+    expect(await cache.get('a')).toBe(ENTRY);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+});
+
+describe('FileResponseCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = path.join(await mkdtemp(path.join(tmpdir(), 'agtlantis-cache-')), 'responses');
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  it('should store entries as JSON files and read them back', async () => {
+    const cache = new FileResponseCache({ directory });
+
+    await cache.set('abc', ENTRY);
+
+    expect(await readdir(directory)).toEqual(['abc.json']);
+    expect(await new FileResponseCache({ directory }).get('abc')).toEqual(ENTRY);
+  });
+
+  it('should return undefined for missing entries and clear the directory', async () => {
+    const cache = new FileResponseCache({ directory });
+
+    expect(await cache.get('missing')).toBeUndefined();
+    await cache.clear();
+
+    await cache.set('abc', ENTRY);
+    await cache.clear();
+    expect(await cache.get('abc')).toBeUndefined();
+  });
+});
+
+describe('createResponseCacheKey', () => {
+  const model = { provider: 'openai', modelId: 'gpt-4o' };
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+
+  it('should not depend on property order', () => {
+    expect(createResponseCacheKey(model, 'generate', { prompt, temperature: 0, topP: 1 })).toBe(
+      createResponseCacheKey(model, 'generate', { topP: 1, temperature: 0, prompt })
+    );
+  });
+
+  it('should change with the model, generation options and call type', () => {
+    const key = createResponseCacheKey(model, 'generate', { prompt });
+
+    expect(
+      createResponseCacheKey({ ...model, modelId: 'gpt-4o-mini' }, 'generate', { prompt })
+    ).not.toBe(key);
+    expect(createResponseCacheKey(model, 'generate', { prompt, temperature: 0.5 })).not.toBe(key);
+    expect(createResponseCacheKey(model, 'stream', { prompt })).not.toBe(key);
+  });
+
+  it('should ignore the abort signal', () => {
+    expect(
+      createResponseCacheKey(model, 'generate', { prompt, abortSignal: new AbortController().signal })
+    ).toBe(createResponseCacheKey(model, 'generate', { prompt }));
+  });
+});
+
+describe('SimpleSession with response cache', () => {
+  it('should serve repeated generateText calls from the cache', async () => {
+    const model = countingModel();
+    const session = createSession(model);
+
+    const first = await session.generateText({ prompt: 'Hi' });
+    const second = await session.generateText({ prompt: 'Hi' });
+    const summary = await session.getSummary();
+
+    expect(second.text).toBe(first.text);
+    expect(model.doGenerateCalls).toHaveLength(1);
+    expect(summary.llmCalls.map((call) => call.cached)).toEqual([undefined, true]);
+    expect(summary.llmCalls[1].usage.totalTokens).toBe(0);
+    expect(summary.totalLLMUsage.inputTokens).toBe(100);
+  });
+
+  it('should call the model for different prompts', async () => {
+    const model = countingModel();
+    const session = createSession(model);
+
+    await session.generateText({ prompt: 'Hi' });
+    const other = await session.generateText({ prompt: 'Bye' });
+
+    expect(other.text).toBe('response 2');
+    expect(model.doGenerateCalls).toHaveLength(2);
+  });
+
+  it('should skip the cache for calls with cache: false', async () => {
+    const model = countingModel();
+    const cache = new InMemoryResponseCache();
+    const session = createSession(model, cache);
+
+    await session.generateText({ prompt: 'Hi' });
+    const uncached = await session.generateText({ prompt: 'Hi', cache: false });
+    await session.generateText({ prompt: 'Bye', cache: false });
+
+    expect(uncached.text).toBe('response 2');
+    expect(cache.size).toBe(1);
+    expect((await session.getSummary()).llmCalls[1].cached).toBeUndefined();
+  });
+
+  it('should replay cached streamText chunks', async () => {
+    const model = countingModel();
+    const session = createSession(model);
+
+    await session.streamText({ prompt: 'Hi' }).text;
+    await session.getSummary();
+
+    const chunks: string[] = [];
+    for await (const chunk of session.streamText({ prompt: 'Hi' }).textStream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['stream ', '1']);
+    expect(model.doStreamCalls).toHaveLength(1);
+    expect((await session.getSummary()).llmCalls[1]).toMatchObject({
+      type: 'streamText',
+      cached: true,
+    });
+  });
+
+  it('should report cache hits to onLLMCallEnd with zero usage', async () => {
+    const model = countingModel();
+    const onLLMCallEnd = vi.fn();
+    const session = new SimpleSession({
+      defaultLanguageModel: model,
+      providerType: 'openai',
+      fileManager: new NoOpFileManager(),
+      responseCache: { cache: new InMemoryResponseCache() },
+      logger: { onLLMCallEnd },
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await session.generateText({ prompt: 'Hi' });
+      await session.streamText({ prompt: 'Hi' }).text;
+      await session.getSummary();
+    }
+
+    const responses = onLLMCallEnd.mock.calls.map(([event]) => event.response);
+    expect(responses.map((response) => response.cached)).toEqual([
+      undefined,
+      undefined,
+      true,
+      true,
+    ]);
+    expect(responses[0].usage.inputTokens).toBe(100);
+    expect(responses[2].usage.totalTokens).toBe(0);
+    expect(responses[3].usage.totalTokens).toBe(0);
+  });
+
+  it('should not cache streams that fail', async () => {
+    const model = new MockLanguageModelV3({
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'error', error: new Error('boom') },
+            { type: 'finish', finishReason: FINISH, usage: USAGE },
+          ],
+        }),
+      }),
+    });
+    const cache = new InMemoryResponseCache();
+    const session = createSession(model, cache);
+
+    await Promise.resolve(session.streamText({ prompt: 'Hi', onError: () => {} }).text).catch(
+      () => {}
+    );
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should share cached responses across sessions through the cache', async () => {
+    const model = countingModel();
+    const cache = new InMemoryResponseCache();
+
+    await createSession(model, cache).generateText({ prompt: 'Hi' });
+    const { text } = await createSession(model, cache).generateText({ prompt: 'Hi' });
+
+    expect(text).toBe('response 1');
+  });
+
+  describe('modes', () => {
+    it('read-only should serve hits without storing misses', async () => {
+      const model = countingModel();
+      const cache = new InMemoryResponseCache();
+      const session = createSession(model, cache, 'read-only');
+
+      await session.generateText({ prompt: 'Hi' });
+      await session.generateText({ prompt: 'Hi' });
+
+      expect(model.doGenerateCalls).toHaveLength(2);
+      expect(cache.size).toBe(0);
+    });
+
+    it('write-only should always call the model and keep existing entries', async () => {
+      const model = countingModel();
+      const cache = new InMemoryResponseCache();
+      const session = createSession(model, cache, 'write-only');
+
+      await session.generateText({ prompt: 'Hi' });
+      const second = await session.generateText({ prompt: 'Hi' });
+
+      expect(second.text).toBe('response 2');
+      expect((await createSession(model, cache).generateText({ prompt: 'Hi' })).text).toBe(
+        'response 1'
+      );
+    });
+
+    it('refresh should always call the model and overwrite entries', async () => {
+      const model = countingModel();
+      const cache = new InMemoryResponseCache();
+      const session = createSession(model, cache, 'refresh');
+
+      await session.generateText({ prompt: 'Hi' });
+      await session.generateText({ prompt: 'Hi' });
+
+      expect(model.doGenerateCalls).toHaveLength(2);
+      expect((await createSession(model, cache).generateText({ prompt: 'Hi' })).text).toBe(
+        'response 2'
+      );
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Response caching for LLM calls.
+ *
+ * Caching happens per model request, keyed on everything that determines the response
+ * (model, prompt, tools, output schema and generation options). Cached generate results
+ * are returned as-is; cached streams are replayed chunk by chunk.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { simulateReadableStream, type LanguageModel, type wrapLanguageModel } from 'ai';
+
+import { ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV3['doGenerate']>>;
+type StreamPart = Awaited<ReturnType<LanguageModelV3['doStream']>>['stream'] extends ReadableStream<infer P>
+  ? P
+  : never;
+
+/** A cached `doGenerate` result, without request/response transport details */
+export interface CachedGenerateResponse {
+  type: 'generate';
+  content: GenerateResult['content'];
+  finishReason: GenerateResult['finishReason'];
+  usage: GenerateResult['usage'];
+  warnings: GenerateResult['warnings'];
+  providerMetadata?: GenerateResult['providerMetadata'];
+  response?: { id?: string; modelId?: string };
+}
+
+/** A cached `doStream` result: the parts of a stream that finished without errors */
+export interface CachedStreamResponse {
+  type: 'stream';
+  parts: StreamPart[];
+}
+
+/** JSON-serializable cache entry for one model request */
+export type CachedResponse = CachedGenerateResponse | CachedStreamResponse;
+
+/**
+ * Storage for cached LLM responses.
+ * Implementations must return entries as they were stored (JSON round-trips are fine).
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, response: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * How the cache is used:
+ * - `read-write` (default): serve cached responses, store new ones
+ * - `read-only`: serve cached responses, never store
+ * - `write-only`: always call the model, store responses not cached yet
+ * - `refresh`: always call the model, store (overwrite) every response
+ */
+export type ResponseCacheMode = 'read-write' | 'read-only' | 'write-only' | 'refresh';
+
+export interface ResponseCacheOptions {
+  mode?: ResponseCacheMode;
+}
+
+/** Response cache setting passed to sessions */
+export interface ResponseCacheConfig extends ResponseCacheOptions {
+  cache: ResponseCache;
+}
+
+export interface InMemoryResponseCacheOptions {
+  /** Entries kept before the least recently used one is evicted (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory LRU response cache.
+ */
+export class InMemoryResponseCache implements ResponseCache {
+  private readonly entries = new Map<string, CachedResponse>();
+  private readonly maxEntries: number;
+
+  constructor(options?: InMemoryResponseCacheOptions) {
+    const maxEntries = options?.maxEntries ?? 1000;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new ConfigurationError('Invalid response cache: maxEntries must be a positive integer', {
+        code: ConfigurationErrorCode.INVALID_CONFIG,
+        context: { maxEntries },
+      });
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const response = this.entries.get(key);
+    if (response) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, response);
+    }
+    return response;
+  }
+
+  async set(key: string, response: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, response);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export interface FileResponseCacheOptions {
+  /** Directory for cache entries, created on first write */
+  directory: string;
+}
+
+/**
+ * Filesystem response cache storing one JSON file per entry (`{key}.json`).
+ * Suited to sharing cached responses across dev runs and eval iterations.
+ */
+export class FileResponseCache implements ResponseCache {
+  private readonly directory: string;
+
+  constructor(options: FileResponseCacheOptions) {
+    this.directory = options.directory;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await readFile(this.entryPath(key), 'utf-8')) as CachedResponse;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, response: CachedResponse): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.entryPath(key), JSON.stringify(response), 'utf-8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.entryPath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/** JSON with sorted object keys, so equal requests always serialize the same way */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, v: unknown) => {
+    if (v instanceof Uint8Array) {
+      return { $bytes: Buffer.from(v).toString('base64') };
+    }
+    if (v instanceof URL) {
+      return v.href;
+    }
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.keys(v)
+          .sort()
+          .map((key) => [key, (v as Record<string, unknown>)[key]])
+      );
+    }
+    return v;
+  });
+}
+
+/** @internal */
+export type NormalizedRequest = Pick<
+  CallOptions,
+  | 'prompt'
+  | 'tools'
+  | 'toolChoice'
+  | 'responseFormat'
+  | 'maxOutputTokens'
+  | 'temperature'
+  | 'topP'
+  | 'topK'
+  | 'presencePenalty'
+  | 'frequencyPenalty'
+  | 'stopSequences'
+  | 'seed'
+  | 'providerOptions'
+>;
+
+/**
+ * The parts of a model request that determine its response.
+ * Transport options (headers, abort signal) are left out.
+ * @internal Shared with the testing cassettes.
+ */
+export function normalizeRequest(options: CallOptions): NormalizedRequest {
+  return {
+    prompt: options.prompt,
+    tools: options.tools,
+    toolChoice: options.toolChoice,
+    responseFormat: options.responseFormat,
+    maxOutputTokens: options.maxOutputTokens,
+    temperature: options.temperature,
+    topP: options.topP,
+    topK: options.topK,
+    presencePenalty: options.presencePenalty,
+    frequencyPenalty: options.frequencyPenalty,
+    stopSequences: options.stopSequences,
+    seed: options.seed,
+    providerOptions: options.providerOptions,
+  };
+}
+
+/**
+ * SHA-256 hash of a JSON value with object keys sorted.
+ * @internal Shared with the testing cassettes.
+ */
+export function hashRequest(request: unknown): string {
+  return createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+/**
+ * Cache key for a model request: a SHA-256 hash of the model, prompt, tools,
+ * output schema and generation options. Transport options (headers, abort signal) are ignored.
+ */
+export function createResponseCacheKey(
+  model: { provider: string; modelId: string },
+  type: CachedResponse['type'],
+  options: CallOptions
+): string {
+  return hashRequest({
+    type,
+    provider: model.provider,
+    modelId: model.modelId,
+    ...normalizeRequest(options),
+  });
+}
+
+/** Binary file data is stored as base64, which models accept in place of bytes */
+function toCacheablePart<T extends { type: string }>(part: T): T {
+  if (part.type === 'file' && (part as { data?: unknown }).data instanceof Uint8Array) {
+    const data = (part as unknown as { data: Uint8Array }).data;
+    return { ...part, data: Buffer.from(data).toString('base64') };
+  }
+  if (part.type === 'response-metadata') {
+    const { timestamp: _timestamp, ...rest } = part as T & { timestamp?: Date };
+    return rest as T;
+  }
+  return part;
+}
+
+/** @internal Shared with the testing cassettes. */
+export function toCachedGenerate(result: GenerateResult): CachedGenerateResponse {
+  return {
+    type: 'generate',
+    content: result.content.map(toCacheablePart),
+    finishReason: result.finishReason,
+    usage: result.usage,
+    warnings: result.warnings,
+    ...(result.providerMetadata && { providerMetadata: result.providerMetadata }),
+    ...(result.response && { response: { id: result.response.id, modelId: result.response.modelId } }),
+  };
+}
+
+/**
+ * Passes a stream through, calling `onComplete` with its parts once it finishes
+ * cleanly (with a finish part and no error parts). The stream closes after `onComplete` settles.
+ * @internal Shared with the testing cassettes.
+ */
+export function recordStream(
+  stream: ReadableStream<StreamPart>,
+  onComplete: (response: CachedStreamResponse) => Promise<void>
+): ReadableStream<StreamPart> {
+  const parts: StreamPart[] = [];
+  let finished = false;
+  let failed = false;
+
+  return stream.pipeThrough(
+    new TransformStream<StreamPart, StreamPart>({
+      transform(part, controller) {
+        failed ||= part.type === 'error';
+        finished ||= part.type === 'finish';
+        if (part.type !== 'raw') {
+          parts.push(toCacheablePart(part));
+        }
+        controller.enqueue(part);
+      },
+      async flush() {
+        if (finished && !failed) {
+          await onComplete({ type: 'stream', parts });
+        }
+      },
+    })
+  );
+}
+
+/**
+ * Replays recorded stream parts without delays.
+ * @internal Shared with the testing cassettes.
+ */
+export function replayStream(response: CachedStreamResponse): ReadableStream<StreamPart> {
+  return simulateReadableStream({
+    chunks: response.parts,
+    initialDelayInMs: null,
+    chunkDelayInMs: null,
+  });
+}
+
+export interface CachingModel {
+  model: LanguageModelV3;
+  /** True once requests were made and every one was served from the cache */
+  servedFromCache(): boolean;
+}
+
+/**
+ * Wraps a model so requests are served from and stored in the cache according to `mode`.
+ * Cache failures are reported with console.warn and never fail the call.
+ */
+export function createCachingModel(model: LanguageModel, config: ResponseCacheConfig): CachingModel {
+  if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+    throw new ConfigurationError('Response caching requires a v3 LanguageModel instance', {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+    });
+  }
+  const inner: LanguageModelV3 = model;
+  const { cache, mode = 'read-write' } = config;
+  const reads = mode === 'read-write' || mode === 'read-only' || mode === 'write-only';
+  let hits = 0;
+  let misses = 0;
+
+  async function lookup(key: string): Promise<CachedResponse | undefined> {
+    if (!reads) {
+      return undefined;
+    }
+    try {
+      return await cache.get(key);
+    } catch (error) {
+      console.warn('[ResponseCache] Failed to read cached response:', error);
+      return undefined;
+    }
+  }
+
+  async function store(key: string, response: CachedResponse): Promise<void> {
+    try {
+      await cache.set(key, response);
+    } catch (error) {
+      console.warn('[ResponseCache] Failed to store response:', error);
+    }
+  }
+
+  const wrapped: LanguageModelV3 = {
+    specificationVersion: 'v3',
+    provider: inner.provider,
+    modelId: inner.modelId,
+    supportedUrls: inner.supportedUrls,
+    doGenerate: async (options) => {
+      const key = createResponseCacheKey(inner, 'generate', options);
+      const cached = await lookup(key);
+      if (cached?.type === 'generate' && mode !== 'write-only') {
+        hits++;
+        const { type: _type, ...result } = cached;
+        return result;
+      }
+
+      misses++;
+      const result = await inner.doGenerate(options);
+      if (mode !== 'read-only' && !(mode === 'write-only' && cached)) {
+        await store(key, toCachedGenerate(result));
+      }
+      return result;
+    },
+    doStream: async (options) => {
+      const key = createResponseCacheKey(inner, 'stream', options);
+      const cached = await lookup(key);
+      if (cached?.type === 'stream' && mode !== 'write-only') {
+        hits++;
+        return { stream: replayStream(cached) };
+      }
+
+      misses++;
+      const result = await inner.doStream(options);
+      if (mode === 'read-only' || (mode === 'write-only' && cached)) {
+        return result;
+      }
+
+      return { ...result, stream: recordStream(result.stream, (response) => store(key, response)) };
+    },
+  };
+
+  return { model: wrapped, servedFromCache: () => hits > 0 && misses === 0 };
+}
@@ -0,0 +1,246 @@
+import { APICallError } from 'ai';
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConfigurationError, ExecutionError, ExecutionErrorCode } from '../errors/index.js';
+import type { Logger } from '../observability/logger.js';
+import { NoOpFileManager } from '../provider/noop-file-manager.js';
+import { computeRetryDelay, shouldRetry, validateRetryPolicy, type RetryPolicy } from './retry.js';
+import { SimpleSession } from './simple-session.js';
+
+const USAGE = {
+  inputTokens: { total: 100, noCache: 100, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 10, text: 10, reasoning: undefined },
+};
+
+function httpError(statusCode: number, responseHeaders?: Record<string, string>): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+/** Model that throws the given errors in order, then succeeds */
+function flakyModel(errors: Error[]): MockLanguageModelV3 {
+  const pending = [...errors];
+  const failNext = () => {
+    const error = pending.shift();
+    if (error) throw error;
+  };
+
+  return new MockLanguageModelV3({
+    modelId: 'gpt-4o',
+    doGenerate: async () => {
+      failNext();
+      return {
+        content: [{ type: 'text', text: 'ok' }],
+        finishReason: { unified: 'stop', raw: undefined },
+        usage: USAGE,
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      failNext();
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'text-start', id: 't' },
+            { type: 'text-delta', id: 't', delta: 'ok' },
+            { type: 'text-end', id: 't' },
+            { type: 'finish', finishReason: { unified: 'stop', raw: undefined }, usage: USAGE },
+          ],
+        }),
+      };
+    },
+  });
+}
+
+function createSession(
+  model: MockLanguageModelV3,
+  retryPolicy: RetryPolicy | undefined,
+  extra: { logger?: Logger; signal?: AbortSignal } = {}
+): SimpleSession {
+  return new SimpleSession({
+    defaultLanguageModel: model,
+    providerType: 'openai',
+    fileManager: new NoOpFileManager(),
+    retryPolicy,
+    ...extra,
+  });
+}
+
+const FAST: RetryPolicy = { maxAttempts: 3, backoff: { initialDelayMs: 1 }, jitter: 0 };
+
+describe('validateRetryPolicy', () => {
+  it.each([
+    { maxAttempts: 0 },
+    { maxAttempts: 1.5 },
+    { maxAttempts: 2, backoff: { initialDelayMs: -1 } },
+    { maxAttempts: 2, backoff: { multiplier: 0.5 } },
+    { maxAttempts: 2, jitter: 1.5 },
+  ])('should reject %j', (policy) => {
+    expect(() => validateRetryPolicy(policy)).toThrow(ConfigurationError);
+  });
+
+  it('should accept a valid policy', () => {
+    expect(() =>
+      validateRetryPolicy({ maxAttempts: 3, backoff: { initialDelayMs: 100 }, jitter: 0.5 })
+    ).not.toThrow();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const policy: RetryPolicy = {
+    maxAttempts: 5,
+    backoff: { initialDelayMs: 100, multiplier: 2, maxDelayMs: 1000 },
+    jitter: 0,
+  };
+
+  it('should grow exponentially and cap at maxDelayMs', () => {
+    const error = httpError(503);
+
+    expect([1, 2, 3, 4, 5].map((attempt) => computeRetryDelay(policy, attempt, error))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+
+  it('should spread delays by the jitter fraction', () => {
+    const jittered = { ...policy, jitter: 0.2 };
+
+    expect(computeRetryDelay(jittered, 1, httpError(503), () => 0)).toBe(80);
+    expect(computeRetryDelay(jittered, 1, httpError(503), () => 1)).toBe(120);
+  });
+
+  it('should honor Retry-After up to maxDelayMs', () => {
+    expect(computeRetryDelay(policy, 1, httpError(429, { 'retry-after': '0.5' }))).toBe(500);
+    expect(computeRetryDelay(policy, 1, httpError(429, { 'retry-after': '60' }))).toBe(1000);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('should retry transient errors by default', () => {
+    expect(shouldRetry(FAST, httpError(429), 1)).toBe(true);
+    expect(shouldRetry(FAST, httpError(500), 1)).toBe(true);
+    expect(shouldRetry(FAST, httpError(400), 1)).toBe(false);
+    expect(shouldRetry(FAST, new ExecutionError('x', { code: ExecutionErrorCode.CANCELLED }), 1)).toBe(
+      false
+    );
+  });
+
+  it('should restrict retries to the configured kinds', () => {
+    const policy: RetryPolicy = { ...FAST, retryOn: ['rate_limit'] };
+
+    expect(shouldRetry(policy, httpError(429), 1)).toBe(true);
+    expect(shouldRetry(policy, httpError(500), 1)).toBe(false);
+  });
+
+  it('should delegate to a custom predicate', () => {
+    const retryOn = vi.fn().mockReturnValue(true);
+
+    expect(shouldRetry({ ...FAST, retryOn }, httpError(400), 2)).toBe(true);
+    expect(retryOn).toHaveBeenCalledWith(expect.any(APICallError), 2);
+  });
+});
+
+describe('SimpleSession with retry policy', () => {
+  it('should retry transient generateText failures and record every attempt', async () => {
+    const model = flakyModel([httpError(429), httpError(503)]);
+    const session = createSession(model, FAST);
+
+    const { text } = await session.generateText({ prompt: 'Hi' });
+    const summary = await session.getSummary();
+
+    expect(text).toBe('ok');
+    expect(model.doGenerateCalls).toHaveLength(3);
+    expect(summary.llmCalls.map(({ attempt, error }) => ({ attempt, error }))).toEqual([
+      { attempt: 1, error: 'HTTP 429' },
+      { attempt: 2, error: 'HTTP 503' },
+      { attempt: 3, error: undefined },
+    ]);
+    expect(summary.llmCalls[0].usage.totalTokens).toBe(0);
+    expect(summary.totalLLMUsage.inputTokens).toBe(100);
+  });
+
+  it('should retry streamText failures before the stream starts', async () => {
+    const model = flakyModel([httpError(500)]);
+    const session = createSession(model, FAST);
+
+    const result = session.streamText({ prompt: 'Hi' });
+
+    expect(await result.text).toBe('ok');
+    expect(model.doStreamCalls).toHaveLength(2);
+    expect((await session.getSummary()).llmCallCount).toBe(2);
+  });
+
+  it('should emit onLLMCallRetry for each retry', async () => {
+    const onLLMCallRetry = vi.fn();
+    const session = createSession(flakyModel([httpError(429)]), FAST, { logger: { onLLMCallRetry } });
+
+    await session.generateText({ prompt: 'Hi' });
+
+    expect(onLLMCallRetry).toHaveBeenCalledTimes(1);
+    expect(onLLMCallRetry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'llm_call_retry',
+        callType: 'generateText',
+        modelId: 'gpt-4o',
+        attempt: 1,
+        maxAttempts: 3,
+        delayMs: 1,
+        errorKind: 'rate_limit',
+      })
+    );
+  });
+
+  it('should not retry non-transient errors', async () => {
+    const model = flakyModel([httpError(400)]);
+    const session = createSession(model, FAST);
+
+    await expect(session.generateText({ prompt: 'Hi' })).rejects.toThrow('HTTP 400');
+    expect(model.doGenerateCalls).toHaveLength(1);
+    expect((await session.getSummary()).llmCalls[0]).toMatchObject({ attempt: 1, error: 'HTTP 400' });
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const model = flakyModel([httpError(500), httpError(500), httpError(500)]);
+    const session = createSession(model, FAST);
+
+    await expect(session.generateText({ prompt: 'Hi' })).rejects.toThrow('HTTP 500');
+    expect(model.doGenerateCalls).toHaveLength(3);
+    expect((await session.getSummary()).llmCallCount).toBe(3);
+  });
+
+  it('should stop waiting when the session signal is aborted', async () => {
+    const controller = new AbortController();
+    const model = flakyModel([httpError(429)]);
+    const session = createSession(
+      model,
+      { maxAttempts: 3, backoff: { initialDelayMs: 60_000 } },
+      { signal: controller.signal, logger: { onLLMCallRetry: () => controller.abort() } }
+    );
+
+    await expect(session.generateText({ prompt: 'Hi' })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(model.doGenerateCalls).toHaveLength(1);
+  });
+
+  it('should disable AI SDK retries so attempts are not multiplied', async () => {
+    const model = flakyModel([httpError(500), httpError(500)]);
+    const session = createSession(model, { ...FAST, maxAttempts: 2 });
+
+    await expect(session.generateText({ prompt: 'Hi' })).rejects.toThrow('HTTP 500');
+    expect(model.doGenerateCalls).toHaveLength(2);
+  });
+
+  it('should leave calls untouched without a policy', async () => {
+    const session = createSession(flakyModel([]), undefined);
+
+    await session.generateText({ prompt: 'Hi' });
+
+    expect((await session.getSummary()).llmCalls[0].attempt).toBeUndefined();
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Automatic retries for transient LLM call failures.
+ *
+ * Retries happen per model request (each step of a tool loop is retried on its own),
+ * before any output reaches the caller, so both generateText and streamText are covered.
+ */
+
+import type { LanguageModel, wrapLanguageModel } from 'ai';
+
+import { AgtlantisError, ConfigurationError, ConfigurationErrorCode } from '../errors/index.js';
+import {
+  classifyProviderError,
+  getRetryAfterMs,
+  type ProviderErrorKind,
+} from '../provider/error-classification.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+
+/**
+ * Exponential backoff between attempts: `initialDelayMs * multiplier^(retry - 1)`.
+ */
+export interface RetryBackoff {
+  /** Delay before the first retry in ms (default: 500) */
+  initialDelayMs?: number;
+  /** Growth factor per retry (default: 2) */
+  multiplier?: number;
+  /** Upper bound for a single delay, including one requested via Retry-After (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Decides whether a failed attempt is retried.
+ * @param attempt - 1-based number of the attempt that failed
+ */
+export type RetryPredicate = (error: unknown, attempt: number) => boolean;
+
+/**
+ * Retry policy applied to every LLM call of a provider's sessions.
+ *
+ * @example
+ * ```typescript
+ * const provider = createOpenAIProvider({ apiKey })
+ *   .withDefaultModel('gpt-4o')
+ *   .withRetryPolicy({
+ *     maxAttempts: 4,
+ *     backoff: { initialDelayMs: 1000, maxDelayMs: 20_000 },
+ *     retryOn: ['rate_limit', 'server'],
+ *   });
+ * ```
+ */
+export interface RetryPolicy {
+  /** Total attempts per request, including the first one */
+  maxAttempts: number;
+  backoff?: RetryBackoff;
+  /**
+   * Random spread applied to each backoff delay, as a fraction of it (0-1, default: 0.2).
+   * A delay of 1000ms with jitter 0.2 becomes 800-1200ms.
+   */
+  jitter?: number;
+  /**
+   * Error kinds to retry, or a custom predicate.
+   * Default: rate_limit, server, timeout and network errors, plus retryable AgtlantisErrors.
+   */
+  retryOn?: readonly ProviderErrorKind[] | RetryPredicate;
+}
+
+export const DEFAULT_RETRY_ON: readonly ProviderErrorKind[] = [
+  'rate_limit',
+  'server',
+  'timeout',
+  'network',
+];
+
+const DEFAULT_INITIAL_DELAY_MS = 500;
+const DEFAULT_MULTIPLIER = 2;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_JITTER = 0.2;
+
+/**
+ * Validates a retry policy.
+ * @throws ConfigurationError with INVALID_CONFIG if a value is out of range
+ */
+export function validateRetryPolicy(policy: RetryPolicy): void {
+  const invalid = (message: string) =>
+    new ConfigurationError(`Invalid retry policy: ${message}`, {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+      context: { policy },
+    });
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw invalid('maxAttempts must be a positive integer');
+  }
+
+  const { initialDelayMs, multiplier, maxDelayMs } = policy.backoff ?? {};
+  for (const [name, value] of Object.entries({ initialDelayMs, maxDelayMs })) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw invalid(`backoff.${name} must be a non-negative number`);
+    }
+  }
+  if (multiplier !== undefined && (!Number.isFinite(multiplier) || multiplier < 1)) {
+    throw invalid('backoff.multiplier must be at least 1');
+  }
+
+  if (policy.jitter !== undefined && !(policy.jitter >= 0 && policy.jitter <= 1)) {
+    throw invalid('jitter must be between 0 and 1');
+  }
+}
+
+/**
+ * Whether the policy retries an error from the given (1-based) attempt,
+ * ignoring the attempt limit.
+ */
+export function shouldRetry(policy: RetryPolicy, error: unknown, attempt: number): boolean {
+  const { retryOn = DEFAULT_RETRY_ON } = policy;
+  if (typeof retryOn === 'function') {
+    return retryOn(error, attempt);
+  }
+  if (error instanceof AgtlantisError && error.isRetryable) {
+    return true;
+  }
+  return retryOn.includes(classifyProviderError(error));
+}
+
+/**
+ * Delay before the attempt following a failed one.
+ * A Retry-After header takes precedence over the computed backoff; both are capped at maxDelayMs.
+ *
+ * @param attempt - 1-based number of the attempt that failed
+ * @param random - Source of randomness for jitter (injectable for tests)
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown,
+  random: () => number = Math.random
+): number {
+  const {
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    multiplier = DEFAULT_MULTIPLIER,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = policy.backoff ?? {};
+
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, maxDelayMs);
+  }
+
+  const jitter = policy.jitter ?? DEFAULT_JITTER;
+  const base = initialDelayMs * multiplier ** (attempt - 1);
+  const spread = 1 - jitter + random() * 2 * jitter;
+  return Math.min(Math.round(base * spread), maxDelayMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A failed attempt, reported before the next attempt starts (or before the call gives up).
+ */
+export interface RetryAttemptFailure {
+  /** 1-based attempt number */
+  attempt: number;
+  error: unknown;
+  startTime: number;
+  endTime: number;
+  /** Wait before the next attempt; undefined when no further attempt is made */
+  delayMs?: number;
+  /** Reason of the request's abort signal, when it was aborted */
+  abortReason?: unknown;
+}
+
+export interface RetryingModel {
+  model: LanguageModel;
+  /** Attempt number that produced the most recent successful response (0 before any) */
+  lastAttempt(): number;
+}
+
+/**
+ * Wraps a model so each request is retried according to the policy.
+ * The delay between attempts is cancelled by the call's abort signal.
+ */
+export function createRetryingModel(
+  model: LanguageModel,
+  policy: RetryPolicy,
+  onAttemptFailed: (failure: RetryAttemptFailure) => void,
+  random: () => number = Math.random
+): RetryingModel {
+  if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+    throw new ConfigurationError('Retry policies require a v3 LanguageModel instance', {
+      code: ConfigurationErrorCode.INVALID_CONFIG,
+    });
+  }
+  const inner: LanguageModelV3 = model;
+  let lastAttempt = 0;
+
+  async function run<T>(options: CallOptions, request: () => PromiseLike<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      try {
+        const result = await request();
+        lastAttempt = attempt;
+        return result;
+      } catch (error) {
+        const retrying =
+          attempt < policy.maxAttempts &&
+          !options.abortSignal?.aborted &&
+          shouldRetry(policy, error, attempt);
+        const delayMs = retrying ? computeRetryDelay(policy, attempt, error, random) : undefined;
+
+        onAttemptFailed({
+          attempt,
+          error,
+          startTime,
+          endTime: Date.now(),
+          delayMs,
+          ...(options.abortSignal?.aborted && { abortReason: options.abortSignal.reason }),
+        });
+
+        if (delayMs === undefined) {
+          throw error;
+        }
+        await sleep(delayMs, options.abortSignal);
+      }
+    }
+  }
+
+  const wrapped: LanguageModelV3 = {
+    specificationVersion: 'v3',
+    provider: inner.provider,
+    modelId: inner.modelId,
+    supportedUrls: inner.supportedUrls,
+    doGenerate: (options) => run(options, () => inner.doGenerate(options)),
+    doStream: (options) => run(options, () => inner.doStream(options)),
+  };
+
+  return { model: wrapped, lastAttempt: () => lastAttempt };
+}
@@ -816,6 +816,36 @@ describe('SimpleSession', () => {
   });
 
   describe('cost tracking in summary', () => {
+    it('should warn once per model priced with the fallback price', async () => {
+      mockGenerateText.mockResolvedValue({ text: 'response', usage: createMockUsage() });
+      const logger = { ...createMockLogger(), log: vi.fn() };
+
+      const session = new SimpleSession({
+        defaultLanguageModel: createMockModel(),
+        providerType: 'google',
+        fileManager: createMockFileManager(),
+        logger,
+      });
+
+      await session.generateText({ prompt: 'test' });
+      await session.generateText({ prompt: 'test' });
+      session.recordLLMCall({
+        startTime: 1000,
+        endTime: 2000,
+        duration: 1000,
+        usage: createMockUsage(),
+        model: 'models/gemini-2.5-flash-preview-05-20',
+        provider: 'google',
+      });
+
+      expect(logger.log).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith(
+        'warn',
+        'No pricing for google/test-model; its cost uses the fallback price',
+        { provider: 'google', model: 'test-model' }
+      );
+    });
+
     it('should return zero cost for empty session', async () => {
       const session = new SimpleSession({
         defaultLanguageModel: createMockModel(),
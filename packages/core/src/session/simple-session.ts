@@ -1,3 +1,5 @@
+import { randomUUID } from 'node:crypto';
+
 import {
   generateText as aiGenerateText,
   streamText as aiStreamText,
@@ -5,14 +7,18 @@ import {
 import type {
   LanguageModel,
   LanguageModelUsage,
+  ModelMessage,
+  PrepareStepFunction,
   ToolSet,
 } from 'ai';
 import { deepMerge } from '../utils/deep-merge.js';
-import type { Logger } from '../observability/logger.js';
+import { ContextOverflowError } from '../errors/index.js';
+import type { Logger, LogCorrelation } from '../observability/logger.js';
 import { noopLogger } from '../observability/logger.js';
 import type { FileManager } from '../provider/types.js';
-import type { ProviderType, ProviderPricing } from '../pricing/types.js';
-import { calculateTotalCost } from '../pricing/calculator.js';
+import { classifyProviderError } from '../provider/error-classification.js';
+import type { ModelPricing, ProviderType, ProviderPricing } from '../pricing/types.js';
+import { calculateCostFromUsage, findModelPricing } from '../pricing/calculator.js';
 import {
   SessionSummary,
   type DefaultOutput,
@@ -26,8 +32,25 @@ import {
   type ToolCallSummary,
   type OutputSpec,
   type AdditionalCost,
+  type CostAttribution,
+  type ModelRouter,
+  type RoutedModel,
+  type ServingTarget,
 } from './types.js';
 import { mergeUsages, createZeroUsage } from './usage-extractors.js';
+import { createRetryingModel, type RetryingModel, type RetryPolicy } from './retry.js';
+import { CallTimeout, isCallTimeoutError, rejectOnFailure } from './timeout.js';
+import { enforceBudget, estimateMaxOutputCost, type Budget } from './budget.js';
+import { createCachingModel, type ResponseCacheConfig } from './response-cache.js';
+import type { ConversationMemory } from './memory.js';
+import { createContextGuardModel, type ContextGuardOptions } from './context-window.js';
+import {
+  instrumentTools,
+  type ToolApprovalDecision,
+  type ToolApprovalRequest,
+  type ToolPolicy,
+} from './tool-instrumentation.js';
+import { combineSignals } from '../execution/utils.js';
 
 /**
  * Provider-specific options type.
@@ -35,11 +58,19 @@ import { mergeUsages, createZeroUsage } from './usage-extractors.js';
  */
 type ProviderOptions = Record<string, Record<string, unknown>>;
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyPrepareStep = PrepareStepFunction<any>;
+
 export interface SimpleSessionOptions {
   defaultLanguageModel?: LanguageModel | null;
   modelFactory?: (modelId: string) => LanguageModel;
   providerType: ProviderType;
   providerPricing?: ProviderPricing;
+  /**
+   * Pricing for models not found in providerPricing, global config or built-in defaults.
+   * Takes precedence over the global fallback (e.g., zero-cost for self-hosted endpoints).
+   */
+  fallbackPricing?: ModelPricing;
   fileManager: FileManager;
   logger?: Logger;
   startTime?: number;
@@ -63,6 +94,45 @@ export interface SimpleSessionOptions {
    * Per-call parameters override these defaults via simple spread.
    */
   defaultGenerationOptions?: GenerationOptions;
+  /**
+   * Resolves the model per call instead of defaultLanguageModel/modelFactory.
+   * Calls are recorded and priced against the target that served them.
+   */
+  modelRouter?: ModelRouter;
+  /**
+   * Retries transient failures of each LLM request (replaces the AI SDK's own maxRetries).
+   * Every attempt, including failed ones, is recorded in the session summary.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Limits checked against the running summary before each LLM call.
+   * Calls over budget throw BudgetExceededError instead of being made.
+   */
+  budget?: Budget;
+  /**
+   * Serves repeated requests from a response cache. Calls answered entirely
+   * from the cache are recorded with zero usage and `cached: true`.
+   */
+  responseCache?: ResponseCacheConfig;
+  /**
+   * Conversation prepended to every LLM call. Each call's input and response
+   * messages are appended to it once the call finishes.
+   */
+  memory?: ConversationMemory;
+  /**
+   * Checks every request against the model's context window and output limit before
+   * it is sent, truncating it or throwing ContextOverflowError when it does not fit.
+   */
+  contextGuard?: ContextGuardOptions;
+  /** Tags stamped onto every recorded LLM call and additional cost */
+  attribution?: CostAttribution;
+  /**
+   * Timeouts, argument redaction and error messages for tools passed to LLM calls.
+   * Every execution of those tools is recorded in the summary's toolCalls either way.
+   */
+  toolPolicy?: ToolPolicy;
+  /** Execution this one runs as a child of, set on its execution events */
+  parentExecutionId?: string;
 }
 
 export class SimpleSession {
@@ -70,31 +140,61 @@ export class SimpleSession {
   private readonly modelFactory: ((modelId: string) => LanguageModel) | null;
   private readonly providerType: ProviderType;
   private readonly providerPricing: ProviderPricing | undefined;
+  private readonly fallbackPricing: ModelPricing | undefined;
   private readonly defaultProviderOptions: ProviderOptions | undefined;
   private readonly defaultTools: ToolSet | undefined;
   private readonly defaultGenerationOptions: GenerationOptions | undefined;
+  private readonly modelRouter: ModelRouter | undefined;
+  private readonly retryPolicy: RetryPolicy | undefined;
+  private readonly budget: Budget | undefined;
+  private readonly responseCache: ResponseCacheConfig | undefined;
+  private readonly memory: ConversationMemory | undefined;
+  private readonly contextGuard: ContextGuardOptions | undefined;
+  private readonly attribution: CostAttribution | undefined;
+  private readonly toolPolicy: ToolPolicy;
   private readonly _fileManager: FileManager;
   private readonly logger: Logger;
   private readonly sessionStartTime: number;
-  private readonly signal?: AbortSignal;
+  /**
+   * Signal of the execution running this session. Pass it on to work started for the
+   * execution, such as child executions, so that it is canceled along with it.
+   */
+  readonly signal?: AbortSignal;
+  /** Unique per execution; the `executionId` of its logger events */
+  readonly executionId = randomUUID();
+  private readonly parentExecutionId: string | undefined;
 
   private summary!: SessionSummary;
   private readonly pendingUsagePromises: Promise<LanguageModelUsage | undefined>[] = [];
 
   private readonly onDoneFns: Array<() => Promise<void> | void> = [];
+  /** Memory appends run one at a time, in call order */
+  private memoryUpdates: Promise<void> = Promise.resolve();
+  /** `provider/model` keys already warned about falling back to default pricing */
+  private readonly unpricedModels = new Set<string>();
 
   constructor(options: SimpleSessionOptions) {
     this.defaultLanguageModel = options.defaultLanguageModel ?? null;
     this.modelFactory = options.modelFactory ?? null;
     this.providerType = options.providerType;
     this.providerPricing = options.providerPricing;
+    this.fallbackPricing = options.fallbackPricing;
     this.defaultProviderOptions = options.defaultProviderOptions;
     this.defaultTools = options.defaultTools;
     this.defaultGenerationOptions = options.defaultGenerationOptions;
+    this.modelRouter = options.modelRouter;
+    this.retryPolicy = options.retryPolicy;
+    this.budget = options.budget;
+    this.responseCache = options.responseCache;
+    this.memory = options.memory;
+    this.contextGuard = options.contextGuard;
+    this.attribution = options.attribution;
+    this.toolPolicy = options.toolPolicy ?? {};
     this._fileManager = options.fileManager;
     this.logger = options.logger ?? noopLogger;
     this.sessionStartTime = options.startTime ?? Date.now();
     this.signal = options.signal;
+    this.parentExecutionId = options.parentExecutionId;
     this.summary = SessionSummary.empty(this.sessionStartTime);
   }
 
@@ -118,6 +218,192 @@ export class SimpleSession {
     return this.defaultLanguageModel;
   }
 
+  private resolveModel(requestedModelId?: string): RoutedModel {
+    if (this.modelRouter) {
+      return this.modelRouter(requestedModelId);
+    }
+    return { model: this.getModel(requestedModelId), servedBy: () => undefined };
+  }
+
+  /**
+   * Applies the retry policy to a resolved model. Failed attempts are recorded
+   * as calls with zero usage and reported via `onLLMCallRetry` when retried.
+   * Attempts ended by the call's timeout are left to `recordTimedOutCall`.
+   */
+  private withRetries(
+    routed: RoutedModel,
+    modelId: string,
+    callType: 'generateText' | 'streamText',
+    callId: string
+  ): RetryingModel | undefined {
+    const policy = this.retryPolicy;
+    if (!policy) {
+      return undefined;
+    }
+
+    return createRetryingModel(routed.model, policy, (failure) => {
+      if (isCallTimeoutError(failure.abortReason)) {
+        return;
+      }
+      const target = routed.servedBy();
+      const error =
+        failure.error instanceof Error ? failure.error : new Error(String(failure.error));
+
+      this.updateSummaryWithLLMCall(
+        {
+          startTime: failure.startTime,
+          endTime: failure.endTime,
+          duration: failure.endTime - failure.startTime,
+          usage: createZeroUsage(),
+          type: callType,
+          model: target?.modelId ?? modelId,
+          provider: target?.providerType ?? this.providerType,
+          attempt: failure.attempt,
+          error: error.message,
+        },
+        target
+      );
+
+      if (failure.delayMs !== undefined) {
+        this.logger.onLLMCallRetry?.({
+          type: 'llm_call_retry',
+          executionId: this.executionId,
+          callId,
+          callType,
+          modelId,
+          timestamp: failure.endTime,
+          attempt: failure.attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs: failure.delayMs,
+          error,
+          errorKind: classifyProviderError(failure.error),
+        });
+      }
+    });
+  }
+
+  /**
+   * Refuses the call if the budget is spent, or if its maxOutputTokens alone would
+   * exceed what is left. Streams still in flight count once their usage is known.
+   */
+  private checkBudget(modelId: string, maxOutputTokens: number | undefined): void {
+    if (!this.budget) {
+      return;
+    }
+    const outputTokens = maxOutputTokens ?? this.defaultGenerationOptions?.maxOutputTokens;
+    const estimate =
+      outputTokens !== undefined
+        ? {
+            outputTokens,
+            costUSD: estimateMaxOutputCost(
+              outputTokens,
+              modelId,
+              this.providerType,
+              this.providerPricing,
+              this.fallbackPricing
+            ),
+          }
+        : undefined;
+
+    enforceBudget(this.budget, this.summary, estimate);
+  }
+
+  private callSignal(callTimeout: CallTimeout | undefined): AbortSignal | undefined {
+    if (!callTimeout) {
+      return this.signal;
+    }
+    return this.signal ? combineSignals(this.signal, callTimeout.signal) : callTimeout.signal;
+  }
+
+  /**
+   * Records a call that hit its timeout. Usage of the unfinished request
+   * is unknown, so the call is recorded with zero usage.
+   */
+  private recordTimedOutCall(
+    callType: 'generateText' | 'streamText',
+    error: Error,
+    callStartTime: number,
+    modelId: string,
+    routed: RoutedModel,
+    callId: string
+  ): void {
+    const callEndTime = Date.now();
+    const target = routed.servedBy();
+
+    this.updateSummaryWithLLMCall(
+      {
+        startTime: callStartTime,
+        endTime: callEndTime,
+        duration: callEndTime - callStartTime,
+        usage: createZeroUsage(),
+        type: callType,
+        model: target?.modelId ?? modelId,
+        provider: target?.providerType ?? this.providerType,
+        error: error.message,
+      },
+      target
+    );
+
+    this.logger.onLLMCallEnd?.({
+      type: 'llm_call_end',
+      executionId: this.executionId,
+      callId,
+      callType,
+      modelId,
+      provider: target?.providerType ?? this.providerType,
+      timestamp: callEndTime,
+      response: {
+        duration: callEndTime - callStartTime,
+        raw: null,
+        error,
+      },
+    });
+  }
+
+  /** Records every execution of the call's tools and reports it to the logger */
+  private instrumentTools(tools: ToolSet, callId: string): ToolSet {
+    return instrumentTools(tools, this.toolPolicy, {
+      onStart: (call) => {
+        this.logger.onToolCallStart?.({
+          type: 'tool_call_start',
+          executionId: this.executionId,
+          callId,
+          ...call,
+        });
+      },
+      onEnd: (summary, error) => {
+        this.recordToolCall(summary);
+        this.logger.onToolCallEnd?.({
+          type: 'tool_call_end',
+          executionId: this.executionId,
+          callId,
+          toolCallId: summary.toolCallId,
+          toolName: summary.name,
+          timestamp: Date.now(),
+          duration: summary.duration ?? 0,
+          ...(summary.resultSize !== undefined && { resultSize: summary.resultSize }),
+          ...(summary.timedOut && { timedOut: true }),
+          ...(error && { error }),
+        });
+      },
+      requestApproval: (request, signal) => this.requestToolApproval(request, signal),
+    });
+  }
+
+  /**
+   * Asks the consumer to approve a tool execution. Only streaming sessions can reach
+   * the consumer, so executions are rejected here.
+   */
+  protected requestToolApproval(
+    _request: ToolApprovalRequest,
+    _signal: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    return Promise.resolve({
+      approved: false,
+      reason: 'Tool approval requires a streaming execution',
+    });
+  }
+
   private extractModelId(model: LanguageModel): string {
     const modelWithId = model as unknown as { modelId?: string };
     if (!modelWithId.modelId) {
@@ -129,76 +415,180 @@ export class SimpleSession {
     return modelWithId.modelId ?? 'unknown';
   }
 
+  /**
+   * Prepares a call for conversation memory: each step is sent with the memory's messages
+   * first (read once earlier calls have been appended), and the call's input messages are
+   * captured so `append()` can store them with the response messages.
+   */
+  private withMemory(
+    memory: ConversationMemory,
+    prepareStep: AnyPrepareStep | undefined
+  ) {
+    // Only earlier calls: this call's own append is queued before its first step runs
+    const earlierUpdates = this.memoryUpdates;
+    let history: Promise<ModelMessage[]> | undefined;
+    let input: ModelMessage[] = [];
+
+    return {
+      prepareStep: async (options: Parameters<AnyPrepareStep>[0]) => {
+        if (options.stepNumber === 0) {
+          input = options.messages;
+        }
+        history ??= earlierUpdates.then(() => memory.getMessages());
+        const messages = [...(await history), ...options.messages];
+        const prepared = await prepareStep?.({ ...options, messages });
+        return { ...prepared, messages: prepared?.messages ?? messages };
+      },
+
+      append: (responseMessages: PromiseLike<ModelMessage[] | undefined>): Promise<void> => {
+        const update = this.memoryUpdates.then(async () => {
+          const response = await responseMessages;
+          if (!response) {
+            return;
+          }
+          await memory.append([...input, ...response], {
+            generateText: (params) => this.requestText(params),
+          });
+        });
+        this.memoryUpdates = update.catch(() => undefined);
+        return update;
+      },
+    };
+  }
+
   async generateText<
     TOOLS extends ToolSet = {},
     OUTPUT extends OutputSpec = DefaultOutput,
   >(
     params: GenerateTextParams<TOOLS, OUTPUT>
+  ): Promise<GenerateTextResultTyped<TOOLS, OUTPUT>> {
+    if (!this.memory) {
+      return this.requestText(params);
+    }
+
+    const conversation = this.withMemory(this.memory, params.prepareStep);
+    const result = await this.requestText({
+      ...params,
+      prepareStep: conversation.prepareStep as PrepareStepFunction<TOOLS>,
+    });
+    await conversation.append(Promise.resolve(result.response.messages));
+    return result;
+  }
+
+  private async requestText<
+    TOOLS extends ToolSet = {},
+    OUTPUT extends OutputSpec = DefaultOutput,
+  >(
+    params: GenerateTextParams<TOOLS, OUTPUT>
   ): Promise<GenerateTextResultTyped<TOOLS, OUTPUT>> {
     const callStartTime = Date.now();
-    const { model: requestedModel, providerOptions, tools, ...restParams } = params;
-    const languageModel = this.getModel(requestedModel);
-    const modelId = this.extractModelId(languageModel);
+    const { model: requestedModel, providerOptions, tools, timeout, cache, ...restParams } =
+      params;
+    const routed = this.resolveModel(requestedModel);
+    const modelId = this.extractModelId(routed.model);
+    this.checkBudget(modelId, restParams.maxOutputTokens);
+    const callId = randomUUID();
+    const retrying = this.withRetries(routed, modelId, 'generateText', callId);
+    const callTimeout = CallTimeout.start(timeout);
+    const caching = this.responseCache && cache !== false
+      ? createCachingModel(retrying?.model ?? routed.model, this.responseCache)
+      : undefined;
+    const baseModel = caching?.model ?? retrying?.model ?? routed.model;
+    const guarded = this.contextGuard
+      ? createContextGuardModel(baseModel, this.providerType, this.contextGuard)
+      : undefined;
+    const guardedModel = guarded?.model ?? baseModel;
+    const languageModel = callTimeout ? callTimeout.wrap(guardedModel) : guardedModel;
 
     const mergedProviderOptions = (this.defaultProviderOptions || providerOptions)
       ? deepMerge(this.defaultProviderOptions ?? {}, providerOptions ?? {}) as ProviderOptions
       : undefined;
 
     const mergedTools = (this.defaultTools || tools)
-      ? { ...this.defaultTools, ...tools }
+      ? this.instrumentTools({ ...this.defaultTools, ...tools }, callId)
       : undefined;
 
     this.logger.onLLMCallStart?.({
       type: 'llm_call_start',
+      executionId: this.executionId,
+      callId,
       callType: 'generateText',
       modelId,
+      provider: this.providerType,
       timestamp: callStartTime,
       request: { params: restParams as Record<string, unknown> },
     });
 
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const result = await aiGenerateText({
+      const pending = aiGenerateText({
+        ...(this.retryPolicy && { maxRetries: 0 }),
         ...this.defaultGenerationOptions,
         ...restParams,
         tools: mergedTools,
         providerOptions: mergedProviderOptions,
         model: languageModel,
-        abortSignal: this.signal,
+        abortSignal: this.callSignal(callTimeout),
       } as any);
+      const result = await (callTimeout ? Promise.race([pending, callTimeout.expired]) : pending);
       const callEndTime = Date.now();
+      const target = routed.servedBy();
+      const cached = caching?.servedFromCache() ?? false;
 
       const call: LLMCallRecord = {
         startTime: callStartTime,
         endTime: callEndTime,
         duration: callEndTime - callStartTime,
-        usage: result.usage ?? createZeroUsage(),
+        usage: cached ? createZeroUsage() : (result.usage ?? createZeroUsage()),
         type: 'generateText',
-        model: modelId,
-        provider: this.providerType,
+        model: target?.modelId ?? modelId,
+        provider: target?.providerType ?? this.providerType,
+        ...(retrying && !cached && { attempt: retrying.lastAttempt() }),
+        ...(cached && { cached }),
       };
-      this.updateSummaryWithLLMCall(call);
+      const cost = this.updateSummaryWithLLMCall(call, target);
 
       this.logger.onLLMCallEnd?.({
         type: 'llm_call_end',
+        executionId: this.executionId,
+        callId,
         callType: 'generateText',
         modelId,
+        provider: call.provider,
         timestamp: callEndTime,
         response: {
           duration: callEndTime - callStartTime,
-          usage: result.usage,
+          usage: cached ? call.usage : result.usage,
+          cost,
+          finishReason: result.finishReason,
           raw: result,
+          ...(cached && { cached }),
         },
       });
 
       return result as unknown as GenerateTextResultTyped<TOOLS, OUTPUT>;
     } catch (error) {
+      // The aborted request may surface as an AbortError; report the timeout instead
+      if (callTimeout?.error) {
+        this.recordTimedOutCall(
+          'generateText',
+          callTimeout.error,
+          callStartTime,
+          modelId,
+          routed,
+          callId
+        );
+        throw callTimeout.error;
+      }
       const callEndTime = Date.now();
 
       this.logger.onLLMCallEnd?.({
         type: 'llm_call_end',
+        executionId: this.executionId,
+        callId,
         callType: 'generateText',
         modelId,
+        provider: routed.servedBy()?.providerType ?? this.providerType,
         timestamp: callEndTime,
         response: {
           duration: callEndTime - callStartTime,
@@ -208,36 +598,82 @@ export class SimpleSession {
       });
 
       throw error;
+    } finally {
+      callTimeout?.clear();
     }
   }
 
   streamText<
     TOOLS extends ToolSet = {},
     OUTPUT extends OutputSpec = DefaultOutput,
+  >(params: StreamTextParams<TOOLS, OUTPUT>): StreamTextResultTyped<TOOLS, OUTPUT> {
+    if (!this.memory) {
+      return this.requestStream(params);
+    }
+
+    const conversation = this.withMemory(this.memory, params.prepareStep);
+    const result = this.requestStream({
+      ...params,
+      prepareStep: conversation.prepareStep as PrepareStepFunction<TOOLS>,
+    });
+    // Failed or aborted streams are not added to the conversation
+    const responseMessages = Promise.resolve(result.response).then(
+      (response) => response.messages,
+      () => undefined
+    );
+    conversation.append(responseMessages).catch((error: unknown) => {
+      console.error('[SimpleSession] Failed to update conversation memory:', error);
+    });
+    return result;
+  }
+
+  private requestStream<
+    TOOLS extends ToolSet = {},
+    OUTPUT extends OutputSpec = DefaultOutput,
   >(params: StreamTextParams<TOOLS, OUTPUT>): StreamTextResultTyped<TOOLS, OUTPUT> {
     const callStartTime = Date.now();
-    const { model: requestedModel, providerOptions, tools, ...restParams } = params;
-    const languageModel = this.getModel(requestedModel);
-    const modelId = this.extractModelId(languageModel);
+    const { model: requestedModel, providerOptions, tools, timeout, cache, ...restParams } =
+      params;
+    const routed = this.resolveModel(requestedModel);
+    const modelId = this.extractModelId(routed.model);
+    this.checkBudget(modelId, restParams.maxOutputTokens);
+    const callId = randomUUID();
+    const retrying = this.withRetries(routed, modelId, 'streamText', callId);
+    const callTimeout = CallTimeout.start(timeout);
+    const caching = this.responseCache && cache !== false
+      ? createCachingModel(retrying?.model ?? routed.model, this.responseCache)
+      : undefined;
+    const baseModel = caching?.model ?? retrying?.model ?? routed.model;
+    const guarded = this.contextGuard
+      ? createContextGuardModel(baseModel, this.providerType, this.contextGuard)
+      : undefined;
+    const guardedModel = guarded?.model ?? baseModel;
+    const languageModel = callTimeout ? callTimeout.wrap(guardedModel) : guardedModel;
 
     const mergedProviderOptions = (this.defaultProviderOptions || providerOptions)
       ? deepMerge(this.defaultProviderOptions ?? {}, providerOptions ?? {}) as ProviderOptions
       : undefined;
 
     const mergedTools = (this.defaultTools || tools)
-      ? { ...this.defaultTools, ...tools }
+      ? this.instrumentTools({ ...this.defaultTools, ...tools }, callId)
       : undefined;
 
     this.logger.onLLMCallStart?.({
       type: 'llm_call_start',
+      executionId: this.executionId,
+      callId,
       callType: 'streamText',
       modelId,
+      provider: this.providerType,
       timestamp: callStartTime,
       request: { params: restParams as Record<string, unknown> },
     });
 
+    // The timeout is enforced by the wrapped model rather than the abort signal: an aborted
+    // stream ends quietly, while a timed-out one must error
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = aiStreamText({
+    const streamResult = aiStreamText({
+      ...(this.retryPolicy && { maxRetries: 0 }),
       ...this.defaultGenerationOptions,
       ...restParams,
       tools: mergedTools,
@@ -245,35 +681,77 @@ export class SimpleSession {
       model: languageModel,
       abortSignal: this.signal,
     } as any);
+    const failures = [callTimeout?.expired, guarded?.overflow].filter(
+      (failure): failure is Promise<never> => failure !== undefined
+    );
+    const failure = failures.length > 0 ? Promise.race(failures) : undefined;
+    failure?.catch(() => {});
+    const result = failure ? rejectOnFailure(streamResult, failure) : streamResult;
 
     const usagePromise = Promise.resolve(result.usage).then((usage) => {
       const callEndTime = Date.now();
+      const target = routed.servedBy();
+      const cached = caching?.servedFromCache() ?? false;
 
       const call: LLMCallRecord = {
         startTime: callStartTime,
         endTime: callEndTime,
         duration: callEndTime - callStartTime,
-        usage: usage ?? createZeroUsage(),
+        usage: cached ? createZeroUsage() : (usage ?? createZeroUsage()),
         type: 'streamText',
-        model: modelId,
-        provider: this.providerType,
+        model: target?.modelId ?? modelId,
+        provider: target?.providerType ?? this.providerType,
+        ...(retrying && !cached && { attempt: retrying.lastAttempt() }),
+        ...(cached && { cached }),
       };
-      this.updateSummaryWithLLMCall(call);
+      const cost = this.updateSummaryWithLLMCall(call, target);
 
       this.logger.onLLMCallEnd?.({
         type: 'llm_call_end',
+        executionId: this.executionId,
+        callId,
         callType: 'streamText',
         modelId,
+        provider: call.provider,
         timestamp: callEndTime,
         response: {
           duration: callEndTime - callStartTime,
-          usage,
+          usage: cached ? call.usage : usage,
+          cost,
           raw: result,
+          ...(cached && { cached }),
         },
       });
 
       return usage;
-    });
+    }, (error: unknown) => {
+      if (callTimeout?.error) {
+        this.recordTimedOutCall(
+          'streamText',
+          callTimeout.error,
+          callStartTime,
+          modelId,
+          routed,
+          callId
+        );
+        return undefined;
+      }
+      if (error instanceof ContextOverflowError) {
+        // Refused before it was sent: logged, but not recorded as a call
+        this.logger.onLLMCallEnd?.({
+          type: 'llm_call_end',
+          executionId: this.executionId,
+          callId,
+          callType: 'streamText',
+          modelId,
+          provider: this.providerType,
+          timestamp: Date.now(),
+          response: { duration: Date.now() - callStartTime, raw: null, error },
+        });
+        return undefined;
+      }
+      throw error;
+    }).finally(() => callTimeout?.clear());
 
     this.pendingUsagePromises.push(usagePromise);
 
@@ -288,6 +766,19 @@ export class SimpleSession {
     this.summary = this.summary.withCustomRecord(data);
   }
 
+  /** Continues from a summary saved earlier, e.g. when resuming from a checkpoint */
+  protected restoreSummary(summary: SessionSummary): void {
+    this.summary = summary;
+  }
+
+  /**
+   * Adds the summary of a child execution run for this one (e.g. a `pipeline()` step),
+   * so its usage, calls and costs count towards this execution.
+   */
+  recordChildSummary(summary: SessionSummary): void {
+    this.summary = this.summary.withChildSummary(summary);
+  }
+
   recordToolCall(toolCallSummary: ToolCallSummary): void {
     this.summary = this.summary.withToolCall(toolCallSummary);
   }
@@ -301,12 +792,22 @@ export class SimpleSession {
   }
 
   recordAdditionalCost(cost: Omit<AdditionalCost, 'timestamp'>): void {
+    const attribution = this.attributionOf(cost);
     this.summary = this.summary.withAdditionalCost({
       ...cost,
       timestamp: Date.now(),
+      ...(attribution && { attribution }),
     });
   }
 
+  /** The session's tags merged with a record's own, which take precedence */
+  private attributionOf(record: { attribution?: CostAttribution }): CostAttribution | undefined {
+    if (!this.attribution) {
+      return record.attribution;
+    }
+    return { ...this.attribution, ...record.attribution };
+  }
+
   setMetadata(key: string, value: unknown): void;
   setMetadata(data: Record<string, unknown>): void;
   setMetadata(keyOrData: string | Record<string, unknown>, value?: unknown): void {
@@ -319,15 +820,48 @@ export class SimpleSession {
     }
   }
 
-  private updateSummaryWithLLMCall(call: LLMCallRecord): void {
-    const newCalls = [...this.summary.llmCalls, call];
-    const { totalCost: llmCost, costByModel } = calculateTotalCost(
-      newCalls.map((c) => ({ usage: c.usage, model: c.model, provider: c.provider })),
-      this.providerPricing
+  /**
+   * Adds a call to the summary, priced with the serving target's pricing
+   * when the call was routed, otherwise with this session's pricing.
+   * @returns The cost of the call
+   */
+  private updateSummaryWithLLMCall(record: LLMCallRecord, target?: ServingTarget): number {
+    const providerPricing = target ? target.providerPricing : this.providerPricing;
+    const { total } = calculateCostFromUsage(
+      record.usage,
+      record.model,
+      record.provider,
+      providerPricing,
+      target ? target.fallbackPricing : this.fallbackPricing,
+      record.startTime
     );
+    const attribution = this.attributionOf(record);
+    const call: LLMCallRecord = { ...record, cost: total, ...(attribution && { attribution }) };
+    const key = `${call.provider}/${call.model}`;
+    if (
+      !this.unpricedModels.has(key) &&
+      !findModelPricing(call.model, call.provider, providerPricing)
+    ) {
+      this.unpricedModels.add(key);
+      this.logger.log?.('warn', `No pricing for ${key}; its cost uses the fallback price`, {
+        provider: call.provider,
+        model: call.model,
+      });
+    }
+    const costByModel = {
+      ...this.summary.costByModel,
+      [key]: (this.summary.costByModel[key] ?? 0) + total,
+    };
+    const newCalls = [...this.summary.llmCalls, call];
     const newTotalUsage = mergeUsages(newCalls.map((c) => c.usage));
 
-    this.summary = this.summary.withLLMCall(call, llmCost, costByModel, newTotalUsage);
+    this.summary = this.summary.withLLMCall(
+      call,
+      this.summary.llmCost + total,
+      costByModel,
+      newTotalUsage
+    );
+    return total;
   }
 
   onDone(fn: () => Promise<void> | void): void {
@@ -348,6 +882,8 @@ export class SimpleSession {
 
   async getSummary(): Promise<SessionSummary> {
     await Promise.all(this.pendingUsagePromises);
+    // Summarizing conversation memory may add LLM calls
+    await this.memoryUpdates;
     return this.summary;
   }
 
@@ -358,6 +894,7 @@ export class SimpleSession {
   notifyExecutionStart(): void {
     this._logger.onExecutionStart?.({
       type: 'execution_start',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
     });
   }
@@ -372,6 +909,7 @@ export class SimpleSession {
     const summary = await this.getSummary();
     this._logger.onExecutionDone?.({
       type: 'execution_done',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
       duration: Date.now() - startTime,
       data,
@@ -395,6 +933,7 @@ export class SimpleSession {
     }
     this._logger.onExecutionError?.({
       type: 'execution_error',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
       duration: Date.now() - startTime,
       error,
@@ -402,10 +941,39 @@ export class SimpleSession {
     });
   }
 
+  /**
+   * Notifies Logger that the execution was canceled, with the summary so far (if available).
+   * @param startTime - Execution start timestamp for duration calculation
+   * @internal Called by execution hosts - not intended for direct use.
+   */
+  async notifyExecutionCancel(startTime: number = this.sessionStartTime): Promise<void> {
+    let summary: SessionSummary | undefined;
+    try {
+      summary = await this.getSummary();
+    } catch {
+      // Ignore summary errors on cancellation path
+    }
+    this._logger.onExecutionCancel?.({
+      type: 'execution_cancel',
+      ...this._executionCorrelation,
+      timestamp: Date.now(),
+      duration: Date.now() - startTime,
+      summary,
+    });
+  }
+
   protected get _logger(): Logger {
     return this.logger;
   }
 
+  /** Correlation fields of execution events */
+  protected get _executionCorrelation(): LogCorrelation {
+    return {
+      executionId: this.executionId,
+      ...(this.parentExecutionId && { parentExecutionId: this.parentExecutionId }),
+    };
+  }
+
   protected get _startTime(): number {
     return this.sessionStartTime;
   }
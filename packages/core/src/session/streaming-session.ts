@@ -3,9 +3,19 @@ import type { EventMetrics } from '../observability/index.js';
 import type { Logger } from '../observability/logger.js';
 import { noopLogger } from '../observability/logger.js';
 import type { FileManager } from '../provider/types.js';
-import type { ProviderType, ProviderPricing } from '../pricing/types.js';
-import type { GenerationOptions, SessionSummary } from './types.js';
+import type { ModelPricing, ProviderType, ProviderPricing } from '../pricing/types.js';
+import type { CostAttribution, GenerationOptions, ModelRouter, SessionSummary } from './types.js';
 import { SimpleSession } from './simple-session.js';
+import type { RetryPolicy } from './retry.js';
+import type { Budget } from './budget.js';
+import type { ResponseCacheConfig } from './response-cache.js';
+import type { ConversationMemory } from './memory.js';
+import type { ContextGuardOptions } from './context-window.js';
+import type {
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+  ToolPolicy,
+} from './tool-instrumentation.js';
 import type { SessionEvent, EmittableEventInput, ExtractResult } from '../execution/types.js';
 
 type ProviderOptions = Record<string, Record<string, unknown>>;
@@ -15,6 +25,7 @@ export interface StreamingSessionOptions {
   modelFactory?: (modelId: string) => LanguageModel;
   providerType: ProviderType;
   providerPricing?: ProviderPricing;
+  fallbackPricing?: ModelPricing;
   fileManager: FileManager;
   logger?: Logger;
   startTime?: number;
@@ -22,11 +33,23 @@ export interface StreamingSessionOptions {
   defaultProviderOptions?: ProviderOptions;
   defaultTools?: ToolSet;
   defaultGenerationOptions?: GenerationOptions;
+  modelRouter?: ModelRouter;
+  retryPolicy?: RetryPolicy;
+  budget?: Budget;
+  responseCache?: ResponseCacheConfig;
+  memory?: ConversationMemory;
+  contextGuard?: ContextGuardOptions;
+  attribution?: CostAttribution;
+  toolPolicy?: ToolPolicy;
 }
 
 export class StreamingSession<TEvent extends { type: string }> extends SimpleSession {
   private lastEventTime: number;
   private _terminated = false;
+  private eventSink?: (event: SessionEvent<TEvent>) => void;
+  private readonly pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>();
+  private steps: Record<string, unknown> = {};
+  private checkpointHandler?: () => Promise<void>;
 
   constructor(options: StreamingSessionOptions) {
     super({
@@ -34,6 +57,7 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
       modelFactory: options.modelFactory,
       providerType: options.providerType,
       providerPricing: options.providerPricing,
+      fallbackPricing: options.fallbackPricing,
       fileManager: options.fileManager,
       logger: options.logger,
       startTime: options.startTime,
@@ -41,12 +65,21 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
       defaultProviderOptions: options.defaultProviderOptions,
       defaultTools: options.defaultTools,
       defaultGenerationOptions: options.defaultGenerationOptions,
+      modelRouter: options.modelRouter,
+      retryPolicy: options.retryPolicy,
+      budget: options.budget,
+      responseCache: options.responseCache,
+      memory: options.memory,
+      contextGuard: options.contextGuard,
+      attribution: options.attribution,
+      toolPolicy: options.toolPolicy,
     });
 
     this.lastEventTime = this._startTime;
 
     this._logger.onExecutionStart?.({
       type: 'execution_start',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
     });
   }
@@ -88,6 +121,7 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
 
     this._logger.onExecutionEmit?.({
       type: 'execution_emit',
+      ...this._executionCorrelation,
       event: fullEvent,
     });
 
@@ -111,6 +145,7 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
 
     this._logger.onExecutionDone?.({
       type: 'execution_done',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
       duration: summary.totalDuration,
       data,
@@ -148,6 +183,7 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
 
     this._logger.onExecutionError?.({
       type: 'execution_error',
+      ...this._executionCorrelation,
       timestamp: Date.now(),
       duration: summary?.totalDuration ?? (Date.now() - this._startTime),
       error,
@@ -172,6 +208,110 @@ export class StreamingSession<TEvent extends { type: string }> extends SimpleSes
     return this.emitInternal(errorEvent as unknown as Extract<TEvent, { type: 'error' }>);
   }
 
+  /**
+   * Saves step state under `key`. When the execution is checkpointed (see
+   * `ExecutionOptions.checkpointId`), it is persisted together with the events and summary
+   * so far; a resumed execution reads it back with getCheckpoint() to skip finished steps.
+   *
+   * @example
+   * ```typescript
+   * let outline = session.getCheckpoint<string>('outline');
+   * if (outline === undefined) {
+   *   outline = (await session.generateText({ prompt: 'Outline...' })).text;
+   *   yield session.emit({ type: 'progress', step: 'outline' });
+   *   await session.checkpoint('outline', outline);
+   * }
+   * ```
+   */
+  async checkpoint(key: string, value: unknown): Promise<void> {
+    this.steps = { ...this.steps, [key]: value };
+    await this.checkpointHandler?.();
+  }
+
+  /** Step state saved with checkpoint(), in this execution or the one it resumes */
+  getCheckpoint<T = unknown>(key: string): T | undefined {
+    return this.steps[key] as T | undefined;
+  }
+
+  /**
+   * Step state saved so far, for writing a checkpoint.
+   * @internal
+   */
+  getCheckpointSteps(): Record<string, unknown> {
+    return this.steps;
+  }
+
+  /**
+   * Continues from a checkpoint's summary and step state, and persists later
+   * checkpoint() calls through `handler`.
+   * @internal
+   */
+  attachCheckpoint(
+    handler: () => Promise<void>,
+    restored?: { summary: SessionSummary; steps: Record<string, unknown> }
+  ): void {
+    this.checkpointHandler = handler;
+    if (restored) {
+      this.restoreSummary(restored.summary);
+      this.steps = { ...restored.steps };
+    }
+  }
+
+  /**
+   * Delivers events emitted while the generator is awaiting, such as approval requests
+   * from tools running inside an LLM call.
+   * @internal
+   */
+  setEventSink(sink: (event: SessionEvent<TEvent>) => void): void {
+    this.eventSink = sink;
+  }
+
+  /**
+   * Approves a tool execution waiting for approval.
+   * @returns false if no execution with this ID is waiting
+   */
+  approveToolCall(toolCallId: string): boolean {
+    return this.decide(toolCallId, { approved: true });
+  }
+
+  /**
+   * Rejects a tool execution waiting for approval. The tool does not run and the model
+   * is told the call was rejected, with the reason if given.
+   * @returns false if no execution with this ID is waiting
+   */
+  rejectToolCall(toolCallId: string, reason?: string): boolean {
+    return this.decide(toolCallId, { approved: false, ...(reason !== undefined && { reason }) });
+  }
+
+  private decide(toolCallId: string, decision: ToolApprovalDecision): boolean {
+    const resolve = this.pendingApprovals.get(toolCallId);
+    if (!resolve) {
+      return false;
+    }
+    this.pendingApprovals.delete(toolCallId);
+    resolve(decision);
+    return true;
+  }
+
+  /** Emits an 'approval_required' event and waits for approveToolCall() or rejectToolCall() */
+  protected override requestToolApproval(
+    request: ToolApprovalRequest,
+    signal: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    const sink = this.eventSink;
+    if (!sink) {
+      return super.requestToolApproval(request, signal);
+    }
+
+    return new Promise((resolve) => {
+      this.pendingApprovals.set(request.toolCallId, resolve);
+      signal.addEventListener('abort', () => this.pendingApprovals.delete(request.toolCallId), {
+        once: true,
+      });
+      sink(this.emitInternal({ type: 'approval_required', ...request } as unknown as TEvent));
+    });
+  }
+
   private createMetrics(): EventMetrics {
     const now = Date.now();
     const metrics: EventMetrics = {
@@ -191,6 +331,8 @@ export interface StreamingSessionInternal<TEvent extends { type: string }> {
   onDone: SimpleSession['onDone'];
   record: SimpleSession['record'];
   recordToolCall: SimpleSession['recordToolCall'];
+  checkpoint(key: string, value: unknown): Promise<void>;
+  getCheckpoint<T = unknown>(key: string): T | undefined;
 
   emit(event: EmittableEventInput<TEvent>): SessionEvent<TEvent>;
   done(data: ExtractResult<TEvent>): Promise<SessionEvent<TEvent>>;
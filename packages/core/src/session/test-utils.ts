@@ -32,6 +32,7 @@ export type MockLogger = Logger & {
   onExecutionEmit: ReturnType<typeof vi.fn>;
   onExecutionDone: ReturnType<typeof vi.fn>;
   onExecutionError: ReturnType<typeof vi.fn>;
+  onExecutionCancel: ReturnType<typeof vi.fn>;
 };
 
 export function createMockLogger(): MockLogger {
@@ -42,6 +43,7 @@ export function createMockLogger(): MockLogger {
     onExecutionEmit: vi.fn(),
     onExecutionDone: vi.fn(),
     onExecutionError: vi.fn(),
+    onExecutionCancel: vi.fn(),
   } as MockLogger;
 }
 
@@ -0,0 +1,241 @@
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConfigurationError, ExecutionError, ExecutionErrorCode } from '../errors/index.js';
+import { NoOpFileManager } from '../provider/noop-file-manager.js';
+import { SimpleSession } from './simple-session.js';
+
+const USAGE = {
+  inputTokens: { total: 100, noCache: 100, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 10, text: 10, reasoning: undefined },
+};
+
+const GENERATE_RESULT = {
+  content: [{ type: 'text' as const, text: 'ok' }],
+  finishReason: { unified: 'stop' as const, raw: undefined },
+  usage: USAGE,
+  warnings: [],
+};
+
+function never<T>(): Promise<T> {
+  return new Promise<T>(() => {});
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Stream that sends one text delta, then stalls until cancelled */
+function stallingStream() {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue({ type: 'text-start', id: 't' });
+      controller.enqueue({ type: 'text-delta', id: 't', delta: 'partial' });
+    },
+  });
+}
+
+function createSession(model: MockLanguageModelV3): SimpleSession {
+  return new SimpleSession({
+    defaultLanguageModel: model,
+    providerType: 'openai',
+    fileManager: new NoOpFileManager(),
+  });
+}
+
+/** Session with a retry policy whose model requests only end when they are aborted */
+function createRetryingSession(): { session: SimpleSession; model: MockLanguageModelV3 } {
+  const untilAborted = <T>(options: { abortSignal?: AbortSignal }) =>
+    new Promise<T>((_, reject) =>
+      options.abortSignal?.addEventListener('abort', () =>
+        reject(new DOMException('The operation was aborted', 'AbortError'))
+      )
+    );
+  const model = new MockLanguageModelV3({ doGenerate: untilAborted, doStream: untilAborted });
+  const session = new SimpleSession({
+    defaultLanguageModel: model,
+    providerType: 'openai',
+    fileManager: new NoOpFileManager(),
+    retryPolicy: { maxAttempts: 3 },
+  });
+  return { session, model };
+}
+
+async function expectTimeout(promise: PromiseLike<unknown>, kind: string): Promise<void> {
+  const error = await Promise.resolve(promise).then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(ExecutionError);
+  expect(error).toMatchObject({ code: ExecutionErrorCode.TIMEOUT, context: { kind } });
+}
+
+describe('SimpleSession call timeouts', () => {
+  describe('generateText', () => {
+    it('should fail with TIMEOUT when the call exceeds its timeout', async () => {
+      const session = createSession(new MockLanguageModelV3({ doGenerate: never }));
+
+      await expectTimeout(session.generateText({ prompt: 'Hi', timeout: 20 }), 'total');
+    });
+
+    it('should abort the provider request on timeout', async () => {
+      let requestSignal: AbortSignal | undefined;
+      const session = createSession(
+        new MockLanguageModelV3({
+          doGenerate: (options) => {
+            requestSignal = options.abortSignal;
+            return never();
+          },
+        })
+      );
+
+      await expectTimeout(session.generateText({ prompt: 'Hi', timeout: 20 }), 'total');
+      expect(requestSignal?.aborted).toBe(true);
+    });
+
+    it('should bound each step with stepMs', async () => {
+      const session = createSession(new MockLanguageModelV3({ doGenerate: never }));
+
+      await expectTimeout(
+        session.generateText({ prompt: 'Hi', timeout: { stepMs: 20 } }),
+        'step'
+      );
+    });
+
+    it('should report the timeout to onLLMCallEnd', async () => {
+      const onLLMCallEnd = vi.fn();
+      const session = new SimpleSession({
+        defaultLanguageModel: new MockLanguageModelV3({ doGenerate: never }),
+        providerType: 'openai',
+        fileManager: new NoOpFileManager(),
+        logger: { onLLMCallEnd },
+      });
+
+      await expectTimeout(session.generateText({ prompt: 'Hi', timeout: 20 }), 'total');
+      expect(onLLMCallEnd.mock.calls[0][0].response.error).toMatchObject({
+        code: ExecutionErrorCode.TIMEOUT,
+      });
+    });
+
+    it('should record the timed-out call in the summary', async () => {
+      const session = createSession(new MockLanguageModelV3({ doGenerate: never }));
+
+      await expectTimeout(session.generateText({ prompt: 'Hi', timeout: 20 }), 'total');
+      const summary = await session.getSummary();
+
+      expect(summary.llmCalls).toHaveLength(1);
+      expect(summary.llmCalls[0]).toMatchObject({
+        type: 'generateText',
+        error: expect.stringContaining('20ms'),
+      });
+      expect(summary.llmCalls[0].usage.totalTokens).toBe(0);
+    });
+
+    it('should record a timed-out call once with a retry policy', async () => {
+      const { session, model } = createRetryingSession();
+
+      await expectTimeout(session.generateText({ prompt: 'Hi', timeout: 20 }), 'total');
+      const summary = await session.getSummary();
+
+      expect(model.doGenerateCalls).toHaveLength(1);
+      expect(summary.llmCallCount).toBe(1);
+      expect(summary.llmCalls[0]).toMatchObject({
+        type: 'generateText',
+        error: 'LLM call timed out after 20ms',
+      });
+    });
+
+    it('should complete normally within the timeout', async () => {
+      const session = createSession(
+        new MockLanguageModelV3({
+          doGenerate: async () => {
+            await delay(5);
+            return GENERATE_RESULT;
+          },
+        })
+      );
+
+      const { text } = await session.generateText({ prompt: 'Hi', timeout: 1000 });
+
+      expect(text).toBe('ok');
+    });
+
+    it('should reject non-positive timeouts', async () => {
+      const session = createSession(
+        new MockLanguageModelV3({ doGenerate: async () => GENERATE_RESULT })
+      );
+
+      await expect(session.generateText({ prompt: 'Hi', timeout: 0 })).rejects.toThrow(
+        ConfigurationError
+      );
+    });
+  });
+
+  describe('streamText', () => {
+    it('should error the stream when no chunk arrives within chunkMs', async () => {
+      const session = createSession(
+        new MockLanguageModelV3({ doStream: async () => ({ stream: stallingStream() }) })
+      );
+      const result = session.streamText({ prompt: 'Hi', timeout: { chunkMs: 20 } });
+
+      const chunks: string[] = [];
+      const consume = async () => {
+        for await (const chunk of result.textStream) {
+          chunks.push(chunk);
+        }
+      };
+
+      await expectTimeout(consume(), 'chunk');
+      expect(chunks).toEqual(['partial']);
+    });
+
+    it('should reject result promises on timeout instead of hanging', async () => {
+      const session = createSession(
+        new MockLanguageModelV3({ doStream: async () => ({ stream: stallingStream() }) })
+      );
+      const result = session.streamText({ prompt: 'Hi', timeout: 30 });
+
+      await expectTimeout(result.text, 'total');
+      await expectTimeout(result.usage, 'total');
+    });
+
+    it('should fail with TIMEOUT when the stream never starts', async () => {
+      const session = createSession(new MockLanguageModelV3({ doStream: never }));
+      const result = session.streamText({ prompt: 'Hi', timeout: 20 });
+
+      await expectTimeout(result.text, 'total');
+    });
+
+    it('should record a timed-out call once with a retry policy', async () => {
+      const { session, model } = createRetryingSession();
+      const result = session.streamText({ prompt: 'Hi', timeout: { stepMs: 20 } });
+
+      await expectTimeout(result.text, 'step');
+      const summary = await session.getSummary();
+
+      expect(model.doStreamCalls).toHaveLength(1);
+      expect(summary.llmCallCount).toBe(1);
+      expect(summary.llmCalls[0]).toMatchObject({
+        type: 'streamText',
+        error: 'LLM call step timed out after 20ms',
+      });
+    });
+
+    it('should record the timed-out call so getSummary() resolves', async () => {
+      const session = createSession(
+        new MockLanguageModelV3({ doStream: async () => ({ stream: stallingStream() }) })
+      );
+      const result = session.streamText({ prompt: 'Hi', timeout: { chunkMs: 20 } });
+      await Promise.resolve(result.text).catch(() => {});
+
+      const summary = await session.getSummary();
+
+      expect(summary.llmCalls).toHaveLength(1);
+      expect(summary.llmCalls[0]).toMatchObject({
+        type: 'streamText',
+        error: 'LLM stream produced no chunk for 20ms',
+      });
+      expect(summary.llmCalls[0].usage.totalTokens).toBe(0);
+    });
+  });
+});
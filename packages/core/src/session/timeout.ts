@@ -0,0 +1,272 @@
+/**
+ * Per-call timeouts for session LLM calls.
+ *
+ * The AI SDK's own `timeout` aborts the call, which executions report as a cancellation.
+ * The session enforces the same settings itself so that a timed-out call fails with
+ * an ExecutionError (code TIMEOUT) instead.
+ */
+
+import type { LanguageModel, TimeoutConfiguration, wrapLanguageModel } from 'ai';
+
+import { ConfigurationError, ConfigurationErrorCode, ExecutionError, ExecutionErrorCode } from '../errors/index.js';
+import { combineSignals } from '../execution/utils.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type StreamPart = Awaited<ReturnType<LanguageModelV3['doStream']>>['stream'] extends ReadableStream<infer P>
+  ? P
+  : never;
+
+export type { TimeoutConfiguration };
+
+/** Which limit a timed-out LLM call exceeded */
+export type CallTimeoutKind = 'total' | 'step' | 'chunk';
+
+interface ResolvedTimeout {
+  totalMs?: number;
+  stepMs?: number;
+  chunkMs?: number;
+}
+
+function resolveTimeout(timeout: TimeoutConfiguration): ResolvedTimeout {
+  const resolved = typeof timeout === 'number' ? { totalMs: timeout } : timeout;
+
+  for (const [name, value] of Object.entries(resolved)) {
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new ConfigurationError(`Invalid timeout: ${name} must be a positive number`, {
+        code: ConfigurationErrorCode.INVALID_CONFIG,
+        context: { timeout },
+      });
+    }
+  }
+  return resolved;
+}
+
+const callTimeoutErrors = new WeakSet<object>();
+
+function timeoutError(kind: CallTimeoutKind, timeoutMs: number): ExecutionError {
+  const message =
+    kind === 'chunk'
+      ? `LLM stream produced no chunk for ${timeoutMs}ms`
+      : `LLM call ${kind === 'step' ? 'step ' : ''}timed out after ${timeoutMs}ms`;
+  const error = new ExecutionError(message, {
+    code: ExecutionErrorCode.TIMEOUT,
+    context: { timeoutMs, kind },
+  });
+  callTimeoutErrors.add(error);
+  return error;
+}
+
+/** True for errors of a call timeout (not of an execution's `timeoutMs`) */
+export function isCallTimeoutError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && callTimeoutErrors.has(error);
+}
+
+function abortable<T>(promise: PromiseLike<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve(promise).then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/** Controller for one step, aborted by its own timer or by the call's total timeout */
+function startStep(callSignal: AbortSignal, stepMs: number | undefined) {
+  const controller = new AbortController();
+  const onCallAbort = () => controller.abort(callSignal.reason);
+  callSignal.addEventListener('abort', onCallAbort, { once: true });
+  const timer =
+    stepMs !== undefined
+      ? setTimeout(() => controller.abort(timeoutError('step', stepMs)), stepMs)
+      : undefined;
+
+  return {
+    controller,
+    signal: controller.signal,
+    end() {
+      clearTimeout(timer);
+      callSignal.removeEventListener('abort', onCallAbort);
+    },
+  };
+}
+
+/**
+ * Timeout state for a single generateText/streamText call.
+ */
+export class CallTimeout {
+  private readonly controller = new AbortController();
+  private readonly limits: ResolvedTimeout;
+  private readonly timer?: ReturnType<typeof setTimeout>;
+  /** Rejects with the timeout error once any limit is exceeded */
+  readonly expired: Promise<never>;
+
+  private constructor(limits: ResolvedTimeout) {
+    this.limits = limits;
+    this.expired = new Promise<never>((_, reject) => {
+      this.controller.signal.addEventListener('abort', () => reject(this.controller.signal.reason), {
+        once: true,
+      });
+    });
+    // Observers attach later (or never); avoid unhandled rejections
+    this.expired.catch(() => {});
+
+    const { totalMs } = limits;
+    if (totalMs !== undefined) {
+      this.timer = setTimeout(() => this.expire(timeoutError('total', totalMs)), totalMs);
+    }
+  }
+
+  /**
+   * Starts the timers for a call, or returns undefined when no timeout is configured.
+   * @throws ConfigurationError if a limit is not a positive number
+   */
+  static start(timeout: TimeoutConfiguration | undefined): CallTimeout | undefined {
+    return timeout === undefined ? undefined : new CallTimeout(resolveTimeout(timeout));
+  }
+
+  /** Signal aborted with the timeout error once any limit is exceeded */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** The timeout error, if a limit was exceeded */
+  get error(): ExecutionError | undefined {
+    return this.controller.signal.aborted ? (this.controller.signal.reason as ExecutionError) : undefined;
+  }
+
+  /** Stops the timers once the call has settled */
+  clear(): void {
+    clearTimeout(this.timer);
+  }
+
+  private expire(error: ExecutionError): void {
+    clearTimeout(this.timer);
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(error);
+    }
+  }
+
+  /**
+   * Wraps a model so each request is bound by the step and total limits, and each
+   * stream errors out with the timeout error after `chunkMs` without a chunk.
+   * The timeout is also forwarded to the provider request as an abort signal.
+   */
+  wrap(model: LanguageModel): LanguageModel {
+    if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+      throw new ConfigurationError('Call timeouts require a v3 LanguageModel instance', {
+        code: ConfigurationErrorCode.INVALID_CONFIG,
+      });
+    }
+    const inner: LanguageModelV3 = model;
+
+    const withSignal = <T extends { abortSignal?: AbortSignal }>(options: T, signal: AbortSignal): T => ({
+      ...options,
+      abortSignal: options.abortSignal ? combineSignals(options.abortSignal, signal) : signal,
+    });
+
+    const wrapped: LanguageModelV3 = {
+      specificationVersion: 'v3',
+      provider: inner.provider,
+      modelId: inner.modelId,
+      supportedUrls: inner.supportedUrls,
+      doGenerate: async (options) => {
+        const step = startStep(this.signal, this.limits.stepMs);
+        try {
+          return await abortable(inner.doGenerate(withSignal(options, step.signal)), step.signal);
+        } catch (error) {
+          throw this.failStep(step.signal, error);
+        } finally {
+          step.end();
+        }
+      },
+      doStream: async (options) => {
+        const step = startStep(this.signal, this.limits.stepMs);
+        try {
+          const result = await abortable(inner.doStream(withSignal(options, step.signal)), step.signal);
+          return { ...result, stream: this.guardStream(result.stream, step) };
+        } catch (error) {
+          step.end();
+          throw this.failStep(step.signal, error);
+        }
+      },
+    };
+    return wrapped;
+  }
+
+  /** Prefers the timeout error over whatever the aborted request threw */
+  private failStep(stepSignal: AbortSignal, error: unknown): unknown {
+    if (!stepSignal.aborted) {
+      return error;
+    }
+    const reason = stepSignal.reason as ExecutionError;
+    this.expire(reason);
+    return reason;
+  }
+
+  private guardStream(
+    source: ReadableStream<StreamPart>,
+    step: ReturnType<typeof startStep>
+  ): ReadableStream<StreamPart> {
+    const reader = source.getReader();
+    const { chunkMs } = this.limits;
+
+    return new ReadableStream<StreamPart>({
+      pull: async (controller) => {
+        const idle =
+          chunkMs !== undefined
+            ? setTimeout(() => step.controller.abort(timeoutError('chunk', chunkMs)), chunkMs)
+            : undefined;
+        try {
+          const next = await abortable(reader.read(), step.signal);
+          if (next.done) {
+            step.end();
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        } catch (error) {
+          step.end();
+          reader.cancel().catch(() => {});
+          controller.error(this.failStep(step.signal, error));
+        } finally {
+          clearTimeout(idle);
+        }
+      },
+      cancel: async (reason) => {
+        step.end();
+        await reader.cancel(reason);
+      },
+    });
+  }
+}
+
+/**
+ * Makes every promise on an LLM call result reject with the error of `failure` (a timeout
+ * or a context overflow) once it rejects. Needed for streamText, whose result promises
+ * otherwise never settle, or reject with a generic error, after the stream errors.
+ */
+export function rejectOnFailure<T extends object>(result: T, failure: Promise<never>): T {
+  return new Proxy(result, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value === 'function') {
+        return value.bind(target);
+      }
+      if (value && typeof (value as PromiseLike<unknown>).then === 'function') {
+        return Promise.race([value, failure]);
+      }
+      return value;
+    },
+  });
+}
@@ -0,0 +1,447 @@
+import { stepCountIs, tool, type Tool, type ToolExecutionOptions, type ToolSet } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { ConfigurationError } from '../errors/index.js';
+import type { ApprovalRequiredEvent, CompletionEvent } from '../execution/types.js';
+import { createLogger, type ToolCallEndEvent } from '../observability/logger.js';
+import { mock } from '../testing/mock.js';
+import {
+  instrumentTools,
+  validateToolPolicy,
+  type ToolExecutionHooks,
+} from './tool-instrumentation.js';
+import type { ToolCallSummary } from './types.js';
+
+const USAGE = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 5, text: 5, reasoning: undefined },
+};
+
+/** Calls `toolName` with `input` on the first step, then answers with text */
+function toolCallingModel(toolName: string, input: unknown): MockLanguageModelV3 {
+  let step = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async () => {
+      step += 1;
+      return {
+        content:
+          step === 1
+            ? [{ type: 'tool-call', toolCallId: 'call-1', toolName, input: JSON.stringify(input) }]
+            : [{ type: 'text', text: 'Done' }],
+        finishReason: { unified: step === 1 ? 'tool-calls' : 'stop', raw: undefined },
+        usage: USAGE,
+        warnings: [],
+      };
+    },
+  });
+}
+
+function recorder(requestApproval?: ToolExecutionHooks['requestApproval']) {
+  const summaries: ToolCallSummary[] = [];
+  const errors: (Error | undefined)[] = [];
+  const hooks: ToolExecutionHooks = {
+    onStart: vi.fn(),
+    onEnd: (summary, error) => {
+      summaries.push(summary);
+      errors.push(error);
+    },
+    requestApproval,
+  };
+  return { hooks, summaries, errors };
+}
+
+/** A tool taking any input */
+function anyTool(execute: Tool['execute']): Tool {
+  return { inputSchema: z.unknown(), execute } as Tool;
+}
+
+const OPTIONS: ToolExecutionOptions = { toolCallId: 'call-1', messages: [] };
+
+function execute(tools: ToolSet, name: string, args: unknown): Promise<unknown> {
+  return Promise.resolve(tools[name].execute!(args, OPTIONS));
+}
+
+describe('instrumentTools', () => {
+  it('should record name, arguments, duration and result size of each execution', async () => {
+    const { hooks, summaries } = recorder();
+    const tools = instrumentTools(
+      {
+        search: tool({ inputSchema: z.object({ query: z.string() }), execute: async () => ['a'] }),
+      },
+      {},
+      hooks
+    );
+
+    await expect(execute(tools, 'search', { query: 'weather' })).resolves.toEqual(['a']);
+
+    expect(hooks.onStart).toHaveBeenCalledWith(
+      expect.objectContaining({
+        toolName: 'search',
+        toolCallId: 'call-1',
+        args: { query: 'weather' },
+      })
+    );
+    expect(summaries).toEqual([
+      {
+        name: 'search',
+        toolCallId: 'call-1',
+        args: { query: 'weather' },
+        startTime: expect.any(Number),
+        duration: expect.any(Number),
+        success: true,
+        resultSize: 5,
+      },
+    ]);
+  });
+
+  it('should redact arguments per tool', async () => {
+    const { hooks, summaries } = recorder();
+    const run = async () => 'ok';
+    const tools = instrumentTools(
+      {
+        login: anyTool(run),
+        lookup: anyTool(run),
+        note: anyTool(run),
+      },
+      {
+        redactArgs: ['password'],
+        tools: { lookup: { redactArgs: true }, note: { redactArgs: () => '[note]' } },
+      },
+      hooks
+    );
+
+    await execute(tools, 'login', { user: 'ann', password: 'secret' });
+    await execute(tools, 'lookup', { id: 1 });
+    await execute(tools, 'note', { text: 'private' });
+
+    expect(summaries.map((summary) => summary.args)).toEqual([
+      { user: 'ann', password: '[REDACTED]' },
+      undefined,
+      '[note]',
+    ]);
+    expect(summaries[1]).not.toHaveProperty('args');
+  });
+
+  it('should record failures and apply the error message policy', async () => {
+    const { hooks, summaries, errors } = recorder();
+    const failure = new Error('connection refused by db-internal:5432');
+    const fail = async () => {
+      throw failure;
+    };
+    const tools = instrumentTools(
+      {
+        raw: anyTool(fail),
+        hidden: anyTool(fail),
+        custom: anyTool(fail),
+      },
+      {
+        tools: {
+          hidden: { errorMessage: 'generic' },
+          custom: { errorMessage: (error, call) => `${call.toolName} is unavailable` },
+        },
+      },
+      hooks
+    );
+
+    await expect(execute(tools, 'raw', {})).rejects.toBe(failure);
+    await expect(execute(tools, 'hidden', {})).rejects.toThrow(/^Tool 'hidden' failed$/);
+    await expect(execute(tools, 'custom', {})).rejects.toThrow('custom is unavailable');
+
+    expect(summaries.map(({ success, error }) => ({ success, error }))).toEqual(
+      Array(3).fill({ success: false, error: failure.message })
+    );
+    expect(errors).toEqual([failure, failure, failure]);
+  });
+
+  it('should time out slow executions and abort their signal', async () => {
+    const { hooks, summaries } = recorder();
+    let signal: AbortSignal | undefined;
+    const tools = instrumentTools(
+      {
+        slow: anyTool((_input, options) => {
+          signal = options.abortSignal;
+          return new Promise(() => {});
+        }),
+      },
+      { timeout: 10 },
+      hooks
+    );
+
+    await expect(execute(tools, 'slow', {})).rejects.toThrow("Tool 'slow' timed out after 10ms");
+    expect(signal?.aborted).toBe(true);
+    expect(summaries[0]).toMatchObject({ success: false, timedOut: true });
+  });
+
+  it('should pass preliminary results of streaming tools through', async () => {
+    const { hooks, summaries } = recorder();
+    const tools = instrumentTools(
+      {
+        progress: anyTool(async function* () {
+          yield 'working';
+          yield 'finished';
+        }),
+      },
+      {},
+      hooks
+    );
+
+    const parts: unknown[] = [];
+    for await (const part of tools.progress.execute!({}, OPTIONS) as AsyncIterable<unknown>) {
+      parts.push(part);
+    }
+
+    expect(parts).toEqual(['working', 'finished']);
+    expect(summaries[0]).toMatchObject({ success: true, resultSize: '"finished"'.length });
+  });
+
+  it('should leave tools without execute unchanged', () => {
+    const providerTool = tool({ inputSchema: z.object({}) });
+    const tools = instrumentTools({ search: providerTool }, {}, recorder().hooks);
+
+    expect(tools.search).toBe(providerTool);
+  });
+});
+
+describe('instrumentTools approval', () => {
+  it('should run the tool only once approved', async () => {
+    const run = vi.fn(async () => 'sent');
+    const { hooks, summaries } = recorder(async () => ({ approved: true }));
+    const tools = instrumentTools({ email: anyTool(run) }, { requiresApproval: true }, hooks);
+
+    await expect(execute(tools, 'email', { to: 'ann' })).resolves.toBe('sent');
+
+    expect(run).toHaveBeenCalledOnce();
+    expect(summaries[0]).toMatchObject({
+      success: true,
+      approval: { status: 'approved', waitMs: expect.any(Number) },
+    });
+  });
+
+  it('should not run rejected tools and tell the model the reason', async () => {
+    const run = vi.fn(async () => 'paid');
+    const { hooks, summaries } = recorder(async () => ({ approved: false, reason: 'Too much' }));
+    const tools = instrumentTools(
+      { pay: anyTool(run), lookup: anyTool(run) },
+      { tools: { pay: { requiresApproval: true } } },
+      hooks
+    );
+
+    await expect(execute(tools, 'pay', { amount: 500 })).rejects.toThrow(
+      "Tool 'pay' was rejected: Too much"
+    );
+    await expect(execute(tools, 'lookup', {})).resolves.toBe('paid');
+
+    expect(run).toHaveBeenCalledOnce();
+    expect(summaries[0]).toMatchObject({
+      success: false,
+      approval: { status: 'rejected', reason: 'Too much' },
+    });
+    expect(summaries[1]).not.toHaveProperty('approval');
+  });
+
+  it('should reject executions not approved within the approval timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const { hooks, summaries } = recorder((request, requestSignal) => {
+      signal = requestSignal;
+      expect(request.expiresAt).toBeGreaterThan(Date.now());
+      return new Promise(() => {});
+    });
+    const tools = instrumentTools(
+      { pay: anyTool(async () => 'paid') },
+      { requiresApproval: true, approvalTimeout: 10 },
+      hooks
+    );
+
+    await expect(execute(tools, 'pay', {})).rejects.toThrow(
+      "Tool 'pay' was not approved within 10ms"
+    );
+    expect(signal?.aborted).toBe(true);
+    expect(summaries[0]).toMatchObject({ success: false, approval: { status: 'timed_out' } });
+  });
+
+  it('should stop waiting when the call is aborted', async () => {
+    const controller = new AbortController();
+    const { hooks, summaries } = recorder(() => new Promise(() => {}));
+    const tools = instrumentTools(
+      { pay: anyTool(async () => 'paid') },
+      { requiresApproval: true },
+      hooks
+    );
+
+    const pending = Promise.resolve(
+      tools.pay.execute!({}, { ...OPTIONS, abortSignal: controller.signal })
+    );
+    controller.abort(new Error('Canceled'));
+
+    await expect(pending).rejects.toThrow('Canceled');
+    expect(summaries[0]).toMatchObject({ success: false, approval: { status: 'canceled' } });
+  });
+
+  it('should reject when the session cannot ask for approval', async () => {
+    const { hooks } = recorder();
+    const tools = instrumentTools(
+      { pay: anyTool(async () => 'paid') },
+      { requiresApproval: true },
+      hooks
+    );
+
+    await expect(execute(tools, 'pay', {})).rejects.toThrow(/^Tool 'pay' was rejected/);
+  });
+});
+
+describe('validateToolPolicy', () => {
+  it('should reject timeouts that are not positive', () => {
+    expect(() => validateToolPolicy({ timeout: 0 })).toThrow(ConfigurationError);
+    expect(() => validateToolPolicy({ tools: { search: { timeout: -1 } } })).toThrow(
+      'Invalid tool policy: tools.search.timeout must be a positive number'
+    );
+    expect(() => validateToolPolicy({ tools: { pay: { approvalTimeout: 0 } } })).toThrow(
+      'Invalid tool policy: tools.pay.approvalTimeout must be a positive number'
+    );
+    expect(() => validateToolPolicy({ timeout: 1000, tools: { search: {} } })).not.toThrow();
+  });
+});
+
+describe('session tool instrumentation', () => {
+  it('should record executions in the summary and report them to the logger', async () => {
+    const ended: ToolCallEndEvent[] = [];
+    const logger = createLogger({
+      onToolCallStart: vi.fn(),
+      onToolCallEnd: (event) => ended.push(event),
+    });
+    const provider = mock
+      .provider(toolCallingModel('weather', { city: 'Seoul' }))
+      .withToolPolicy({ redactArgs: ['city'] })
+      .withLogger(logger);
+
+    const execution = provider.simpleExecution((session) =>
+      session.generateText({
+        prompt: 'Weather in Seoul?',
+        tools: {
+          weather: tool({
+            inputSchema: z.object({ city: z.string() }),
+            execute: async () => ({ temperature: 21 }),
+          }),
+        },
+        stopWhen: stepCountIs(2),
+      })
+    );
+    const result = await execution.result();
+
+    expect(result.status).toBe('succeeded');
+    expect(result.summary.toolCalls).toEqual([
+      expect.objectContaining({
+        name: 'weather',
+        toolCallId: 'call-1',
+        args: { city: '[REDACTED]' },
+        success: true,
+        resultSize: JSON.stringify({ temperature: 21 }).length,
+      }),
+    ]);
+    expect(logger.onToolCallStart).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'tool_call_start',
+        toolName: 'weather',
+        args: { city: '[REDACTED]' },
+        executionId: expect.any(String),
+        callId: expect.any(String),
+      })
+    );
+    expect(ended).toEqual([
+      expect.objectContaining({ type: 'tool_call_end', toolName: 'weather', toolCallId: 'call-1' }),
+    ]);
+  });
+
+  it('should send the error message policy text to the model', async () => {
+    const model = toolCallingModel('lookup', {});
+    const provider = mock.provider(model).withToolPolicy({ errorMessage: 'generic' });
+
+    const result = await provider
+      .simpleExecution((session) =>
+        session.generateText({
+          prompt: 'Look it up',
+          tools: {
+            lookup: anyTool(async () => {
+              throw new Error('secret stack trace');
+            }),
+          },
+          stopWhen: stepCountIs(2),
+        })
+      )
+      .result();
+
+    expect(result.status).toBe('succeeded');
+    expect(result.summary.toolCalls[0]).toMatchObject({
+      success: false,
+      error: 'secret stack trace',
+    });
+    expect(JSON.stringify(model.doGenerateCalls[1].prompt)).toContain("Tool 'lookup' failed");
+    expect(JSON.stringify(model.doGenerateCalls[1].prompt)).not.toContain('secret stack trace');
+  });
+
+  it('should pause streaming executions until the consumer approves', async () => {
+    type Event = ApprovalRequiredEvent | CompletionEvent<string>;
+    const provider = mock
+      .provider(toolCallingModel('pay', { amount: 20 }))
+      .withToolPolicy({ tools: { pay: { requiresApproval: true } } });
+    const pay = vi.fn(async () => ({ paid: true }));
+
+    const execution = provider.streamingExecution<Event>(async function* (session) {
+      const result = await session.generateText({
+        prompt: 'Pay the invoice',
+        tools: { pay: anyTool(pay) },
+        stopWhen: stepCountIs(2),
+      });
+      return session.done(result.text);
+    });
+
+    const requests: ApprovalRequiredEvent[] = [];
+    for await (const event of execution.stream()) {
+      if (event.type === 'approval_required') {
+        requests.push(event);
+        expect(pay).not.toHaveBeenCalled();
+        expect(execution.approve(event.toolCallId)).toBe(true);
+        expect(execution.approve(event.toolCallId)).toBe(false);
+      }
+    }
+    const result = await execution.result();
+
+    expect(requests).toEqual([
+      expect.objectContaining({
+        toolName: 'pay',
+        toolCallId: 'call-1',
+        args: { amount: 20 },
+        metrics: expect.any(Object),
+      }),
+    ]);
+    expect(pay).toHaveBeenCalledOnce();
+    expect(result.status).toBe('succeeded');
+    expect(result.events.map((event) => event.type)).toEqual(['approval_required', 'complete']);
+    expect(result.summary.toolCalls[0]).toMatchObject({
+      success: true,
+      approval: { status: 'approved' },
+    });
+  });
+
+  it('should reject approvals in simple executions', async () => {
+    const pay = vi.fn(async () => ({ paid: true }));
+    const result = await mock
+      .provider(toolCallingModel('pay', {}))
+      .withToolPolicy({ requiresApproval: true })
+      .simpleExecution((session) =>
+        session.generateText({
+          prompt: 'Pay',
+          tools: { pay: anyTool(pay) },
+          stopWhen: stepCountIs(2),
+        })
+      )
+      .result();
+
+    expect(pay).not.toHaveBeenCalled();
+    expect(result.summary.toolCalls[0]).toMatchObject({
+      approval: { status: 'rejected', reason: 'Tool approval requires a streaming execution' },
+    });
+  });
+});
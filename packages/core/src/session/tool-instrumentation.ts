@@ -0,0 +1,417 @@
+/**
+ * Tool execution instrumentation for session LLM calls.
+ *
+ * Tools with an `execute` function are wrapped so that each execution is timed, recorded
+ * in the session summary and reported to the logger. Provider-executed tools (such as
+ * google_search) run on the provider's side and are passed through unchanged.
+ *
+ * Tools that require approval wait for a decision from the session before they run.
+ */
+
+import type { Tool, ToolExecutionOptions, ToolSet } from 'ai';
+
+import {
+  ConfigurationError,
+  ConfigurationErrorCode,
+  ExecutionError,
+  ExecutionErrorCode,
+} from '../errors/index.js';
+import { combineSignals } from '../execution/utils.js';
+import type { ToolCallApproval, ToolCallSummary } from './types.js';
+
+/** A tool execution, as passed to `ToolCallPolicy.errorMessage` */
+export interface ToolCallInfo {
+  toolName: string;
+  toolCallId: string;
+  /** Arguments the model called the tool with (not redacted) */
+  args: unknown;
+}
+
+export interface ToolCallPolicy {
+  /** Fails an execution that takes longer than this many milliseconds */
+  timeout?: number;
+  /**
+   * Arguments recorded in the summary and reported to the logger:
+   * - `true`: arguments are omitted
+   * - a list of keys: their top-level values are replaced with `'[REDACTED]'`
+   * - a function: its return value is recorded instead
+   * @default false
+   */
+  redactArgs?: boolean | string[] | ((args: unknown) => unknown);
+  /**
+   * What the model is told when the tool fails or times out:
+   * - `'message'`: the error message
+   * - `'generic'`: only that the tool failed, keeping internal details from the model
+   * - a function returning the text
+   *
+   * The summary and logger always receive the original error.
+   * @default 'message'
+   */
+  errorMessage?: 'message' | 'generic' | ((error: Error, call: ToolCallInfo) => string);
+  /**
+   * Waits for the consumer to approve each execution before running the tool.
+   * Rejected executions are not run and the model is told the tool call was rejected.
+   * @default false
+   */
+  requiresApproval?: boolean;
+  /** Rejects an execution not approved within this many milliseconds. Waits indefinitely if unset. */
+  approvalTimeout?: number;
+}
+
+/** Tool call policy for every tool, with overrides per tool name */
+export interface ToolPolicy extends ToolCallPolicy {
+  tools?: Record<string, ToolCallPolicy>;
+}
+
+/** A tool execution waiting for approval */
+export interface ToolApprovalRequest extends ToolCallInfo {
+  /** When the request times out (ms since epoch), if the policy sets `approvalTimeout` */
+  expiresAt?: number;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+/** Callbacks the session uses to record and log tool executions */
+export interface ToolExecutionHooks {
+  onStart(call: { toolName: string; toolCallId: string; args?: unknown; timestamp: number }): void;
+  onEnd(summary: ToolCallSummary, error?: Error): void;
+  /**
+   * Asks for approval of an execution. `signal` aborts when the request times out or the
+   * call is canceled, after which the decision is ignored.
+   */
+  requestApproval?(
+    request: ToolApprovalRequest,
+    signal: AbortSignal
+  ): Promise<ToolApprovalDecision>;
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Validates a tool policy.
+ * @throws ConfigurationError if a timeout or approval timeout is not a positive number
+ */
+export function validateToolPolicy(policy: ToolPolicy): void {
+  const policies: [string, ToolCallPolicy][] = [
+    ['', policy],
+    ...Object.entries(policy.tools ?? {}).map(([name, toolPolicy]): [string, ToolCallPolicy] => [
+      `tools.${name}.`,
+      toolPolicy,
+    ]),
+  ];
+
+  for (const [path, toolPolicy] of policies) {
+    for (const field of ['timeout', 'approvalTimeout'] as const) {
+      const value = toolPolicy[field];
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw new ConfigurationError(
+          `Invalid tool policy: ${path}${field} must be a positive number`,
+          {
+            code: ConfigurationErrorCode.INVALID_CONFIG,
+            context: { policy },
+          }
+        );
+      }
+    }
+  }
+}
+
+function policyFor(policy: ToolPolicy, toolName: string): ToolCallPolicy {
+  const { tools, ...defaults } = policy;
+  return { ...defaults, ...tools?.[toolName] };
+}
+
+function redact(args: unknown, redactArgs: ToolCallPolicy['redactArgs']): unknown {
+  if (!redactArgs) {
+    return args;
+  }
+  if (redactArgs === true) {
+    return undefined;
+  }
+  if (typeof redactArgs === 'function') {
+    return redactArgs(args);
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return args;
+  }
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, redactArgs.includes(key) ? REDACTED : value])
+  );
+}
+
+/** Length of the JSON-serialized result, or undefined if it cannot be serialized */
+function resultSize(output: unknown): number | undefined {
+  try {
+    return JSON.stringify(output)?.length ?? 0;
+  } catch {
+    return undefined;
+  }
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Aborts the execution's signal and rejects `expired` once the timeout passes.
+ * `timedOut()` tells a timeout apart from errors the tool threw itself.
+ */
+function startDeadline(toolName: string, timeoutMs: number | undefined, parent?: AbortSignal) {
+  if (timeoutMs === undefined) {
+    return { signal: parent, expired: undefined, timedOut: () => false, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ExecutionError(`Tool '${toolName}' timed out after ${timeoutMs}ms`, {
+        code: ExecutionErrorCode.TIMEOUT,
+        context: { toolName, timeoutMs },
+      });
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  expired.catch(() => {});
+
+  return {
+    signal: parent ? combineSignals(parent, controller.signal) : controller.signal,
+    expired,
+    timedOut: () => controller.signal.aborted,
+    clear: () => clearTimeout(timer),
+  };
+}
+
+/** Runs a streaming tool to completion and returns its final result */
+async function lastValue(iterable: AsyncIterable<unknown>): Promise<unknown> {
+  let output: unknown;
+  for await (const value of iterable) {
+    output = value;
+  }
+  return output;
+}
+
+/**
+ * Waits for the approval decision, the approval timeout or cancellation of the call,
+ * whichever comes first. Cancellation rejects with the signal's reason.
+ */
+async function awaitApproval(
+  request: ToolApprovalRequest,
+  timeoutMs: number | undefined,
+  hooks: ToolExecutionHooks,
+  parent?: AbortSignal
+): Promise<Omit<ToolCallApproval, 'waitMs'>> {
+  if (!hooks.requestApproval) {
+    return { status: 'rejected', reason: 'Tool approval is not available in this session' };
+  }
+  parent?.throwIfAborted();
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+  const expired = new Promise<'timed_out'>((resolve) => {
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => resolve('timed_out'), timeoutMs);
+    }
+  });
+  const canceled = new Promise<never>((_, reject) => {
+    onAbort = () => reject(parent!.reason);
+    parent?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    const outcome = await Promise.race([
+      hooks.requestApproval(
+        request,
+        parent ? combineSignals(parent, controller.signal) : controller.signal
+      ),
+      expired,
+      canceled,
+    ]);
+    if (outcome === 'timed_out') {
+      return { status: 'timed_out' };
+    }
+    return {
+      status: outcome.approved ? 'approved' : 'rejected',
+      ...(outcome.reason !== undefined && { reason: outcome.reason }),
+    };
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onAbort!);
+    controller.abort();
+  }
+}
+
+/** The error sent to the model when an execution is not approved */
+function approvalError(toolName: string, approval: ToolCallApproval, timeoutMs?: number): Error {
+  if (approval.status === 'timed_out') {
+    return new Error(`Tool '${toolName}' was not approved within ${timeoutMs}ms`);
+  }
+  return new Error(
+    `Tool '${toolName}' was rejected` + (approval.reason ? `: ${approval.reason}` : '')
+  );
+}
+
+/** The error thrown back to the AI SDK, which sends its message to the model */
+function errorForModel(error: Error, policy: ToolCallPolicy, call: ToolCallInfo): Error {
+  const { errorMessage = 'message' } = policy;
+  if (errorMessage === 'message') {
+    return error;
+  }
+  const text =
+    errorMessage === 'generic' ? `Tool '${call.toolName}' failed` : errorMessage(error, call);
+  return new Error(text, { cause: error });
+}
+
+function instrumentTool(
+  toolName: string,
+  tool: Tool,
+  policy: ToolCallPolicy,
+  hooks: ToolExecutionHooks
+): Tool {
+  const execute = tool.execute!;
+
+  const instrumented = (args: unknown, options: ToolExecutionOptions): unknown => {
+    const startTime = Date.now();
+    const call: ToolCallInfo = { toolName, toolCallId: options.toolCallId, args };
+    const recordedArgs = redact(args, policy.redactArgs);
+    hooks.onStart({
+      toolName,
+      toolCallId: call.toolCallId,
+      ...(recordedArgs !== undefined && { args: recordedArgs }),
+      timestamp: startTime,
+    });
+
+    let approval: ToolCallApproval | undefined;
+    const summary = (): ToolCallSummary => ({
+      name: toolName,
+      toolCallId: call.toolCallId,
+      ...(recordedArgs !== undefined && { args: recordedArgs }),
+      startTime,
+      duration: Date.now() - startTime,
+      success: true,
+      ...(approval && { approval }),
+    });
+    /** Records a call that never ran and returns the error to throw back to the AI SDK */
+    const skip = (error: Error): Error => {
+      hooks.onEnd({ ...summary(), success: false, error: error.message }, error);
+      return error;
+    };
+
+    /** Runs the tool under the policy's timeout, recording the outcome */
+    const run = (): unknown => {
+      const deadline = startDeadline(toolName, policy.timeout, options.abortSignal);
+      const succeed = (output: unknown) => {
+        deadline.clear();
+        hooks.onEnd({ ...summary(), resultSize: resultSize(output) });
+      };
+      /** Records the failure and returns the error to throw back to the AI SDK */
+      const fail = (caught: unknown): Error => {
+        deadline.clear();
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        hooks.onEnd(
+          {
+            ...summary(),
+            success: false,
+            error: error.message,
+            ...(deadline.timedOut() && { timedOut: true }),
+          },
+          error
+        );
+        return errorForModel(error, policy, call);
+      };
+      const race = <T>(pending: PromiseLike<T>): Promise<T> =>
+        deadline.expired ? Promise.race([pending, deadline.expired]) : Promise.resolve(pending);
+
+      let result: unknown;
+      try {
+        result = execute(args, { ...options, abortSignal: deadline.signal });
+      } catch (error) {
+        throw fail(error);
+      }
+
+      if (isAsyncIterable(result)) {
+        // Streaming tools yield preliminary results; the last one is the final result
+        const iterator = result[Symbol.asyncIterator]();
+        return (async function* () {
+          let output: unknown;
+          try {
+            let next = await race(iterator.next());
+            while (!next.done) {
+              output = next.value;
+              yield output;
+              next = await race(iterator.next());
+            }
+          } catch (error) {
+            throw fail(error);
+          }
+          succeed(output);
+        })();
+      }
+
+      return race(Promise.resolve(result)).then(
+        (output) => {
+          succeed(output);
+          return output;
+        },
+        (error: unknown) => {
+          throw fail(error);
+        }
+      );
+    };
+
+    if (!policy.requiresApproval) {
+      return run();
+    }
+
+    const expiresAt =
+      policy.approvalTimeout !== undefined ? startTime + policy.approvalTimeout : undefined;
+    return awaitApproval(
+      { ...call, ...(expiresAt !== undefined && { expiresAt }) },
+      policy.approvalTimeout,
+      hooks,
+      options.abortSignal
+    ).then(
+      (decision) => {
+        approval = { ...decision, waitMs: Date.now() - startTime };
+        if (approval.status !== 'approved') {
+          throw skip(approvalError(toolName, approval, policy.approvalTimeout));
+        }
+        // Preliminary results cannot be passed through once the call has waited for approval
+        const result = run();
+        return isAsyncIterable(result) ? lastValue(result) : result;
+      },
+      (caught: unknown) => {
+        approval = { status: 'canceled', waitMs: Date.now() - startTime };
+        throw skip(caught instanceof Error ? caught : new Error(String(caught)));
+      }
+    );
+  };
+
+  return { ...tool, execute: instrumented } as Tool;
+}
+
+/**
+ * Wraps every tool with an `execute` function so its executions are reported to `hooks`
+ * and follow the policy's timeout, error message and approval settings.
+ */
+export function instrumentTools<TOOLS extends ToolSet>(
+  tools: TOOLS,
+  policy: ToolPolicy,
+  hooks: ToolExecutionHooks
+): TOOLS {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => [
+      name,
+      tool.execute ? instrumentTool(name, tool, policyFor(policy, name), hooks) : tool,
+    ])
+  ) as TOOLS;
+}
@@ -10,13 +10,14 @@ import type {
   streamText as aiStreamText,
   generateObject as aiGenerateObject,
   GenerateTextResult,
+  LanguageModel,
   StreamTextResult,
   ToolSet,
 } from 'ai';
 
 import type { ExecutionMetadata } from '../observability/types.js';
-import type { ProviderType } from '../pricing/types.js';
-import { createZeroUsage } from './usage-extractors.js';
+import type { ModelPricing, ProviderPricing, ProviderType } from '../pricing/types.js';
+import { createZeroUsage, mergeUsages } from './usage-extractors.js';
 
 /**
  * Standard AI SDK generation parameters that can be set as defaults at the Provider level.
@@ -84,6 +85,8 @@ export type GenerateTextParams<
 > = Omit<Parameters<typeof aiGenerateText<TOOLS>>[0], 'model' | 'output'> & {
   model?: string;
   output?: OUTPUT;
+  /** Set to `false` to skip the provider's response cache for this call */
+  cache?: boolean;
 };
 
 export type { GenerateTextResult };
@@ -98,6 +101,8 @@ export type StreamTextParams<
 > = Omit<Parameters<typeof aiStreamText<TOOLS>>[0], 'model' | 'output'> & {
   model?: string;
   output?: OUTPUT;
+  /** Set to `false` to skip the provider's response cache for this call */
+  cache?: boolean;
 };
 
 export type { StreamTextResult };
@@ -109,15 +114,45 @@ export type GenerateObjectParams = Omit<Parameters<typeof aiGenerateObject>[0],
 
 export type { ToolSet };
 
+/**
+ * A tool execution. Sessions record one for every execution of a tool passed to
+ * an LLM call; `recordToolCall()` records others.
+ */
 export interface ToolCallSummary {
   name: string;
+  /** ID the model gave the tool call */
+  toolCallId?: string;
+  /** Arguments, redacted per the tool policy */
+  args?: unknown;
+  startTime?: number;
   duration?: number;
   success: boolean;
   error?: string;
+  /** Set when the execution hit the tool policy's timeout */
+  timedOut?: boolean;
+  /** Length of the JSON-serialized result, in characters */
+  resultSize?: number;
+  /** Approval decision, for tools that require approval */
+  approval?: ToolCallApproval;
+}
+
+export interface ToolCallApproval {
+  /** `'canceled'` when the execution was aborted while waiting */
+  status: 'approved' | 'rejected' | 'timed_out' | 'canceled';
+  /** Reason given with a rejection */
+  reason?: string;
+  /** Time spent waiting for the decision, in milliseconds */
+  waitMs: number;
 }
 
 export type LLMCallType = 'generateText' | 'streamText' | 'generateObject' | 'manual';
 
+/**
+ * Tags attributing costs to a feature, customer, agent or anything else,
+ * e.g. `{ feature: 'search', customer: 'acme' }`.
+ */
+export type CostAttribution = Record<string, string>;
+
 export interface LLMCallRecord {
   startTime: number;
   endTime: number;
@@ -126,8 +161,44 @@ export interface LLMCallRecord {
   type: LLMCallType;
   model: string;
   provider: ProviderType;
+  /** 1-based attempt number, set when the session has a retry policy */
+  attempt?: number;
+  /** Error message of a failed attempt or timed-out call (recorded with zero usage) */
+  error?: string;
+  /** True when the response was replayed from the response cache (recorded with zero usage) */
+  cached?: boolean;
+  /** Cost in USD, set when the session records the call */
+  cost?: number;
+  /** Tags of the execution (see `ExecutionOptions.attribution`), merged with the record's own */
+  attribution?: CostAttribution;
 }
 
+/**
+ * Provider and model that actually served a routed LLM call,
+ * with the pricing used to cost it.
+ */
+export interface ServingTarget {
+  providerType: ProviderType;
+  modelId: string;
+  providerPricing?: ProviderPricing;
+  fallbackPricing?: ModelPricing;
+}
+
+/**
+ * Model for a single LLM call, resolved by a ModelRouter.
+ */
+export interface RoutedModel {
+  model: LanguageModel;
+  /** Target that served the call. Read once the call has finished; undefined if none did. */
+  servedBy(): ServingTarget | undefined;
+}
+
+/**
+ * Resolves the model for each LLM call.
+ * Composite providers (fallback, routing) use this to send calls to other providers.
+ */
+export type ModelRouter = (requestedModelId: string | undefined) => RoutedModel;
+
 /**
  * Aggregated summary of all activity within an execution session.
  * Used for cost tracking, performance analysis, and metadata reporting.
@@ -138,6 +209,8 @@ export interface AdditionalCost {
   label?: string;
   metadata?: Record<string, unknown>;
   timestamp: number;
+  /** Tags of the execution (see `ExecutionOptions.attribution`), merged with the cost's own */
+  attribution?: CostAttribution;
 }
 
 /**
@@ -213,6 +286,26 @@ export class SessionSummary {
     );
   }
 
+  /**
+   * Restores a summary from its JSON form, such as one saved in a checkpoint.
+   * Its duration continues from the saved `totalDuration`.
+   */
+  static fromJSON(json: SessionSummaryJSON): SessionSummary {
+    return new SessionSummary(
+      {
+        totalLLMUsage: json.totalLLMUsage,
+        llmCalls: json.llmCalls,
+        toolCalls: json.toolCalls,
+        customRecords: json.customRecords,
+        llmCost: json.llmCost,
+        additionalCosts: json.additionalCosts,
+        metadata: json.metadata,
+        costByModel: json.costByModel,
+      },
+      Date.now() - json.totalDuration
+    );
+  }
+
   /**
    * Creates a SessionSummary with custom data for testing purposes.
    * @internal For testing only - do not use in production code.
@@ -348,6 +441,30 @@ export class SessionSummary {
     );
   }
 
+  /**
+   * Returns a new SessionSummary with a child execution's usage, LLM calls, tool calls,
+   * custom records and costs added. Metadata and duration stay this summary's.
+   */
+  withChildSummary(child: SessionSummary): SessionSummary {
+    const costByModel = { ...this.costByModel };
+    for (const [key, cost] of Object.entries(child.costByModel)) {
+      costByModel[key] = (costByModel[key] ?? 0) + cost;
+    }
+    return new SessionSummary(
+      {
+        totalLLMUsage: mergeUsages([this.totalLLMUsage, child.totalLLMUsage]),
+        llmCalls: [...this.llmCalls, ...child.llmCalls],
+        toolCalls: [...this.toolCalls, ...child.toolCalls],
+        customRecords: [...this.customRecords, ...child.customRecords],
+        llmCost: this.llmCost + child.llmCost,
+        additionalCosts: [...this.additionalCosts, ...child.additionalCosts],
+        metadata: { ...this.metadata },
+        costByModel,
+      },
+      this.startTime
+    );
+  }
+
   /**
    * Serializes to plain JSON object for database storage.
    */
@@ -0,0 +1,190 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { MockLanguageModelV3 } from 'ai/test';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { SimpleExecution } from '../execution/index.js';
+import type { SimpleSession } from '../session/simple-session.js';
+import {
+    CassetteMismatchError,
+    createRecordingProvider,
+    createReplayProvider,
+    type Cassette,
+} from './cassette.js';
+import { mock } from './mock.js';
+
+async function run<T>(execution: SimpleExecution<T>): Promise<T> {
+    const result = await execution.result();
+    if (result.status !== 'succeeded') {
+        throw new Error(`Execution ${result.status}`);
+    }
+    return result.value;
+}
+
+describe('cassettes', () => {
+    let directory: string;
+    let cassette: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'agtlantis-cassette-'));
+        cassette = path.join(directory, 'fixtures', 'cassette.json');
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    async function readCassette(): Promise<Cassette> {
+        return JSON.parse(await readFile(cassette, 'utf-8')) as Cassette;
+    }
+
+    it('should record generateText calls and replay them offline', async () => {
+        const real = mock.provider(mock.text('Recorded answer'));
+        const recording = createRecordingProvider(real, { cassette });
+
+        const recorded = await run(
+            recording.simpleExecution(
+                async (session) => (await session.generateText({ prompt: 'Hi' })).text
+            )
+        );
+
+        const replay = createReplayProvider({ cassette });
+        const replayed = await run(
+            replay.simpleExecution(
+                async (session) => (await session.generateText({ prompt: 'Hi' })).text
+            )
+        );
+
+        expect(recorded).toBe('Recorded answer');
+        expect(replayed).toBe('Recorded answer');
+        expect(real.getCalls()).toHaveLength(1);
+        expect((await readCassette()).interactions).toMatchObject([
+            { type: 'generate', modelId: 'mock-model-id' },
+        ]);
+    });
+
+    it('should record and replay streams', async () => {
+        const recording = createRecordingProvider(mock.provider(mock.stream(['Hel', 'lo'])), {
+            cassette,
+        });
+        await run(
+            recording.simpleExecution(async (session) => session.streamText({ prompt: 'Hi' }).text)
+        );
+
+        const chunks = await run(
+            createReplayProvider({ cassette }).simpleExecution(async (session) => {
+                const received: string[] = [];
+                for await (const chunk of session.streamText({ prompt: 'Hi' }).textStream) {
+                    received.push(chunk);
+                }
+                return received;
+            })
+        );
+
+        expect(chunks).toEqual(['Hel', 'lo']);
+    });
+
+    it('should keep recording through fluent configuration', async () => {
+        const recording = createRecordingProvider(mock.provider(mock.text('ok')), { cassette })
+            .withDefaultModel('other-model')
+            .withBudget({ maxLLMCalls: 5 });
+
+        await run(
+            recording.simpleExecution(async (session) => session.generateText({ prompt: 'Hi' }))
+        );
+
+        expect((await readCassette()).interactions).toHaveLength(1);
+    });
+
+    it('should replay repeated requests in recorded order', async () => {
+        let count = 0;
+        const real = mock.provider(
+            new MockLanguageModelV3({
+                doGenerate: async () => ({
+                    content: [{ type: 'text', text: `answer ${++count}` }],
+                    finishReason: { unified: 'stop', raw: undefined },
+                    usage: {
+                        inputTokens: {
+                            total: 1,
+                            noCache: 1,
+                            cacheRead: undefined,
+                            cacheWrite: undefined,
+                        },
+                        outputTokens: { total: 1, text: 1, reasoning: undefined },
+                    },
+                    warnings: [],
+                }),
+            })
+        );
+        const ask = (session: SimpleSession) =>
+            session.generateText({ prompt: 'Hi' }).then((result) => result.text);
+
+        await run(
+            createRecordingProvider(real, { cassette }).simpleExecution(async (session) => [
+                await ask(session),
+                await ask(session),
+            ])
+        );
+
+        const replayed = await run(
+            createReplayProvider({ cassette }).simpleExecution(async (session) => [
+                await ask(session),
+                await ask(session),
+                await ask(session),
+            ])
+        );
+
+        expect(replayed).toEqual(['answer 1', 'answer 2', 'answer 2']);
+    });
+
+    it('should fail loudly on requests that were not recorded', async () => {
+        await run(
+            createRecordingProvider(mock.provider(mock.text('ok')), { cassette }).simpleExecution(
+                async (session) => session.generateText({ prompt: 'Hi' })
+            )
+        );
+
+        const result = await createReplayProvider({ cassette })
+            .simpleExecution(async (session) => session.generateText({ prompt: 'Bye' }))
+            .result();
+
+        expect(result.status).toBe('failed');
+        if (result.status === 'failed') {
+            const cause = result.error.cause ?? result.error;
+            expect(cause).toBeInstanceOf(CassetteMismatchError);
+            expect(cause).toMatchObject({ cassette });
+        }
+    });
+
+    it('should redact credential headers from the cassette', async () => {
+        await run(
+            createRecordingProvider(mock.provider(mock.text('ok')), {
+                cassette,
+                redactHeaders: ['X-Org-Id'],
+            }).simpleExecution(async (session) =>
+                session.generateText({
+                    prompt: 'Hi',
+                    headers: {
+                        Authorization: 'Bearer sk-secret',
+                        'x-api-key': 'sk-secret',
+                        'x-org-id': 'org-123',
+                        'x-trace-id': 'trace-1',
+                    },
+                })
+            )
+        );
+
+        const content = await readFile(cassette, 'utf-8');
+        const [interaction] = (JSON.parse(content) as Cassette).interactions;
+
+        expect(content).not.toContain('sk-secret');
+        expect(content).not.toContain('org-123');
+        expect(interaction.request.headers).toMatchObject({
+            authorization: '[REDACTED]',
+            'x-api-key': '[REDACTED]',
+            'x-org-id': '[REDACTED]',
+            'x-trace-id': 'trace-1',
+        });
+    });
+});
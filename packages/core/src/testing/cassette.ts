@@ -0,0 +1,394 @@
+/**
+ * Cassettes - record real provider traffic once, replay it offline.
+ *
+ * `createRecordingProvider()` wraps a real provider and writes every model request
+ * and response to a JSON cassette file. `createReplayProvider()` serves those
+ * responses back without network access, matching requests by a hash of the
+ * normalized request (prompt, tools, output schema and generation options).
+ *
+ * @example
+ * ```typescript
+ * import { createRecordingProvider, createReplayProvider } from '@agtlantis/core/testing';
+ *
+ * const provider = process.env.RECORD
+ *     ? createRecordingProvider(createGoogleProvider({ apiKey }), { cassette: 'fixtures/summary.json' })
+ *     : createReplayProvider({ cassette: 'fixtures/summary.json' });
+ * ```
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { LanguageModel, wrapLanguageModel } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import type { Logger } from '../observability/logger.js';
+import type { ProviderPricing } from '../pricing/index.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../provider/base-provider.js';
+import type {
+    Budget,
+    CachedResponse,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../session/index.js';
+import {
+    hashRequest,
+    normalizeRequest,
+    recordStream,
+    replayStream,
+    toCachedGenerate,
+    type NormalizedRequest,
+} from '../session/response-cache.js';
+import { SimpleSession } from '../session/simple-session.js';
+import { StreamingSession } from '../session/streaming-session.js';
+import { MockProvider } from './mock-provider.js';
+
+type LanguageModelV3 = Parameters<typeof wrapLanguageModel>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+
+const CASSETTE_VERSION = 1;
+
+const SENSITIVE_HEADER = /authorization|api[-_]?key|token|secret|cookie/i;
+
+export interface CassetteInteraction {
+    /** Hash of the call type and normalized request, used for matching */
+    key: string;
+    type: CachedResponse['type'];
+    /** Provider and model that served the recorded call (informational) */
+    provider: string;
+    modelId: string;
+    request: NormalizedRequest & { headers?: Record<string, string | undefined> };
+    response: CachedResponse;
+}
+
+export interface Cassette {
+    version: typeof CASSETTE_VERSION;
+    interactions: CassetteInteraction[];
+}
+
+export interface RecordingProviderOptions {
+    /** Path of the cassette file. It is overwritten as calls are recorded. */
+    cassette: string;
+    /**
+     * Additional request header names to redact. Headers that look like credentials
+     * (authorization, API keys, tokens, secrets, cookies) are always redacted.
+     */
+    redactHeaders?: string[];
+}
+
+export interface ReplayProviderOptions {
+    /** Path of a cassette file written by a recording provider */
+    cassette: string;
+    providerType?: string;
+}
+
+/**
+ * Thrown by a replay provider when a request has no recorded interaction.
+ * Usually means the prompt or options changed and the cassette must be re-recorded.
+ */
+export class CassetteMismatchError extends Error {
+    constructor(
+        message: string,
+        readonly cassette: string,
+        readonly key: string,
+        readonly request: NormalizedRequest
+    ) {
+        super(message);
+        this.name = 'CassetteMismatchError';
+    }
+}
+
+/** Hash used to match a request against recorded interactions. The model ID is not part of it. */
+export function createCassetteKey(type: CachedResponse['type'], options: CallOptions): string {
+    return hashRequest({ type, ...normalizeRequest(options) });
+}
+
+function toJSON(cassette: Cassette): string {
+    return JSON.stringify(
+        cassette,
+        (_key, value: unknown) =>
+            value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value,
+        2
+    );
+}
+
+function redact(
+    headers: Record<string, string | undefined> | undefined,
+    extra: Set<string>
+): Record<string, string | undefined> | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    return Object.fromEntries(
+        Object.entries(headers).map(([name, value]) =>
+            SENSITIVE_HEADER.test(name) || extra.has(name.toLowerCase())
+                ? [name, '[REDACTED]']
+                : [name, value]
+        )
+    );
+}
+
+/**
+ * Collects interactions and rewrites the cassette file after each one.
+ * Writes are serialized so concurrent calls never interleave.
+ */
+class CassetteRecorder {
+    private readonly interactions: CassetteInteraction[] = [];
+    private readonly redactHeaders: Set<string>;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private readonly options: RecordingProviderOptions) {
+        this.redactHeaders = new Set(options.redactHeaders?.map((name) => name.toLowerCase()));
+    }
+
+    record(model: LanguageModelV3, options: CallOptions, response: CachedResponse): Promise<void> {
+        this.interactions.push({
+            key: createCassetteKey(response.type, options),
+            type: response.type,
+            provider: model.provider,
+            modelId: model.modelId,
+            request: {
+                ...normalizeRequest(options),
+                headers: redact(options.headers, this.redactHeaders),
+            },
+            response,
+        });
+
+        const cassette: Cassette = { version: CASSETTE_VERSION, interactions: this.interactions };
+        const file = this.options.cassette;
+        // A failed write fails its own call only; later writes rewrite the whole file
+        this.writing = this.writing
+            .catch(() => undefined)
+            .then(async () => {
+                await mkdir(path.dirname(file), { recursive: true });
+                await writeFile(file, toJSON(cassette));
+            });
+        return this.writing;
+    }
+
+    wrap(model: LanguageModel): LanguageModel {
+        if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+            throw new Error('Cassette recording requires a v3 LanguageModel instance');
+        }
+        const inner: LanguageModelV3 = model;
+
+        const wrapped: LanguageModelV3 = {
+            specificationVersion: 'v3',
+            provider: inner.provider,
+            modelId: inner.modelId,
+            supportedUrls: inner.supportedUrls,
+            doGenerate: async (options) => {
+                const result = await inner.doGenerate(options);
+                await this.record(inner, options, toCachedGenerate(result));
+                return result;
+            },
+            doStream: async (options) => {
+                const result = await inner.doStream(options);
+                return {
+                    ...result,
+                    stream: recordStream(result.stream, (response) =>
+                        this.record(inner, options, response)
+                    ),
+                };
+            },
+        };
+        return wrapped;
+    }
+}
+
+/**
+ * Provider that forwards calls to a real provider and records them to a cassette.
+ * Fluent methods configure the wrapped provider and keep recording to the same cassette.
+ */
+export class RecordingProvider extends BaseProvider {
+    private readonly inner: BaseProvider;
+    private readonly recorder: CassetteRecorder;
+
+    constructor(provider: BaseProvider, options: RecordingProviderOptions) {
+        super();
+        this.inner = provider;
+        this.recorder = new CassetteRecorder(options);
+    }
+
+    /**
+     * Creates instance for fluent API without calling constructor.
+     * Shares the recorder so every derived provider writes to the same cassette.
+     */
+    private derive(inner: unknown): RecordingProvider {
+        const provider = Object.create(RecordingProvider.prototype) as RecordingProvider;
+        Object.assign(provider, { inner, recorder: this.recorder });
+        return provider;
+    }
+
+    withDefaultModel(modelId: string): RecordingProvider {
+        return this.derive(this.inner.withDefaultModel(modelId));
+    }
+
+    withLogger(logger: Logger): RecordingProvider {
+        return this.derive(this.inner.withLogger(logger));
+    }
+
+    withPricing(pricing: ProviderPricing): RecordingProvider {
+        return this.derive(this.inner.withPricing(pricing));
+    }
+
+    withDefaultOptions(options: Record<string, unknown>): RecordingProvider {
+        return this.derive(this.inner.withDefaultOptions(options));
+    }
+
+    withDefaultGenerationOptions(options: GenerationOptions): RecordingProvider {
+        return this.derive(this.inner.withDefaultGenerationOptions(options));
+    }
+
+    withRetryPolicy(policy: RetryPolicy): RecordingProvider {
+        return this.derive(this.inner.withRetryPolicy(policy));
+    }
+
+    withBudget(budget: Budget): RecordingProvider {
+        return this.derive(this.inner.withBudget(budget));
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): RecordingProvider {
+        return this.derive(this.inner.withResponseCache(cache, options));
+    }
+
+    withContextGuard(options?: ContextGuardOptions): RecordingProvider {
+        return this.derive(this.inner.withContextGuard(options));
+    }
+
+    withToolPolicy(policy: ToolPolicy): RecordingProvider {
+        return this.derive(this.inner.withToolPolicy(policy));
+    }
+
+    withCheckpointStore(store: CheckpointStore): RecordingProvider {
+        return this.derive(this.inner.withCheckpointStore(store));
+    }
+
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+
+    protected createStreamingSession<TEvent extends { type: string }>(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
+    }
+
+    protected getSessionConfig(): ProviderSessionConfig {
+        const config = BaseProvider.sessionConfigOf(this.inner);
+        const { defaultLanguageModel, modelFactory, modelRouter } = config;
+        const recorder = this.recorder;
+
+        return {
+            ...config,
+            defaultLanguageModel: defaultLanguageModel && recorder.wrap(defaultLanguageModel),
+            modelFactory: modelFactory && ((modelId) => recorder.wrap(modelFactory(modelId))),
+            modelRouter:
+                modelRouter &&
+                ((requestedModelId) => {
+                    const routed = modelRouter(requestedModelId);
+                    return { ...routed, model: recorder.wrap(routed.model) };
+                }),
+        };
+    }
+}
+
+/**
+ * Wraps a real provider so every model call is recorded to a cassette file.
+ * Credential headers are redacted before anything is written.
+ */
+export function createRecordingProvider(
+    provider: BaseProvider,
+    options: RecordingProviderOptions
+): RecordingProvider {
+    return new RecordingProvider(provider, options);
+}
+
+/**
+ * Serves recorded responses by request hash. Interactions with the same hash
+ * are replayed in recording order; once used up, the last one is repeated.
+ */
+class CassettePlayer {
+    private loading?: Promise<Map<string, CassetteInteraction[]>>;
+    private readonly used = new Map<string, number>();
+
+    constructor(private readonly file: string) {}
+
+    private load(): Promise<Map<string, CassetteInteraction[]>> {
+        this.loading ??= readFile(this.file, 'utf-8').then((content) => {
+            const cassette = JSON.parse(content) as Cassette;
+            if (cassette.version !== CASSETTE_VERSION) {
+                throw new Error(`Unsupported cassette version ${cassette.version} in ${this.file}`);
+            }
+            const byKey = new Map<string, CassetteInteraction[]>();
+            for (const interaction of cassette.interactions) {
+                byKey.set(interaction.key, [...(byKey.get(interaction.key) ?? []), interaction]);
+            }
+            return byKey;
+        });
+        return this.loading;
+    }
+
+    async next(type: CachedResponse['type'], options: CallOptions): Promise<CachedResponse> {
+        const interactions = await this.load();
+        const key = createCassetteKey(type, options);
+        const matches = interactions.get(key);
+        if (!matches) {
+            throw new CassetteMismatchError(
+                `No recorded ${type} interaction in ${this.file} matches request ${key}. ` +
+                    'Re-record the cassette if the prompt or options changed.',
+                this.file,
+                key,
+                normalizeRequest(options)
+            );
+        }
+
+        const index = this.used.get(key) ?? 0;
+        this.used.set(key, index + 1);
+        return matches[Math.min(index, matches.length - 1)].response;
+    }
+}
+
+/**
+ * Creates a MockProvider that replays a cassette offline.
+ * Requests without a recorded interaction fail with CassetteMismatchError.
+ */
+export function createReplayProvider(options: ReplayProviderOptions): MockProvider {
+    const player = new CassettePlayer(options.cassette);
+
+    return new MockProvider({
+        providerType: options.providerType,
+        modelFactory: (modelId) =>
+            new MockLanguageModelV3({
+                provider: 'cassette',
+                modelId,
+                doGenerate: async (callOptions) => {
+                    const response = await player.next('generate', callOptions);
+                    if (response.type !== 'generate') {
+                        throw new Error('Expected a recorded generate response');
+                    }
+                    const { type: _type, ...result } = response;
+                    return result;
+                },
+                doStream: async (callOptions) => {
+                    const response = await player.next('stream', callOptions);
+                    if (response.type !== 'stream') {
+                        throw new Error('Expected a recorded stream response');
+                    }
+                    return { stream: replayStream(response) };
+                },
+            }),
+    });
+}
@@ -24,6 +24,18 @@ export {
   type MockCall,
 } from './mock-provider.js';
 
+export {
+    RecordingProvider,
+    CassetteMismatchError,
+    createRecordingProvider,
+    createReplayProvider,
+    createCassetteKey,
+    type Cassette,
+    type CassetteInteraction,
+    type RecordingProviderOptions,
+    type ReplayProviderOptions,
+} from './cassette.js';
+
 export { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
 
 // Execution testing helpers (framework-agnostic)
@@ -1,4 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
+import { BudgetExceededError, ConfigurationError } from '../errors/index.js';
+import { InMemoryResponseCache } from '../session/index.js';
 import { mock } from './mock.js';
 import { MockProvider, createMockProvider } from './mock-provider.js';
 import { collectEvents } from './helpers.js';
@@ -317,6 +319,84 @@ describe('MockProvider', () => {
             expect(provider).toBeDefined();
         });
 
+        it('should apply withRetryPolicy to session calls', async () => {
+            const model = mock.text('Recovered');
+            const succeed = model.doGenerate;
+            let failures = 1;
+            model.doGenerate = async (options) => {
+                if (failures-- > 0) {
+                    throw new TypeError('fetch failed');
+                }
+                return succeed(options);
+            };
+            const provider = mock
+                .provider(model)
+                .withRetryPolicy({ maxAttempts: 2, backoff: { initialDelayMs: 0 } });
+
+            const execution = provider.simpleExecution(async (session) => {
+                const { text } = await session.generateText({ prompt: 'Test' });
+                return text;
+            });
+            const result = await execution.result();
+
+            expect(result.status).toBe('succeeded');
+            expect(provider.getCalls()).toHaveLength(2);
+            expect(result.summary.llmCallCount).toBe(2);
+        });
+
+        it('should fail the execution with BudgetExceededError when withBudget is exhausted', async () => {
+            const provider = mock.provider(mock.text('Response')).withBudget({ maxLLMCalls: 1 });
+
+            const execution = provider.simpleExecution(async (session) => {
+                await session.generateText({ prompt: 'First' });
+                await session.generateText({ prompt: 'Second' });
+            });
+            const result = await execution.result();
+
+            expect(result.status).toBe('failed');
+            expect(result.status === 'failed' && result.error).toBeInstanceOf(BudgetExceededError);
+            expect(provider.getCalls()).toHaveLength(1);
+        });
+
+        it('should let ExecutionOptions.budget override the provider budget per limit', async () => {
+            const provider = mock
+                .provider(mock.text('Response'))
+                .withBudget({ maxLLMCalls: 1, maxCostUSD: 10 });
+
+            const execution = provider.simpleExecution(
+                async (session) => {
+                    await session.generateText({ prompt: 'First' });
+                    await session.generateText({ prompt: 'Second' });
+                },
+                { budget: { maxLLMCalls: 2 } }
+            );
+
+            expect((await execution.result()).status).toBe('succeeded');
+            expect(() => provider.simpleExecution(async () => {}, { budget: { maxCostUSD: -1 } })).toThrow(
+                ConfigurationError
+            );
+        });
+
+        it('should replay cached responses across executions with withResponseCache', async () => {
+            const provider = mock
+                .provider(mock.text('Response'))
+                .withResponseCache(new InMemoryResponseCache());
+            const run = () =>
+                provider
+                    .simpleExecution(async (session) => {
+                        const { text } = await session.generateText({ prompt: 'Test' });
+                        return text;
+                    })
+                    .result();
+
+            await run();
+            const result = await run();
+
+            expect(result.status === 'succeeded' && result.value).toBe('Response');
+            expect(provider.getCalls()).toHaveLength(1);
+            expect(result.summary.llmCalls[0].cached).toBe(true);
+        });
+
         it('should share call tracking across fluent API calls', async () => {
             const baseProvider = mock.provider(mock.text('Response'));
             const configuredProvider = baseProvider.withDefaultModel('test-model').withLogger({});
@@ -24,8 +24,28 @@ import { MockLanguageModelV3 } from 'ai/test';
 import type { Logger } from '../observability/logger.js';
 import { noopLogger } from '../observability/logger.js';
 import type { ProviderPricing } from '../pricing/index.js';
-import { BaseProvider } from '../provider/base-provider.js';
-import type { GenerationOptions } from '../session/index.js';
+import {
+    BaseProvider,
+    type ExecutionSessionOverrides,
+    type ProviderSessionConfig,
+} from '../provider/base-provider.js';
+import type {
+    Budget,
+    CheckpointStore,
+    ContextGuardOptions,
+    GenerationOptions,
+    ResponseCache,
+    ResponseCacheConfig,
+    ResponseCacheOptions,
+    RetryPolicy,
+    ToolPolicy,
+} from '../session/index.js';
+import {
+    validateBudget,
+    validateContextGuard,
+    validateRetryPolicy,
+    validateToolPolicy,
+} from '../session/index.js';
 import { SimpleSession } from '../session/simple-session.js';
 import { StreamingSession } from '../session/streaming-session.js';
 import { NoOpFileManager } from '../provider/noop-file-manager.js';
@@ -41,6 +61,21 @@ export interface MockProviderConfig {
     providerType?: string;
 }
 
+interface MockProviderState {
+    modelSource: MockLanguageModelV3 | ModelFactory;
+    fileManagerInstance: FileManager;
+    loggerInstance: Logger;
+    defaultModelId: string | null;
+    pricingConfig?: ProviderPricing;
+    providerTypeId: string;
+    retryPolicy?: RetryPolicy;
+    budget?: Budget;
+    responseCache?: ResponseCacheConfig;
+    contextGuard?: ContextGuardOptions;
+    toolPolicy?: ToolPolicy;
+    checkpointStore?: CheckpointStore;
+}
+
 export interface MockCall {
     modelId: string;
     type: 'generate' | 'stream';
@@ -56,6 +91,12 @@ export class MockProvider extends BaseProvider {
     private readonly defaultModelId: string | null;
     private readonly pricingConfig?: ProviderPricing;
     private readonly providerTypeId: string;
+    private readonly retryPolicy?: RetryPolicy;
+    private readonly budget?: Budget;
+    private readonly responseCache?: ResponseCacheConfig;
+    private readonly contextGuard?: ContextGuardOptions;
+    private readonly toolPolicy?: ToolPolicy;
+    private readonly checkpointStore?: CheckpointStore;
 
     constructor(config: MockProviderConfig) {
         super();
@@ -75,26 +116,25 @@ export class MockProvider extends BaseProvider {
      * Creates instance for fluent API without calling constructor.
      * Shares calls array between fluent instances for tracking.
      */
-    private static createWithConfig(
-        modelSource: MockLanguageModelV3 | ModelFactory,
-        fileManager: FileManager,
-        logger: Logger,
-        defaultModelId: string | null,
-        pricingConfig: ProviderPricing | undefined,
-        providerType: string,
-        existingCalls: MockCall[]
-    ): MockProvider {
+    private derive(overrides: Partial<MockProviderState>): MockProvider {
         const provider = Object.create(MockProvider.prototype) as MockProvider;
 
-        Object.assign(provider, {
-            modelSource,
-            fileManagerInstance: fileManager,
-            loggerInstance: logger,
-            defaultModelId,
-            pricingConfig,
-            providerTypeId: providerType,
-            calls: existingCalls,
-        });
+        const state: MockProviderState = {
+            modelSource: this.modelSource,
+            fileManagerInstance: this.fileManagerInstance,
+            loggerInstance: this.loggerInstance,
+            defaultModelId: this.defaultModelId,
+            pricingConfig: this.pricingConfig,
+            providerTypeId: this.providerTypeId,
+            retryPolicy: this.retryPolicy,
+            budget: this.budget,
+            responseCache: this.responseCache,
+            contextGuard: this.contextGuard,
+            toolPolicy: this.toolPolicy,
+            checkpointStore: this.checkpointStore,
+            ...overrides,
+        };
+        Object.assign(provider, { ...state, calls: this.calls });
 
         return provider;
     }
@@ -108,39 +148,47 @@ export class MockProvider extends BaseProvider {
     }
 
     withDefaultModel(modelId: string): MockProvider {
-        return MockProvider.createWithConfig(
-            this.modelSource,
-            this.fileManagerInstance,
-            this.loggerInstance,
-            modelId,
-            this.pricingConfig,
-            this.providerTypeId,
-            this.calls
-        );
+        return this.derive({ defaultModelId: modelId });
     }
 
     withLogger(logger: Logger): MockProvider {
-        return MockProvider.createWithConfig(
-            this.modelSource,
-            this.fileManagerInstance,
-            logger,
-            this.defaultModelId,
-            this.pricingConfig,
-            this.providerTypeId,
-            this.calls
-        );
+        return this.derive({ loggerInstance: logger });
     }
 
     withPricing(pricing: ProviderPricing): MockProvider {
-        return MockProvider.createWithConfig(
-            this.modelSource,
-            this.fileManagerInstance,
-            this.loggerInstance,
-            this.defaultModelId,
-            pricing,
-            this.providerTypeId,
-            this.calls
-        );
+        return this.derive({ pricingConfig: pricing });
+    }
+
+    /**
+     * Applies the retry policy like real providers, so retry behavior can be tested
+     * with models that fail before succeeding.
+     */
+    withRetryPolicy(policy: RetryPolicy): MockProvider {
+        validateRetryPolicy(policy);
+        return this.derive({ retryPolicy: policy });
+    }
+
+    withBudget(budget: Budget): MockProvider {
+        validateBudget(budget);
+        return this.derive({ budget });
+    }
+
+    withResponseCache(cache: ResponseCache, options?: ResponseCacheOptions): MockProvider {
+        return this.derive({ responseCache: { ...options, cache } });
+    }
+
+    withContextGuard(options: ContextGuardOptions = {}): MockProvider {
+        validateContextGuard(options);
+        return this.derive({ contextGuard: options });
+    }
+
+    withToolPolicy(policy: ToolPolicy): MockProvider {
+        validateToolPolicy(policy);
+        return this.derive({ toolPolicy: policy });
+    }
+
+    withCheckpointStore(store: CheckpointStore): MockProvider {
+        return this.derive({ checkpointStore: store });
     }
 
     /**
@@ -157,17 +205,20 @@ export class MockProvider extends BaseProvider {
         return this;
     }
 
-    protected createSimpleSession(signal?: AbortSignal): SimpleSession {
-        return new SimpleSession({ ...this.buildSessionConfig(), signal });
+    protected createSimpleSession(
+        signal?: AbortSignal,
+        overrides?: ExecutionSessionOverrides
+    ): SimpleSession {
+        return new SimpleSession({ ...this.getSessionConfig(), ...overrides, signal });
     }
 
     protected createStreamingSession<
         TEvent extends { type: string },
-    >(signal?: AbortSignal): StreamingSession<TEvent> {
-        return new StreamingSession<TEvent>({ ...this.buildSessionConfig(), signal });
+    >(signal?: AbortSignal, overrides?: ExecutionSessionOverrides): StreamingSession<TEvent> {
+        return new StreamingSession<TEvent>({ ...this.getSessionConfig(), ...overrides, signal });
     }
 
-    private buildSessionConfig() {
+    protected getSessionConfig(): ProviderSessionConfig {
         const effectiveModelId = this.defaultModelId ?? 'default';
         return {
             defaultLanguageModel: this.createTrackingModel(effectiveModelId),
@@ -176,6 +227,12 @@ export class MockProvider extends BaseProvider {
             providerPricing: this.pricingConfig,
             fileManager: this.fileManagerInstance,
             logger: this.loggerInstance,
+            retryPolicy: this.retryPolicy,
+            budget: this.budget,
+            responseCache: this.responseCache,
+            contextGuard: this.contextGuard,
+            toolPolicy: this.toolPolicy,
+            checkpointStore: this.checkpointStore,
         };
     }
 
@@ -5,6 +5,7 @@ import type {
     ExtractResult,
     EmittableEventInput,
     ErrorEvent,
+    StreamOptions,
 } from '../execution/types.js';
 import type { EventMetrics } from '../observability/index.js';
 import { SessionSummary } from '../session/types.js';
@@ -13,6 +14,16 @@ function createTestMetrics(): EventMetrics {
     return { timestamp: Date.now(), elapsedMs: 0, deltaMs: 0 };
 }
 
+function selectEvents<TEvent extends { type: string }>(
+    events: SessionEvent<TEvent | ErrorEvent>[],
+    options: StreamOptions<TEvent> = {},
+): SessionEvent<TEvent | ErrorEvent>[] {
+    const types = options.types as readonly string[] | undefined;
+    return events
+        .slice(Math.max(0, options.fromIndex ?? 0))
+        .filter((event) => !types || types.includes(event.type));
+}
+
 export function createTestExecution<TEvent extends { type: string }>(
     result: ExtractResult<TEvent>,
     events: EmittableEventInput<TEvent>[] = [],
@@ -34,14 +45,15 @@ export function createTestExecution<TEvent extends { type: string }>(
     ];
 
     return {
-        stream(): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        stream(options?: StreamOptions<TEvent>): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+            const events = selectEvents(allEvents, options);
             return {
                 [Symbol.asyncIterator]() {
                     let index = 0;
                     return {
                         async next() {
-                            if (index < allEvents.length) {
-                                return { value: allEvents[index++], done: false };
+                            if (index < events.length) {
+                                return { value: events[index++], done: false };
                             }
                             return { value: undefined, done: true };
                         },
@@ -56,6 +68,8 @@ export function createTestExecution<TEvent extends { type: string }>(
             return { status: 'succeeded', value: result, events: allEvents, summary };
         },
 
+        approve: () => false,
+        reject: () => false,
         cancel() {},
         async cleanup() {},
         async [Symbol.asyncDispose]() {},
@@ -89,14 +103,15 @@ export function createTestErrorExecution<TEvent extends { type: string }>(
     ];
 
     return {
-        stream(): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        stream(options?: StreamOptions<TEvent>): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+            const events = selectEvents(allEvents, options);
             return {
                 [Symbol.asyncIterator]() {
                     let index = 0;
                     return {
                         async next() {
-                            if (index < allEvents.length) {
-                                return { value: allEvents[index++], done: false };
+                            if (index < events.length) {
+                                return { value: events[index++], done: false };
                             }
                             return { value: undefined, done: true };
                         },
@@ -111,6 +126,8 @@ export function createTestErrorExecution<TEvent extends { type: string }>(
             return { status: 'failed', error, events: allEvents, summary };
         },
 
+        approve: () => false,
+        reject: () => false,
         cancel() {},
         async cleanup() {},
         async [Symbol.asyncDispose]() {},
@@ -127,14 +144,15 @@ export function createTestCanceledExecution<TEvent extends { type: string }>(
     );
 
     return {
-        stream(): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+        stream(options?: StreamOptions<TEvent>): AsyncIterable<SessionEvent<TEvent | ErrorEvent>> {
+            const events = selectEvents(allEvents, options);
             return {
                 [Symbol.asyncIterator]() {
                     let index = 0;
                     return {
                         async next() {
-                            if (index < allEvents.length) {
-                                return { value: allEvents[index++], done: false };
+                            if (index < events.length) {
+                                return { value: events[index++], done: false };
                             }
                             return { value: undefined, done: true };
                         },
@@ -149,6 +167,8 @@ export function createTestCanceledExecution<TEvent extends { type: string }>(
             return { status: 'canceled', events: allEvents, summary };
         },
 
+        approve: () => false,
+        reject: () => false,
         cancel() {},
         async cleanup() {},
         async [Symbol.asyncDispose]() {},